@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, X, Pencil, Check, Landmark } from 'lucide-react';
+import { AccountService } from '../lib/client';
+import { formatCurrency } from '../lib/currency';
+import { ACCOUNT_TYPES } from '../lib/accounts';
+import { Account, AccountBalance, AccountType } from '../lib/types';
+import { fieldClass } from './ui';
+
+// Where the money lives: balances per account and the net across all of them
+export const AccountsPanel = ({ currency, onClose, onChanged }: { currency: string; onClose: () => void; onChanged: () => Promise<void> }) => {
+  const emptyForm = { name: '', type: 'checking' as AccountType, currency, openingBalance: '' };
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const res = await AccountService.getAll();
+    if (res.data) setAccounts(res.data);
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const save = async () => {
+    const payload = { name: form.name, type: form.type, currency: form.currency, openingBalance: parseFloat(form.openingBalance) || 0 };
+    const res = editingId ? await AccountService.update(editingId, payload) : await AccountService.create(payload);
+    if (res.error) {
+      setError(res.error);
+      return;
+    }
+    setError(null);
+    setEditingId(null);
+    setForm(emptyForm);
+    await Promise.all([load(), onChanged()]);
+  };
+
+  const edit = (account: Account) => {
+    setEditingId(account.id);
+    setForm({ name: account.name, type: account.type, currency: account.currency, openingBalance: String(account.openingBalance) });
+  };
+
+  const remove = async (id: string) => {
+    const res = await AccountService.delete(id);
+    setError(res.error || null);
+    if (!res.error) await Promise.all([load(), onChanged()]);
+  };
+
+  const sectionLabel = "text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block mb-4";
+  const net = accounts.reduce((sum, a) => sum + a.convertedBalance, 0);
+
+  return (
+    <>
+      <div className="p-10 border-b border-white/5 flex justify-between items-center bg-voidLight/20">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-neonGreen/10 flex items-center justify-center border border-neonGreen/20"><Landmark className="text-neonGreen" size={28} /></div>
+          <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Account_Grid</h2><span className="text-[10px] text-neonGreen font-black tracking-[0.4em] uppercase opacity-70">BALANCES · NET_WORTH</span></div>
+        </div>
+        <button onClick={onClose} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-10 space-y-12 custom-scroll">
+        <section>
+          <span className={sectionLabel}>Net_Balance</span>
+          <div className={`text-4xl font-black tracking-tighter ${net < 0 ? 'text-neonRed' : 'text-white'}`}>{formatCurrency(net, currency)}</div>
+        </section>
+
+        <section>
+          <span className={sectionLabel}>Accounts</span>
+          {accounts.length === 0 && <div className="text-[10px] font-black uppercase tracking-widest text-gray-700">No accounts yet. Add one to track balances and transfers.</div>}
+          <div className="space-y-3">
+            {accounts.map(a => (
+              <div key={a.id} className="flex items-center justify-between p-4 rounded-2xl bg-white/[0.02] border border-white/5 group/account">
+                <div className="min-w-0">
+                  <div className="text-sm font-black text-white truncate">{a.name}</div>
+                  <div className="text-[9px] font-black uppercase tracking-widest text-gray-600">{ACCOUNT_TYPES.find(t => t.id === a.type)?.label} · {a.currency}</div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <div className={`text-lg font-black ${a.balance < 0 ? 'text-neonRed' : 'text-neonGreen'}`}>{formatCurrency(a.balance, a.currency)}</div>
+                    {a.currency !== currency && <div className="text-[9px] font-black text-gray-600 uppercase">{formatCurrency(a.convertedBalance, currency)}</div>}
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover/account:opacity-100 transition-all">
+                    <button onClick={() => edit(a)} className="p-2 text-gray-500 hover:text-neonBlue hover:bg-neonBlue/10 rounded-xl transition-all"><Pencil size={14} /></button>
+                    <button onClick={() => remove(a.id)} className="p-2 text-gray-500 hover:text-neonRed hover:bg-neonRed/10 rounded-xl transition-all"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <span className={sectionLabel}>{editingId ? 'Edit_Account' : 'New_Account'}</span>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name" className={fieldClass} />
+            <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as AccountType })} className={fieldClass}>
+              {ACCOUNT_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+            <input value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })} maxLength={3} className={fieldClass} />
+            <input value={form.openingBalance} onChange={(e) => setForm({ ...form, openingBalance: e.target.value })} inputMode="decimal" placeholder="Opening balance" className={fieldClass} />
+          </div>
+          <div className="flex gap-3">
+            {editingId && (
+              <button onClick={() => { setEditingId(null); setForm(emptyForm); }} className="h-12 px-6 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-gray-600 hover:text-white transition-all">Cancel</button>
+            )}
+            <button onClick={save} className="flex-1 h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonGreen hover:border-neonGreen transition-all">
+              {editingId ? <><Check size={14} /> Save_Account</> : <><Plus size={14} /> Add_Account</>}
+            </button>
+          </div>
+          {error && <span className="block mt-3 text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+        </section>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Plus, Trash2, X, Pencil, Check, Tag, Tags, Merge } from 'lucide-react';
+import { CategoryService } from '../lib/client';
+import { CATEGORY_COLORS, CATEGORY_ICONS, categoryTree, isDescendant } from '../lib/categories';
+import { Category } from '../lib/types';
+import { CATEGORY_ICON_COMPONENTS, CategoryIcon, fieldClass } from './ui';
+
+// The user's category tree: nest, recolour, rename (which re-tags everything filed under the old name), merge and remove
+export const CategoryPanel = ({ categories, onClose, onChanged }: { categories: Category[]; onClose: () => void; onChanged: () => Promise<void> }) => {
+  const emptyForm = { name: '', parentId: '', icon: 'tag', color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length] };
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const report = async (res: { error?: string }, message?: string) => {
+    setError(res.error || null);
+    setNotice(res.error ? null : message || null);
+    if (!res.error) await onChanged();
+    return !res.error;
+  };
+
+  const save = async () => {
+    const payload = { name: form.name, parentId: form.parentId, icon: form.icon, color: form.color };
+    const res = editingId ? await CategoryService.update(editingId, payload) : await CategoryService.create(payload);
+    if (await report(res, editingId ? 'Category saved; its transactions and budgets follow' : undefined)) {
+      setEditingId(null);
+      setForm(emptyForm);
+    }
+  };
+
+  const edit = (category: Category) => {
+    setMergingId(null);
+    setEditingId(category.id);
+    setForm({ name: category.name, parentId: category.parentId || '', icon: category.icon, color: category.color });
+  };
+
+  const merge = async () => {
+    const res = await CategoryService.merge(mergingId, mergeTarget);
+    if (await report(res, res.data && `Moved ${res.data.retagged} transaction(s) into ${res.data.category.name}`)) {
+      setMergingId(null);
+      setMergeTarget('');
+    }
+  };
+
+  const remove = async (id: string) => report(await CategoryService.delete(id));
+
+  const sectionLabel = "text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block mb-4";
+  // A category cannot move under itself or one of its own sub-categories
+  const parentOptions = categories.filter(c => !editingId || (c.id !== editingId && !isDescendant(categories, c.id, editingId)));
+
+  return (
+    <>
+      <div className="p-10 border-b border-white/5 flex justify-between items-center bg-voidLight/20">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-neonBlue/10 flex items-center justify-center border border-neonBlue/20"><Tags className="text-neonBlue" size={28} /></div>
+          <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Channel_Tree</h2><span className="text-[10px] text-neonBlue font-black tracking-[0.4em] uppercase opacity-70">CATEGORIES · MERGE · RENAME</span></div>
+        </div>
+        <button onClick={onClose} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-10 space-y-12 custom-scroll">
+        <section>
+          <span className={sectionLabel}>Categories</span>
+          <div className="space-y-2">
+            {categoryTree(categories).map(({ category, depth }) => (
+              <div key={category.id} style={{ marginLeft: depth * 24 }} className="p-3 rounded-2xl bg-white/[0.02] border border-white/5 group/category">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <CategoryIcon category={category} size={16} />
+                    <span className="text-sm font-black text-white truncate">{category.name}</span>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover/category:opacity-100 transition-all">
+                    <button onClick={() => edit(category)} title="Edit" className="p-2 text-gray-500 hover:text-neonBlue hover:bg-neonBlue/10 rounded-xl transition-all"><Pencil size={14} /></button>
+                    <button onClick={() => { setEditingId(null); setMergingId(category.id); setMergeTarget(''); }} title="Merge into another category" className="p-2 text-gray-500 hover:text-neonPurple hover:bg-neonPurple/10 rounded-xl transition-all"><Merge size={14} /></button>
+                    <button onClick={() => remove(category.id)} title="Delete" className="p-2 text-gray-500 hover:text-neonRed hover:bg-neonRed/10 rounded-xl transition-all"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+                {mergingId === category.id && (
+                  <div className="mt-3 flex gap-2">
+                    <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)} className={`${fieldClass} flex-1`}>
+                      <option value="">Merge {category.name} into...</option>
+                      {categories.filter(c => c.id !== category.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <button onClick={() => setMergingId(null)} className="p-2 hover:bg-white/10 rounded-xl transition-all"><X size={14} className="text-gray-500" /></button>
+                    <button disabled={!mergeTarget} onClick={merge} className="p-2 bg-neonPurple/10 border border-neonPurple/30 rounded-xl text-neonPurple hover:bg-neonPurple/20 disabled:opacity-20 transition-all"><Check size={14} /></button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {notice && <span className="block mt-3 text-[9px] font-black text-neonGreen uppercase tracking-widest">{notice}</span>}
+        </section>
+
+        <section>
+          <span className={sectionLabel}>{editingId ? 'Edit_Category' : 'New_Category'}</span>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name" className={fieldClass} />
+            <select value={form.parentId} onChange={(e) => setForm({ ...form, parentId: e.target.value })} className={fieldClass}>
+              <option value="">Top level</option>
+              {parentOptions.map(c => <option key={c.id} value={c.id}>Inside {c.name}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {CATEGORY_ICONS.map(icon => {
+              const Icon = CATEGORY_ICON_COMPONENTS[icon] || Tag;
+              return (
+                <button key={icon} onClick={() => setForm({ ...form, icon })} title={icon} className={`w-10 h-10 rounded-xl border flex items-center justify-center transition-all ${form.icon === icon ? 'border-white/40 bg-white/5' : 'border-white/5 hover:border-white/20'}`}>
+                  <Icon size={16} style={{ color: form.icon === icon ? form.color : '#6b7280' }} />
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-2 mb-4">
+            {CATEGORY_COLORS.map(color => (
+              <button key={color} onClick={() => setForm({ ...form, color })} style={{ backgroundColor: color }} className={`w-8 h-8 rounded-full transition-all ${form.color === color ? 'ring-2 ring-white' : 'opacity-50 hover:opacity-100'}`} />
+            ))}
+            <input type="color" value={form.color} onChange={(e) => setForm({ ...form, color: e.target.value })} className="w-8 h-8 rounded-full bg-transparent cursor-pointer" title="Custom colour" />
+          </div>
+          <div className="flex gap-3">
+            {editingId && (
+              <button onClick={() => { setEditingId(null); setForm(emptyForm); }} className="h-12 px-6 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-gray-600 hover:text-white transition-all">Cancel</button>
+            )}
+            <button onClick={save} className="flex-1 h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonBlue hover:border-neonBlue transition-all">
+              {editingId ? <><Check size={14} /> Save_Category</> : <><Plus size={14} /> Add_Category</>}
+            </button>
+          </div>
+          {error && <span className="block mt-3 text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+        </section>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Download, Repeat, Tags, Search, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { TRANSACTION_SORTS } from '../lib/query';
+import { Account, TransactionType, Category, TransactionQuery, TransactionSort } from '../lib/types';
+import { CategoryIcon, fieldClass } from './ui';
+
+// Filter bar above the Synapse_Log; every change produces a new TransactionQuery
+export const LedgerFilterBar = ({ query, total, categories, accounts, error, onChange, onExport }: {
+  query: TransactionQuery;
+  total: number;
+  categories: Category[];
+  accounts: Account[];
+  error: string | null;
+  onChange: (query: TransactionQuery) => void;
+  onExport: () => void;
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Kept as typed so "coffee, " survives until the next tag is written
+  const [tagText, setTagText] = useState((query.tags || []).join(', '));
+  // Cleared fields are dropped so an untouched bar is an empty query
+  const set = (patch: Partial<TransactionQuery>) =>
+    onChange(Object.fromEntries(Object.entries({ ...query, ...patch }).filter(([, v]) => v !== undefined)));
+  const toggle = <T,>(list: T[] | undefined, value: T) => {
+    const next = (list || []).includes(value) ? list.filter(v => v !== value) : [...(list || []), value];
+    return next.length > 0 ? next : undefined;
+  };
+  const amount = (value: string) => (value === '' ? undefined : Number(value));
+  const chip = (active: boolean) => `h-8 px-3 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${active ? 'border-neonBlue text-neonBlue' : 'border-white/10 text-gray-600 hover:text-white'}`;
+  const activeCount = Object.keys(query).filter(k => k !== 'search' && k !== 'sort').length;
+
+  const reset = () => {
+    setTagText('');
+    onChange({});
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 relative">
+          <Search size={12} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-600" />
+          <input value={query.search || ''} onChange={(e) => set({ search: e.target.value || undefined })} placeholder="Search merchant or note" className={`${fieldClass} w-full pl-8`} />
+        </div>
+        <select value={query.sort || 'date_desc'} onChange={(e) => set({ sort: e.target.value as TransactionSort })} className={fieldClass}>
+          {TRANSACTION_SORTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <button onClick={() => setIsExpanded(!isExpanded)} title="Filters" className={`h-10 px-3 rounded-xl border flex items-center gap-2 text-[9px] font-black transition-all ${isExpanded || activeCount > 0 ? 'border-neonBlue text-neonBlue' : 'border-white/10 text-gray-500 hover:text-white'}`}>
+          <SlidersHorizontal size={14} />{activeCount > 0 && activeCount}
+        </button>
+        <button onClick={onExport} title="Export matching entries as CSV" className="h-10 px-3 rounded-xl border border-white/10 text-gray-500 hover:text-neonGreen hover:border-neonGreen transition-all"><Download size={14} /></button>
+      </div>
+      {isExpanded && (
+        <div className="p-4 rounded-2xl border border-white/5 bg-white/[0.01] space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <input type="date" value={query.startDate || ''} onChange={(e) => set({ startDate: e.target.value || undefined })} className={fieldClass} />
+            <input type="date" value={query.endDate || ''} onChange={(e) => set({ endDate: e.target.value || undefined })} className={fieldClass} />
+            <input type="number" min="0" step="0.01" value={query.minAmount ?? ''} onChange={(e) => set({ minAmount: amount(e.target.value) })} placeholder="Min amount" className={fieldClass} />
+            <input type="number" min="0" step="0.01" value={query.maxAmount ?? ''} onChange={(e) => set({ maxAmount: amount(e.target.value) })} placeholder="Max amount" className={fieldClass} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(['expense', 'income', 'transfer'] as TransactionType[]).map(type => (
+              <button key={type} onClick={() => set({ types: toggle(query.types, type) })} className={chip(!!query.types?.includes(type))}>{type}</button>
+            ))}
+            <button onClick={() => set({ recurringOnly: query.recurringOnly ? undefined : true })} className={`${chip(!!query.recurringOnly)} flex items-center gap-1`}><Repeat size={10} /> Recurring</button>
+            {accounts.length > 0 && (
+              <select value={query.accountId || ''} onChange={(e) => set({ accountId: e.target.value || undefined })} className={`${fieldClass} h-8`}>
+                <option value="">All accounts</option>
+                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {categories.filter(c => !c.parentId).map(c => (
+              <button key={c.id} onClick={() => set({ categories: toggle(query.categories, c.name) })} className={`${chip(!!query.categories?.includes(c.name))} flex items-center gap-1`}>
+                <CategoryIcon category={c} size={10} /> {c.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={tagText}
+              onChange={(e) => {
+                setTagText(e.target.value);
+                const tags = e.target.value.split(',').map(t => t.trim()).filter(Boolean);
+                set({ tags: tags.length > 0 ? tags : undefined });
+              }}
+              placeholder="Tags, comma separated"
+              className={`${fieldClass} flex-1`}
+            />
+            {(['any', 'all'] as const).map(m => (
+              <button key={m} onClick={() => set({ tagMatch: m === 'any' ? undefined : m })} className={chip((query.tagMatch || 'any') === m)}>{m}</button>
+            ))}
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-[9px] font-black uppercase tracking-widest text-gray-600">{total} match{total === 1 ? '' : 'es'}</span>
+            <button onClick={reset} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-neonRed transition-all"><RotateCcw size={10} /> Reset</button>
+          </div>
+        </div>
+      )}
+      {error && <div className="text-[9px] font-black uppercase tracking-widest text-neonRed">{error}</div>}
+    </div>
+  );
+};
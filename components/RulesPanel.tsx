@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Plus, Trash2, X, Pencil, Check, ListFilter, Flag } from 'lucide-react';
+import { RuleService } from '../lib/client';
+import { describeRule } from '../lib/rules';
+import { Category, CategoryRule } from '../lib/types';
+import { fieldClass } from './ui';
+
+// Categorisation rules in the order they run; learned ones come from correcting a category in the ledger
+export const RulesPanel = ({ rules, onClose, onChanged }: { rules: CategoryRule[]; onClose: () => void; onChanged: () => Promise<void> }) => {
+  const emptyForm = { merchant: '', minAmount: '', category: '', tags: '', flag: '', priority: '10' };
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    const payload: Partial<CategoryRule> = {
+      merchant: form.merchant,
+      minAmount: form.minAmount.trim() ? parseFloat(form.minAmount) : null,
+      category: form.category,
+      tags: form.tags.split(',').map(t => t.trim()).filter(Boolean),
+      flag: form.flag,
+      priority: parseFloat(form.priority) || 0
+    };
+    const res = editingId ? await RuleService.update(editingId, payload) : await RuleService.create(payload);
+    setError(res.error || null);
+    if (res.error) return;
+    setEditingId(null);
+    setForm(emptyForm);
+    await onChanged();
+  };
+
+  const edit = (rule: CategoryRule) => {
+    setEditingId(rule.id);
+    setForm({
+      merchant: rule.merchant || '',
+      minAmount: rule.minAmount !== undefined ? String(rule.minAmount) : '',
+      category: rule.category || '',
+      tags: (rule.tags || []).join(', '),
+      flag: rule.flag || '',
+      priority: String(rule.priority)
+    });
+  };
+
+  const toggle = async (rule: CategoryRule) => {
+    await RuleService.update(rule.id, { enabled: !rule.enabled });
+    await onChanged();
+  };
+
+  const remove = async (id: string) => {
+    await RuleService.delete(id);
+    await onChanged();
+  };
+
+  const sectionLabel = "text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block mb-4";
+
+  return (
+    <>
+      <div className="p-10 border-b border-white/5 flex justify-between items-center bg-voidLight/20">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-neonPurple/10 flex items-center justify-center border border-neonPurple/20"><ListFilter className="text-neonPurple" size={28} /></div>
+          <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Routing_Rules</h2><span className="text-[10px] text-neonPurple font-black tracking-[0.4em] uppercase opacity-70">MATCH · CATEGORISE · FLAG</span></div>
+        </div>
+        <button onClick={onClose} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-10 space-y-12 custom-scroll">
+        <section>
+          <span className={sectionLabel}>Rules · Highest_Priority_First</span>
+          {rules.length === 0 && <div className="text-[10px] font-black uppercase tracking-widest text-gray-700">No rules yet. Correct a category in the ledger and one is learned.</div>}
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className={`flex items-center justify-between gap-4 p-3 rounded-2xl bg-white/[0.02] border border-white/5 group/rule ${rule.enabled ? '' : 'opacity-40'}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <input type="checkbox" checked={rule.enabled} onChange={() => toggle(rule)} title="Enabled" className="accent-neonPurple shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-xs font-black text-white truncate">{describeRule(rule)}</div>
+                    <div className="text-[9px] font-black uppercase tracking-widest text-gray-600">
+                      P{rule.priority} · <span className={rule.source === 'learned' ? 'text-neonBlue' : 'text-neonPurple'}>{rule.source}</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex gap-1 opacity-0 group-hover/rule:opacity-100 transition-all shrink-0">
+                  <button onClick={() => edit(rule)} className="p-2 text-gray-500 hover:text-neonBlue hover:bg-neonBlue/10 rounded-xl transition-all"><Pencil size={14} /></button>
+                  <button onClick={() => remove(rule.id)} className="p-2 text-gray-500 hover:text-neonRed hover:bg-neonRed/10 rounded-xl transition-all"><Trash2 size={14} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <span className={sectionLabel}>{editingId ? 'Edit_Rule' : 'New_Rule'}</span>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <input value={form.merchant} onChange={(e) => setForm({ ...form, merchant: e.target.value })} placeholder="Merchant contains" className={fieldClass} />
+            <input value={form.minAmount} onChange={(e) => setForm({ ...form, minAmount: e.target.value })} inputMode="decimal" placeholder="Amount over" className={fieldClass} />
+            <input value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} list="category-names" placeholder="→ Category" className={fieldClass} />
+            <input value={form.tags} onChange={(e) => setForm({ ...form, tags: e.target.value })} placeholder="→ tags, comma separated" className={fieldClass} />
+            <input value={form.flag} onChange={(e) => setForm({ ...form, flag: e.target.value })} placeholder="→ Flag, e.g. Large purchase" className={fieldClass} />
+            <input value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} inputMode="numeric" placeholder="Priority" className={fieldClass} />
+          </div>
+          <div className="flex gap-3">
+            {editingId && (
+              <button onClick={() => { setEditingId(null); setForm(emptyForm); }} className="h-12 px-6 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-gray-600 hover:text-white transition-all">Cancel</button>
+            )}
+            <button onClick={save} className="flex-1 h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonPurple hover:border-neonPurple transition-all">
+              {editingId ? <><Check size={14} /> Save_Rule</> : <><Plus size={14} /> Add_Rule</>}
+            </button>
+          </div>
+          {error && <span className="block mt-3 text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+        </section>
+      </div>
+    </>
+  );
+};
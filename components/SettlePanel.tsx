@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { Trash2, X, Users, HandCoins, Handshake, ArrowRight } from 'lucide-react';
+import { SplitService } from '../lib/client';
+import { formatCurrency } from '../lib/currency';
+import { SELF_PARTICIPANT } from '../lib/splits';
+import { Settlement, PairBalance } from '../lib/types';
+import { fieldClass } from './ui';
+
+// Net balances between everyone the user has shared expenses with, and the payments that settled them
+export const SettlePanel = ({ onClose }: { onClose: () => void }) => {
+  const [summary, setSummary] = useState<{ currency: string, balances: PairBalance[], participants: string[] } | null>(null);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [form, setForm] = useState({ from: '', to: SELF_PARTICIPANT, amount: '', note: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const [balancesRes, settlementsRes] = await Promise.all([SplitService.getBalances(), SplitService.getSettlements()]);
+    if (balancesRes.data) setSummary(balancesRes.data);
+    if (settlementsRes.data) setSettlements(settlementsRes.data);
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const settle = async (payload: Partial<Settlement>) => {
+    const res = await SplitService.settle({ ...payload, currency: summary?.currency });
+    if (res.error) {
+      setError(res.error);
+      return;
+    }
+    setError(null);
+    setForm({ from: '', to: SELF_PARTICIPANT, amount: '', note: '' });
+    await load();
+  };
+
+  const removeSettlement = async (id: string) => {
+    await SplitService.deleteSettlement(id);
+    await load();
+  };
+
+  const sectionLabel = "text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block mb-4";
+  const currency = summary?.currency || 'USD';
+
+  return (
+    <>
+      <div className="p-10 border-b border-white/5 flex justify-between items-center bg-voidLight/20">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-neonPurple/10 flex items-center justify-center border border-neonPurple/20"><Users className="text-neonPurple" size={28} /></div>
+          <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Shared_Ledger</h2><span className="text-[10px] text-neonPurple font-black tracking-[0.4em] uppercase opacity-70">BALANCES · SETTLE_UP</span></div>
+        </div>
+        <button onClick={onClose} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-10 space-y-12 custom-scroll">
+        <section>
+          <span className={sectionLabel}>Net_Balances</span>
+          {summary?.balances.length === 0 && <div className="text-[10px] font-black uppercase tracking-widest text-gray-700">All square. Split a transaction to start tracking.</div>}
+          <div className="space-y-3">
+            {summary?.balances.map(b => (
+              <div key={`${b.debtor}→${b.creditor}`} className="flex items-center justify-between p-4 rounded-2xl bg-white/[0.02] border border-white/5">
+                <div className="flex items-center gap-3 text-sm font-black text-white">
+                  {b.debtor} <ArrowRight size={14} className="text-gray-600" /> {b.creditor}
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className={`text-lg font-black ${b.creditor === SELF_PARTICIPANT ? 'text-neonGreen' : b.debtor === SELF_PARTICIPANT ? 'text-neonRed' : 'text-white'}`}>{formatCurrency(b.amount, currency)}</span>
+                  <button onClick={() => settle({ from: b.debtor, to: b.creditor, amount: b.amount })} title="Record full repayment" className="p-2 text-neonPurple hover:bg-neonPurple/10 rounded-xl transition-all"><HandCoins size={16} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <span className={sectionLabel}>Record_Payment</span>
+          <datalist id="settle-participants">
+            {summary?.participants.map(p => <option key={p} value={p} />)}
+          </datalist>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <input value={form.from} onChange={(e) => setForm({ ...form, from: e.target.value })} list="settle-participants" placeholder="From" className={fieldClass} />
+            <input value={form.to} onChange={(e) => setForm({ ...form, to: e.target.value })} list="settle-participants" placeholder="To" className={fieldClass} />
+            <input value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} inputMode="decimal" placeholder={`Amount (${currency})`} className={fieldClass} />
+            <input value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} placeholder="Note" className={fieldClass} />
+          </div>
+          <button onClick={() => settle({ from: form.from, to: form.to, amount: parseFloat(form.amount), note: form.note })} className="w-full h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonPurple hover:border-neonPurple transition-all">
+            <Handshake size={14} /> Record_Settlement
+          </button>
+          {error && <span className="block mt-3 text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+        </section>
+
+        <section>
+          <span className={sectionLabel}>Settle_History</span>
+          <div className="space-y-2">
+            {settlements.map(s => (
+              <div key={s.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-white/[0.01] border border-white/5 group/settlement">
+                <div className="min-w-0">
+                  <div className="text-xs font-black text-white truncate">{s.from} → {s.to}{s.note && <span className="text-gray-600"> · {s.note}</span>}</div>
+                  <div className="text-[9px] font-black uppercase tracking-widest text-gray-700">{s.date}</div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-black text-neonPurple">{formatCurrency(s.amount, s.currency)}</span>
+                  <button onClick={() => removeSettlement(s.id)} className="opacity-0 group-hover/settlement:opacity-100 text-neonRed transition-all"><Trash2 size={12} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,17 @@
+import { Zap, ArrowRightLeft, Tag, Utensils, Coffee, Car, Plane, Home, Smartphone, Film, HeartPulse, Dumbbell, ShoppingBag, Shirt, Gift, GraduationCap, PawPrint, Banknote, LucideIcon } from 'lucide-react';
+import { Category } from '../lib/types';
+
+// How each icon id in lib/categories.ts is drawn
+export const CATEGORY_ICON_COMPONENTS: Record<string, LucideIcon> = {
+  tag: Tag, utensils: Utensils, coffee: Coffee, car: Car, plane: Plane, home: Home, zap: Zap, smartphone: Smartphone,
+  film: Film, 'heart-pulse': HeartPulse, dumbbell: Dumbbell, 'shopping-bag': ShoppingBag, shirt: Shirt, gift: Gift,
+  'graduation-cap': GraduationCap, 'paw-print': PawPrint, banknote: Banknote, 'arrow-right-left': ArrowRightLeft
+};
+
+export const CategoryIcon = ({ category, size = 14 }: { category?: Category; size?: number }) => {
+  const Icon = CATEGORY_ICON_COMPONENTS[category?.icon] || Tag;
+  return <Icon size={size} style={{ color: category?.color || '#6b7280' }} />;
+};
+
+// Shared look of the small inputs and selects in editors and panels
+export const fieldClass = "h-10 bg-void border border-white/10 rounded-xl px-3 text-xs font-bold text-white focus:border-neonBlue outline-none";
@@ -3,22 +3,216 @@ import { createRoot } from 'react-dom/client';
 import { motion, AnimatePresence, LayoutGroup } from 'framer-motion';
 import { 
   AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, 
-  PieChart, Pie, Cell 
+  PieChart, Pie, Cell, BarChart, Bar, LineChart, Line
 } from 'recharts';
 import { 
   Wallet, TrendingUp, PieChart as PieIcon, MessageSquare, 
   Camera, Plus, Trash2, Brain, ChevronRight, Zap, 
   Calendar, CreditCard, Sparkles, Send, X, History, 
-  Layers, ArrowUpRight, BarChart3, Scan, Target
+  Layers, ArrowUpRight, BarChart3, Scan, Target, Coins, Pencil, Check, Wand2, FileUp, Database, Download, Upload, AlertTriangle, Repeat, Pause, Play, SkipForward, CalendarClock, Undo2, CircleUser, Lock, LogIn, LogOut, UserPlus, Settings2, Users, ArrowRightLeft, Landmark,
+  Tags, Merge, ListFilter, Flag, Loader2, Copy, Wrench, ChevronDown, Pin, PinOff, Lightbulb, MessageSquarePlus, Square, LucideIcon
 } from 'lucide-react';
-// Architecture Update: Import Services instead of raw DB
-import { TransactionService, BudgetService, AnalyticsService, AuthService } from './lib/api';
-import { askFinancialCoach } from './lib/ai';
-import { Transaction, Budget, AnalyticsSummary } from './lib/types';
+// Architecture Update: Import Services instead of raw DB; lib/client picks the in-browser or REST backend
+import { TransactionService, BudgetService, AnalyticsService, AuthService, CurrencyService, ImportService, BackupService, RecurringService, CoachService, SplitService, CategoryService, RuleService, UNDO_WINDOW_MS } from './lib/client';
+import { formatCurrency, SUPPORTED_CURRENCIES } from './lib/currency';
+import { parseCsv, guessCsvMapping } from './lib/import';
+import { parseTransactionLocally, LOCAL_PARSER_MODEL } from './lib/ruleParser';
+import { checkReceipt, itemsTotal } from './lib/receipts';
+import { SELF_PARTICIPANT } from './lib/splits';
+import { applyRules, withSuggestion, describeRule } from './lib/rules';
+import { findCategory } from './lib/categories';
+import { ANALYTICS_GRANULARITIES } from './lib/analytics';
+import { ALERT_LABELS, activeAlerts } from './lib/anomalies';
+import { parseMarkdown, MarkdownInline } from './lib/markdown';
+import { Transaction, ReceiptItem, Budget, BudgetPeriod, AnalyticsSummary, User, ExchangeRate, CsvColumnMapping, ImportCandidate, ImportFormat, RestoreMode, RecurrenceRule, RecurringSeries, UpcomingBill, ProfileSummary, AiSettings, AiProviderId, SplitMethod, SplitRequest, Account, TransactionType, Category, CategoryRule, TransactionQuery, TransactionPage, AnalyticsGranularity, CategoryDelta, SpendingForecast, AlertKind, TransactionAlert, CoachToolCall, CoachConversation, CoachInsight, CoachMessage, CoachWidget } from './lib/types';
+import { AI_PROVIDERS, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from './lib/aiProviders';
+import { CategoryIcon, fieldClass } from './components/ui';
+import { SettlePanel } from './components/SettlePanel';
+import { AccountsPanel } from './components/AccountsPanel';
+import { CategoryPanel } from './components/CategoryPanel';
+import { RulesPanel } from './components/RulesPanel';
+import { LedgerFilterBar } from './components/LedgerFilterBar';
 
-const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(val);
 const COLORS = ['#00f3ff', '#0aff68', '#ff2a6d', '#bf00ff', '#ffb000'];
 
+const ALERT_ICONS: Record<AlertKind, LucideIcon> = { duplicate: Copy, unusual_amount: TrendingUp, new_merchant: Sparkles };
+
+// A duplicate/anomaly alert with its dismiss button; `detailed` shows the full message instead of the label
+const AlertChip = ({ alert, detailed = false, onDismiss, onMerge }: {
+  alert: TransactionAlert;
+  detailed?: boolean;
+  onDismiss: () => void;
+  onMerge?: () => void;
+}) => {
+  const Icon = ALERT_ICONS[alert.kind];
+  const tone = alert.kind === 'new_merchant' ? 'border-neonBlue/30 text-neonBlue' : 'border-neonRed/30 text-neonRed';
+  return (
+    <span title={alert.message} className={`flex items-center gap-2 px-2 py-0.5 rounded-lg border ${tone} ${detailed ? 'normal-case tracking-normal' : ''}`}>
+      <Icon size={10} /> {detailed ? alert.message : ALERT_LABELS[alert.kind]}
+      {onMerge && <button onClick={onMerge} title="Keep the earlier entry and fold this one into it" className="uppercase tracking-widest hover:text-white transition-colors">Merge</button>}
+      <button onClick={onDismiss} title="Dismiss" className="hover:text-white transition-colors"><X size={10} /></button>
+    </span>
+  );
+};
+
+// Change in a category's spend vs the previous period; rises are bad news, so they show red
+const DeltaBadge = ({ delta }: { delta?: CategoryDelta }) => {
+  if (!delta || delta.percentChange === null || Math.round(delta.percentChange) === 0) return null;
+  return <span className={`ml-2 ${delta.change > 0 ? 'text-neonRed' : 'text-neonGreen'}`}>{delta.change > 0 ? '▲' : '▼'}{Math.abs(Math.round(delta.percentChange))}%</span>;
+};
+
+// One ledger lookup behind a coach answer; opens to show exactly what the model asked for and got back
+const ToolCallTrace = ({ call }: { call: CoachToolCall }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const args = Object.entries(call.args)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`)
+    .join(' · ');
+  return (
+    <div className={`rounded-2xl border ${call.error ? 'border-neonRed/20' : 'border-neonPurple/20'} bg-void/60 text-[10px] font-mono`}>
+      <button onClick={() => setIsOpen(o => !o)} className="w-full flex items-center gap-3 px-4 py-3 text-left">
+        <Wrench size={12} className={call.error ? 'text-neonRed' : 'text-neonPurple'} />
+        <span className="font-black tracking-widest uppercase text-gray-300">{call.name}</span>
+        <span className="flex-1 truncate text-gray-600">{args || 'no arguments'}</span>
+        {call.error && <span className="text-neonRed font-black uppercase tracking-widest">Failed</span>}
+        {isOpen ? <ChevronDown size={12} className="text-gray-600" /> : <ChevronRight size={12} className="text-gray-600" />}
+      </button>
+      {isOpen && (
+        <pre className="px-4 pb-4 max-h-64 overflow-auto custom-scroll text-gray-500 whitespace-pre-wrap break-all">
+          {call.error || JSON.stringify(call.result, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+const Inlines = ({ nodes }: { nodes: MarkdownInline[] }) => (
+  <>
+    {nodes.map((node, i) => {
+      if (node.type === 'text') return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      if (node.type === 'code') return <code key={i} className="px-1.5 py-0.5 rounded-md bg-white/5 text-neonBlue font-mono text-[0.9em]">{node.text}</code>;
+      if (node.type === 'strong') return <strong key={i} className="font-black text-white"><Inlines nodes={node.children} /></strong>;
+      if (node.type === 'em') return <em key={i}><Inlines nodes={node.children} /></em>;
+      return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-neonBlue underline underline-offset-2"><Inlines nodes={node.children} /></a>;
+    })}
+  </>
+);
+
+// Coach replies; lib/markdown.ts only ever yields text nodes, so nothing the model writes becomes HTML
+const Markdown = ({ text, compact = false }: { text: string, compact?: boolean }) => (
+  <div className={compact ? 'space-y-2' : 'space-y-4'}>
+    {parseMarkdown(text).map((block, i) => {
+      switch (block.type) {
+        case 'heading':
+          return <div key={i} className={`font-black uppercase tracking-widest text-white ${block.level === 1 ? 'text-base' : 'text-xs'}`}><Inlines nodes={block.children} /></div>;
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return <List key={i} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-neonPurple`}>{block.items.map((item, j) => <li key={j}><Inlines nodes={item} /></li>)}</List>;
+        }
+        case 'quote':
+          return <blockquote key={i} className="pl-4 border-l-2 border-neonPurple/40 text-gray-400 italic"><Inlines nodes={block.children} /></blockquote>;
+        case 'code':
+          return <pre key={i} className="p-4 rounded-2xl bg-void border border-white/5 text-[11px] font-mono text-gray-400 overflow-x-auto custom-scroll">{block.text}</pre>;
+        case 'table':
+          return (
+            <div key={i} className="overflow-x-auto custom-scroll">
+              <table className="w-full text-xs">
+                <thead><tr>{block.header.map((cell, j) => <th key={j} className="text-left px-3 py-2 text-[9px] font-black uppercase tracking-widest text-gray-500 border-b border-white/10"><Inlines nodes={cell} /></th>)}</tr></thead>
+                <tbody>{block.rows.map((row, j) => <tr key={j}>{row.map((cell, k) => <td key={k} className="px-3 py-2 border-b border-white/5"><Inlines nodes={cell} /></td>)}</tr>)}</tbody>
+              </table>
+            </div>
+          );
+        case 'rule':
+          return <hr key={i} className="border-white/10" />;
+        default:
+          return <p key={i}><Inlines nodes={block.children} /></p>;
+      }
+    })}
+  </div>
+);
+
+const WIDGET_TOOLTIP = { backgroundColor: '#000', border: '1px solid #222', borderRadius: '12px', fontSize: 11 };
+
+// A chart or list embedded in a coach reply, drawn from the lookups behind it
+const CoachWidgetView = ({ widget }: { widget: CoachWidget }) => {
+  const money = (value: number) => formatCurrency(value, widget.currency);
+  let body: React.ReactNode;
+  if (widget.kind === 'category_bars') {
+    const compare = widget.data.some(d => d.previous !== undefined);
+    body = (
+      <div style={{ height: Math.max(widget.data.length * 28, 80) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={widget.data} layout="vertical" margin={{ left: 0, right: 8 }}>
+            <XAxis type="number" hide />
+            <YAxis type="category" dataKey="category" width={96} axisLine={false} tickLine={false} tick={{ fontSize: 9, fill: '#888', fontWeight: 900 }} />
+            <Tooltip formatter={(value: number) => money(value)} cursor={{ fill: 'rgba(255,255,255,0.03)' }} contentStyle={WIDGET_TOOLTIP} />
+            {compare && <Bar dataKey="previous" name="Before" fill="#ffffff22" radius={[0, 4, 4, 0]} />}
+            <Bar dataKey="amount" name={compare ? 'Now' : 'Spent'} fill="#bf00ff" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  } else if (widget.kind === 'trend_line') {
+    body = (
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={widget.data}>
+            <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 8, fill: '#444', fontWeight: 900 }} />
+            <Tooltip formatter={(value: number) => money(value)} contentStyle={WIDGET_TOOLTIP} />
+            <Line type="monotone" dataKey="amount" name="Spent" stroke="#00f3ff" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  } else if (widget.kind === 'budget_gauge') {
+    const scale = Math.max(widget.limit, widget.projected || 0, widget.spent, 1);
+    const over = widget.spent > widget.limit;
+    body = (
+      <div className="space-y-2">
+        <div className="relative h-3 rounded-full bg-white/5 overflow-hidden">
+          {widget.projected !== undefined && <div className="absolute inset-y-0 left-0 bg-neonPurple/20" style={{ width: `${(widget.projected / scale) * 100}%` }} />}
+          <div className={`absolute inset-y-0 left-0 ${over ? 'bg-neonRed' : 'bg-neonGreen'}`} style={{ width: `${(widget.spent / scale) * 100}%` }} />
+          <div className="absolute inset-y-0 w-px bg-white" style={{ left: `${(widget.limit / scale) * 100}%` }} title="Limit" />
+        </div>
+        <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-gray-500">
+          <span className={over ? 'text-neonRed' : ''}>{money(widget.spent)} spent</span>
+          {widget.projected !== undefined && <span className="text-neonPurple">→ {money(widget.projected)}</span>}
+          <span>of {money(widget.limit)}</span>
+        </div>
+      </div>
+    );
+  } else {
+    body = (
+      <div className="space-y-1 max-h-56 overflow-y-auto custom-scroll">
+        {widget.transactions.map((t, i) => (
+          <div key={i} className="flex items-center justify-between gap-3 text-xs">
+            <div className="min-w-0">
+              <div className="font-black text-white truncate">{t.merchant}</div>
+              <div className="text-[9px] font-black uppercase tracking-widest text-gray-700">{t.date} • {t.category}</div>
+            </div>
+            <span className={`shrink-0 font-black ${t.type === 'income' ? 'text-neonGreen' : 'text-gray-300'}`}>{t.type === 'income' ? '+' : ''}{money(t.amount)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return (
+    <div className="p-4 rounded-2xl bg-void/60 border border-white/5 space-y-3">
+      <div className="text-[9px] font-black uppercase tracking-widest text-neonPurple/70">{widget.title}</div>
+      {body}
+    </div>
+  );
+};
+
+// Structured replies block by block; older and plain-text replies as markdown
+const CoachReply = ({ message }: { message: CoachMessage }) => message.blocks?.length ? (
+  <div className="space-y-4">
+    {message.blocks.map((block, i) => block.type === 'markdown'
+      ? <div key={i}><Markdown text={block.text} /></div>
+      : <div key={i}><CoachWidgetView widget={block.widget} /></div>)}
+  </div>
+) : <Markdown text={message.text} />;
+
 const GlassCard = ({ children, className = "", title = "", icon: Icon, delay = 0 }: any) => (
   <motion.div 
     initial={{ opacity: 0, y: 30, scale: 0.98 }}
@@ -36,55 +230,1132 @@ const GlassCard = ({ children, className = "", title = "", icon: Icon, delay = 0
   </motion.div>
 );
 
+const BudgetTrend = ({ periods }: { periods: BudgetPeriod[] }) => (
+  <div className="flex items-end gap-1 h-6">
+    {periods.map(p => {
+      const ratio = p.limit > 0 ? p.spent / p.limit : 1;
+      return (
+        <div key={p.start} title={`${p.start}: ${Math.round(ratio * 100)}%`} className="flex-1 h-full flex items-end">
+          <div style={{ height: `${Math.max(Math.min(ratio, 1), 0.05) * 100}%` }} className={`w-full rounded-sm ${ratio > 1 ? 'bg-neonRed/60' : 'bg-white/10'}`} />
+        </div>
+      );
+    })}
+  </div>
+);
+
+// Entries per Synapse_Log page; more load as the list scrolls
+const LOG_PAGE_SIZE = 30;
+
+const BudgetEditor = ({ initial, currency, onSave, onCancel }: {
+  initial: Partial<Budget>;
+  currency: string; // For new budgets
+  onSave: (draft: Partial<Budget>) => Promise<string | undefined>;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState<Partial<Budget>>({ period: 'monthly', rollover: false, currency, ...initial });
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = await onSave(draft);
+    setError(err || null);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3 p-4 rounded-2xl bg-white/[0.02] border border-neonBlue/20">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.category || ''} onChange={(e) => setDraft({ ...draft, category: e.target.value })} list="category-names" placeholder="Category" className={fieldClass} />
+        <div className="flex gap-2">
+          <input value={draft.limitAmount ?? ''} onChange={(e) => setDraft({ ...draft, limitAmount: parseFloat(e.target.value) || undefined })} placeholder="Limit" inputMode="decimal" className={`${fieldClass} flex-1 min-w-0`} />
+          <select value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value })} className={fieldClass}>
+            {[...new Set([...SUPPORTED_CURRENCIES, draft.currency])].map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <select value={draft.period} onChange={(e) => setDraft({ ...draft, period: e.target.value as Budget['period'], startDay: undefined })} className={fieldClass}>
+          <option value="monthly">Monthly</option>
+          <option value="weekly">Weekly</option>
+        </select>
+        {draft.period === 'monthly' ? (
+          <input type="number" min={1} max={28} value={draft.startDay ?? ''} onChange={(e) => setDraft({ ...draft, startDay: e.target.value ? parseInt(e.target.value, 10) : undefined })} placeholder="Starts on day (1)" className={fieldClass} />
+        ) : (
+          <select value={draft.startDay ?? 1} onChange={(e) => setDraft({ ...draft, startDay: parseInt(e.target.value, 10) })} className={fieldClass}>
+            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((d, i) => <option key={d} value={i}>Starts {d}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500 cursor-pointer">
+          <input type="checkbox" checked={!!draft.rollover} onChange={(e) => setDraft({ ...draft, rollover: e.target.checked })} className="accent-neonBlue" />
+          Rollover
+        </label>
+        <div className="flex gap-2">
+          <button type="button" onClick={onCancel} className="p-2 hover:bg-white/10 rounded-xl transition-all"><X size={14} className="text-gray-500" /></button>
+          <button className="p-2 bg-neonBlue/10 border border-neonBlue/30 rounded-xl text-neonBlue hover:bg-neonBlue/20 transition-all"><Check size={14} /></button>
+        </div>
+      </div>
+      {error && <span className="block text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+    </form>
+  );
+};
+
+const BudgetWizard = ({ currency, onCreate, onSkip }: {
+  currency: string;
+  onCreate: (drafts: Partial<Budget>[]) => Promise<void>;
+  onSkip: () => void;
+}) => {
+  const [rows, setRows] = useState<{ category: string, limitAmount: number, selected: boolean }[] | null>(null);
+
+  useEffect(() => {
+    BudgetService.suggest().then(res => setRows((res.data || []).map(s => ({ ...s, selected: true }))));
+  }, []);
+
+  if (!rows) return <div className="h-full flex items-center justify-center opacity-10"><Target size={40} /></div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-neonBlue">
+        <Wand2 size={14} /> <span>Calibrate_Thresholds</span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-[10px] font-bold text-gray-600">No spending yet to learn from. Define a threshold manually.</p>
+      ) : (
+        <>
+          <p className="text-[10px] font-bold text-gray-600">Suggested monthly limits from your recent spending ({currency}).</p>
+          {rows.map((r, i) => (
+            <div key={r.category} className="flex items-center gap-3">
+              <input type="checkbox" checked={r.selected} onChange={(e) => setRows(rows.map((x, j) => j === i ? { ...x, selected: e.target.checked } : x))} className="accent-neonBlue" />
+              <span className="flex-1 text-[10px] font-black uppercase text-white tracking-widest">{r.category}</span>
+              <input value={r.limitAmount} onChange={(e) => setRows(rows.map((x, j) => j === i ? { ...x, limitAmount: parseFloat(e.target.value) || 0 } : x))} inputMode="decimal" className={`${fieldClass} w-24 text-right`} />
+            </div>
+          ))}
+        </>
+      )}
+      <div className="flex gap-2">
+        {rows.some(r => r.selected) && (
+          <button onClick={() => onCreate(rows.filter(r => r.selected).map(r => ({ category: r.category, limitAmount: r.limitAmount, period: 'monthly' })))} className="flex-1 h-10 bg-neonBlue/10 border border-neonBlue/30 rounded-xl text-[10px] font-black uppercase tracking-widest text-neonBlue hover:bg-neonBlue/20 transition-all">Create</button>
+        )}
+        <button onClick={onSkip} className="flex-1 h-10 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-500 hover:bg-white/5 transition-all">Start_Blank</button>
+      </div>
+    </div>
+  );
+};
+
+const ImportPanel = ({ accounts, onClose, onImported }: { accounts: Account[]; onClose: () => void; onImported: () => Promise<void> }) => {
+  const [accountId, setAccountId] = useState('');
+  const [file, setFile] = useState<{ name: string, text: string, format: ImportFormat } | null>(null);
+  const [header, setHeader] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const runPreview = async (text: string, format: ImportFormat, map?: CsvColumnMapping) => {
+    setIsBusy(true);
+    try {
+      const res = await ImportService.preview(text, format, map);
+      setCandidates(res.data?.candidates || []);
+      setErrors([...(res.error ? [res.error] : []), ...(res.data?.errors || [])]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (!f) return;
+    const text = await f.text();
+    const format = ImportService.detectFormat(f.name, text);
+    setFile({ name: f.name, text, format });
+
+    let map: CsvColumnMapping | undefined;
+    if (format === 'csv') {
+      const table = parseCsv(text);
+      const first = table[0] || [];
+      map = guessCsvMapping(first, table.slice(1));
+      setHeader(first);
+      setMapping(map);
+    } else {
+      setHeader([]);
+      setMapping(null);
+    }
+    await runPreview(text, format, map);
+  };
+
+  const commit = async () => {
+    setIsBusy(true);
+    try {
+      const res = await ImportService.commit(candidates, accountId || undefined);
+      if (res.error) {
+        setErrors([res.error]);
+        return;
+      }
+      await onImported();
+      onClose();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const columnSelect = (key: keyof CsvColumnMapping, optional = false) => (
+    <label className="flex flex-col gap-1">
+      <span className="text-[8px] font-black uppercase tracking-widest text-gray-600">{key}</span>
+      <select value={(mapping?.[key] as number) ?? ''} onChange={(e) => setMapping({ ...mapping, [key]: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })} className={fieldClass}>
+        {optional && <option value="">--</option>}
+        {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+      </select>
+    </label>
+  );
+
+  const selectedCount = candidates.filter(c => c.selected).length;
+
+  return (
+    <>
+      <div className="p-10 border-b border-white/5 flex justify-between items-center bg-voidLight/20">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-neonBlue/10 flex items-center justify-center border border-neonBlue/20"><FileUp className="text-neonBlue" size={28} /></div>
+          <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Ledger_Ingest</h2><span className="text-[10px] text-neonBlue font-black tracking-[0.4em] uppercase opacity-70">CSV · OFX · QFX · QIF</span></div>
+        </div>
+        <button onClick={onClose} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-10 space-y-8 custom-scroll">
+        <input type="file" ref={inputRef} onChange={handleFile} accept=".csv,.ofx,.qfx,.qif,text/csv" className="hidden" />
+        <button onClick={() => inputRef.current?.click()} className="w-full py-8 border border-dashed border-white/10 rounded-3xl text-[10px] font-black uppercase tracking-widest text-gray-500 hover:border-neonBlue hover:text-neonBlue transition-all">
+          {file ? `${file.name} (${file.format.toUpperCase()})` : 'Select_Statement_File'}
+        </button>
+
+        {file?.format === 'csv' && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              {columnSelect('date')}
+              {columnSelect('merchant')}
+              {columnSelect('amount', true)}
+              {columnSelect('debit', true)}
+              {columnSelect('credit', true)}
+              {columnSelect('description', true)}
+              {columnSelect('category', true)}
+              {columnSelect('currency', true)}
+              <label className="flex flex-col gap-1">
+                <span className="text-[8px] font-black uppercase tracking-widest text-gray-600">date order</span>
+                <select value={mapping.dateOrder} onChange={(e) => setMapping({ ...mapping, dateOrder: e.target.value as CsvColumnMapping['dateOrder'] })} className={fieldClass}>
+                  <option value="YMD">YYYY-MM-DD</option>
+                  <option value="MDY">MM/DD/YYYY</option>
+                  <option value="DMY">DD/MM/YYYY</option>
+                </select>
+              </label>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex gap-4">
+                <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500">
+                  <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })} className="accent-neonBlue" /> Header_Row
+                </label>
+                <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500">
+                  <input type="checkbox" checked={mapping.decimalSeparator === ','} onChange={(e) => setMapping({ ...mapping, decimalSeparator: e.target.checked ? ',' : '.' })} className="accent-neonBlue" /> Decimal_Comma
+                </label>
+              </div>
+              <button onClick={() => runPreview(file.text, file.format, mapping)} className="px-4 h-10 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonBlue hover:border-neonBlue transition-all">Re-map</button>
+            </div>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map((err, i) => <div key={i} className="text-[9px] font-black text-neonRed uppercase tracking-widest">{err}</div>)}
+          </div>
+        )}
+
+        {candidates.length > 0 && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[8px] font-black uppercase tracking-widest text-gray-600 text-left">
+                <th className="pb-3"></th><th className="pb-3">Date</th><th className="pb-3">Merchant</th><th className="pb-3">Category</th><th className="pb-3 text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((c, i) => (
+                <tr key={c.line} className={`border-t border-white/5 ${c.selected ? 'text-white' : 'text-gray-700'}`}>
+                  <td className="py-2 pr-2">
+                    <input type="checkbox" checked={c.selected} onChange={(e) => setCandidates(candidates.map((x, j) => j === i ? { ...x, selected: e.target.checked } : x))} className="accent-neonBlue" />
+                  </td>
+                  <td className="py-2 font-bold">{c.transaction.date}</td>
+                  <td className="py-2 font-bold truncate max-w-[160px]">
+                    {c.transaction.merchant}
+                    {c.duplicateOf && <span className="ml-2 text-[8px] font-black text-neonRed uppercase">dup</span>}
+                    {activeAlerts(c.transaction).map(a => (
+                      <span key={a.kind} title={a.message} className={`ml-2 text-[8px] font-black uppercase ${a.kind === 'new_merchant' ? 'text-neonBlue' : 'text-neonRed'}`}>{ALERT_LABELS[a.kind]}</span>
+                    ))}
+                    {c.isCredit && <span className="ml-2 text-[8px] font-black text-neonGreen uppercase">in</span>}
+                  </td>
+                  <td className="py-2 text-neonPurple font-bold">{c.transaction.category || '---'}</td>
+                  <td className="py-2 text-right font-black">{formatCurrency(c.transaction.amount || 0, c.transaction.currency || 'USD')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div className="p-10 bg-voidLight/60 backdrop-blur-3xl border-t border-white/5 space-y-4">
+        {accounts.length > 0 && (
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={`${fieldClass} w-full`}>
+            <option value="">No account</option>
+            {accounts.map(a => <option key={a.id} value={a.id}>Into {a.name}</option>)}
+          </select>
+        )}
+        <button disabled={isBusy || selectedCount === 0} onClick={commit} className="w-full h-16 bg-neonBlue text-void font-black rounded-3xl uppercase tracking-[0.3em] text-xs disabled:opacity-20 transition-all">
+          {isBusy ? 'Processing...' : `Import ${selectedCount} Rows`}
+        </button>
+      </div>
+    </>
+  );
+};
+
+const TransactionEditor = ({ tx, accounts, onSave, onCancel }: {
+  tx: Transaction;
+  accounts: Account[];
+  onSave: (patch: Partial<Transaction>) => Promise<string | undefined>;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState({
+    type: tx.type,
+    accountId: tx.accountId || '',
+    toAccountId: tx.toAccountId || '',
+    merchant: tx.merchant,
+    amount: String(tx.amount),
+    currency: tx.currency,
+    category: tx.category,
+    date: tx.date.split('T')[0],
+    description: tx.description,
+    tags: tx.tags.join(', '),
+    isRecurring: tx.isRecurring
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = await onSave({
+      type: draft.type,
+      accountId: draft.accountId,
+      toAccountId: draft.type === 'transfer' ? draft.toAccountId : '',
+      merchant: draft.merchant.trim(),
+      amount: parseFloat(draft.amount),
+      currency: draft.currency.trim().toUpperCase(),
+      category: draft.category.trim(),
+      // Keep the stored value when only the format differs
+      date: draft.date === tx.date.split('T')[0] ? tx.date : draft.date,
+      description: draft.description,
+      tags: draft.tags.split(',').map(t => t.trim()).filter(Boolean),
+      isRecurring: draft.isRecurring
+    });
+    setError(err || null);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3 p-4 rounded-2xl bg-white/[0.02] border border-neonBlue/20">
+      <div className="grid grid-cols-3 gap-2">
+        <input value={draft.merchant} onChange={(e) => setDraft({ ...draft, merchant: e.target.value })} placeholder="Merchant" className={`${fieldClass} col-span-2`} />
+        <input value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value })} list="category-names" placeholder="Category" className={fieldClass} />
+        <input value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} inputMode="decimal" placeholder="Amount" className={fieldClass} />
+        <input value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })} maxLength={3} className={fieldClass} />
+        <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className={fieldClass} />
+        <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Description" className={`${fieldClass} col-span-2`} />
+        <input value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="tags, comma separated" className={fieldClass} />
+        <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as TransactionType })} className={fieldClass}>
+          <option value="expense">Expense</option>
+          <option value="income">Income</option>
+          <option value="transfer">Transfer</option>
+        </select>
+        <select value={draft.accountId} onChange={(e) => setDraft({ ...draft, accountId: e.target.value })} className={fieldClass}>
+          <option value="">{draft.type === 'transfer' ? 'From account' : 'No account'}</option>
+          {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+        </select>
+        {draft.type === 'transfer' && (
+          <select value={draft.toAccountId} onChange={(e) => setDraft({ ...draft, toAccountId: e.target.value })} className={fieldClass}>
+            <option value="">To account</option>
+            {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500 cursor-pointer">
+          <input type="checkbox" checked={draft.isRecurring} onChange={(e) => setDraft({ ...draft, isRecurring: e.target.checked })} className="accent-neonBlue" />
+          Recurring
+        </label>
+        <div className="flex gap-2">
+          <button type="button" onClick={onCancel} className="p-2 hover:bg-white/10 rounded-xl transition-all"><X size={14} className="text-gray-500" /></button>
+          <button className="p-2 bg-neonBlue/10 border border-neonBlue/30 rounded-xl text-neonBlue hover:bg-neonBlue/20 transition-all"><Check size={14} /></button>
+        </div>
+      </div>
+      {error && <span className="block text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+      {tx.history?.length > 0 && (
+        <div className="pt-3 border-t border-white/5 space-y-1 max-h-32 overflow-y-auto custom-scroll">
+          {[...tx.history].reverse().map((c, i) => (
+            <div key={i} className="flex justify-between gap-4 text-[9px] font-bold text-gray-600">
+              <span className="truncate"><span className="text-gray-400 uppercase">{c.field}</span> {c.oldValue === undefined ? '—' : JSON.stringify(c.oldValue)} → {JSON.stringify(c.newValue)}</span>
+              <span className="shrink-0 uppercase">{c.actor === 'ai' ? 'AI' : 'You'} • {new Date(c.timestamp).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
+
+// Who shared a transaction and how; participant names autocomplete from earlier splits
+const SplitEditor = ({ tx, participants, onSave, onRemove, onCancel }: {
+  tx: Transaction;
+  participants: string[];
+  onSave: (request: SplitRequest) => Promise<string | undefined>;
+  onRemove: () => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const [method, setMethod] = useState<SplitMethod>(tx.split?.method || 'equal');
+  const [paidBy, setPaidBy] = useState(tx.split?.paidBy || SELF_PARTICIPANT);
+  const [rows, setRows] = useState(tx.split
+    ? tx.split.shares.map(s => ({ participant: s.participant, value: s.value !== undefined ? String(s.value) : '' }))
+    : [{ participant: SELF_PARTICIPANT, value: '' }, { participant: '', value: '' }]);
+  const [error, setError] = useState<string | null>(null);
+  const names = rows.map(r => r.participant.trim()).filter(Boolean);
+
+  const updateRow = (index: number, patch: Partial<{ participant: string, value: string }>) =>
+    setRows(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = await onSave({
+      method,
+      paidBy,
+      shares: rows.map(r => ({ participant: r.participant.trim(), value: method === 'equal' ? undefined : parseFloat(r.value) }))
+    });
+    setError(err || null);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3 p-4 rounded-2xl bg-white/[0.02] border border-neonPurple/20">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] font-black uppercase tracking-widest text-neonPurple">Split · {tx.merchant} · {formatCurrency(tx.amount, tx.currency)}</span>
+        <select value={method} onChange={(e) => setMethod(e.target.value as SplitMethod)} className={fieldClass}>
+          <option value="equal">Equally</option>
+          <option value="percentage">By percentage</option>
+          <option value="exact">Exact amounts</option>
+        </select>
+      </div>
+      <datalist id="split-participants">
+        {participants.map(p => <option key={p} value={p} />)}
+      </datalist>
+      {rows.map((row, i) => (
+        <div key={i} className="grid grid-cols-12 gap-2">
+          <input value={row.participant} onChange={(e) => updateRow(i, { participant: e.target.value })} list="split-participants" placeholder="Name" className={`${fieldClass} col-span-7`} />
+          {method !== 'equal' && (
+            <input value={row.value} onChange={(e) => updateRow(i, { value: e.target.value })} inputMode="decimal" placeholder={method === 'percentage' ? '%' : tx.currency} className={`${fieldClass} col-span-4`} />
+          )}
+          <button type="button" onClick={() => setRows(rows.filter((_, j) => j !== i))} className={`${method === 'equal' ? 'col-start-12' : ''} col-span-1 flex items-center justify-center hover:bg-neonRed/10 rounded-xl transition-all`}><Trash2 size={14} className="text-gray-600" /></button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={() => setRows([...rows, { participant: '', value: '' }])} className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-neonPurple hover:text-white transition-all">
+          <Plus size={12} /> Add_Person
+        </button>
+        <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500">
+          Paid by
+          <select value={paidBy} onChange={(e) => setPaidBy(e.target.value)} className={fieldClass}>
+            {(names.includes(paidBy) ? names : [paidBy, ...names]).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex items-center justify-between">
+        {tx.split ? (
+          <button type="button" onClick={onRemove} className="text-[9px] font-black uppercase tracking-widest text-gray-600 hover:text-neonRed transition-all">Stop_Sharing</button>
+        ) : <span />}
+        <div className="flex gap-2">
+          <button type="button" onClick={onCancel} className="p-2 hover:bg-white/10 rounded-xl transition-all"><X size={14} className="text-gray-500" /></button>
+          <button className="p-2 bg-neonPurple/10 border border-neonPurple/30 rounded-xl text-neonPurple hover:bg-neonPurple/20 transition-all"><Check size={14} /></button>
+        </div>
+      </div>
+      {error && <span className="block text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+    </form>
+  );
+};
+
+// Line items of a scanned receipt; editing an item keeps the subtotal in step with the items
+const ReceiptItemsEditor = ({ draft, onChange, split, onSplitChange }: {
+  draft: Partial<Transaction>;
+  onChange: (draft: Partial<Transaction>) => void;
+  split: boolean;
+  onSplitChange: (split: boolean) => void;
+}) => {
+  const items = draft.items || [];
+  const problems = checkReceipt(draft);
+  const categoryCount = new Set(items.map(i => i.category)).size;
+  const money = (v: string) => (v === '' ? undefined : parseFloat(v));
+
+  const setItems = (next: ReceiptItem[]) => onChange({ ...draft, items: next, subtotal: itemsTotal(next) });
+  const updateItem = (index: number, patch: Partial<ReceiptItem>) => setItems(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  return (
+    <div className="mb-10 space-y-4">
+      <span className="text-[8px] text-gray-600 uppercase font-black tracking-widest block">Line_Items</span>
+      <div className="space-y-2 max-h-56 overflow-y-auto custom-scroll pr-2">
+        {items.map((item, i) => (
+          <div key={i} className="grid grid-cols-12 gap-2">
+            <input value={item.description} onChange={(e) => updateItem(i, { description: e.target.value })} placeholder="Item" className={`${fieldClass} col-span-5`} />
+            <input type="number" min="0" step="any" value={item.quantity} onChange={(e) => updateItem(i, { quantity: parseFloat(e.target.value) || 0 })} title="Quantity" className={`${fieldClass} col-span-2`} />
+            <input type="number" step="0.01" value={item.unitPrice} onChange={(e) => updateItem(i, { unitPrice: parseFloat(e.target.value) || 0 })} title="Unit price" className={`${fieldClass} col-span-2`} />
+            <input value={item.category} onChange={(e) => updateItem(i, { category: e.target.value })} list="category-names" placeholder="Category" className={`${fieldClass} col-span-2`} />
+            <button type="button" onClick={() => setItems(items.filter((_, j) => j !== i))} className="col-span-1 flex items-center justify-center hover:bg-neonRed/10 rounded-xl transition-all"><Trash2 size={14} className="text-gray-600" /></button>
+          </div>
+        ))}
+      </div>
+      <button type="button" onClick={() => setItems([...items, { description: '', quantity: 1, unitPrice: 0, category: draft.category || 'Other' }])} className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-neonBlue hover:text-white transition-all">
+        <Plus size={12} /> Add_Item
+      </button>
+      <div className="grid grid-cols-4 gap-2">
+        {([['Subtotal', 'subtotal'], ['Tax', 'tax'], ['Tip', 'tip'], ['Total', 'amount']] as const).map(([label, field]) => (
+          <label key={field} className="space-y-1">
+            <span className="text-[8px] text-gray-600 uppercase font-black tracking-widest block">{label}</span>
+            <input type="number" step="0.01" value={draft[field] ?? ''} readOnly={field === 'subtotal'} onChange={(e) => onChange({ ...draft, [field]: money(e.target.value) })} className={`${fieldClass} w-full ${field === 'subtotal' ? 'text-gray-500' : ''}`} />
+          </label>
+        ))}
+      </div>
+      {problems.map(p => (
+        <span key={p} className="flex items-center gap-2 text-[9px] font-black text-neonRed uppercase tracking-widest"><AlertTriangle size={12} /> {p}</span>
+      ))}
+      {categoryCount > 1 && (
+        <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500 cursor-pointer">
+          <input type="checkbox" checked={split} onChange={(e) => onSplitChange(e.target.checked)} className="accent-neonBlue" />
+          Split into {categoryCount} transactions by category
+        </label>
+      )}
+    </div>
+  );
+};
+
+const SeriesEditor = ({ series, onSave, onCancel }: {
+  series: RecurringSeries;
+  onSave: (patch: { rule: Partial<RecurrenceRule>, template: Partial<RecurringSeries['template']> }) => Promise<string | undefined>;
+  onCancel: () => void;
+}) => {
+  const [rule, setRule] = useState<Partial<RecurrenceRule>>(series.rule);
+  const [amount, setAmount] = useState(String(series.template.amount));
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = await onSave({ rule, template: { amount: parseFloat(amount) || series.template.amount } });
+    setError(err || null);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3 p-4 rounded-2xl bg-white/[0.02] border border-neonBlue/20">
+      <div className="grid grid-cols-3 gap-2">
+        <select value={rule.frequency} onChange={(e) => setRule({ ...rule, frequency: e.target.value as RecurrenceRule['frequency'] })} className={fieldClass}>
+          {['daily', 'weekly', 'monthly', 'yearly'].map(f => <option key={f} value={f}>{f}</option>)}
+        </select>
+        <input type="number" min={1} value={rule.interval} onChange={(e) => setRule({ ...rule, interval: parseInt(e.target.value, 10) || 1 })} title="Every N periods" className={fieldClass} />
+        <input value={amount} onChange={(e) => setAmount(e.target.value)} inputMode="decimal" title="Amount" className={fieldClass} />
+        {rule.frequency === 'monthly' && (
+          <input type="number" min={1} max={31} value={rule.dayOfMonth ?? ''} onChange={(e) => setRule({ ...rule, dayOfMonth: e.target.value ? parseInt(e.target.value, 10) : undefined })} placeholder="Day of month" className={fieldClass} />
+        )}
+        <input type="date" value={rule.endDate || ''} onChange={(e) => setRule({ ...rule, endDate: e.target.value || undefined })} title="Ends on" className={`${fieldClass} col-span-2`} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="p-2 hover:bg-white/10 rounded-xl transition-all"><X size={14} className="text-gray-500" /></button>
+        <button className="p-2 bg-neonBlue/10 border border-neonBlue/30 rounded-xl text-neonBlue hover:bg-neonBlue/20 transition-all"><Check size={14} /></button>
+      </div>
+      {error && <span className="block text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+    </form>
+  );
+};
+
+const downloadFile = ({ fileName, mimeType, content }: { fileName: string, mimeType: string, content: string }) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const VaultPanel = ({ categories, onClose, onRestored }: { categories: string[]; onClose: () => void; onRestored: () => Promise<void> }) => {
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [filters, setFilters] = useState({ startDate: '', endDate: '', category: '' });
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [report, setReport] = useState<{ ok: boolean, lines: string[] } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const exportLedger = async () => {
+    const res = await BackupService.exportTransactions(exportFormat, {
+      startDate: filters.startDate || undefined,
+      endDate: filters.endDate || undefined,
+      categories: filters.category ? [filters.category] : undefined
+    });
+    if (res.data) downloadFile(res.data);
+  };
+
+  const backup = async () => {
+    const res = await BackupService.createBackup();
+    if (res.data) downloadFile(res.data);
+  };
+
+  const restore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const res = await BackupService.restore(await file.text(), mode);
+    if (res.error) {
+      setReport({ ok: false, lines: [res.error, ...(res.details || [])] });
+      return;
+    }
+    setReport({ ok: true, lines: [`Restored ${res.data.transactions} transactions, ${res.data.budgets} budgets, ${res.data.users} users, ${res.data.rates} rates (${mode})`] });
+    await onRestored();
+  };
+
+  const sectionLabel = "text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block mb-4";
+
+  return (
+    <>
+      <div className="p-10 border-b border-white/5 flex justify-between items-center bg-voidLight/20">
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl bg-neonGreen/10 flex items-center justify-center border border-neonGreen/20"><Database className="text-neonGreen" size={28} /></div>
+          <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Data_Vault</h2><span className="text-[10px] text-neonGreen font-black tracking-[0.4em] uppercase opacity-70">EXPORT · BACKUP · RESTORE</span></div>
+        </div>
+        <button onClick={onClose} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-10 space-y-12 custom-scroll">
+        <section>
+          <span className={sectionLabel}>Ledger_Export</span>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <input type="date" value={filters.startDate} onChange={(e) => setFilters({ ...filters, startDate: e.target.value })} className={fieldClass} />
+            <input type="date" value={filters.endDate} onChange={(e) => setFilters({ ...filters, endDate: e.target.value })} className={fieldClass} />
+            <select value={filters.category} onChange={(e) => setFilters({ ...filters, category: e.target.value })} className={fieldClass}>
+              <option value="">All categories</option>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json')} className={fieldClass}>
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+          <button onClick={exportLedger} className="w-full h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonBlue hover:border-neonBlue transition-all">
+            <Download size={14} /> Export_Transactions
+          </button>
+        </section>
+
+        <section>
+          <span className={sectionLabel}>Full_Backup</span>
+          <button onClick={backup} className="w-full h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonGreen hover:border-neonGreen transition-all">
+            <Download size={14} /> Download_Backup
+          </button>
+        </section>
+
+        <section>
+          <span className={sectionLabel}>Restore</span>
+          <div className="flex gap-3 mb-4">
+            {(['merge', 'replace'] as RestoreMode[]).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={`flex-1 h-10 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${mode === m ? 'border-neonBlue text-neonBlue' : 'border-white/10 text-gray-600'}`}>{m}</button>
+            ))}
+          </div>
+          <input type="file" ref={inputRef} onChange={restore} accept="application/json,.json" className="hidden" />
+          <button onClick={() => inputRef.current?.click()} className="w-full h-12 border border-white/10 rounded-2xl flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonRed hover:border-neonRed transition-all">
+            <Upload size={14} /> Restore_From_File
+          </button>
+          {report && (
+            <div className={`mt-4 p-4 rounded-2xl border space-y-1 max-h-60 overflow-y-auto custom-scroll ${report.ok ? 'border-neonGreen/20 text-neonGreen' : 'border-neonRed/20 text-neonRed'}`}>
+              {report.lines.map((l, i) => <div key={i} className="text-[9px] font-black tracking-widest">{l}</div>)}
+            </div>
+          )}
+        </section>
+      </div>
+    </>
+  );
+};
+
+const RateMatrix = ({ rates, currency, onCurrencyChange, onSave, onDelete }: {
+  rates: ExchangeRate[];
+  currency: string;
+  onCurrencyChange: (currency: string) => void;
+  onSave: (rate: Partial<ExchangeRate>) => Promise<string | undefined>;
+  onDelete: (id: string) => void;
+}) => {
+  const [draft, setDraft] = useState({ base: 'EUR', quote: 'USD', rate: '', date: new Date().toISOString().split('T')[0] });
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = await onSave({ base: draft.base, quote: draft.quote, rate: parseFloat(draft.rate), date: draft.date });
+    setError(err || null);
+    if (!err) setDraft(d => ({ ...d, rate: '' }));
+  };
+
+  return (
+    <div className="flex flex-col gap-4 h-full min-h-0">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Base_Currency</span>
+        <select value={currency} onChange={(e) => onCurrencyChange(e.target.value)} className={fieldClass}>
+          {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scroll min-h-0">
+        {rates.map(r => (
+          <div key={r.id} className="flex items-center justify-between px-4 py-2 rounded-xl bg-white/[0.01] border border-white/[0.04] group">
+            <span className="text-xs font-black text-white">1 {r.base} = {r.rate} {r.quote}</span>
+            <div className="flex items-center gap-3">
+              <span className="text-[9px] font-black text-gray-700">{r.date}</span>
+              <button onClick={() => onDelete(r.id)} className="opacity-0 group-hover:opacity-100 text-neonRed transition-all"><Trash2 size={12} /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={submit} className="flex flex-wrap gap-2 items-center">
+        <input value={draft.base} onChange={(e) => setDraft({ ...draft, base: e.target.value.toUpperCase() })} maxLength={3} className={`${fieldClass} w-16`} />
+        <span className="text-gray-600 text-xs">→</span>
+        <input value={draft.quote} onChange={(e) => setDraft({ ...draft, quote: e.target.value.toUpperCase() })} maxLength={3} className={`${fieldClass} w-16`} />
+        <input value={draft.rate} onChange={(e) => setDraft({ ...draft, rate: e.target.value })} placeholder="rate" inputMode="decimal" className={`${fieldClass} w-24`} />
+        <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className={fieldClass} />
+        <button className="h-10 w-10 bg-neonBlue/10 border border-neonBlue/30 rounded-xl flex items-center justify-center text-neonBlue hover:bg-neonBlue/20 transition-all"><Plus size={16} /></button>
+        {error && <span className="w-full text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</span>}
+      </form>
+    </div>
+  );
+};
+
+const ProfileSwitcher = ({ user, profiles, onSessionChange }: {
+  user: User | null;
+  profiles: ProfileSummary[];
+  onSessionChange: () => Promise<void>;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<'login' | 'register' | null>(null);
+  const [form, setForm] = useState({ name: '', email: '', password: '' });
+  const [moveGuestData, setMoveGuestData] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const isGuest = profiles.find(p => p.id === user?.id)?.isGuest ?? true;
+
+  const close = () => {
+    setIsOpen(false);
+    setMode(null);
+    setError(null);
+    setForm({ name: '', email: '', password: '' });
+  };
+
+  const finish = async (res: { error?: string }) => {
+    if (res.error) {
+      setError(res.error);
+      return;
+    }
+    close();
+    await onSessionChange();
+  };
+
+  const pick = async (profile: ProfileSummary) => {
+    if (profile.id === user?.id) return;
+    if (profile.isGuest) {
+      await finish(await AuthService.logout());
+      return;
+    }
+    setMode('login');
+    setError(null);
+    setForm({ name: '', email: profile.email, password: '' });
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      await finish(mode === 'register'
+        ? await AuthService.register(form, { moveGuestData })
+        : await AuthService.login(form.email, form.password));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => (isOpen ? close() : setIsOpen(true))} className="flex items-center gap-3 px-4 py-3 rounded-2xl glass-card hover:border-neonBlue transition-all" title="Switch profile">
+        <CircleUser size={20} className={isGuest ? 'text-gray-500' : 'text-neonBlue'} />
+        <span className="hidden md:block text-[10px] font-black uppercase tracking-widest text-gray-400 max-w-[120px] truncate">{user?.name || '...'}</span>
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="absolute right-0 top-16 w-80 z-40 p-5 rounded-3xl bg-void border border-white/10 shadow-2xl space-y-4">
+            <span className="text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block">Profiles</span>
+            <div className="space-y-2 max-h-56 overflow-y-auto custom-scroll">
+              {profiles.map(p => (
+                <button key={p.id} onClick={() => pick(p)} className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border text-left transition-all ${p.id === user?.id ? 'border-neonBlue/40 bg-neonBlue/5' : 'border-white/5 hover:border-white/20'}`}>
+                  <div className="min-w-0">
+                    <div className="text-xs font-black text-white truncate">{p.name}</div>
+                    <div className="text-[9px] font-black text-gray-600 tracking-widest truncate">{p.isGuest ? 'GUEST · NO_PASSWORD' : p.email}</div>
+                  </div>
+                  {p.isGuest ? <CircleUser size={14} className="text-gray-600 shrink-0" /> : <Lock size={14} className="text-gray-600 shrink-0" />}
+                </button>
+              ))}
+            </div>
+
+            {mode ? (
+              <form onSubmit={submit} className="space-y-3">
+                {mode === 'register' && (
+                  <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name" className={`${fieldClass} w-full`} />
+                )}
+                <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} placeholder="Email" autoComplete="username" className={`${fieldClass} w-full`} />
+                <input type="password" value={form.password} onChange={(e) => setForm({ ...form, password: e.target.value })} placeholder="Password" autoComplete={mode === 'register' ? 'new-password' : 'current-password'} className={`${fieldClass} w-full`} />
+                {mode === 'register' && (
+                  <label className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-gray-500">
+                    <input type="checkbox" checked={moveGuestData} onChange={(e) => setMoveGuestData(e.target.checked)} />
+                    Move guest ledger into this account
+                  </label>
+                )}
+                {error && <div className="text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</div>}
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => { setMode(null); setError(null); }} className="flex-1 h-10 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-white transition-all">Back</button>
+                  <button disabled={isBusy} className="flex-1 h-10 bg-neonBlue text-void rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-neonBlue/80 transition-all disabled:opacity-50">
+                    {isBusy ? 'Verifying...' : mode === 'register' ? 'Create' : 'Sign_In'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => { setMode('login'); setMoveGuestData(isGuest); }} className="h-10 border border-white/10 rounded-xl flex items-center justify-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonBlue hover:border-neonBlue transition-all">
+                  <LogIn size={14} /> Sign_In
+                </button>
+                <button onClick={() => { setMode('register'); setMoveGuestData(isGuest); }} className="h-10 border border-white/10 rounded-xl flex items-center justify-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonGreen hover:border-neonGreen transition-all">
+                  <UserPlus size={14} /> Register
+                </button>
+                {!isGuest && (
+                  <button onClick={async () => finish(await AuthService.logout())} className="col-span-2 h-10 border border-white/10 rounded-xl flex items-center justify-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-neonRed hover:border-neonRed transition-all">
+                    <LogOut size={14} /> Sign_Out
+                  </button>
+                )}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+// One saved coach thread in the chat panel's list, renamed in place
+const ConversationRow = ({ conversation, isActive, onOpen, onRename, onDelete }: {
+  conversation: CoachConversation;
+  isActive: boolean;
+  onOpen: () => void;
+  onRename: (title: string) => Promise<void>;
+  onDelete: () => void;
+}) => {
+  const [title, setTitle] = useState<string | null>(null);
+  const pinned = conversation.messages.filter(m => m.pinnedAt).length;
+  const save = async () => {
+    if (title?.trim() && title.trim() !== conversation.title) await onRename(title);
+    setTitle(null);
+  };
+  return (
+    <div className={`flex items-center gap-4 px-6 py-4 rounded-2xl border transition-all group/thread ${isActive ? 'border-neonPurple/40 bg-neonPurple/5' : 'border-white/5 bg-white/[0.01] hover:border-white/20'}`}>
+      {title !== null ? (
+        <input autoFocus value={title} onChange={e => setTitle(e.target.value)} onBlur={save} onKeyDown={e => { if (e.key === 'Enter') save(); if (e.key === 'Escape') setTitle(null); }} className="flex-1 h-9 bg-void border border-white/10 rounded-xl px-3 text-sm text-white outline-none focus:border-neonPurple" />
+      ) : (
+        <button onClick={onOpen} className="flex-1 min-w-0 text-left">
+          <div className="text-sm font-black text-white truncate">{conversation.title}</div>
+          <div className="text-[9px] font-black text-gray-700 uppercase tracking-widest">
+            {conversation.updatedAt.split('T')[0]} • {conversation.messages.length} msgs{pinned > 0 && ` • ${pinned} pinned`}
+          </div>
+        </button>
+      )}
+      <button onClick={() => setTitle(conversation.title)} title="Rename" className="opacity-0 group-hover/thread:opacity-100 text-gray-500 hover:text-neonBlue transition-all"><Pencil size={14} /></button>
+      <button onClick={onDelete} title="Delete conversation" className="opacity-0 group-hover/thread:opacity-100 text-gray-500 hover:text-neonRed transition-all"><Trash2 size={14} /></button>
+    </div>
+  );
+};
+
+const OracleSettings = ({ settings, onSave, onClose }: {
+  settings?: AiSettings;
+  onSave: (settings: AiSettings) => Promise<string | undefined>;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState<AiSettings>({ provider: 'gemini', ...settings });
+  const [error, setError] = useState<string | null>(null);
+  const defaults = DEFAULT_MODELS[draft.provider];
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = await onSave({
+      provider: draft.provider,
+      fastModel: draft.fastModel?.trim() || undefined,
+      proModel: draft.proModel?.trim() || undefined,
+      baseUrl: draft.provider === 'openai' ? draft.baseUrl?.trim() || undefined : undefined
+    });
+    if (err) setError(err);
+    else onClose();
+  };
+
+  const label = "text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 block mb-2";
+
+  return (
+    <form onSubmit={submit} className="space-y-6">
+      <div>
+        <span className={label}>Provider</span>
+        <select value={draft.provider} onChange={(e) => setDraft({ ...draft, provider: e.target.value as AiProviderId })} className={`${fieldClass} w-full`}>
+          {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+      </div>
+      {draft.provider === 'openai' && (
+        <div>
+          <span className={label}>Endpoint</span>
+          <input value={draft.baseUrl || ''} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} placeholder={DEFAULT_OPENAI_BASE_URL} className={`${fieldClass} w-full`} />
+        </div>
+      )}
+      {draft.provider !== 'mock' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <span className={label}>Fast_Model</span>
+            <input value={draft.fastModel || ''} onChange={(e) => setDraft({ ...draft, fastModel: e.target.value })} placeholder={defaults.fast} className={`${fieldClass} w-full`} />
+          </div>
+          <div>
+            <span className={label}>Reasoning_Model</span>
+            <input value={draft.proModel || ''} onChange={(e) => setDraft({ ...draft, proModel: e.target.value })} placeholder={defaults.pro} className={`${fieldClass} w-full`} />
+          </div>
+        </div>
+      )}
+      {error && <div className="text-[9px] font-black text-neonRed uppercase tracking-widest">{error}</div>}
+      <div className="flex gap-3">
+        <button type="button" onClick={onClose} className="flex-1 h-12 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-white transition-all">Cancel</button>
+        <button className="flex-1 h-12 bg-neonPurple text-void rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-neonPurple/80 transition-all">Save</button>
+      </div>
+    </form>
+  );
+};
+
 const App = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [user, setUser] = useState<User | null>(null);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [logQuery, setLogQuery] = useState<TransactionQuery>({});
+  const [logPage, setLogPage] = useState<TransactionPage>({ items: [], total: 0 });
+  const [logError, setLogError] = useState<string | null>(null);
+  const [isLogLoading, setIsLogLoading] = useState(false);
+  const [participants, setParticipants] = useState<string[]>([]);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [budgetHistory, setBudgetHistory] = useState<Record<string, BudgetPeriod[]>>({});
+  const [budgetDraft, setBudgetDraft] = useState<Partial<Budget> | null>(null);
+  const [series, setSeries] = useState<RecurringSeries[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingBill[]>([]);
+  const [editingSeriesId, setEditingSeriesId] = useState<string | null>(null);
+  const [editingTxId, setEditingTxId] = useState<string | null>(null);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
   const [analytics, setAnalytics] = useState<AnalyticsSummary | null>(null);
+  const [forecast, setForecast] = useState<SpendingForecast | null>(null);
+  const [isAccountsOpen, setIsAccountsOpen] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [rollUpCategories, setRollUpCategories] = useState(false);
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>('day');
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
   
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isOracleSettingsOpen, setIsOracleSettingsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
+  const [isSettleOpen, setIsSettleOpen] = useState(false);
+  const [splittingTxId, setSplittingTxId] = useState<string | null>(null);
+  const [integrityIssues, setIntegrityIssues] = useState<string[]>([]);
+  // Exchange rates the totals needed but the rate table lacks
+  const [rateWarnings, setRateWarnings] = useState<string[]>([]);
   const [magicInput, setMagicInput] = useState('');
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [coachQuery, setCoachQuery] = useState('');
-  const [chatHistory, setChatHistory] = useState<{role: 'user' | 'ai', text: string}[]>([]);
+  const [conversations, setConversations] = useState<CoachConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isThreadListOpen, setIsThreadListOpen] = useState(false);
+  // The question in flight, its answer as far as it has streamed, and why it failed if it did; none of it is stored
+  const [coachPending, setCoachPending] = useState<{ question: string, text?: string, error?: string } | null>(null);
+  const [insights, setInsights] = useState<CoachInsight[]>([]);
   const [aiPreview, setAiPreview] = useState<Partial<Transaction> | null>(null);
+  const [isQuickPreviewDismissed, setIsQuickPreviewDismissed] = useState(false);
+  const [isReceiptSplit, setIsReceiptSplit] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   
   const timerRef = useRef<number | null>(null);
+  // One AI request in flight per feature; starting another or cancelling aborts it
+  const parseRequestRef = useRef<AbortController | null>(null);
+  const scanRequestRef = useRef<AbortController | null>(null);
+  const coachRequestRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const chatScrollRef = useRef<HTMLDivElement>(null);
+  const logScrollRef = useRef<HTMLDivElement>(null);
+  const logEndRef = useRef<HTMLDivElement>(null);
+  // Bumped on every first-page load, so a slow response for an old filter is dropped
+  const logRequestRef = useRef(0);
+  const isFirstLogQuery = useRef(true);
+
+  const transactions = logPage.items;
+
+  // Reloads the log from the top; `limit` keeps already scrolled-in entries on screen after a mutation
+  const loadLog = async (query: TransactionQuery, limit = LOG_PAGE_SIZE) => {
+    const request = ++logRequestRef.current;
+    const res = await TransactionService.query({ ...query, limit });
+    if (request !== logRequestRef.current) return;
+    setLogError(res.error ? [res.error, ...(res.details || [])].join(' · ') : null);
+    if (res.data) setLogPage(res.data);
+  };
+
+  const loadMoreLog = async () => {
+    if (!logPage.nextCursor || isLogLoading) return;
+    const request = logRequestRef.current;
+    setIsLogLoading(true);
+    const res = await TransactionService.query({ ...logQuery, cursor: logPage.nextCursor, limit: LOG_PAGE_SIZE });
+    setIsLogLoading(false);
+    if (request !== logRequestRef.current || !res.data) return;
+    setLogPage(page => ({ ...res.data, items: [...page.items, ...res.data.items] }));
+  };
 
   // --- Initial Data Fetch (Simulating Backend Calls) ---
   const refreshData = async () => {
-    const [txRes, budgetRes, analyticsRes] = await Promise.all([
-      TransactionService.getAll(),
+    const [session, profilesRes, , budgetRes, analyticsRes, ratesRes, seriesRes, upcomingRes, categoriesRes, rulesRes, balancesRes, forecastRes, conversationsRes, insightsRes] = await Promise.all([
+      AuthService.getSession(),
+      AuthService.getProfiles(),
+      loadLog(logQuery, Math.max(logPage.items.length, LOG_PAGE_SIZE)),
       BudgetService.getAll(),
-      AnalyticsService.getDashboardSummary()
+      AnalyticsService.getDashboardSummary(rollUpCategories, {}, granularity),
+      CurrencyService.getRates(),
+      RecurringService.getAll(),
+      RecurringService.getUpcoming(30),
+      CategoryService.getAll(),
+      RuleService.getAll(),
+      SplitService.getBalances(),
+      AnalyticsService.getForecast(granularity),
+      CoachService.getConversations(),
+      CoachService.getInsights()
     ]);
     
-    if (txRes.data) setTransactions(txRes.data);
-    if (budgetRes.data) setBudgets(budgetRes.data);
+    setUser(session);
+    if (profilesRes.data) setProfiles(profilesRes.data);
+    if (ratesRes.data) setRates(ratesRes.data);
+    if (seriesRes.data) setSeries(seriesRes.data);
+    if (upcomingRes.data) setUpcoming(upcomingRes.data);
+    if (categoriesRes.data) setCategories(categoriesRes.data);
+    if (rulesRes.data) setRules(rulesRes.data);
+    if (balancesRes.data) setParticipants(balancesRes.data.participants);
+    if (budgetRes.data) {
+      setBudgets(budgetRes.data);
+      const histories = await Promise.all(budgetRes.data.map(b => BudgetService.getHistory(b.id)));
+      setBudgetHistory(Object.fromEntries(budgetRes.data.map((b, i) => [b.id, histories[i].data || []])));
+    }
     if (analyticsRes.data) setAnalytics(analyticsRes.data);
+    if (forecastRes.data) setForecast(forecastRes.data);
+    if (conversationsRes.data) setConversations(conversationsRes.data);
+    if (insightsRes.data) setInsights(insightsRes.data);
+    setRateWarnings([...new Set([analyticsRes, budgetRes, forecastRes].flatMap(res => (res.data && res.details) || []))]);
   };
 
   useEffect(() => {
-    refreshData();
+    BackupService.getIntegrityReport().then(res => setIntegrityIssues(res.data?.issues || []));
+    // Post any recurring occurrences that came due while the app was closed
+    RecurringService.runScheduler().finally(refreshData);
   }, []);
 
+  // Filters apply shortly after the last keystroke; the first run is covered by refreshData
+  useEffect(() => {
+    if (isFirstLogQuery.current) {
+      isFirstLogQuery.current = false;
+      return;
+    }
+    const timer = window.setTimeout(() => loadLog(logQuery), 250);
+    return () => window.clearTimeout(timer);
+  }, [logQuery]);
+
+  // Infinite scroll: fetch the next page as the end of the log comes into view
+  useEffect(() => {
+    const sentinel = logEndRef.current;
+    if (!sentinel || !logPage.nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMoreLog();
+    }, { root: logScrollRef.current, rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [logPage, isLogLoading, logQuery]);
+
+  const exportLog = async () => {
+    const res = await BackupService.exportTransactions('csv', logQuery);
+    if (res.data) downloadFile(res.data);
+    else setLogError(res.error);
+  };
+
+  // Nothing from the previous profile's ledger may linger on screen
+  const handleSessionChange = async () => {
+    setEditingTxId(null);
+    setSplittingTxId(null);
+    setEditingSeriesId(null);
+    setBudgetDraft(null);
+    setUndoToast(null);
+    setActiveConversationId(null);
+    cancelCoach();
+    setCoachPending(null);
+    cancelScan();
+    setAiPreview(null);
+    setMagicInput('');
+    setPreviewImage(null);
+    setIsReceiptSplit(false);
+    setAiError(null);
+    await RecurringService.runScheduler();
+    await refreshData();
+  };
+
+  // Only the breakdown changes when sub-categories are rolled up
+  const toggleRollUp = async () => {
+    const res = await AnalyticsService.getDashboardSummary(!rollUpCategories, {}, granularity);
+    setRollUpCategories(!rollUpCategories);
+    if (res.data) setAnalytics(res.data);
+  };
+
+  const changeGranularity = async (next: AnalyticsGranularity) => {
+    const [res, forecastRes] = await Promise.all([
+      AnalyticsService.getDashboardSummary(rollUpCategories, {}, next),
+      AnalyticsService.getForecast(next)
+    ]);
+    setGranularity(next);
+    if (res.data) setAnalytics(res.data);
+    if (forecastRes.data) setForecast(forecastRes.data);
+  };
+
   // --- Real-time AI Parsing ---
+  const cancelParse = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    parseRequestRef.current?.abort();
+    parseRequestRef.current = null;
+    setIsParsing(false);
+  };
+
+  const parseMagicInput = async (input: string) => {
+    cancelParse();
+    const request = new AbortController();
+    parseRequestRef.current = request;
+    setIsParsing(true);
+    try {
+      const res = await TransactionService.parseNaturalLanguage(input, { signal: request.signal });
+      // The input changed while this was in flight; its result describes text that is gone
+      if (request.signal.aborted) return;
+      if (res.data) setAiPreview(res.data);
+      setAiError(res.error || null);
+    } catch (e) {
+      if (!request.signal.aborted) setAiError(`Parse failed. ${e?.message || ''}`.trim());
+    } finally {
+      if (parseRequestRef.current === request) {
+        parseRequestRef.current = null;
+        setIsParsing(false);
+      }
+    }
+  };
+
+  // Every edit cancels the parse in flight and restarts the debounce. The input's onChange also drops a
+  // parsed preview of the old text; a scanned receipt's draft stays, as the input is only its description
   useEffect(() => {
+    cancelParse();
     if (magicInput.length > 8 && !aiPreview) {
-      if (timerRef.current) clearTimeout(timerRef.current);
-      timerRef.current = window.setTimeout(async () => {
-        setIsProcessing(true);
-        try {
-          // Use Backend Service for parsing
-          const res = await TransactionService.parseNaturalLanguage(magicInput);
-          if (res.data) setAiPreview(res.data);
-        } catch (e) {} finally {
-          setIsProcessing(false);
-        }
-      }, 1500);
+      timerRef.current = window.setTimeout(() => parseMagicInput(magicInput), 1500);
     }
   }, [magicInput]);
 
@@ -92,28 +1363,50 @@ const App = () => {
     if (chatScrollRef.current) {
       chatScrollRef.current.scrollTop = chatScrollRef.current.scrollHeight;
     }
-  }, [chatHistory, isProcessing]);
+  }, [activeConversationId, conversations, coachPending]);
 
   // --- Derived Viz Data ---
+  const currency = analytics?.currency || user?.preferences.currency || 'USD';
+
+  // Instant local parse shown while the model call is pending; replaced by aiPreview when it lands
+  const quickPreview = useMemo(() => {
+    if (magicInput.length <= 8 || aiPreview || isQuickPreviewDismissed) return null;
+    return withSuggestion(applyRules(parseTransactionLocally(magicInput, { currency, categories: categories.map(c => c.name) }).transaction, rules).transaction);
+  }, [magicInput, aiPreview, isQuickPreviewDismissed, currency, categories, rules]);
+  const draft = aiPreview || quickPreview;
+  const accounts = analytics?.accounts || [];
+
+  // Actual spend per step, then the forecast as a dashed line (with its band) from the current step on
   const chartData = useMemo(() => {
     if (!analytics?.trend) return [];
-    return analytics.trend.map(t => ({
-      name: t.date.split('-').slice(1).join('/'),
-      value: t.amount
-    }));
-  }, [analytics]);
+    // Months read as 2024/03, days and weeks as 03/15
+    const label = (date: string) => (analytics.period.granularity === 'month' ? date.split('-').slice(0, 2) : date.split('-').slice(1)).join('/');
+    const points: { name: string, date: string, value?: number, forecast?: number, band?: [number, number] }[] =
+      analytics.trend.map(t => ({ name: label(t.date), date: t.date, value: t.amount }));
+    if (forecast?.period.granularity === analytics.period.granularity) {
+      forecast.trend.forEach(f => {
+        const point = points.find(p => p.date === f.date);
+        if (point) Object.assign(point, { forecast: f.expected, band: [f.low, f.high] });
+        else points.push({ name: label(f.date), date: f.date, forecast: f.expected, band: [f.low, f.high] });
+      });
+    }
+    return points;
+  }, [analytics, forecast]);
 
   const budgetProgress = useMemo(() => {
     return budgets.map(b => {
       // Calculate spent from current transactions for real-time feel
       // In a real app, backend would update 'spent', but for UI reactiveness we might want to calc client side too
       // Here we rely on the `refreshData` called after mutations
+      const limit = (b.convertedLimit ?? b.limitAmount) + (b.carriedIn || 0);
       return {
         ...b,
-        percent: Math.min((b.spent / b.limitAmount) * 100, 100)
+        limit,
+        percent: limit > 0 ? Math.min((b.spent / limit) * 100, 100) : 100,
+        outlook: forecast?.budgets.find(f => f.budgetId === b.id)
       };
     }).sort((a, b) => b.percent - a.percent);
-  }, [budgets]);
+  }, [budgets, forecast]);
 
   // --- Handlers ---
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -124,23 +1417,58 @@ const App = () => {
     reader.onload = async () => {
       const base64 = (reader.result as string).split(',')[1];
       setPreviewImage(reader.result as string);
+      setIsReceiptSplit(false);
+      cancelScan();
+      const request = new AbortController();
+      scanRequestRef.current = request;
       setIsScanning(true);
       try {
-        const res = await TransactionService.uploadReceipt(base64, file.type);
+        const res = await TransactionService.uploadReceipt(base64, file.type, { signal: request.signal });
+        if (request.signal.aborted) return;
         if (res.data) setAiPreview(res.data);
-      } catch (err) {} finally { setIsScanning(false); }
+        setAiError(res.error || null);
+      } catch (err) {
+        if (!request.signal.aborted) setAiError(`Vision scan failed. ${err?.message || ''}`.trim());
+      } finally {
+        if (scanRequestRef.current === request) {
+          scanRequestRef.current = null;
+          setIsScanning(false);
+        }
+      }
     };
     reader.readAsDataURL(file);
+    // Picking the same photo again should scan it again
+    e.target.value = '';
+  };
+
+  const cancelScan = () => {
+    scanRequestRef.current?.abort();
+    scanRequestRef.current = null;
+    setIsScanning(false);
   };
 
   const confirmTransaction = async () => {
-    if (aiPreview) {
+    if (draft) {
       const payload: Partial<Transaction> = {
-        ...aiPreview,
-        description: magicInput || `Zen Scan: ${aiPreview.merchant}`,
+        ...draft,
+        description: magicInput || `Zen Scan: ${draft.merchant}`,
       };
       
-      await TransactionService.create(payload);
+      if (payload.items?.length) {
+        const res = await TransactionService.createFromReceipt(payload, isReceiptSplit);
+        if (res.error) {
+          setAiError([res.error, ...(res.details || [])].join(' · '));
+          return;
+        }
+      } else {
+        const created = await TransactionService.create(payload);
+        if (created.error) {
+          setAiError([created.error, ...(created.details || [])].join(' · '));
+          return;
+        }
+        // Recurring entries start a monthly series on their date; the schedule is editable afterwards
+        if (created.data?.isRecurring) await RecurringService.createFromTransaction(created.data.id);
+      }
       
       // Refresh all data streams
       await refreshData();
@@ -148,33 +1476,205 @@ const App = () => {
       setAiPreview(null);
       setMagicInput('');
       setPreviewImage(null);
+      setIsReceiptSplit(false);
     }
   };
 
+  const offerUndo = (label: string) => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoToast(label);
+    undoTimerRef.current = window.setTimeout(() => setUndoToast(null), UNDO_WINDOW_MS);
+  };
+
   const deleteTx = async (id: string) => {
+    const tx = transactions.find(t => t.id === id);
     await TransactionService.delete(id);
+    if (editingTxId === id) setEditingTxId(null);
+    offerUndo(`Deleted ${tx?.merchant || 'entry'}`);
+    await refreshData();
+  };
+
+  const dismissAlert = async (id: string, kind: AlertKind) => {
+    await TransactionService.dismissAlert(id, kind);
     await refreshData();
   };
 
+  // Keeps `keepId` (the earlier entry) and folds the duplicate into it
+  const mergeDuplicate = async (keepId: string, duplicateId: string) => {
+    const res = await TransactionService.mergeDuplicate(keepId, duplicateId);
+    if (res.error) {
+      setLogError(res.error);
+      return;
+    }
+    if (editingTxId === duplicateId) setEditingTxId(null);
+    offerUndo(`Merged ${res.data.merchant}`);
+    await refreshData();
+  };
+
+  const saveTx = async (id: string, patch: Partial<Transaction>) => {
+    const res = await TransactionService.update(id, patch);
+    if (res.error) return res.error;
+    setEditingTxId(null);
+    offerUndo(`Edited ${res.data.merchant}`);
+    await refreshData();
+  };
+
+  const saveSplit = async (id: string, request: SplitRequest) => {
+    const res = await SplitService.share(id, request);
+    if (res.error) return [res.error, ...(res.details || [])].join(' · ');
+    setSplittingTxId(null);
+    await refreshData();
+  };
+
+  const removeSplit = async (id: string) => {
+    await SplitService.unshare(id);
+    setSplittingTxId(null);
+    await refreshData();
+  };
+
+  const undoLast = async () => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoToast(null);
+    await TransactionService.undo();
+    await refreshData();
+  };
+
+  const scheduleTx = async (id: string) => {
+    await RecurringService.createFromTransaction(id);
+    await refreshData();
+  };
+
+  const saveSeries = async (id: string, patch: { rule: Partial<RecurrenceRule>, template: Partial<RecurringSeries['template']> }) => {
+    const res = await RecurringService.update(id, patch);
+    if (res.error) return res.error;
+    setEditingSeriesId(null);
+    await refreshData();
+  };
+
+  const toggleSeries = async (s: RecurringSeries) => {
+    await RecurringService.update(s.id, { paused: !s.paused });
+    await refreshData();
+  };
+
+  const skipBill = async (bill: UpcomingBill) => {
+    await RecurringService.skip(bill.seriesId, bill.date);
+    await refreshData();
+  };
+
+  const stopSeries = async (id: string) => {
+    await RecurringService.delete(id);
+    await refreshData();
+  };
+
+  const saveBudget = async (draft: Partial<Budget>) => {
+    const res = draft.id ? await BudgetService.update(draft.id, draft) : await BudgetService.create(draft);
+    if (res.error) return res.error;
+    setBudgetDraft(null);
+    await refreshData();
+  };
+
+  const createBudgets = async (drafts: Partial<Budget>[]) => {
+    for (const draft of drafts) await BudgetService.create(draft);
+    await refreshData();
+  };
+
+  const deleteBudget = async (id: string) => {
+    await BudgetService.delete(id);
+    await refreshData();
+  };
+
+  const changeCurrency = async (next: string) => {
+    await AuthService.updatePreferences({ currency: next });
+    await refreshData();
+  };
+
+  const saveRate = async (rate: Partial<ExchangeRate>) => {
+    const res = await CurrencyService.upsertRate(rate);
+    if (res.error) return res.error;
+    await refreshData();
+  };
+
+  const deleteRate = async (id: string) => {
+    await CurrencyService.deleteRate(id);
+    await refreshData();
+  };
+
+  const saveAiSettings = async (ai: AiSettings) => {
+    const res = await AuthService.updatePreferences({ ai });
+    if (res.error) return res.error;
+    await refreshData();
+  };
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+  const cancelCoach = () => {
+    coachRequestRef.current?.abort();
+    coachRequestRef.current = null;
+  };
+
+  // Follow-ups go to the open conversation; otherwise a new one starts. The answer streams into the pending bubble.
   const askCoach = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!coachQuery.trim()) return;
-    const userMsg = coachQuery;
-    setChatHistory(prev => [...prev, { role: 'user', text: userMsg }]);
+    if (!coachQuery.trim() || (coachPending && !coachPending.error)) return;
+    const question = coachQuery;
+    const request = new AbortController();
+    coachRequestRef.current = request;
+    setCoachPending({ question });
     setCoachQuery('');
-    setIsProcessing(true);
+    setIsThreadListOpen(false);
     try {
-      // Coach still runs client-side for now as it's a direct LLM call
-      // In full backend, this would be `await CoachService.ask(userMsg)`
-      const res = await askFinancialCoach(transactions, userMsg);
-      setChatHistory(prev => [...prev, { role: 'ai', text: res }]);
+      const res = await CoachService.ask(question, activeConversation?.id, {
+        signal: request.signal,
+        onText: text => {
+          if (!request.signal.aborted) setCoachPending({ question, text });
+        }
+      });
+      if (request.signal.aborted) return;
+      if (res.error) throw new Error(res.error);
+      const saved = res.data.conversation;
+      setConversations(prev => [saved, ...prev.filter(c => c.id !== saved.id)]);
+      setActiveConversationId(saved.id);
+      setCoachPending(null);
     } catch (e) {
-      setChatHistory(prev => [...prev, { role: 'ai', text: "Spectral link broken." }]);
+      setCoachPending({ question, error: `Spectral link broken. ${e?.message || ''}`.trim() });
     } finally {
-      setIsProcessing(false);
+      if (coachRequestRef.current === request) coachRequestRef.current = null;
     }
   };
 
+  // Nothing of a stopped answer is kept; the question goes back into the input
+  const stopCoach = () => {
+    cancelCoach();
+    if (coachPending) setCoachQuery(prev => prev || coachPending.question);
+    setCoachPending(null);
+  };
+
+  const openConversation = (id: string | null) => {
+    cancelCoach();
+    setActiveConversationId(id);
+    setCoachPending(null);
+    setIsThreadListOpen(false);
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    const res = await CoachService.renameConversation(id, title);
+    if (res.data) setConversations(prev => prev.map(c => c.id === id ? res.data : c));
+  };
+
+  const deleteConversation = async (conversation: CoachConversation) => {
+    await CoachService.deleteConversation(conversation.id);
+    if (activeConversationId === conversation.id) setActiveConversationId(null);
+    offerUndo(`Deleted "${conversation.title}"`);
+    await refreshData();
+  };
+
+  const togglePin = async (conversationId: string, messageId: string, pinned: boolean) => {
+    const res = await CoachService.pinMessage(conversationId, messageId, pinned);
+    if (res.data) setConversations(prev => prev.map(c => c.id === conversationId ? res.data : c));
+    const insightsRes = await CoachService.getInsights();
+    if (insightsRes.data) setInsights(insightsRes.data);
+  };
+
   return (
     <div className="min-h-screen pb-40 pt-10 px-6 md:px-16 max-w-screen-2xl mx-auto flex flex-col gap-10 overflow-x-hidden">
       
@@ -192,15 +1692,62 @@ const App = () => {
             </div>
           </div>
         </div>
-        <button onClick={() => setIsChatOpen(true)} className="relative px-6 py-3 rounded-2xl glass-card border-neonPurple/20 hover:border-neonPurple transition-all group overflow-hidden">
-          <div className="absolute inset-0 bg-neonPurple/5 opacity-0 group-hover:opacity-100 transition-opacity"></div>
-          <div className="flex items-center gap-3 relative z-10">
-            <span className="text-[10px] font-black tracking-widest text-neonPurple">ASK_THE_ORACLE</span>
-            <Brain size={20} className="text-neonPurple" />
-          </div>
-        </button>
+        <div className="flex items-center gap-4">
+          <ProfileSwitcher user={user} profiles={profiles} onSessionChange={handleSessionChange} />
+          <button onClick={() => setIsVaultOpen(true)} className="p-3 rounded-2xl glass-card hover:border-neonGreen transition-all" title="Export & backup">
+            <Database size={20} className="text-gray-500 hover:text-neonGreen transition-colors" />
+          </button>
+          <button onClick={() => setIsAccountsOpen(true)} className="p-3 rounded-2xl glass-card hover:border-neonGreen transition-all" title="Accounts">
+            <Landmark size={20} className="text-gray-500 hover:text-neonGreen transition-colors" />
+          </button>
+          <button onClick={() => setIsSettleOpen(true)} className="p-3 rounded-2xl glass-card hover:border-neonPurple transition-all" title="Shared expenses">
+            <Users size={20} className="text-gray-500 hover:text-neonPurple transition-colors" />
+          </button>
+          <button onClick={() => setIsImportOpen(true)} className="p-3 rounded-2xl glass-card hover:border-neonBlue transition-all" title="Import statement">
+            <FileUp size={20} className="text-gray-500 hover:text-neonBlue transition-colors" />
+          </button>
+          <button onClick={() => setIsChatOpen(true)} className="relative px-6 py-3 rounded-2xl glass-card border-neonPurple/20 hover:border-neonPurple transition-all group overflow-hidden">
+            <div className="absolute inset-0 bg-neonPurple/5 opacity-0 group-hover:opacity-100 transition-opacity"></div>
+            <div className="flex items-center gap-3 relative z-10">
+              <span className="text-[10px] font-black tracking-widest text-neonPurple">ASK_THE_ORACLE</span>
+              <Brain size={20} className="text-neonPurple" />
+            </div>
+          </button>
+        </div>
       </motion.header>
 
+      <AnimatePresence>
+        {undoToast && (
+          <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="fixed top-6 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-6 px-6 py-4 rounded-2xl glass-card border-neonBlue/30 shadow-2xl">
+            <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">{undoToast}</span>
+            <button onClick={undoLast} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-neonBlue hover:text-white transition-colors">
+              <Undo2 size={14} /> Undo
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {integrityIssues.length > 0 && (
+        <button onClick={() => setIsVaultOpen(true)} className="flex items-center gap-4 p-5 rounded-2xl border border-neonRed/30 bg-neonRed/5 text-left">
+          <AlertTriangle size={20} className="text-neonRed shrink-0" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-neonRed">
+            {integrityIssues.length} issue(s) found while loading. Unreadable or invalid data was set aside under *_corrupt / *_rejected keys, not deleted. Restore a backup from the Data_Vault. First issue: {integrityIssues[0]}
+          </span>
+        </button>
+      )}
+
+      {rateWarnings.length > 0 && (
+        <div className="flex items-center gap-4 p-5 rounded-2xl border border-neonRed/30 bg-neonRed/5">
+          <Coins size={20} className="text-neonRed shrink-0" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-neonRed">{rateWarnings.join(' · ')}. Add the rate in Exchange_Matrix.</span>
+        </div>
+      )}
+
+      {/* Shared by every category field */}
+      <datalist id="category-names">
+        {categories.map(c => <option key={c.id} value={c.name} />)}
+      </datalist>
+
       {/* Main Grid */}
       <LayoutGroup>
         <div className="grid grid-cols-1 md:grid-cols-12 gap-8 auto-rows-[200px]">
@@ -208,24 +1755,72 @@ const App = () => {
           {/* Balance */}
           <GlassCard className="md:col-span-12 lg:col-span-4 row-span-2 flex flex-col justify-between" title="Spectral_Liquidity" icon={Wallet}>
             <div>
-              <span className="text-[10px] text-gray-500 font-black block mb-2 tracking-[0.3em]">TOTAL_BURN_MONTH</span>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] text-gray-500 font-black tracking-[0.3em]">TOTAL_BURN_{(ANALYTICS_GRANULARITIES.find(g => g.id === granularity)?.label || '').toUpperCase()}</span>
+                <div className="flex gap-1">
+                  {ANALYTICS_GRANULARITIES.map(g => (
+                    <button key={g.id} onClick={() => changeGranularity(g.id)} className={`h-6 px-2 rounded-lg text-[8px] font-black uppercase tracking-widest border transition-all ${granularity === g.id ? 'border-neonBlue text-neonBlue' : 'border-white/10 text-gray-600 hover:text-white'}`}>{g.label}</button>
+                  ))}
+                </div>
+              </div>
               <motion.div key={analytics?.totalSpent || 0} initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} className="text-7xl font-black text-white tracking-tighter neon-text-blue">
-                {formatCurrency(analytics?.totalSpent || 0)}
+                {formatCurrency(analytics?.totalSpent || 0, currency)}
               </motion.div>
+              {analytics && (
+                <div className="mt-2 text-[9px] font-black uppercase tracking-widest text-gray-600" title={`Compared with ${analytics.period.previousStart} – ${analytics.period.previousEnd}`}>
+                  {analytics.period.start} → {analytics.period.end}
+                  {analytics.burnRate !== null && (
+                    <span className={`ml-2 ${analytics.burnRate > 0 ? 'text-neonRed' : 'text-neonGreen'}`}>
+                      {analytics.burnRate > 0 ? '▲' : '▼'} {Math.abs(Math.round(analytics.burnRate))}% vs prev ({formatCurrency(analytics.previousSpent, currency)})
+                    </span>
+                  )}
+                </div>
+              )}
+              {accounts.length > 0 && (
+                <button onClick={() => setIsAccountsOpen(true)} className="mt-3 text-[10px] font-black uppercase tracking-[0.3em] text-gray-500 hover:text-neonGreen transition-colors">
+                  NET_BALANCE <span className={(analytics?.netBalance || 0) < 0 ? 'text-neonRed' : 'text-white'}>{formatCurrency(analytics?.netBalance || 0, currency)}</span>
+                </button>
+              )}
             </div>
-            <div className="space-y-4">
-              <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-gray-500">
-                <span>Budget Velocity</span>
-                <span className="text-neonGreen">72% Optimized</span>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <span className="text-[9px] text-gray-600 font-black block tracking-[0.3em]">AVG_DAY</span>
+                <span className="text-lg font-black text-white">{formatCurrency(analytics?.averageDailySpend || 0, currency)}</span>
               </div>
-              <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
-                <motion.div initial={{ width: 0 }} animate={{ width: '72%' }} className="h-full bg-gradient-to-r from-neonBlue to-neonPurple shadow-[0_0_10px_#00f3ff]" />
+              <div>
+                <span className="text-[9px] text-gray-600 font-black block tracking-[0.3em]">INCOME</span>
+                <span className="text-lg font-black text-neonGreen">{formatCurrency(analytics?.totalIncome || 0, currency)}</span>
+              </div>
+              <div>
+                <span className="text-[9px] text-gray-600 font-black block tracking-[0.3em]">NET_FLOW</span>
+                <span className={`text-lg font-black ${(analytics?.netCashFlow || 0) < 0 ? 'text-neonRed' : 'text-white'}`}>{formatCurrency(analytics?.netCashFlow || 0, currency)}</span>
               </div>
             </div>
+            {analytics?.budgetVelocity ? (
+              <div className="space-y-4" title={`${analytics.budgetVelocity.spentPercent}% of budgets spent, ${analytics.budgetVelocity.elapsedPercent}% of their periods gone`}>
+                <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-gray-500">
+                  <span>Budget Velocity</span>
+                  <span className={analytics.budgetVelocity.score < 50 ? 'text-neonRed' : 'text-neonGreen'}>{analytics.budgetVelocity.score}% Optimized</span>
+                </div>
+                <div className="relative h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+                  <motion.div initial={{ width: 0 }} animate={{ width: `${Math.min(analytics.budgetVelocity.spentPercent, 100)}%` }} className="h-full bg-gradient-to-r from-neonBlue to-neonPurple shadow-[0_0_10px_#00f3ff]" />
+                  <div className="absolute top-0 h-full w-0.5 bg-white/60" style={{ left: `${analytics.budgetVelocity.elapsedPercent}%` }} />
+                </div>
+              </div>
+            ) : (
+              <div className="text-[10px] font-black uppercase tracking-widest text-gray-700">Budget Velocity · set a budget to track pace</div>
+            )}
           </GlassCard>
 
           {/* Pulse Chart */}
-          <GlassCard className="md:col-span-12 lg:col-span-8 row-span-2" title="The_Pulse" icon={TrendingUp} delay={0.1}>
+          <GlassCard className="md:col-span-12 lg:col-span-8 row-span-2 relative" title="The_Pulse" icon={TrendingUp} delay={0.1}>
+            {forecast && forecast.expected > 0 && (
+              <div className="absolute top-5 right-6 text-right" title={`${formatCurrency(forecast.actual, currency)} spent, ${formatCurrency(forecast.scheduled, currency)} scheduled, ${formatCurrency(forecast.dailyRate, currency)}/day expected`}>
+                <span className="text-[9px] text-gray-600 font-black block tracking-[0.3em]">FORECAST · {forecast.period.end}</span>
+                <span className="text-lg font-black text-neonBlue">{formatCurrency(forecast.expected, currency)}</span>
+                <span className="text-[9px] font-black text-gray-600 ml-2">{formatCurrency(forecast.low, currency)} – {formatCurrency(forecast.high, currency)}</span>
+              </div>
+            )}
             <div className="h-full w-full pb-4">
               <ResponsiveContainer width="100%" height="100%">
                 <AreaChart data={chartData}>
@@ -237,27 +1832,58 @@ const App = () => {
                   </defs>
                   <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 9, fill: '#444', fontWeight: 900 }} />
                   <Tooltip cursor={{ stroke: '#0aff68', strokeWidth: 1 }} contentStyle={{ backgroundColor: '#000', border: '1px solid #222', borderRadius: '12px' }} />
+                  <Area type="stepAfter" dataKey="band" stroke="none" fill="#00f3ff" fillOpacity={0.06} isAnimationActive={false} />
                   <Area type="stepAfter" dataKey="value" stroke="#0aff68" strokeWidth={3} fillOpacity={1} fill="url(#neonGradient)" animationDuration={2000} />
+                  <Area type="stepAfter" dataKey="forecast" stroke="#00f3ff" strokeWidth={2} strokeDasharray="6 4" fill="none" animationDuration={2000} />
                 </AreaChart>
               </ResponsiveContainer>
             </div>
           </GlassCard>
 
           {/* Budgets */}
-          <GlassCard className="md:col-span-5 row-span-2" title="Channel_Thresholds" icon={Target} delay={0.2}>
+          <GlassCard className="md:col-span-5 row-span-2 relative" title="Channel_Thresholds" icon={Target} delay={0.2}>
+            {!budgetDraft && budgetProgress.length > 0 && (
+              <button onClick={() => setBudgetDraft({})} className="absolute top-5 right-5 p-2 hover:bg-white/10 rounded-xl text-gray-500 hover:text-neonBlue transition-all"><Plus size={14} /></button>
+            )}
             <div className="space-y-6 overflow-y-auto max-h-full pr-2 custom-scroll">
+              {budgetDraft && (
+                <div key={budgetDraft.id || 'new'}>
+                  <BudgetEditor initial={budgetDraft} currency={currency} onSave={saveBudget} onCancel={() => setBudgetDraft(null)} />
+                </div>
+              )}
               {budgetProgress.length === 0 ? (
-                <div className="h-full flex items-center justify-center opacity-10"><Target size={40} /></div>
+                !budgetDraft && <BudgetWizard currency={currency} onCreate={createBudgets} onSkip={() => setBudgetDraft({})} />
               ) : (
                 budgetProgress.map((b) => (
-                  <div key={b.id} className="space-y-2">
+                  <div key={b.id} className="space-y-2 group/budget">
                     <div className="flex justify-between items-end">
-                      <span className="text-[10px] font-black uppercase text-white tracking-widest">{b.category}</span>
-                      <span className="text-xs font-bold text-gray-500">{formatCurrency(b.spent)} / {formatCurrency(b.limitAmount)}</span>
+                      <div>
+                        <span className="text-[10px] font-black uppercase text-white tracking-widest">{b.category}</span>
+                        <span className="text-[8px] font-black uppercase text-gray-700 tracking-widest ml-2">{b.period}{b.periodEnd && ` → ${b.periodEnd}`}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => setBudgetDraft(b)} className="opacity-0 group-hover/budget:opacity-100 text-gray-500 hover:text-neonBlue transition-all"><Pencil size={12} /></button>
+                        <button onClick={() => deleteBudget(b.id)} className="opacity-0 group-hover/budget:opacity-100 text-neonRed transition-all"><Trash2 size={12} /></button>
+                        <span className="text-xs font-bold text-gray-500">{formatCurrency(b.spent, currency)} / {formatCurrency(b.limit, currency)}</span>
+                      </div>
                     </div>
                     <div className="h-2 w-full bg-white/5 rounded-full overflow-hidden">
                       <motion.div initial={{ width: 0 }} animate={{ width: `${b.percent}%` }} className={`h-full ${b.percent > 90 ? 'bg-neonRed shadow-[0_0_10px_#ff2a6d]' : 'bg-neonGreen shadow-[0_0_10px_#0aff68]'}`} />
                     </div>
+                    {b.outlook && b.outlook.outlook !== 'on_track' && (
+                      <div className={`flex items-center gap-1 text-[8px] font-black uppercase tracking-widest ${b.outlook.outlook === 'may_exceed' ? 'text-neonPurple/80' : 'text-neonRed/80'}`}>
+                        <AlertTriangle size={9} />
+                        {b.outlook.outlook === 'over' && `Over since ${b.outlook.breachDate}`}
+                        {b.outlook.outlook === 'will_exceed' && `Breach expected ${b.outlook.breachDate} · ${formatCurrency(b.outlook.projected, currency)} by period end`}
+                        {b.outlook.outlook === 'may_exceed' && `May exceed · up to ${formatCurrency(b.outlook.high, currency)}`}
+                      </div>
+                    )}
+                    {!!b.carriedIn && (
+                      <div className={`text-[8px] font-black uppercase tracking-widest ${b.carriedIn > 0 ? 'text-neonGreen/60' : 'text-neonRed/60'}`}>
+                        Rollover {b.carriedIn > 0 ? '+' : ''}{formatCurrency(b.carriedIn, currency)}
+                      </div>
+                    )}
+                    {budgetHistory[b.id]?.length > 1 && <BudgetTrend periods={budgetHistory[b.id]} />}
                   </div>
                 ))
               )}
@@ -266,29 +1892,87 @@ const App = () => {
 
           {/* Transaction Log */}
           <GlassCard className="md:col-span-7 row-span-2" title="Synapse_Log" icon={History} delay={0.3}>
-            <div className="space-y-3 overflow-y-auto max-h-full pr-2 custom-scroll">
+            <LedgerFilterBar query={logQuery} total={logPage.total} categories={categories} accounts={accounts} error={logError} onChange={setLogQuery} onExport={exportLog} />
+            <div ref={logScrollRef} className="space-y-3 overflow-y-auto max-h-full pr-2 custom-scroll">
+              {editingTxId && transactions.find(t => t.id === editingTxId) && (
+                <div key={editingTxId}>
+                  <TransactionEditor tx={transactions.find(t => t.id === editingTxId)} accounts={accounts} onSave={(patch) => saveTx(editingTxId, patch)} onCancel={() => setEditingTxId(null)} />
+                </div>
+              )}
+              {splittingTxId && transactions.find(t => t.id === splittingTxId) && (
+                <div key={splittingTxId}>
+                  <SplitEditor
+                    tx={transactions.find(t => t.id === splittingTxId)}
+                    participants={participants}
+                    onSave={(request) => saveSplit(splittingTxId, request)}
+                    onRemove={() => removeSplit(splittingTxId)}
+                    onCancel={() => setSplittingTxId(null)}
+                  />
+                </div>
+              )}
               <AnimatePresence mode="popLayout">
                 {transactions.length === 0 ? (
                   <motion.div exit={{ opacity: 0 }} className="h-full flex flex-col items-center justify-center opacity-10">
                     <History size={48} />
-                    <span className="text-[10px] font-black tracking-widest mt-4">EMPTY_LEDGER</span>
+                    <span className="text-[10px] font-black tracking-widest mt-4">{Object.keys(logQuery).length > 0 ? 'NO_MATCHES' : 'EMPTY_LEDGER'}</span>
                   </motion.div>
                 ) : (
                   transactions.map((tx) => (
                     <motion.div layout initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, scale: 0.9 }} key={tx.id} className="flex items-center justify-between p-5 rounded-2xl bg-white/[0.01] border border-white/[0.04] hover:border-neonBlue transition-all group">
                       <div className="flex items-center gap-4">
                         <div className="w-12 h-12 rounded-2xl bg-void border border-white/5 flex items-center justify-center shadow-inner group-hover:bg-neonBlue/5 transition-colors">
-                          <CreditCard size={20} className="text-gray-500 group-hover:text-neonBlue transition-all" />
+                          {tx.type === 'transfer'
+                            ? <ArrowRightLeft size={20} className="text-gray-600 group-hover:text-neonBlue transition-all" />
+                            : tx.type === 'income'
+                              ? <ArrowUpRight size={20} className="text-neonGreen transition-all" />
+                              : findCategory(categories, tx.category)
+                                ? <CategoryIcon category={findCategory(categories, tx.category)} size={20} />
+                                : <CreditCard size={20} className="text-gray-500 group-hover:text-neonBlue transition-all" />}
                         </div>
                         <div>
-                          <div className="text-sm font-black text-white">{tx.merchant}</div>
-                          <div className="text-[9px] font-black text-gray-700 uppercase">{tx.category} • {new Date(tx.date).toLocaleDateString()}</div>
+                          <div className={`text-sm font-black ${tx.type === 'transfer' ? 'text-gray-500' : 'text-white'}`}>{tx.merchant}</div>
+                          <div className="text-[9px] font-black text-gray-700 uppercase flex items-center gap-1">
+                            {tx.seriesId && <Repeat size={9} className="text-neonPurple" />}
+                            {tx.split && <Users size={9} className="text-neonPurple" />}
+                            {tx.flags?.length > 0 && <span title={tx.flags.join(' · ')}><Flag size={9} className="text-neonRed" /></span>}
+                            {tx.category} • {new Date(tx.date).toLocaleDateString()}
+                            {tx.accountId && ` • ${[tx.accountId, tx.toAccountId].filter(Boolean).map(id => accounts.find(a => a.id === id)?.name || '?').join(' → ')}`}
+                          </div>
+                          {activeAlerts(tx).length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1 text-[8px] font-black uppercase tracking-widest">
+                              {activeAlerts(tx).map(alert => (
+                                <div key={alert.kind}>
+                                  <AlertChip
+                                    alert={alert}
+                                    onDismiss={() => dismissAlert(tx.id, alert.kind)}
+                                    onMerge={alert.kind === 'duplicate' && alert.relatedId ? () => mergeDuplicate(alert.relatedId, tx.id) : undefined}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-5">
                         <div className="text-right">
-                          <div className="text-xl font-black text-neonGreen">{formatCurrency(tx.amount)}</div>
+                          <div className={`text-xl font-black ${tx.type === 'transfer' ? 'text-gray-500' : 'text-neonGreen'}`}>{tx.type === 'income' && '+'}{formatCurrency(tx.convertedAmount ?? tx.amount, currency)}</div>
+                          {tx.currency !== currency && (
+                            <div className="text-[9px] font-black text-gray-600 uppercase">{formatCurrency(tx.amount, tx.currency)}</div>
+                          )}
                         </div>
+                        {tx.isRecurring && !tx.seriesId && (
+                          <button onClick={() => scheduleTx(tx.id)} title="Repeat monthly" className="p-2 opacity-0 group-hover:opacity-100 text-neonPurple hover:bg-neonPurple/10 rounded-xl transition-all">
+                            <Repeat size={16} />
+                          </button>
+                        )}
+                        {tx.type === 'expense' && (
+                          <button onClick={() => setSplittingTxId(tx.id)} title="Split with others" className={`p-2 ${tx.split ? 'text-neonPurple' : 'opacity-0 group-hover:opacity-100 text-gray-500'} hover:text-neonPurple hover:bg-neonPurple/10 rounded-xl transition-all`}>
+                            <Users size={16} />
+                          </button>
+                        )}
+                        <button onClick={() => setEditingTxId(tx.id)} title="Edit" className="p-2 opacity-0 group-hover:opacity-100 text-gray-500 hover:text-neonBlue hover:bg-neonBlue/10 rounded-xl transition-all">
+                          <Pencil size={16} />
+                        </button>
                         <button onClick={() => deleteTx(tx.id)} className="p-2 opacity-0 group-hover:opacity-100 text-neonRed hover:bg-neonRed/10 rounded-xl transition-all">
                           <Trash2 size={16} />
                         </button>
@@ -297,9 +1981,119 @@ const App = () => {
                   ))
                 )}
               </AnimatePresence>
+              {logPage.nextCursor && (
+                <div ref={logEndRef} className="h-12 flex items-center justify-center text-gray-700">
+                  {isLogLoading && <Loader2 size={16} className="animate-spin" />}
+                </div>
+              )}
+            </div>
+          </GlassCard>
+
+          {/* Upcoming Bills */}
+          <GlassCard className="md:col-span-7 row-span-2" title="Upcoming_Bills" icon={CalendarClock} delay={0.4}>
+            <div className="space-y-3 overflow-y-auto max-h-full pr-2 custom-scroll">
+              {editingSeriesId && series.find(s => s.id === editingSeriesId) && (
+                <SeriesEditor series={series.find(s => s.id === editingSeriesId)} onSave={(patch) => saveSeries(editingSeriesId, patch)} onCancel={() => setEditingSeriesId(null)} />
+              )}
+              {upcoming.length === 0 && series.length === 0 ? (
+                <div className="h-full flex flex-col items-center justify-center opacity-10">
+                  <CalendarClock size={40} />
+                  <span className="text-[10px] font-black tracking-widest mt-4">NO_RECURRING_FLOWS</span>
+                </div>
+              ) : (
+                upcoming.map(bill => {
+                  const s = series.find(x => x.id === bill.seriesId);
+                  return (
+                    <div key={`${bill.seriesId}_${bill.date}`} className="flex items-center justify-between px-5 py-3 rounded-2xl bg-white/[0.01] border border-white/[0.04] group/bill">
+                      <div>
+                        <div className="text-sm font-black text-white">{bill.merchant}</div>
+                        <div className="text-[9px] font-black text-gray-700 uppercase">{bill.category} • {bill.date} • {s?.rule.frequency}</div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <button onClick={() => skipBill(bill)} title="Skip this occurrence" className="opacity-0 group-hover/bill:opacity-100 text-gray-500 hover:text-neonBlue transition-all"><SkipForward size={14} /></button>
+                        {s && <button onClick={() => toggleSeries(s)} title="Pause series" className="opacity-0 group-hover/bill:opacity-100 text-gray-500 hover:text-neonBlue transition-all"><Pause size={14} /></button>}
+                        <button onClick={() => setEditingSeriesId(bill.seriesId)} title="Edit series" className="opacity-0 group-hover/bill:opacity-100 text-gray-500 hover:text-neonBlue transition-all"><Pencil size={14} /></button>
+                        <span className="text-sm font-black text-neonPurple">{formatCurrency(bill.amount, bill.currency)}</span>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+              {series.filter(s => s.paused).map(s => (
+                <div key={s.id} className="flex items-center justify-between px-5 py-3 rounded-2xl border border-dashed border-white/5 opacity-50 hover:opacity-100 transition-all">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">{s.template.merchant} • paused</span>
+                  <div className="flex items-center gap-3">
+                    <button onClick={() => toggleSeries(s)} title="Resume series" className="text-gray-500 hover:text-neonGreen transition-all"><Play size={14} /></button>
+                    <button onClick={() => stopSeries(s.id)} title="End series" className="text-gray-500 hover:text-neonRed transition-all"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              ))}
             </div>
           </GlassCard>
 
+          {/* Exchange Rates */}
+          <GlassCard className="md:col-span-5 row-span-2" title="Exchange_Matrix" icon={Coins} delay={0.5}>
+            <RateMatrix rates={rates} currency={currency} onCurrencyChange={changeCurrency} onSave={saveRate} onDelete={deleteRate} />
+          </GlassCard>
+
+          {/* Category Breakdown */}
+          <GlassCard className="md:col-span-12 row-span-2 relative" title="Flow_Spectrum" icon={PieIcon} delay={0.6}>
+            <div className="absolute top-5 right-5 flex items-center gap-2">
+              <button onClick={toggleRollUp} title="Show sub-categories under their parent" className={`h-8 px-3 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${rollUpCategories ? 'border-neonBlue text-neonBlue' : 'border-white/10 text-gray-600 hover:text-white'}`}>Roll_Up</button>
+              <button onClick={() => setIsRulesOpen(true)} title="Categorisation rules" className="p-2 hover:bg-white/10 rounded-xl text-gray-500 hover:text-neonPurple transition-all"><ListFilter size={14} /></button>
+              <button onClick={() => setIsCategoriesOpen(true)} title="Manage categories" className="p-2 hover:bg-white/10 rounded-xl text-gray-500 hover:text-neonBlue transition-all"><Tags size={14} /></button>
+            </div>
+            {!analytics?.topCategories.length ? (
+              <div className="flex-1 flex items-center justify-center text-[10px] font-black uppercase tracking-widest text-gray-700">No spending yet</div>
+            ) : (
+              <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-8 min-h-0">
+                <div className="h-full min-h-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={analytics.topCategories} dataKey="amount" nameKey="category" innerRadius="60%" outerRadius="90%" paddingAngle={2} stroke="none">
+                        {analytics.topCategories.map((c, i) => <Cell key={c.category} fill={c.color || COLORS[i % COLORS.length]} />)}
+                      </Pie>
+                      <Tooltip formatter={(value: number) => formatCurrency(value, currency)} contentStyle={{ backgroundColor: '#000', border: '1px solid #222', borderRadius: '12px' }} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 content-start overflow-y-auto custom-scroll">
+                  {analytics.topCategories.map(c => (
+                    <div key={c.category} className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <CategoryIcon category={findCategory(categories, c.category)} />
+                        <span className="text-[10px] font-black uppercase text-white tracking-widest truncate">{c.category}</span>
+                      </div>
+                      <span className="shrink-0 text-[10px] font-black text-gray-500">
+                        {formatCurrency(c.amount, currency)} · {Math.round(c.percentage)}%
+                        <DeltaBadge delta={analytics.categoryDeltas.find(d => d.category === c.category)} />
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </GlassCard>
+
+          {/* Pinned coach answers */}
+          {insights.length > 0 && (
+            <GlassCard className="md:col-span-12" title="Oracle_Insights" icon={Lightbulb} delay={0.7}>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {insights.map(insight => (
+                  <div key={insight.messageId} className="relative p-5 rounded-2xl bg-neonPurple/[0.03] border border-neonPurple/20 flex flex-col gap-3 group/insight">
+                    <button onClick={() => togglePin(insight.conversationId, insight.messageId, false)} title="Unpin" className="absolute top-4 right-4 opacity-0 group-hover/insight:opacity-100 text-gray-600 hover:text-neonRed transition-all"><X size={14} /></button>
+                    {insight.question && <div className="pr-6 text-[10px] font-black uppercase tracking-widest text-neonPurple truncate">{insight.question}</div>}
+                    <div className="text-xs text-gray-300 leading-relaxed max-h-32 overflow-hidden"><Markdown text={insight.text} compact /></div>
+                    <div className="mt-auto flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-gray-700">
+                      <span>{insight.pinnedAt.split('T')[0]}</span>
+                      <button onClick={() => { openConversation(insight.conversationId); setIsChatOpen(true); }} className="flex items-center gap-1 hover:text-neonPurple transition-all">Open_Thread <ArrowUpRight size={10} /></button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </GlassCard>
+          )}
+
         </div>
       </LayoutGroup>
 
@@ -307,21 +2101,28 @@ const App = () => {
       <div className="fixed bottom-0 left-0 w-full p-10 flex justify-center z-50 pointer-events-none">
         <div className="w-full max-w-4xl pointer-events-auto relative">
           <AnimatePresence>
-            {(aiPreview || isScanning) && (
+            {(draft || isScanning) && (
               <motion.div initial={{ opacity: 0, y: 50, scale: 0.95 }} animate={{ opacity: 1, y: 0, scale: 1 }} exit={{ opacity: 0, y: 30, scale: 0.95 }} className="absolute bottom-full left-0 w-full mb-8 glass-card rounded-[40px] p-10 border-neonBlue/30 shadow-[0_40px_100px_rgba(0,0,0,1),0_0_50px_rgba(0,243,255,0.05)] overflow-hidden">
                 {isScanning && (
                    <div className="absolute inset-0 z-20 bg-void/80 backdrop-blur-xl flex flex-col items-center justify-center">
                     <motion.div animate={{ y: [-150, 450] }} transition={{ duration: 2, repeat: Infinity, ease: "linear" }} className="absolute w-full h-1 bg-gradient-to-r from-transparent via-neonBlue to-transparent shadow-[0_0_20px_#00f3ff]" />
                     <Scan className="text-neonBlue animate-bounce mb-4" size={56} />
                     <span className="text-xs font-black text-neonBlue tracking-[0.5em] uppercase">Processing_Vision_Matrix</span>
+                    <button onClick={() => { cancelScan(); setPreviewImage(null); }} className="relative mt-8 px-6 py-3 rounded-2xl border border-white/10 text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-neonRed hover:border-neonRed/40 transition-all">Abort_Scan</button>
                   </div>
                 )}
                 <div className="flex justify-between items-start mb-8">
                   <div>
                     <span className="text-[10px] text-neonBlue font-black uppercase tracking-[0.4em] mb-2 block">Synapse_Commit</span>
                     <h3 className="text-3xl font-black text-white italic">Confirm Transaction?</h3>
+                    {draft?.aiMetadata && (
+                      <span className="mt-3 inline-flex items-center gap-2 text-[8px] font-black uppercase tracking-[0.3em] text-gray-500">
+                        {draft.aiMetadata.modelUsed === LOCAL_PARSER_MODEL ? 'Local_Rules' : draft.aiMetadata.modelUsed} · {Math.round(draft.aiMetadata.confidence * 100)}%
+                        {!aiPreview && isParsing && <span className="text-neonBlue animate-pulse">Refining...</span>}
+                      </span>
+                    )}
                   </div>
-                  <button onClick={() => { setAiPreview(null); setPreviewImage(null); }} className="p-4 hover:bg-white/10 rounded-2xl transition-all"><X size={24} className="text-gray-500" /></button>
+                  <button onClick={() => { setAiPreview(null); setPreviewImage(null); setIsQuickPreviewDismissed(true); }} className="p-4 hover:bg-white/10 rounded-2xl transition-all"><X size={24} className="text-gray-500" /></button>
                 </div>
                 {/* Preview Grid */}
                  <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-10">
@@ -333,34 +2134,90 @@ const App = () => {
                   <div className={`${previewImage ? 'md:col-span-3' : 'md:col-span-4'} grid grid-cols-2 gap-4`}>
                     <div className="bg-white/[0.01] border border-white/5 rounded-3xl p-6">
                       <span className="text-[8px] text-gray-600 uppercase font-black tracking-widest block mb-1">Entity</span>
-                      <div className="text-white text-xl font-black truncate">{aiPreview?.merchant || '---'}</div>
+                      <div className="text-white text-xl font-black truncate">{draft?.merchant || '---'}</div>
                     </div>
                      <div className="bg-white/[0.01] border border-white/5 rounded-3xl p-6">
                       <span className="text-[8px] text-gray-600 uppercase font-black tracking-widest block mb-1">Magnitude</span>
-                      <div className="text-neonGreen text-2xl font-black">{aiPreview ? formatCurrency(aiPreview.amount || 0) : '---'}</div>
+                      <div className="text-neonGreen text-2xl font-black">{draft ? formatCurrency(draft.amount || 0, draft.currency || currency) : '---'}</div>
                     </div>
                      <div className="bg-white/[0.01] border border-white/5 rounded-3xl p-6">
                       <span className="text-[8px] text-gray-600 uppercase font-black tracking-widest block mb-1">Flow_Channel</span>
-                      <div className="text-neonPurple text-xl font-black">{aiPreview?.category || '---'}</div>
+                      <div className="text-neonPurple text-xl font-black">{draft?.category || '---'}</div>
                     </div>
                      <div className="bg-white/[0.01] border border-white/5 rounded-3xl p-6">
                       <span className="text-[8px] text-gray-600 uppercase font-black tracking-widest block mb-1">Temporal_Stamp</span>
-                      <div className="text-white text-xl font-black">{aiPreview?.date || '---'}</div>
+                      <div className="text-white text-xl font-black">{draft?.date || '---'}</div>
                     </div>
                   </div>
                 </div>
-                <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={confirmTransaction} className="w-full py-6 bg-gradient-to-r from-neonBlue via-neonPurple to-neonRed text-void font-black rounded-3xl flex items-center justify-center gap-4 transition-all uppercase tracking-[0.3em] text-sm">
+                {draft && (
+                  <div className="-mt-6 mb-10 flex flex-wrap items-center gap-3">
+                    {(['expense', 'income', 'transfer'] as TransactionType[]).map(type => (
+                      <button key={type} onClick={() => setAiPreview({ ...draft, type, split: type === 'expense' ? draft.split : undefined, category: type === 'expense' ? draft.category : type === 'income' ? 'Income' : 'Transfer' })} className={`h-8 px-4 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${(draft.type || 'expense') === type ? 'border-neonBlue text-neonBlue' : 'border-white/10 text-gray-600 hover:text-white'}`}>{type}</button>
+                    ))}
+                    {accounts.length > 0 && (
+                      <select value={draft.accountId || ''} onChange={(e) => setAiPreview({ ...draft, accountId: e.target.value })} className={fieldClass}>
+                        <option value="">{draft.type === 'transfer' ? 'From account' : 'No account'}</option>
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    )}
+                    {accounts.length > 0 && draft.type === 'transfer' && (
+                      <select value={draft.toAccountId || ''} onChange={(e) => setAiPreview({ ...draft, toAccountId: e.target.value })} className={fieldClass}>
+                        <option value="">To account</option>
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    )}
+                  </div>
+                )}
+                {activeAlerts(draft || {}).length > 0 && (
+                  <div className="-mt-6 mb-10 flex flex-wrap items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                    {activeAlerts(draft).map(alert => (
+                      <div key={alert.kind}>
+                        <AlertChip alert={alert} detailed onDismiss={() => setAiPreview({ ...draft, alerts: draft.alerts.map(a => (a === alert ? { ...a, dismissed: true } : a)) })} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {(draft?.appliedRules?.length > 0 || draft?.flags?.length > 0) && (
+                  <div className="-mt-6 mb-10 flex flex-wrap items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                    {draft.appliedRules?.map(id => rules.find(r => r.id === id)).filter(Boolean).map(rule => (
+                      <span key={rule.id} className="flex items-center gap-2 px-3 py-1 rounded-lg border border-neonPurple/20 text-neonPurple normal-case tracking-normal">
+                        <ListFilter size={10} /> {rule.source === 'learned' ? 'Learned' : 'Rule'} · {describeRule(rule)}
+                      </span>
+                    ))}
+                    {draft.flags?.map(flag => (
+                      <span key={flag} className="flex items-center gap-2 px-3 py-1 rounded-lg border border-neonRed/30 text-neonRed"><Flag size={10} /> {flag}</span>
+                    ))}
+                  </div>
+                )}
+                {draft?.split && (
+                  <div className="-mt-6 mb-10 flex flex-wrap items-center gap-2 text-[9px] font-black uppercase tracking-widest text-neonPurple">
+                    <Users size={12} /> Split {draft.split.method}:
+                    {draft.split.shares.map(s => (
+                      <span key={s.participant} className="px-3 py-1 rounded-full border border-neonPurple/20">{s.participant} {formatCurrency(s.amount, draft.currency || currency)}</span>
+                    ))}
+                  </div>
+                )}
+                {aiPreview?.items && (
+                  <ReceiptItemsEditor draft={aiPreview} onChange={setAiPreview} split={isReceiptSplit} onSplitChange={setIsReceiptSplit} />
+                )}
+                <motion.button whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} onClick={confirmTransaction} disabled={draft ? checkReceipt(draft).length > 0 : false} className="w-full disabled:opacity-30 py-6 bg-gradient-to-r from-neonBlue via-neonPurple to-neonRed text-void font-black rounded-3xl flex items-center justify-center gap-4 transition-all uppercase tracking-[0.3em] text-sm">
                   <Zap size={24} fill="currentColor" /> <span>SYNC_TO_VOID_LEDGER</span>
                 </motion.button>
               </motion.div>
             )}
           </AnimatePresence>
 
-          <form onSubmit={(e) => { e.preventDefault(); if (aiPreview) confirmTransaction(); else if (magicInput) TransactionService.parseNaturalLanguage(magicInput).then(res => res.data && setAiPreview(res.data)); }} className="flex gap-4 group">
+          {aiError && (
+            <div className="mb-4 px-8 text-[10px] font-black uppercase tracking-widest text-neonRed flex items-center gap-3">
+              <AlertTriangle size={14} /> {aiError}
+            </div>
+          )}
+          <form onSubmit={(e) => { e.preventDefault(); if (aiPreview) confirmTransaction(); else if (magicInput) parseMagicInput(magicInput); }} className="flex gap-4 group">
             <div className="flex-1 relative">
-              <input type="text" value={magicInput} onChange={(e) => setMagicInput(e.target.value)} placeholder="Ex: Dinner with clients $120..." className="w-full h-24 bg-voidLight/95 backdrop-blur-3xl border border-white/10 rounded-[40px] px-10 pr-20 focus:outline-none focus:border-neonBlue focus:ring-4 focus:ring-neonBlue/5 transition-all text-white placeholder:text-gray-800 font-bold text-lg shadow-2xl" />
+              <input type="text" value={magicInput} onChange={(e) => { setMagicInput(e.target.value); setAiError(null); setIsQuickPreviewDismissed(false); if (!previewImage) setAiPreview(null); }} placeholder="Ex: Dinner with clients $120..." className="w-full h-24 bg-voidLight/95 backdrop-blur-3xl border border-white/10 rounded-[40px] px-10 pr-20 focus:outline-none focus:border-neonBlue focus:ring-4 focus:ring-neonBlue/5 transition-all text-white placeholder:text-gray-800 font-bold text-lg shadow-2xl" />
                <div className="absolute right-8 top-1/2 -translate-y-1/2 flex items-center gap-4">
-                {isProcessing ? <div className="w-8 h-8 border-4 border-neonBlue border-t-transparent rounded-full animate-spin"></div> : <Sparkles size={28} className="text-gray-800 group-focus-within:text-neonBlue transition-colors" />}
+                {isParsing ? <div className="w-8 h-8 border-4 border-neonBlue border-t-transparent rounded-full animate-spin"></div> : <Sparkles size={28} className="text-gray-800 group-focus-within:text-neonBlue transition-colors" />}
               </div>
             </div>
             <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" className="hidden" />
@@ -369,6 +2226,72 @@ const App = () => {
         </div>
       </div>
 
+      <AnimatePresence>
+        {isVaultOpen && (
+          <>
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => setIsVaultOpen(false)} className="fixed inset-0 bg-black/90 backdrop-blur-2xl z-50" />
+            <motion.div initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 30, stiffness: 200 }} className="fixed top-0 right-0 h-full w-full md:w-[600px] bg-void border-l border-white/10 z-[60] flex flex-col shadow-[-50px_0_100px_rgba(0,0,0,0.9)]">
+              <VaultPanel categories={categories.map(c => c.name)} onClose={() => setIsVaultOpen(false)} onRestored={refreshData} />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isSettleOpen && (
+          <>
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => setIsSettleOpen(false)} className="fixed inset-0 bg-black/90 backdrop-blur-2xl z-50" />
+            <motion.div initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 30, stiffness: 200 }} className="fixed top-0 right-0 h-full w-full md:w-[600px] bg-void border-l border-white/10 z-[60] flex flex-col shadow-[-50px_0_100px_rgba(0,0,0,0.9)]">
+              <SettlePanel onClose={() => setIsSettleOpen(false)} />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isRulesOpen && (
+          <>
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => setIsRulesOpen(false)} className="fixed inset-0 bg-black/90 backdrop-blur-2xl z-50" />
+            <motion.div initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 30, stiffness: 200 }} className="fixed top-0 right-0 h-full w-full md:w-[600px] bg-void border-l border-white/10 z-[60] flex flex-col shadow-[-50px_0_100px_rgba(0,0,0,0.9)]">
+              <RulesPanel rules={rules} onClose={() => setIsRulesOpen(false)} onChanged={refreshData} />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isCategoriesOpen && (
+          <>
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => setIsCategoriesOpen(false)} className="fixed inset-0 bg-black/90 backdrop-blur-2xl z-50" />
+            <motion.div initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 30, stiffness: 200 }} className="fixed top-0 right-0 h-full w-full md:w-[600px] bg-void border-l border-white/10 z-[60] flex flex-col shadow-[-50px_0_100px_rgba(0,0,0,0.9)]">
+              <CategoryPanel categories={categories} onClose={() => setIsCategoriesOpen(false)} onChanged={refreshData} />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isAccountsOpen && (
+          <>
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => setIsAccountsOpen(false)} className="fixed inset-0 bg-black/90 backdrop-blur-2xl z-50" />
+            <motion.div initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 30, stiffness: 200 }} className="fixed top-0 right-0 h-full w-full md:w-[600px] bg-void border-l border-white/10 z-[60] flex flex-col shadow-[-50px_0_100px_rgba(0,0,0,0.9)]">
+              <AccountsPanel currency={currency} onClose={() => setIsAccountsOpen(false)} onChanged={refreshData} />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isImportOpen && (
+          <>
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => setIsImportOpen(false)} className="fixed inset-0 bg-black/90 backdrop-blur-2xl z-50" />
+            <motion.div initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 30, stiffness: 200 }} className="fixed top-0 right-0 h-full w-full md:w-[720px] bg-void border-l border-white/10 z-[60] flex flex-col shadow-[-50px_0_100px_rgba(0,0,0,0.9)]">
+              <ImportPanel accounts={accounts} onClose={() => setIsImportOpen(false)} onImported={refreshData} />
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
        <AnimatePresence>
         {isChatOpen && (
           <>
@@ -379,20 +2302,76 @@ const App = () => {
                   <div className="w-14 h-14 rounded-2xl bg-neonPurple/10 flex items-center justify-center border border-neonPurple/20 shadow-[0_0_20px_rgba(191,0,255,0.1)]"><Brain className="text-neonPurple" size={32} /></div>
                   <div><h2 className="text-xl font-black text-white tracking-widest uppercase font-mono italic">Zen_Oracle_v3</h2><span className="text-[10px] text-neonPurple font-black tracking-[0.4em] uppercase opacity-70">REASONING_ENGINE_ONLINE</span></div>
                 </div>
-                <button onClick={() => setIsChatOpen(false)} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => openConversation(null)} className="p-4 hover:bg-white/5 rounded-2xl transition-all" title="New conversation"><MessageSquarePlus size={24} className="text-gray-700 hover:text-white" /></button>
+                  <button onClick={() => setIsThreadListOpen(o => !o)} className="p-4 hover:bg-white/5 rounded-2xl transition-all" title="Past conversations"><History size={24} className={isThreadListOpen ? 'text-neonPurple' : 'text-gray-700 hover:text-white'} /></button>
+                  <button onClick={() => setIsOracleSettingsOpen(o => !o)} className="p-4 hover:bg-white/5 rounded-2xl transition-all" title="AI provider settings"><Settings2 size={24} className={isOracleSettingsOpen ? 'text-neonPurple' : 'text-gray-700 hover:text-white'} /></button>
+                  <button onClick={() => setIsChatOpen(false)} className="p-4 hover:bg-white/5 rounded-2xl transition-all"><X size={30} className="text-gray-700 hover:text-white" /></button>
+                </div>
               </div>
+              {isOracleSettingsOpen && (
+                <div className="p-10 border-b border-white/5">
+                  <OracleSettings settings={user?.preferences.ai} onSave={saveAiSettings} onClose={() => setIsOracleSettingsOpen(false)} />
+                </div>
+              )}
+              {isThreadListOpen ? (
+                <div className="flex-1 overflow-y-auto p-10 space-y-3 custom-scroll">
+                  {conversations.length === 0 ? (
+                    <div className="h-full flex flex-col items-center justify-center opacity-10">
+                      <MessageSquare size={40} />
+                      <span className="text-[10px] font-black tracking-widest mt-4">NO_SAVED_THREADS</span>
+                    </div>
+                  ) : conversations.map(c => (
+                    <div key={c.id}>
+                      <ConversationRow conversation={c} isActive={c.id === activeConversationId} onOpen={() => openConversation(c.id)} onRename={title => renameConversation(c.id, title)} onDelete={() => deleteConversation(c)} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
               <div className="flex-1 overflow-y-auto p-10 space-y-10 custom-scroll" ref={chatScrollRef}>
-                 {chatHistory.map((msg, i) => (
-                    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                      <div className={`max-w-[90%] p-8 rounded-[32px] text-sm leading-relaxed shadow-2xl ${msg.role === 'user' ? 'bg-neonBlue/10 border border-neonBlue/20 text-neonBlue rounded-tr-none' : 'bg-white/[0.02] border border-white/5 text-gray-200 rounded-tl-none font-medium'}`}>{msg.text}</div>
+                 {activeConversation?.summary && (
+                    <div className="text-[10px] font-black uppercase tracking-widest text-gray-700 text-center" title={activeConversation.summary}>Earlier turns are summarised for the oracle</div>
+                 )}
+                 {(activeConversation?.messages || []).map(msg => (
+                    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`relative max-w-[90%] p-8 rounded-[32px] text-sm leading-relaxed shadow-2xl group/msg ${msg.role === 'user' ? 'bg-neonBlue/10 border border-neonBlue/20 text-neonBlue rounded-tr-none' : `bg-white/[0.02] border text-gray-200 rounded-tl-none font-medium ${msg.pinnedAt ? 'border-neonPurple/40' : 'border-white/5'}`}`}>
+                        {msg.role === 'ai' && (
+                          <button onClick={() => togglePin(activeConversation.id, msg.id, !msg.pinnedAt)} title={msg.pinnedAt ? 'Unpin from dashboard' : 'Pin to dashboard as an insight'} className={`absolute top-4 right-4 transition-all ${msg.pinnedAt ? 'text-neonPurple' : 'opacity-0 group-hover/msg:opacity-100 text-gray-600 hover:text-neonPurple'}`}>
+                            {msg.pinnedAt ? <PinOff size={14} /> : <Pin size={14} />}
+                          </button>
+                        )}
+                        {msg.toolCalls?.length > 0 && (
+                          <div className="mb-6 space-y-2">
+                            <span className="text-[8px] font-black tracking-[0.3em] text-neonPurple/50 uppercase">Ledger_Queries · {msg.toolCalls.length}</span>
+                            {msg.toolCalls.map((call, j) => <div key={j}><ToolCallTrace call={call} /></div>)}
+                          </div>
+                        )}
+                        {msg.role === 'ai' ? <CoachReply message={msg} /> : msg.text}
+                      </div>
                     </motion.div>
                   ))}
-                  {isProcessing && <div className="flex justify-start"><div className="bg-white/[0.02] border border-white/5 p-8 rounded-[32px] rounded-tl-none"><span className="text-[8px] font-black tracking-[0.3em] text-neonPurple/50 uppercase">Neural_Reasoning_In_Progress...</span></div></div>}
+                  {coachPending && (
+                    <>
+                      <div className="flex justify-end"><div className="max-w-[90%] p-8 rounded-[32px] rounded-tr-none text-sm leading-relaxed bg-neonBlue/10 border border-neonBlue/20 text-neonBlue">{coachPending.question}</div></div>
+                      <div className="flex justify-start">
+                        <div className="bg-white/[0.02] border border-white/5 p-8 rounded-[32px] rounded-tl-none">
+                          {coachPending.error
+                            ? <span className="text-sm text-neonRed">{coachPending.error}</span>
+                            : coachPending.text
+                              ? <div className="text-sm leading-relaxed text-gray-200 font-medium"><Markdown text={coachPending.text} /><span className="inline-block w-2 h-4 ml-1 align-middle bg-neonPurple animate-pulse" /></div>
+                              : <span className="text-[8px] font-black tracking-[0.3em] text-neonPurple/50 uppercase">Neural_Reasoning_In_Progress...</span>}
+                        </div>
+                      </div>
+                    </>
+                  )}
               </div>
+              )}
               <form onSubmit={askCoach} className="p-10 bg-voidLight/60 backdrop-blur-3xl border-t border-white/5">
                 <div className="flex gap-4">
                   <input type="text" value={coachQuery} onChange={(e) => setCoachQuery(e.target.value)} placeholder="Enter query for deep analysis..." className="flex-1 h-20 bg-void border border-white/10 rounded-3xl px-8 text-sm focus:border-neonPurple transition-all text-white outline-none font-bold placeholder:text-gray-800" />
-                  <button className="w-20 h-20 bg-neonPurple text-void rounded-3xl flex items-center justify-center hover:bg-neonPurple/80 transition-all shadow-xl shadow-neonPurple/20"><Send size={28} /></button>
+                  {coachPending && !coachPending.error
+                    ? <button type="button" onClick={stopCoach} title="Stop answering" className="w-20 h-20 bg-void border border-neonPurple/40 text-neonPurple rounded-3xl flex items-center justify-center hover:border-neonRed hover:text-neonRed transition-all"><Square size={24} /></button>
+                    : <button className="w-20 h-20 bg-neonPurple text-void rounded-3xl flex items-center justify-center hover:bg-neonPurple/80 transition-all shadow-xl shadow-neonPurple/20"><Send size={28} /></button>}
                 </div>
               </form>
             </motion.div>
@@ -0,0 +1,40 @@
+import { Account, AccountType, Transaction } from './types';
+
+export const ACCOUNT_TYPES: { id: AccountType, label: string }[] = [
+  { id: 'checking', label: 'Checking' },
+  { id: 'savings', label: 'Savings' },
+  { id: 'credit_card', label: 'Credit card' },
+  { id: 'cash', label: 'Cash' }
+];
+
+/**
+ * How a transaction moves each account's balance, in the transaction's
+ * currency: expenses take money out, income puts it in, and a transfer does
+ * both, so it nets to zero across the user's accounts.
+ */
+export function balanceEffects(tx: Transaction): { accountId: string, amount: number }[] {
+  const effects: { accountId: string, amount: number }[] = [];
+  if (tx.accountId) effects.push({ accountId: tx.accountId, amount: tx.type === 'income' ? tx.amount : -tx.amount });
+  if (tx.type === 'transfer' && tx.toAccountId) effects.push({ accountId: tx.toAccountId, amount: tx.amount });
+  return effects;
+}
+
+/**
+ * Current balance of each account in its own currency. `convert` turns a
+ * transaction amount into the account's currency as of the transaction date.
+ */
+export function accountBalances(
+  accounts: Account[],
+  txs: Transaction[],
+  convert: (amount: number, from: string, to: string, date: string) => number
+): Map<string, number> {
+  const byId = new Map(accounts.map(a => [a.id, a]));
+  const balances = new Map(accounts.map(a => [a.id, a.openingBalance]));
+  txs.forEach(tx => balanceEffects(tx).forEach(({ accountId, amount }) => {
+    const account = byId.get(accountId);
+    if (!account) return; // Not one of the user's accounts
+    balances.set(accountId, balances.get(accountId) + convert(amount, tx.currency, account.currency, tx.date));
+  }));
+  balances.forEach((value, id) => balances.set(id, Math.round(value * 100) / 100));
+  return balances;
+}
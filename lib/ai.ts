@@ -1,130 +1,394 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Transaction } from "./types";
+import { AiRequestOptions, AiResult, AiSettings, CoachBlockSpec, CoachWidgetKind, Transaction, TransactionType } from "./types";
+import { ChatTurn, createProvider, JsonSchema, ToolCall, ToolDefinition } from "./aiProviders";
+import { equalSplitWith } from "./splits";
+import { TRANSACTION_SORTS } from "./query";
+import { ANALYTICS_GRANULARITIES } from "./analytics";
+import { COACH_WIDGET_SOURCES } from "./coach";
 
-// Initialize Gemini with the provided API Key
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const TRANSACTION_TYPES: TransactionType[] = ["expense", "income", "transfer"];
 
-// Models
-const MODEL_FAST = "gemini-3-flash-preview"; 
-const MODEL_PRO = "gemini-3-pro-preview"; 
+// Prompts and schemas live here; lib/aiProviders.ts turns them into provider requests.
+// `settings` is the signed-in user's AI preference (Gemini when absent).
+// `categories` is the user's own category list; answers outside it fall back to "Other".
+// `options.signal` cancels the call, which then resolves with a "cancelled" failure.
+
+const TRANSACTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string" },
+    amount: { type: "number" },
+    currency: { type: "string" },
+    merchant: { type: "string" },
+    category: { type: "string" },
+    date: { type: "string" },
+    description: { type: "string" },
+    isRecurring: { type: "boolean" },
+    tags: {
+      type: "array",
+      items: { type: "string" }
+    },
+    splitWith: {
+      type: "array",
+      items: { type: "string" }
+    }
+  },
+  required: ["amount", "currency", "category", "date"]
+};
 
 /**
  * Parses natural language into a structured transaction object.
  * Optimized for speed and low-latency interaction.
  */
-export async function parseTransactionWithAI(input: string): Promise<{ transaction: Partial<Transaction>, rawResponse: string }> {
+export async function parseTransactionWithAI(input: string, categories: string[], settings?: AiSettings, options: AiRequestOptions = {}): Promise<AiResult<{ transaction: Partial<Transaction>, rawResponse: string }>> {
   const systemInstruction = `
-    You are a financial transaction parser. 
+    You are a financial transaction parser.
     Convert natural language into a structured JSON object.
-    
+
     Rules:
     - Extract amount (number), currency (USD/EUR/etc), merchant, and category.
     - Infer the 'date' in ISO 8601 (YYYY-MM-DD). If "today" or unspecified, use current date.
-    - Category must be one of: Food, Transport, Utilities, Entertainment, Health, Shopping, Other.
+    - Set 'type' to "income" for money received ("got paid $2,000 salary", refunds), "transfer" for money moved between the user's own accounts, otherwise "expense".
+    - Category must be one of: ${categories.join(', ')}; use "Income" for income and "Transfer" for transfers.
     - Set 'isRecurring' to true for words like "monthly", "subscription", "rent".
+    - If the cost is shared ("split with Ana and Joe"), list the other people's names in 'splitWith'.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: input,
-    config: {
-      systemInstruction: systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+  const res = await createProvider(settings).structured<Partial<Transaction> & { splitWith?: string[] }>({
+    task: "parse",
+    tier: "fast",
+    system: systemInstruction,
+    input,
+    schema: TRANSACTION_SCHEMA,
+    signal: options.signal
+  });
+  if (res.ok === false) return res;
+  // The model only names the other people; the user paid and everyone shares equally
+  const { splitWith, ...transaction } = res.value.data;
+  const others = Array.isArray(splitWith) ? splitWith.filter(name => typeof name === "string" && name.trim()) : [];
+  if (!TRANSACTION_TYPES.includes(transaction.type)) transaction.type = "expense";
+  if (others.length > 0 && transaction.type === "expense") transaction.split = equalSplitWith(transaction.amount || 0, others);
+  return { ok: true, value: { transaction, rawResponse: res.value.raw } };
+}
+
+/**
+ * Batch categorisation for imported statement rows.
+ * One request for the whole batch; returns categories in input order.
+ */
+export async function categorizeTransactionsWithAI(rows: { merchant: string, description: string }[], categories: string[], settings?: AiSettings, options: AiRequestOptions = {}): Promise<AiResult<string[]>> {
+  if (rows.length === 0) return { ok: true, value: [] };
+
+  const res = await createProvider(settings).structured<{ index: number, category: string }[]>({
+    task: "categorize",
+    tier: "fast",
+    system: `
+      You categorise bank statement lines.
+      For each input object return its index and a category from: ${categories.join(', ')}.
+    `,
+    input: JSON.stringify(rows.map((r, i) => ({ index: i, ...r }))),
+    schema: {
+      type: "array",
+      items: {
+        type: "object",
         properties: {
-          amount: { type: Type.NUMBER },
-          currency: { type: Type.STRING },
-          merchant: { type: Type.STRING },
-          category: { type: Type.STRING },
-          date: { type: Type.STRING },
-          description: { type: Type.STRING },
-          isRecurring: { type: Type.BOOLEAN },
-          tags: { 
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          }
+          index: { type: "integer" },
+          category: { type: "string" }
         },
-        required: ["amount", "currency", "category", "date"]
+        required: ["index", "category"]
       }
-    }
+    },
+    signal: options.signal
   });
+  if (res.ok === false) return res;
 
-  const text = response.text || "{}";
-  let data: Partial<Transaction> = {};
-  
-  try {
-    data = JSON.parse(text);
-  } catch (e) {
-    console.error("Failed to parse Gemini response", e);
-  }
-
-  return {
-    transaction: data,
-    rawResponse: text
-  };
+  const result: string[] = rows.map(() => "Other");
+  (Array.isArray(res.value.data) ? res.value.data : []).forEach(d => {
+    if (d && d.index in result && categories.includes(d.category)) result[d.index] = d.category;
+  });
+  return { ok: true, value: result };
 }
 
 /**
- * Advanced Receipt Scanner using Vision-enabled Gemini Flash.
+ * Receipt scanner using the provider's vision model.
+ * Returns line items with a category each, plus subtotal, tax and tip when printed.
  */
-export async function scanReceiptWithAI(base64Image: string, mimeType: string): Promise<Partial<Transaction>> {
+export async function scanReceiptWithAI(base64Image: string, mimeType: string, categories: string[], settings?: AiSettings, options: AiRequestOptions = {}): Promise<AiResult<Partial<Transaction>>> {
   const systemInstruction = `
     Extract data from this receipt into JSON:
-    - merchant, amount (number), currency, date (YYYY-MM-DD), category.
+    - merchant, amount (the grand total, number), currency, date (YYYY-MM-DD), category (of the largest share).
+    - items: one entry per line with description, quantity, unitPrice and a category from: ${categories.join(', ')}.
+      Discounts are lines with a negative unitPrice.
+    - subtotal, tax and tip as printed; omit any that are not on the receipt.
   `;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_FAST,
-    contents: [
-      {
-        inlineData: {
-          data: base64Image,
-          mimeType: mimeType
-        }
+  const res = await createProvider(settings).vision<Partial<Transaction>>({
+    task: "receipt",
+    tier: "fast",
+    system: systemInstruction,
+    input: "Extract receipt JSON.",
+    image: { data: base64Image, mimeType },
+    schema: {
+      type: "object",
+      properties: {
+        amount: { type: "number" },
+        currency: { type: "string" },
+        merchant: { type: "string" },
+        category: { type: "string" },
+        date: { type: "string" },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              description: { type: "string" },
+              quantity: { type: "number" },
+              unitPrice: { type: "number" },
+              category: { type: "string" }
+            },
+            required: ["description", "unitPrice"]
+          }
+        },
+        subtotal: { type: "number" },
+        tax: { type: "number" },
+        tip: { type: "number" }
       },
-      { text: "Extract receipt JSON." }
-    ],
-    config: {
-      systemInstruction: systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+      required: ["amount", "currency", "merchant", "date"]
+    },
+    signal: options.signal
+  });
+  if (res.ok === false) return res;
+
+  const data = res.value.data;
+  const items = (Array.isArray(data.items) ? data.items : [])
+    .filter(item => item && typeof item.description === "string" && typeof item.unitPrice === "number")
+    .map(item => ({
+      description: item.description,
+      quantity: typeof item.quantity === "number" && item.quantity > 0 ? item.quantity : 1,
+      unitPrice: item.unitPrice,
+      category: categories.includes(item.category) ? item.category : "Other"
+    }));
+  return { ok: true, value: { ...data, items: items.length > 0 ? items : undefined } };
+}
+
+const DATE = (description: string): JsonSchema => ({ type: "string", description: `${description}, YYYY-MM-DD` });
+
+/**
+ * Read-only lookups the coach can make. lib/api.ts runs them against the
+ * signed-in user's ledger; amounts come back in the user's currency.
+ */
+export const COACH_TOOLS: ToolDefinition[] = [
+  {
+    name: "query_transactions",
+    description: "Finds transactions. Returns how many match, their totals by type and up to 25 of them, newest first unless sorted otherwise. A category also matches its sub-categories.",
+    parameters: {
+      type: "object",
+      properties: {
+        search: { type: "string", description: "Text in the merchant or description" },
+        startDate: DATE("First day, inclusive"),
+        endDate: DATE("Last day, inclusive"),
+        categories: { type: "array", items: { type: "string" } },
+        types: { type: "array", items: { type: "string", enum: TRANSACTION_TYPES } },
+        tags: { type: "array", items: { type: "string" } },
+        minAmount: { type: "number" },
+        maxAmount: { type: "number" },
+        sort: { type: "string", enum: TRANSACTION_SORTS.map(s => s.id) },
+        limit: { type: "integer", description: "Rows to return, at most 25" }
+      }
+    }
+  },
+  {
+    name: "category_totals",
+    description: "Expense totals per category over a date range, largest first, with each category's share. Defaults to the current month.",
+    parameters: {
+      type: "object",
+      properties: {
+        startDate: DATE("First day, inclusive"),
+        endDate: DATE("Last day, inclusive"),
+        rollUp: { type: "boolean", description: "Fold sub-categories into their top-level category" }
+      }
+    }
+  },
+  {
+    name: "budget_status",
+    description: "Every budget's current period: limit, spent so far, projected spend at the end of the period, the day it is expected to be exceeded and an outlook (on_track, may_exceed, will_exceed, over).",
+    parameters: { type: "object", properties: {} }
+  },
+  {
+    name: "spending_trend",
+    description: "Expenses per day, week or month over a date range, oldest first. Without dates: granularity day is this month, week the last 12 weeks, month the last 12 months.",
+    parameters: {
+      type: "object",
+      properties: {
+        granularity: { type: "string", enum: ANALYTICS_GRANULARITIES.map(g => g.id) },
+        startDate: DATE("First day, inclusive"),
+        endDate: DATE("Last day, inclusive")
+      }
+    }
+  },
+  {
+    name: "compare_periods",
+    description: "Expenses and income in a period against the period just before it, with the % change and the categories that moved most. Without dates: granularity day is this month, week the last 12 weeks, month the last 12 months.",
+    parameters: {
+      type: "object",
+      properties: {
+        granularity: { type: "string", enum: ANALYTICS_GRANULARITIES.map(g => g.id) },
+        startDate: DATE("First day, inclusive"),
+        endDate: DATE("Last day, inclusive")
+      }
+    }
+  }
+];
+
+const WIDGET_KINDS = Object.keys(COACH_WIDGET_SOURCES) as CoachWidgetKind[];
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// One block per item: either `markdown`, or a `widget` with the number of the call it draws from
+const COACH_ANSWER_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    blocks: {
+      type: "array",
+      items: {
+        type: "object",
         properties: {
-          amount: { type: Type.NUMBER },
-          currency: { type: Type.STRING },
-          merchant: { type: Type.STRING },
-          category: { type: Type.STRING },
-          date: { type: Type.STRING },
-        },
-        required: ["amount", "currency", "merchant", "date"]
+          markdown: { type: "string" },
+          widget: { type: "string", enum: WIDGET_KINDS },
+          call: { type: "integer", description: "The `call` number of the tool result the widget shows" },
+          category: { type: "string", description: "budget_gauge only: the budget's category" },
+          title: { type: "string" }
+        }
       }
     }
-  });
+  },
+  required: ["blocks"]
+};
 
+// Keeps the blocks that are well formed; null when the reply was not structured at all
+function readCoachBlocks(raw: string): CoachBlockSpec[] | null {
+  let parsed: unknown;
   try {
-    return JSON.parse(response.text || "{}");
+    parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, ""));
   } catch (e) {
-    return {};
+    return null;
   }
+  const list = isRecord(parsed) ? parsed.blocks : undefined;
+  if (!Array.isArray(list)) return null;
+  const blocks = list.filter(isRecord).flatMap((b): CoachBlockSpec[] => {
+    if (typeof b.markdown === "string") return [{ markdown: b.markdown }];
+    const widget = WIDGET_KINDS.find(kind => kind === b.widget);
+    if (!widget) return [];
+    return [{
+      widget,
+      call: Number(b.call),
+      ...(typeof b.category === "string" && { category: b.category }),
+      ...(typeof b.title === "string" && { title: b.title })
+    }];
+  });
+  return blocks.length > 0 ? blocks : null;
+}
+
+// A `\` or `\u` escape cut off by the end of the stream so far
+const PARTIAL_ESCAPE = /\\(u[0-9a-fA-F]{0,3})?$/;
+
+// The markdown of a structured reply that is still arriving; plain replies pass through as they are
+function previewCoachText(raw: string): string {
+  const body = raw.trimStart().replace(/^```(?:json)?\s*/i, "");
+  if (!body.startsWith("{")) return raw;
+  return [...body.matchAll(/"markdown"\s*:\s*"((?:[^"\\]|\\.)*)/g)]
+    .map(([, escaped]) => {
+      const text = escaped.replace(PARTIAL_ESCAPE, "");
+      try {
+        return JSON.parse(`"${text}"`) as string;
+      } catch (e) {
+        return text;
+      }
+    })
+    .map(text => text.trim())
+    .filter(Boolean)
+    .join("\n\n");
 }
 
 /**
- * Hyper-intelligent Financial Coach using Gemini 3 Pro reasoning.
+ * Financial Coach on the provider's reasoning ("pro") model. Instead of a
+ * dump of the ledger it gets COACH_TOOLS; `runTool` answers each call.
+ * `context.history` holds the recent turns of the conversation and
+ * `context.summary` a digest of anything older.
+ *
+ * When the model follows COACH_ANSWER_SCHEMA the answer comes back as
+ * `blocks`, with `text` holding their markdown; otherwise `text` is the
+ * plain reply and `blocks` is absent. `options.onText` receives that text
+ * while the answer streams in.
  */
-export async function askFinancialCoach(history: Transaction[], query: string): Promise<string> {
-  const context = JSON.stringify(history.slice(0, 50)); 
-  
-  const response = await ai.models.generateContent({
-    model: MODEL_PRO,
-    contents: `Transaction History: ${context}\n\nUser Inquiry: ${query}`,
-    config: {
-      systemInstruction: "You are 'Zen Oracle', a master of financial trends. Use deep reasoning to identify hidden spending patterns. Be concise, slightly futuristic, and highly insightful. Always use markdown formatting for clarity.",
-      thinkingConfig: {
-        thinkingBudget: 16384 // Reserve budget for complex financial reasoning
+export async function askFinancialCoach(
+  query: string,
+  context: { currency: string, categories: string[], today: string, history?: ChatTurn[], summary?: string },
+  runTool: (call: ToolCall) => Promise<unknown>,
+  settings?: AiSettings,
+  options: AiRequestOptions = {}
+): Promise<AiResult<{ text: string, blocks?: CoachBlockSpec[] }>> {
+  let streamed = "";
+  let streamedRound = 0;
+  let shown = "";
+  const res = await createProvider(settings).chatWithTools({
+    task: "coach",
+    tier: "pro",
+    system: `
+      You are 'Zen Oracle', a master of financial trends. Use deep reasoning to identify hidden spending patterns. Be concise, slightly futuristic, and highly insightful. Always use markdown formatting for clarity.
+
+      Today is ${context.today}. Amounts are in ${context.currency}. The user's categories: ${context.categories.join(', ')}.
+      Look every figure up with the tools; never guess or invent numbers. Work out date ranges ("this year", "last month") from today's date.
+      ${context.summary ? `Earlier in this conversation: ${context.summary}` : ""}
+
+      Reply with JSON: {"blocks": [...]}, each block either {"markdown": "..."} or a widget that charts one tool result:
+      {"widget": "<kind>", "call": <the result's call number>, "title": "..."}. Widget kinds and the tools they draw from:
+      ${WIDGET_KINDS.map(kind => `- ${kind}: ${COACH_WIDGET_SOURCES[kind].join(" or ")}`).join("\n      ")}
+      budget_gauge also takes the budget's "category". Add a widget only where a chart says more than the words.
+    `,
+    input: query,
+    history: context.history,
+    tools: COACH_TOOLS,
+    answerSchema: COACH_ANSWER_SCHEMA,
+    runTool,
+    deepReasoning: true,
+    signal: options.signal,
+    ...(options.onText && {
+      onText: (delta: string, round: number) => {
+        // Anything written alongside earlier tool calls is not part of the answer
+        if (round !== streamedRound) {
+          streamed = "";
+          streamedRound = round;
+        }
+        streamed += delta;
+        // JSON punctuation between the markdown strings changes nothing visible
+        const preview = previewCoachText(streamed);
+        if (preview !== shown) options.onText(shown = preview);
       }
-    }
+    })
   });
+  if (res.ok === false) return res;
+  const blocks = readCoachBlocks(res.value);
+  if (!blocks) return { ok: true, value: { text: res.value } };
+  return { ok: true, value: { text: blocks.filter(b => b.markdown).map(b => b.markdown.trim()).join("\n\n"), blocks } };
+}
 
-  return response.text || "Synchronicity lost. Please repeat the query.";
+/**
+ * Folds older coach turns into a short digest, so long conversations keep
+ * their context without resending every message. `previous` is the digest
+ * of the turns before these, if any.
+ */
+export async function summarizeConversation(turns: ChatTurn[], previous: string | undefined, settings?: AiSettings, options: AiRequestOptions = {}): Promise<AiResult<string>> {
+  return createProvider(settings).chat({
+    task: "summarize",
+    tier: "fast",
+    system: `
+      You condense a conversation between a user and their financial coach.
+      Keep the questions asked, the figures and date ranges found, and any conclusions or advice. Drop pleasantries.
+      Answer in at most 120 words of plain text.
+    `,
+    input: [
+      previous && `Summary so far: ${previous}`,
+      ...turns.map(turn => `${turn.role === "user" ? "User" : "Coach"}: ${turn.text}`)
+    ].filter(Boolean).join("\n"),
+    signal: options.signal
+  });
 }
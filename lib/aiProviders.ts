@@ -0,0 +1,583 @@
+import { ApiError, Content, ContentListUnion, FunctionCall, FunctionCallingConfigMode, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { AiFailureKind, AiProviderId, AiResult, AiSettings } from "./types";
+import { today } from "./dates";
+
+// Portable subset of JSON Schema; each provider translates it as needed
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  description?: string;
+  enum?: string[];
+}
+
+export type AiTask = "parse" | "categorize" | "receipt" | "coach" | "summarize";
+export type ModelTier = "fast" | "pro";
+
+export interface StructuredRequest {
+  task: AiTask; // Lets the mock answer sensibly; real providers ignore it
+  tier: ModelTier;
+  system: string;
+  input: string;
+  schema: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface VisionRequest extends StructuredRequest {
+  image: { data: string, mimeType: string }; // Base64
+}
+
+// An earlier turn of a conversation; "model" is the assistant's side
+export interface ChatTurn {
+  role: "user" | "model";
+  text: string;
+}
+
+export interface ChatRequest {
+  task: AiTask;
+  tier: ModelTier;
+  system: string;
+  input: string;
+  history?: ChatTurn[]; // Turns before `input`, oldest first
+  deepReasoning?: boolean; // Spend extra reasoning budget where the provider supports it
+  signal?: AbortSignal;
+  // Streams the reply: called with each new piece of text as it arrives. `round` counts model calls in
+  // chatWithTools from 0; text from a round that ends in tool calls is not part of the answer
+  onText?: (delta: string, round: number) => void;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema; // An object schema
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolChatRequest extends ChatRequest {
+  tools: ToolDefinition[];
+  answerSchema?: JsonSchema; // Shape of the final answer, enforced where the provider can combine it with tools
+  // Runs one call; whatever it returns (errors included) is handed back to the model
+  runTool(call: ToolCall): Promise<unknown>;
+}
+
+// Rounds of tool calls before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 6;
+
+/**
+ * What lib/ai.ts needs from a model backend: structured parse, vision
+ * extraction, free-form chat and chat with tools. Failures come back as
+ * values, never throws; an aborted `signal` comes back as "cancelled".
+ */
+export interface AiProvider {
+  readonly id: AiProviderId;
+  structured<T>(request: StructuredRequest): Promise<AiResult<{ data: T, raw: string }>>;
+  vision<T>(request: VisionRequest): Promise<AiResult<{ data: T, raw: string }>>;
+  chat(request: ChatRequest): Promise<AiResult<string>>;
+  // Lets the model call `tools` until it answers; resolves to that answer
+  chatWithTools(request: ToolChatRequest): Promise<AiResult<string>>;
+}
+
+export const AI_PROVIDERS: { id: AiProviderId, label: string }[] = [
+  { id: "gemini", label: "Google Gemini" },
+  { id: "openai", label: "OpenAI-compatible" },
+  { id: "mock", label: "Mock (offline demo)" }
+];
+
+export const DEFAULT_MODELS: Record<AiProviderId, Record<ModelTier, string>> = {
+  gemini: { fast: "gemini-3-flash-preview", pro: "gemini-3-pro-preview" },
+  openai: { fast: "llama3.1", pro: "llama3.1" },
+  mock: { fast: "mock", pro: "mock" }
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp, vLLM and LM Studio expose the same API
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+const trimUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+// OpenAI-compatible endpoints a profile may choose; null lets it choose any (in-browser, where it is the user's own key)
+let allowedBaseUrls: string[] | null = null;
+
+/**
+ * Limits the endpoints profiles can point the OpenAI-compatible provider at
+ * to ones the operator listed; the first is the default. server/index.ts
+ * calls this, so a client can never send AI_API_KEY, or a request from
+ * inside the network, to a host of its choosing.
+ */
+export function restrictAiEndpoints(urls: string[]) {
+  allowedBaseUrls = urls.map(trimUrl).filter(Boolean);
+  if (allowedBaseUrls.length === 0) allowedBaseUrls = [DEFAULT_OPENAI_BASE_URL];
+}
+
+const isAllowedBaseUrl = (url: string) => !allowedBaseUrls || allowedBaseUrls.includes(trimUrl(url));
+
+export function validateAiSettings(settings: Partial<AiSettings>): string | undefined {
+  if (!AI_PROVIDERS.some(p => p.id === settings.provider)) return "Unknown AI provider";
+  if (settings.baseUrl && !/^https?:\/\/\S+$/.test(settings.baseUrl)) return "Endpoint must be an http(s) URL";
+  if (settings.baseUrl && !isAllowedBaseUrl(settings.baseUrl)) return `Endpoint is not allowed on this server; choose one of ${allowedBaseUrls.join(", ")}`;
+  return undefined;
+}
+
+// --- Result helpers ---
+const ok = <T>(value: T): AiResult<T> => ({ ok: true, value });
+
+const fail = (provider: AiProviderId, kind: AiFailureKind, message: string, status?: number): AiResult<never> =>
+  ({ ok: false, failure: { kind, provider, message, status } });
+
+const cancelled = (provider: AiProviderId) => fail(provider, "cancelled", "Request was cancelled");
+
+const kindForStatus = (status: number): AiFailureKind =>
+  status === 401 || status === 403 ? "auth" : status === 429 ? "rate_limited" : "provider_error";
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to
+function parseJson<T>(provider: AiProviderId, res: AiResult<string>): AiResult<{ data: T, raw: string }> {
+  if (res.ok === false) return res as AiResult<never>;
+  const raw = res.value;
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return ok({ data: JSON.parse(text), raw });
+  } catch (e) {
+    return fail(provider, "invalid_response", "Model did not return valid JSON");
+  }
+}
+
+const modelFor = (settings: AiSettings | undefined, provider: AiProviderId, tier: ModelTier) =>
+  (tier === "fast" ? settings?.fastModel : settings?.proModel) || DEFAULT_MODELS[provider][tier];
+
+// --- Gemini ---
+const GEMINI_TYPES: Record<JsonSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum })
+});
+
+const toGeminiContents = (request: ChatRequest): Content[] => [
+  ...(request.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+  { role: "user", parts: [{ text: request.input }] }
+];
+
+// The request for one round of chatWithTools, tagging streamed text with that round
+const forRound = <R extends ChatRequest>(request: R, round: number): R =>
+  request.onText ? { ...request, onText: (delta: string) => request.onText(delta, round) } : request;
+
+const thinkingConfig = (request: ChatRequest) => request.deepReasoning ? {
+  thinkingConfig: {
+    thinkingBudget: 16384 // Reserve budget for complex financial reasoning
+  }
+} : {};
+
+// One model turn, whether it arrived whole or streamed
+interface GeminiTurn {
+  text: string;
+  calls: FunctionCall[];
+  content: Content;
+}
+
+const turnText = (parts: Part[]) => parts.filter(p => typeof p.text === "string" && !p.thought).map(p => p.text).join("");
+
+class GeminiProvider implements AiProvider {
+  readonly id = "gemini";
+  // Created on first use; bundles talking to the REST server are built without a key
+  private client: GoogleGenAI | null = null;
+
+  constructor(private settings?: AiSettings) {}
+
+  // Streams when the request has `onText`; the streamed parts add up to the same turn
+  private async send(request: StructuredRequest | ChatRequest, contents: ContentListUnion, config: Record<string, unknown>): Promise<AiResult<GeminiTurn>> {
+    if (!process.env.API_KEY) return fail(this.id, "not_configured", "GEMINI_API_KEY is not set");
+    if (request.signal?.aborted) return cancelled(this.id);
+    this.client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const params = {
+      model: modelFor(this.settings, this.id, request.tier),
+      contents,
+      config: { systemInstruction: request.system, abortSignal: request.signal, ...config }
+    };
+    const onText = "onText" in request ? request.onText : undefined;
+    try {
+      const parts: Part[] = [];
+      if (onText) {
+        for await (const chunk of await this.client.models.generateContentStream(params)) {
+          const delta = chunk.candidates?.[0]?.content?.parts || [];
+          parts.push(...delta);
+          const text = turnText(delta);
+          if (text) onText(text, 0);
+        }
+      } else {
+        parts.push(...((await this.client.models.generateContent(params)).candidates?.[0]?.content?.parts || []));
+      }
+      return ok({ text: turnText(parts), calls: parts.filter(p => p.functionCall).map(p => p.functionCall), content: { role: "model", parts } });
+    } catch (e) {
+      if (request.signal?.aborted) return cancelled(this.id);
+      if (e instanceof ApiError) return fail(this.id, kindForStatus(e.status), e.message, e.status);
+      return fail(this.id, "network", e?.message || "Request failed");
+    }
+  }
+
+  private async generate(request: StructuredRequest | ChatRequest, contents: ContentListUnion, config: Record<string, unknown>): Promise<AiResult<string>> {
+    const res = await this.send(request, contents, config);
+    if (res.ok === false) return res;
+    return res.value.text ? ok(res.value.text) : fail(this.id, "invalid_response", "Empty response");
+  }
+
+  async structured<T>(request: StructuredRequest) {
+    const res = await this.generate(request, request.input, {
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(request.schema)
+    });
+    return parseJson<T>(this.id, res);
+  }
+
+  async vision<T>(request: VisionRequest) {
+    const res = await this.generate(request, [
+      { inlineData: { data: request.image.data, mimeType: request.image.mimeType } },
+      { text: request.input }
+    ], {
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(request.schema)
+    });
+    return parseJson<T>(this.id, res);
+  }
+
+  async chat(request: ChatRequest) {
+    return this.generate(request, toGeminiContents(request), thinkingConfig(request));
+  }
+
+  async chatWithTools(request: ToolChatRequest) {
+    const contents = toGeminiContents(request);
+    const tools = [{
+      functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters }))
+    }];
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // The declarations stay on the last round (the history refers to them) but calling is switched off
+      const mode = round < MAX_TOOL_ROUNDS ? FunctionCallingConfigMode.AUTO : FunctionCallingConfigMode.NONE;
+      const res = await this.send(forRound(request, round), contents, {
+        tools,
+        toolConfig: { functionCallingConfig: { mode } },
+        ...(request.answerSchema && { responseMimeType: "application/json", responseJsonSchema: request.answerSchema }),
+        ...thinkingConfig(request)
+      });
+      if (res.ok === false) return res;
+      const calls = res.value.calls;
+      if (calls.length === 0) return res.value.text ? ok(res.value.text) : fail(this.id, "invalid_response", "Empty response");
+
+      // The model's turn goes back verbatim; it carries the thought signatures Gemini expects
+      contents.push(res.value.content);
+      const parts = [];
+      for (const call of calls) {
+        if (request.signal?.aborted) return cancelled(this.id);
+        const output = await request.runTool({ name: call.name, args: call.args || {} });
+        parts.push({ functionResponse: { id: call.id, name: call.name, response: { output } } });
+      }
+      contents.push({ role: "user", parts });
+    }
+    return fail(this.id, "invalid_response", "Model kept calling tools without answering");
+  }
+}
+
+// --- OpenAI-compatible ---
+// Any server speaking POST /chat/completions: OpenAI itself, or a locally hosted model
+
+// The parts of the wire format this provider sends and reads back
+interface OpenAiToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: unknown; // A string, or text and image parts for vision
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const asText = (v: unknown) => (typeof v === "string" ? v : "");
+
+// `choices[0].message` of a completion, or `choices[0].delta` of a stream chunk
+const firstChoice = (body: unknown, key: "message" | "delta"): Record<string, unknown> | undefined => {
+  const choices = isRecord(body) ? body.choices : undefined;
+  const choice = Array.isArray(choices) && isRecord(choices[0]) ? choices[0][key] : undefined;
+  return isRecord(choice) ? choice : undefined;
+};
+
+const toToolCall = (call: Record<string, unknown>): OpenAiToolCall => {
+  const fn = isRecord(call.function) ? call.function : {};
+  return { id: asText(call.id), type: "function", function: { name: asText(fn.name), arguments: asText(fn.arguments) } };
+};
+
+const toAssistantMessage = (message: Record<string, unknown>): OpenAiMessage => ({
+  role: "assistant",
+  content: typeof message.content === "string" ? message.content : null,
+  ...(Array.isArray(message.tool_calls) && { tool_calls: message.tool_calls.filter(isRecord).map(toToolCall) })
+});
+class OpenAiCompatibleProvider implements AiProvider {
+  readonly id = "openai";
+  private baseUrl: string;
+
+  constructor(private settings?: AiSettings) {
+    // A stored endpoint that is no longer allowed falls back to the default rather than being called
+    const chosen = settings?.baseUrl && isAllowedBaseUrl(settings.baseUrl) ? settings.baseUrl : allowedBaseUrls?.[0];
+    this.baseUrl = trimUrl(chosen || DEFAULT_OPENAI_BASE_URL);
+  }
+
+  private async complete(request: StructuredRequest | ChatRequest, userContent: unknown, extra: Record<string, unknown> = {}): Promise<AiResult<string>> {
+    const res = await this.send(request, this.messages(request, userContent), extra);
+    if (res.ok === false) return res;
+    return asText(res.value.content) ? ok(asText(res.value.content)) : fail(this.id, "invalid_response", "Response had no message content");
+  }
+
+  // The system prompt, any earlier turns, then the new user content
+  private messages(request: StructuredRequest | ChatRequest, userContent: unknown): OpenAiMessage[] {
+    const history = "history" in request ? request.history || [] : [];
+    return [
+      { role: "system", content: request.system },
+      ...history.map((turn): OpenAiMessage => ({ role: turn.role === "model" ? "assistant" : "user", content: turn.text })),
+      { role: "user", content: userContent }
+    ];
+  }
+
+  // Resolves to the first choice's message; with `onText` it is streamed and put back together
+  private async send(request: StructuredRequest | ChatRequest, messages: OpenAiMessage[], extra: Record<string, unknown>): Promise<AiResult<OpenAiMessage>> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Local servers usually need no key
+    if (process.env.AI_API_KEY) headers.Authorization = `Bearer ${process.env.AI_API_KEY}`;
+    const onText = "onText" in request ? request.onText : undefined;
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({
+          model: modelFor(this.settings, this.id, request.tier),
+          messages,
+          ...(onText && { stream: true }),
+          ...extra
+        })
+      });
+    } catch (e) {
+      if (request.signal?.aborted) return cancelled(this.id);
+      return fail(this.id, "network", `Could not reach ${this.baseUrl}`);
+    }
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      return fail(this.id, kindForStatus(res.status), detail.slice(0, 200) || res.statusText, res.status);
+    }
+    try {
+      if (onText) return ok(await this.readStream(res, onText));
+      const message = firstChoice(await res.json(), "message");
+      return message ? ok(toAssistantMessage(message)) : fail(this.id, "invalid_response", "Response had no message");
+    } catch (e) {
+      if (request.signal?.aborted) return cancelled(this.id);
+      return fail(this.id, "invalid_response", onText ? "Stream was interrupted" : "Response was not JSON");
+    }
+  }
+
+  // Server-sent events of `delta`s; tool calls arrive in fragments keyed by index
+  private async readStream(res: Response, onText: (delta: string, round: number) => void): Promise<OpenAiMessage> {
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    const calls: OpenAiToolCall[] = [];
+    let content = "";
+    let buffer = "";
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop();
+      for (const line of lines) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1].trim();
+        if (!data || data === "[DONE]") continue;
+        const delta = firstChoice(JSON.parse(data), "delta");
+        const piece = asText(delta?.content);
+        if (piece) {
+          content += piece;
+          onText(piece, 0);
+        }
+        for (const part of Array.isArray(delta?.tool_calls) ? delta.tool_calls.filter(isRecord) : []) {
+          const fragment = toToolCall(part);
+          const call = calls[typeof part.index === "number" ? part.index : calls.length] ??= { id: "", type: "function", function: { name: "", arguments: "" } };
+          if (fragment.id) call.id = fragment.id;
+          call.function.name += fragment.function.name;
+          call.function.arguments += fragment.function.arguments;
+        }
+      }
+    }
+    const toolCalls = calls.filter(Boolean);
+    return { role: "assistant", content: content || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) };
+  }
+
+  private jsonFormat(request: StructuredRequest) {
+    return { response_format: { type: "json_schema", json_schema: { name: request.task, schema: request.schema } } };
+  }
+
+  async structured<T>(request: StructuredRequest) {
+    const res = await this.complete(request, request.input, this.jsonFormat(request));
+    return parseJson<T>(this.id, res);
+  }
+
+  async vision<T>(request: VisionRequest) {
+    const res = await this.complete(request, [
+      { type: "image_url", image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` } },
+      { type: "text", text: request.input }
+    ], this.jsonFormat(request));
+    return parseJson<T>(this.id, res);
+  }
+
+  async chat(request: ChatRequest) {
+    return this.complete(request, request.input);
+  }
+
+  async chatWithTools(request: ToolChatRequest) {
+    const messages = this.messages(request, request.input);
+    const tools = request.tools.map(t => ({ type: "function", function: { name: t.name, description: t.description, parameters: t.parameters } }));
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const res = await this.send(forRound(request, round), messages, {
+        tools,
+        tool_choice: round < MAX_TOOL_ROUNDS ? "auto" : "none",
+        ...(request.answerSchema && { response_format: { type: "json_schema", json_schema: { name: request.task, schema: request.answerSchema } } })
+      });
+      if (res.ok === false) return res;
+      const message = res.value;
+      const calls = message.tool_calls || [];
+      if (calls.length === 0) return asText(message.content) ? ok(asText(message.content)) : fail(this.id, "invalid_response", "Response had no message content");
+
+      messages.push(message);
+      for (const call of calls) {
+        if (request.signal?.aborted) return cancelled(this.id);
+        let output: unknown;
+        try {
+          const args: unknown = JSON.parse(call.function.arguments || "{}");
+          output = await request.runTool({ name: call.function.name, args: isRecord(args) ? args : {} });
+        } catch (e) {
+          // Small local models sometimes send malformed arguments; let them retry
+          output = { error: "Arguments were not valid JSON" };
+        }
+        messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(output) });
+      }
+    }
+    // Servers that ignore tool_choice can keep asking
+    return fail(this.id, "invalid_response", "Model kept calling tools without answering");
+  }
+}
+
+// --- Mock ---
+// Deterministic canned answers, so demos and tests run without a model or network
+const MOCK_REPLIES: Record<AiTask, (input: string) => unknown> = {
+  parse: input => ({
+    type: /got paid|salary|refund/i.test(input) ? "income" : "expense",
+    amount: parseFloat(input.match(/\d+(?:\.\d+)?/)?.[0] || "0"),
+    currency: "USD",
+    merchant: input.match(/\bat\s+([A-Za-z][\w'&-]*)/i)?.[1] || "Mock Merchant",
+    category: /got paid|salary|refund/i.test(input) ? "Income" : "Other",
+    date: today(),
+    description: input,
+    isRecurring: /monthly|subscription|rent/i.test(input),
+    tags: ["mock"]
+  }),
+  categorize: input => {
+    const rows: unknown[] = JSON.parse(input);
+    return rows.map((_, index) => ({ index, category: "Other" }));
+  },
+  receipt: () => ({
+    merchant: "Mock Market", amount: 31.86, currency: "USD", date: today(), category: "Food",
+    items: [
+      { description: "Coffee beans", quantity: 1, unitPrice: 12, category: "Food" },
+      { description: "Bananas", quantity: 6, unitPrice: 0.25, category: "Food" },
+      { description: "Dish soap", quantity: 2, unitPrice: 3.5, category: "Shopping" },
+      { description: "Paper towels", quantity: 1, unitPrice: 9, category: "Shopping" }
+    ],
+    subtotal: 29.5, tax: 2.36
+  }),
+  coach: () => "**Mock_Oracle** · This is a canned answer for demos and tests. No model was called.",
+  summarize: input => `Mock summary of ${input.split("\n").filter(Boolean).length} earlier line(s).`
+};
+
+// The widget the mock shows for each tool's result, when a structured answer is asked for
+const MOCK_WIDGETS: Record<string, string> = {
+  query_transactions: "transaction_list",
+  category_totals: "category_bars",
+  compare_periods: "category_bars",
+  spending_trend: "trend_line",
+  budget_status: "budget_gauge"
+};
+
+// Which tool the mock reaches for, by the first pattern the question matches; otherwise the first tool
+const MOCK_TOOL_PICKS: [RegExp, string][] = [
+  [/budget/i, "budget_status"],
+  [/trend|over time|month by month/i, "spending_trend"],
+  [/compare|than last|previous|vs\.?\s/i, "compare_periods"],
+  [/categor|where|most/i, "category_totals"]
+];
+
+// Streamed mock replies come out a few characters at a time, slowly enough to see and to cancel
+const MOCK_CHUNK_LENGTH = 12;
+const MOCK_CHUNK_DELAY_MS = 20;
+
+class MockProvider implements AiProvider {
+  readonly id = "mock";
+
+  async structured<T>(request: StructuredRequest) {
+    if (request.signal?.aborted) return cancelled(this.id);
+    const data = MOCK_REPLIES[request.task](request.input) as T;
+    return ok({ data, raw: JSON.stringify(data) });
+  }
+
+  async vision<T>(request: VisionRequest) {
+    return this.structured<T>(request);
+  }
+
+  async chat(request: ChatRequest) {
+    return this.reply(request, String(MOCK_REPLIES[request.task](request.input)));
+  }
+
+  // One round with empty arguments, so the tool plumbing runs end to end
+  async chatWithTools(request: ToolChatRequest) {
+    if (request.signal?.aborted) return cancelled(this.id);
+    const pick = MOCK_TOOL_PICKS.find(([pattern, name]) => pattern.test(request.input) && request.tools.some(t => t.name === name))?.[1];
+    const tool = pick || request.tools[0]?.name;
+    if (tool) await request.runTool({ name: tool, args: {} });
+    const text = `${MOCK_REPLIES[request.task](request.input)}${tool ? ` Consulted \`${tool}\`.` : ""}`;
+    if (!request.answerSchema) return this.reply(request, text);
+    return this.reply(request, JSON.stringify({ blocks: [{ markdown: text }, ...(MOCK_WIDGETS[tool] ? [{ widget: MOCK_WIDGETS[tool], call: 1 }] : [])] }));
+  }
+
+  private async reply(request: ChatRequest, text: string): Promise<AiResult<string>> {
+    if (request.signal?.aborted) return cancelled(this.id);
+    if (!request.onText) return ok(text);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_LENGTH) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      if (request.signal?.aborted) return cancelled(this.id);
+      request.onText(text.slice(i, i + MOCK_CHUNK_LENGTH), 0);
+    }
+    return ok(text);
+  }
+}
+
+export function createProvider(settings?: AiSettings): AiProvider {
+  switch (settings?.provider) {
+    case "openai": return new OpenAiCompatibleProvider(settings);
+    case "mock": return new MockProvider();
+    default: return new GeminiProvider(settings);
+  }
+}
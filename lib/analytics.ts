@@ -0,0 +1,122 @@
+import { AnalyticsGranularity, AnalyticsPeriod, Budget, BudgetVelocity, CategoryDelta } from './types';
+import { addDays, addMonths, clampedDay, daysBetween, parseDay, toDay } from './dates';
+import { getPeriodWindow } from './budgets';
+
+export const ANALYTICS_GRANULARITIES: { id: AnalyticsGranularity, label: string }[] = [
+  { id: 'day', label: 'Month' },
+  { id: 'week', label: 'Quarter' },
+  { id: 'month', label: 'Year' }
+];
+
+const monthStart = (day: string) => `${day.slice(0, 7)}-01`;
+const monthEnd = (day: string) => addDays(addMonths(monthStart(day), 1), -1);
+
+// The first day of the day, week (Monday) or month containing `day`
+export function bucketStart(day: string, granularity: AnalyticsGranularity): string {
+  if (granularity === 'week') return getPeriodWindow(day, 'weekly', 1).start;
+  return granularity === 'month' ? monthStart(day) : day.split('T')[0];
+}
+
+const nextBucket = (bucket: string, granularity: AnalyticsGranularity) =>
+  granularity === 'month' ? addMonths(bucket, 1) : addDays(bucket, granularity === 'week' ? 7 : 1);
+
+// Bucket starts from the one containing `start` through the one containing `end`
+export function buckets(start: string, end: string, granularity: AnalyticsGranularity): string[] {
+  const out: string[] = [];
+  for (let b = bucketStart(start, granularity); b <= end; b = nextBucket(b, granularity)) out.push(b);
+  return out;
+}
+
+// Shifts a day back by whole months, clamping to the target month's length (Mar 31 -> Feb 28)
+function monthsBefore(day: string, months: number): string {
+  const d = parseDay(day);
+  return clampedDay(d.getUTCFullYear(), d.getUTCMonth() - months, d.getUTCDate());
+}
+
+/**
+ * Works out the window a summary covers and the window it is compared with.
+ * Without explicit dates each granularity has a natural default:
+ *   day    the current calendar month
+ *   week   the 12 weeks ending this week
+ *   month  the 12 months ending this month
+ * The comparison window sits directly before `start` (whole months when the
+ * range is whole months) and stops as far in as `today` is into the range,
+ * so a half-finished month is compared with the first half of the last one.
+ */
+export function resolvePeriod(
+  granularity: AnalyticsGranularity,
+  startDate?: string,
+  endDate?: string,
+  today: string = toDay(new Date())
+): AnalyticsPeriod & { elapsedDays: number } {
+  const anchor = endDate || today;
+  const end = endDate || (granularity === 'week' ? addDays(getPeriodWindow(anchor, 'weekly', 1).start, 6) : monthEnd(anchor));
+  const start = startDate || (
+    granularity === 'day' ? monthStart(anchor)
+      : granularity === 'week' ? addDays(bucketStart(anchor, 'week'), -7 * 11)
+        : addMonths(monthStart(anchor), -11)
+  );
+
+  const length = daysBetween(start, end) + 1;
+  const elapsedDays = Math.min(Math.max(daysBetween(start, today) + 1, 0), length);
+  const lastElapsed = addDays(start, elapsedDays - 1); // The day before `start` when none have passed
+
+  const wholeMonths = start === monthStart(start) && end === monthEnd(end);
+  if (wholeMonths) {
+    const months = (parseDay(end).getUTCFullYear() - parseDay(start).getUTCFullYear()) * 12
+      + parseDay(end).getUTCMonth() - parseDay(start).getUTCMonth() + 1;
+    const previousStart = addMonths(start, -months);
+    const previousEnd = elapsedDays === 0 ? addDays(previousStart, -1)
+      : elapsedDays === length ? addDays(start, -1)
+        : monthsBefore(lastElapsed, months);
+    return { granularity, start, end, previousStart, previousEnd, elapsedDays };
+  }
+
+  const previousStart = addDays(start, -length);
+  return { granularity, start, end, previousStart, previousEnd: addDays(previousStart, elapsedDays - 1), elapsedDays };
+}
+
+// Per-category movement between two periods, largest change (either way) first
+export function categoryDeltas(current: Record<string, number>, previous: Record<string, number>): CategoryDelta[] {
+  return [...new Set([...Object.keys(current), ...Object.keys(previous)])]
+    .map(category => {
+      const now = current[category] || 0;
+      const before = previous[category] || 0;
+      return {
+        category,
+        current: now,
+        previous: before,
+        change: now - before,
+        percentChange: before > 0 ? ((now - before) / before) * 100 : null
+      };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
+
+/**
+ * Compares spend with elapsed time across the budgets' current periods
+ * (`spent`, `carriedIn`, `periodStart` and `periodEnd` as filled in by the
+ * repository). Bigger budgets weigh more, so a small overrun on a coffee
+ * budget does not sink the score.
+ */
+export function budgetVelocity(budgets: Budget[], today: string = toDay(new Date())): BudgetVelocity | null {
+  const current = budgets
+    .filter(b => b.periodStart && b.periodEnd)
+    .map(b => ({
+      limit: Math.max((b.convertedLimit ?? b.limitAmount) + (b.carriedIn || 0), 0),
+      spent: b.spent,
+      // Today counts as gone, so the pace on day one is not zero
+      elapsed: Math.min((daysBetween(b.periodStart, today) + 1) / daysBetween(b.periodStart, b.periodEnd), 1)
+    }));
+  const totalLimit = current.reduce((sum, b) => sum + b.limit, 0);
+  if (current.length === 0 || totalLimit === 0) return null;
+
+  const spentRatio = current.reduce((sum, b) => sum + b.spent, 0) / totalLimit;
+  const elapsedRatio = current.reduce((sum, b) => sum + b.limit * b.elapsed, 0) / totalLimit;
+  const pace = elapsedRatio > 0 ? spentRatio / elapsedRatio : 0;
+  return {
+    score: Math.round(Math.min(Math.max((2 - Math.max(pace, 1)) * 100, 0), 100)),
+    spentPercent: Math.round(spentRatio * 100),
+    elapsedPercent: Math.round(elapsedRatio * 100)
+  };
+}
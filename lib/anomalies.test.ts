@@ -0,0 +1,61 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectAlerts } from './anomalies';
+import { Transaction } from './types';
+
+let nextId = 0;
+// Past entries are a week apart so they never look like duplicates of each other or of the candidate
+const past = (merchant: string, category: string, amounts: number[]): Transaction[] => amounts.map((amount, i) => ({
+  id: `t${nextId++}`, userId: 'u1', type: 'expense', amount, currency: 'USD', date: `2024-01-${String(1 + i * 7).padStart(2, '0')}`,
+  category, merchant, description: '', tags: [], isRecurring: false
+}));
+
+const unusual = (amount: number, history: Transaction[], merchant = 'Cafe Uno', category = 'Coffee') =>
+  detectAlerts({ type: 'expense', amount, merchant, category, date: '2024-03-01' }, history, 'USD').find(a => a.kind === 'unusual_amount');
+
+describe('detectAlerts unusual amounts', () => {
+  const cafe = past('Cafe Uno', 'Coffee', [10, 11, 12]);
+
+  test('flags an amount far above the merchant median', () => {
+    // Median 11, MAD 1: 22 sits 7.4 scaled deviations out
+    assert.equal(unusual(22, cafe)?.message, '2.0× your usual spend at Cafe Uno (typically $11.00)');
+  });
+
+  test('needs at least twice the median', () => {
+    assert.equal(unusual(21.9, cafe), undefined);
+  });
+
+  test('needs a robust z-score over 3.5 when amounts vary', () => {
+    // Median 20, MAD 15 (scaled 22.24): 90 scores 3.15, 100 scores 3.6
+    const varied = past('Cafe Uno', 'Coffee', [5, 20, 35, 40, 18]);
+    assert.equal(unusual(90, varied), undefined);
+    assert.match(unusual(100, varied)?.message || '', /^5\.0× your usual spend at Cafe Uno/);
+  });
+
+  test('a perfectly steady habit trips at twice the median', () => {
+    const steady = past('Cafe Uno', 'Coffee', [4, 4, 4]);
+    assert.equal(unusual(7.99, steady), undefined);
+    assert.ok(unusual(8, steady));
+  });
+
+  test('waits for enough history', () => {
+    assert.equal(unusual(100, past('Cafe Uno', 'Coffee', [10, 10])), undefined);
+    assert.equal(unusual(100, past('Elsewhere', 'Coffee', [10, 10, 10, 10])), undefined);
+  });
+
+  test('falls back to the category when the merchant is new', () => {
+    const history = past('Elsewhere', 'Coffee', [3, 4, 4, 5, 4]);
+    assert.equal(unusual(20, history, 'New Place')?.message, '5.0× your usual Coffee spend (typically $4.00)');
+  });
+
+  test('the merchant comparison wins over the category', () => {
+    const history = [...cafe, ...past('Elsewhere', 'Coffee', [3, 3, 3, 3, 3])];
+    assert.match(unusual(30, history)?.message || '', /spend at Cafe Uno/);
+  });
+
+  test('compares converted amounts across currencies', () => {
+    // Raw amounts in cents-like units would hide the spike; the converted ones show it
+    const history = cafe.map(t => ({ ...t, currency: 'JPY', amount: t.amount * 150, convertedAmount: t.amount }));
+    assert.ok(unusual(22, history));
+  });
+});
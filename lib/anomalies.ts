@@ -0,0 +1,96 @@
+import { AlertKind, Transaction, TransactionAlert } from './types';
+import { categoryKey } from './categories';
+import { daysBetween } from './dates';
+import { formatCurrency } from './currency';
+import { sameMerchant } from './import';
+
+export const ALERT_LABELS: Record<AlertKind, string> = {
+  duplicate: 'Possible duplicate',
+  unusual_amount: 'Unusual amount',
+  new_merchant: 'New merchant'
+};
+
+// Entries this close in date and amount, at the same merchant, look like the same expense
+export const DUPLICATE_WINDOW_DAYS = 3;
+export const DUPLICATE_AMOUNT_TOLERANCE = 0.05;
+
+// Past amounts needed before a spend can look unusual for a category or a merchant
+const MIN_CATEGORY_HISTORY = 5;
+const MIN_MERCHANT_HISTORY = 3;
+// Robust z-score cut-off: distance from the median in scaled median absolute deviations
+const OUTLIER_SCORE = 3.5;
+
+const day = (date: string) => date.split('T')[0];
+const amountOf = (t: Partial<Transaction>) => t.convertedAmount ?? t.amount ?? 0;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * How far `amount` sits above past amounts, as a multiple of their median,
+ * or undefined when it is not an outlier. Needs at least twice the median and
+ * a robust z-score over OUTLIER_SCORE, so a steady habit with one bigger
+ * week does not trip it.
+ */
+function outlierRatio(amount: number, past: number[]): { ratio: number, median: number } | undefined {
+  const mid = median(past);
+  if (mid <= 0 || amount < mid * 2) return undefined;
+  const mad = median(past.map(v => Math.abs(v - mid))) * 1.4826;
+  if (mad > 0 && (amount - mid) / mad <= OUTLIER_SCORE) return undefined;
+  return { ratio: amount / mid, median: mid };
+}
+
+/**
+ * Checks a new entry against the rest of the ledger. Amounts are compared via
+ * `convertedAmount` when both sides have it, so entries in different
+ * currencies still line up. Transfers are never flagged.
+ */
+export function detectAlerts(candidate: Partial<Transaction>, history: Transaction[], currency: string): TransactionAlert[] {
+  const type = candidate.type || 'expense';
+  if (type === 'transfer' || !candidate.merchant || history.length === 0) return [];
+  const alerts: TransactionAlert[] = [];
+  const amount = amountOf(candidate);
+  const date = day(candidate.date || new Date().toISOString());
+  const others = history.filter(t => t.id !== candidate.id && t.type === type);
+  const atMerchant = others.filter(t => sameMerchant(t.merchant, candidate.merchant));
+
+  const duplicate = atMerchant
+    .filter(t => Math.abs(daysBetween(day(t.date), date)) <= DUPLICATE_WINDOW_DAYS)
+    .filter(t => Math.abs(amountOf(t) - amount) <= Math.max(amountOf(t), amount) * DUPLICATE_AMOUNT_TOLERANCE)
+    .sort((a, b) => Math.abs(amountOf(a) - amount) - Math.abs(amountOf(b) - amount))[0];
+  if (duplicate) {
+    alerts.push({
+      kind: 'duplicate',
+      message: `Looks like ${duplicate.merchant} on ${day(duplicate.date)} for ${formatCurrency(duplicate.amount, duplicate.currency)}`,
+      relatedId: duplicate.id
+    });
+  }
+
+  if (type === 'expense') {
+    // The merchant's own history is the sharper comparison, so it wins when both trip
+    const merchantPast = atMerchant.map(amountOf);
+    const categoryPast = others.filter(t => categoryKey(t.category) === categoryKey(candidate.category)).map(amountOf);
+    const byMerchant = merchantPast.length >= MIN_MERCHANT_HISTORY ? outlierRatio(amount, merchantPast) : undefined;
+    const byCategory = !byMerchant && categoryPast.length >= MIN_CATEGORY_HISTORY ? outlierRatio(amount, categoryPast) : undefined;
+    const outlier = byMerchant || byCategory;
+    if (outlier) {
+      alerts.push({
+        kind: 'unusual_amount',
+        message: `${outlier.ratio.toFixed(1)}× your usual ${byMerchant ? `spend at ${candidate.merchant}` : `${candidate.category} spend`} (typically ${formatCurrency(outlier.median, currency)})`
+      });
+    }
+  }
+
+  if (atMerchant.length === 0) alerts.push({ kind: 'new_merchant', message: `First entry for ${candidate.merchant}` });
+  return alerts;
+}
+
+// Keeps the user's earlier dismissals when alerts are worked out again
+export function carryDismissals(fresh: TransactionAlert[], previous: TransactionAlert[] = []): TransactionAlert[] {
+  return fresh.map(a => previous.some(p => p.dismissed && p.kind === a.kind && p.relatedId === a.relatedId) ? { ...a, dismissed: true } : a);
+}
+
+export const activeAlerts = (t: Partial<Transaction>) => (t.alerts || []).filter(a => !a.dismissed);
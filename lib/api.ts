@@ -1,32 +1,343 @@
 
-import { db } from './store';
-import { parseTransactionWithAI, scanReceiptWithAI, askFinancialCoach } from './ai';
-import { Transaction, Budget, User, AnalyticsSummary } from './types';
+import { Repository, SessionSource, GUEST_USER, seedRates } from './repository';
+import { hashPassword, verifyPassword, normalizeEmail } from './auth';
+import { parseTransactionWithAI, scanReceiptWithAI, askFinancialCoach, categorizeTransactionsWithAI, summarizeConversation } from './ai';
+import { validateAiSettings, ChatTurn, ToolCall } from './aiProviders';
+import { parseTransactionLocally } from './ruleParser';
+import { checkReceipt, splitReceipt } from './receipts';
+import { resolveSplit, toSplitRequest, pairBalances, participantKey } from './splits';
+import { accountBalances, ACCOUNT_TYPES } from './accounts';
+import { applyRules, withSuggestion, merchantKey, LEARNED_RULE_PRIORITY, MANUAL_RULE_PRIORITY } from './rules';
+import { CATEGORY_COLORS, CATEGORY_ICONS, DEFAULT_CATEGORIES, categoryKey, findCategory, isDescendant, rootCategory } from './categories';
+import { convertAmount, missingRateDetails } from './currency';
+import { parseTransactionQuery, runTransactionQuery, DEFAULT_PAGE_SIZE } from './query';
+import { suggestBudgetLimits } from './budgets';
+import { ANALYTICS_GRANULARITIES, budgetVelocity, bucketStart, buckets, categoryDeltas, resolvePeriod } from './analytics';
+import { buildForecast, FORECAST_HISTORY_DAYS } from './forecast';
+import { detectAlerts, carryDismissals } from './anomalies';
+import { buildCoachBlocks } from './coach';
+import { buildImportCandidates, detectFormat } from './import';
+import { buildBackup, transactionsToCsv, validateBackup } from './backup';
+import { emptySnapshot } from './migrations';
+import { dueOccurrences, upcomingOccurrences } from './recurrence';
+import { addDays, daysBetween, today } from './dates';
+import { Transaction, Budget, BudgetPeriod, User, AnalyticsSummary, ExchangeRate, CsvColumnMapping, ImportCandidate, ImportFormat, RestoreMode, RecurrenceRule, RecurringSeries, UpcomingBill, TransactionChange, ProfileSummary, SplitRequest, Settlement, PairBalance, Account, AccountBalance, Category, CategoryRule, TransactionType, StoreSnapshot, CategorySpending, MonthlyTrend, AiFailure, AiFailureKind, TransactionQuery, TransactionPage, AnalyticsGranularity, SpendingForecast, AlertKind, TransactionAlert, CoachAnswer, CoachToolCall, CoachConversation, CoachMessage, CoachInsight, AiSettings, AiRequestOptions } from './types';
 
 // Standardized API Response
-type ApiResponse<T> = {
+export type ApiResponse<T> = {
   data?: T;
   error?: string;
+  details?: string[]; // Field-level problems behind `error` (e.g. a restore report), or warnings alongside `data`
   status: number;
 };
 
+// Storage and session are supplied by the host: lib/client.ts in the browser, server/index.ts under Node
+let db: Repository;
+let session: SessionSource;
+
+export function configureBackend(repository: Repository, source: SessionSource) {
+  db = repository;
+  session = source;
+}
+
 // --- AUTH CONTROLLER ---
+// Credentials never leave the service layer
+const toPublicUser = ({ credentials, ...user }: User): User => user;
+
+// The server stores a guest only once it first writes; until then it reads as a fresh profile
+const unsavedGuest = (): User => ({ ...GUEST_USER, id: session.guestId() });
+
+async function seedRatesIfEmpty(userId: string) {
+  if ((await db.getRates(userId)).length > 0) return;
+  for (const rate of seedRates(userId)) await db.upsertRate(rate);
+}
+
 export const AuthService = {
-  currentUserId: 'guest_user', // Mock session for Phase 2 frontend compatibility
+  // Without a session the app runs as the guest profile
+  get currentUserId(): string {
+    return session.get();
+  },
+
+  // Switching profiles must not leave the previous profile's undo reachable
+  startSession(userId: string) {
+    pendingUndo.delete(session.get());
+    session.set(userId);
+  },
 
   async getSession(): Promise<User> {
     const user = await db.getUser(this.currentUserId);
-    if (!user) throw new Error('Session invalid');
-    return user;
+    if (!user) {
+      if (this.currentUserId === session.guestId()) return unsavedGuest();
+      // Stale session (profile removed by a restore); drop back to the guest
+      this.startSession(session.guestId());
+      return this.getSession();
+    }
+    return toPublicUser(user);
+  },
+
+  async getProfiles(): Promise<ApiResponse<ProfileSummary[]>> {
+    const users = session.listsAllProfiles
+      ? await db.getUsers()
+      : [(await db.getUser(session.guestId())) ?? unsavedGuest(), await db.getUser(this.currentUserId)].filter(Boolean);
+    const profiles = [...new Map(users.map(u => [u.id, u])).values()]
+      .map(u => ({ id: u.id, name: u.name, email: u.email, isGuest: u.id === session.guestId() }))
+      .sort((a, b) => Number(b.isGuest) - Number(a.isGuest) || a.name.localeCompare(b.name));
+    return { data: profiles, status: 200 };
+  },
+
+  async register(
+    payload: { name: string, email: string, password: string },
+    options: { moveGuestData?: boolean } = {}
+  ): Promise<ApiResponse<User>> {
+    const name = (payload.name || '').trim();
+    const email = normalizeEmail(payload.email || '');
+    if (!name) return { error: 'Name is required', status: 400 };
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { error: 'Enter a valid email address', status: 400 };
+    if ((payload.password || '').length < 8) return { error: 'Password must be at least 8 characters', status: 400 };
+    if (await db.getUserByEmail(email)) return { error: 'An account with this email already exists', status: 409 };
+
+    const guest = await db.getUser(session.guestId());
+    const user: User = {
+      id: Math.random().toString(36).substring(2, 11),
+      email,
+      name,
+      preferences: options.moveGuestData && guest ? { ...guest.preferences } : { ...GUEST_USER.preferences },
+      createdAt: new Date().toISOString(),
+      credentials: await hashPassword(payload.password)
+    };
+    await db.createUser(user);
+
+    if (options.moveGuestData) {
+      await db.reassignUser(session.guestId(), user.id);
+      await seedRatesIfEmpty(session.guestId());
+    }
+    await seedRatesIfEmpty(user.id);
+
+    this.startSession(user.id);
+    return { data: toPublicUser(user), status: 201 };
+  },
+
+  async login(email: string, password: string): Promise<ApiResponse<User>> {
+    const user = await db.getUserByEmail(normalizeEmail(email || ''));
+    // Same message either way so the form doesn't reveal which emails exist
+    if (!user?.credentials || !(await verifyPassword(password || '', user.credentials))) {
+      return { error: 'Email or password is incorrect', status: 401 };
+    }
+    this.startSession(user.id);
+    return { data: toPublicUser(user), status: 200 };
+  },
+
+  async logout(): Promise<ApiResponse<User>> {
+    this.startSession(session.guestId());
+    return { data: await this.getSession(), status: 200 };
+  },
+
+  async updatePreferences(patch: Partial<User['preferences']>): Promise<ApiResponse<User>> {
+    if (patch.ai) {
+      const invalid = validateAiSettings(patch.ai);
+      if (invalid) return { error: invalid, status: 400 };
+    }
+    const user = await this.getSession();
+    const updated = await db.updateUser(user.id, { preferences: { ...user.preferences, ...patch } });
+    if (!updated) return { error: 'User not found', status: 404 };
+    return { data: toPublicUser(updated), status: 200 };
   }
 };
 
+// Converts each transaction into the session user's preferred currency; `missingRates` lists pairs left unconverted
+async function withConvertedAmounts(txs: Transaction[]): Promise<{ currency: string, txs: (Transaction & { convertedAmount: number })[], missingRates: Set<string> }> {
+  const user = await AuthService.getSession();
+  const currency = user.preferences.currency;
+  const rates = await db.getRates(user.id);
+  const missingRates = new Set<string>();
+  return {
+    currency,
+    txs: txs.map(t => ({ ...t, convertedAmount: convertAmount(t.amount, t.currency, currency, t.date, rates, missingRates) })),
+    missingRates
+  };
+}
+
+/**
+ * Runs a TransactionQuery over the session user's converted ledger. The date
+ * range narrows the storage read; everything else is applied in memory.
+ * Accepts the raw query-string object too, so `errors` may be non-empty.
+ */
+async function queryLedger(raw: TransactionQuery | Record<string, unknown> = {}) {
+  const { query, errors } = parseTransactionQuery(raw as Record<string, unknown>);
+  if (errors.length > 0) return { errors };
+  const userId = AuthService.currentUserId;
+  const { currency, txs, missingRates } = await withConvertedAmounts(await db.getTransactions(userId, { startDate: query.startDate, endDate: query.endDate }));
+  // Only a category filter needs the hierarchy; skip the read (and first-run seeding) otherwise
+  const categories = query.categories ? await categoriesOf(userId) : [];
+  return { currency, page: runTransactionQuery(txs, query, categories), errors, warnings: missingRateDetails(missingRates) };
+}
+
+const invalidQuery = (errors: string[]): ApiResponse<never> => ({ error: 'Query is not valid', details: errors, status: 400 });
+
+// --- AI PLUMBING ---
+// Typed provider failures become the usual error responses
+const AI_FAILURE_STATUS: Record<AiFailureKind, number> = {
+  not_configured: 503,
+  network: 503,
+  auth: 502,
+  rate_limited: 429,
+  invalid_response: 502,
+  provider_error: 502,
+  cancelled: 499 // The caller went away; nobody reads this response
+};
+
+const aiError = (failure: AiFailure): ApiResponse<never> => ({
+  error: `AI (${failure.provider}): ${failure.message}`,
+  details: [failure.kind],
+  status: AI_FAILURE_STATUS[failure.kind]
+});
+
+const aiSettings = async () => (await AuthService.getSession()).preferences.ai;
+
 // --- TRANSACTION CONTROLLER ---
+const EDITABLE_FIELDS: (keyof Transaction)[] = ['type', 'accountId', 'toAccountId', 'amount', 'currency', 'date', 'category', 'merchant', 'description', 'tags', 'isRecurring'];
+
+// Checks type and account references; an empty accountId means "no account"
+async function checkAccounts(tx: Pick<Transaction, 'type' | 'accountId' | 'toAccountId'>, userId: string): Promise<string | undefined> {
+  if (!['expense', 'income', 'transfer'].includes(tx.type)) return 'Type must be expense, income or transfer';
+  const owned = new Set((await db.getAccounts(userId)).map(a => a.id));
+  if (tx.accountId && !owned.has(tx.accountId)) return 'Account not found';
+  if (tx.type !== 'transfer') return tx.toAccountId ? 'Only transfers have a receiving account' : undefined;
+  if (!tx.accountId || !tx.toAccountId) return 'A transfer needs a source and a receiving account';
+  if (!owned.has(tx.toAccountId)) return 'Receiving account not found';
+  if (tx.accountId === tx.toAccountId) return 'A transfer needs two different accounts';
+  return undefined;
+}
+
+// Categories that keep income and transfers out of spending breakdowns when none is given
+const DEFAULT_CATEGORY: Record<TransactionType, string> = { expense: 'Uncategorized', income: 'Income', transfer: 'Transfer' };
+
+// How long the last edit or delete can be reverted
+export const UNDO_WINDOW_MS = 10000;
+
+// Single-slot undo per user: a new edit or delete replaces the previous one
+const pendingUndo = new Map<string, { label: string, expiresAt: number, revert: () => Promise<void> }>();
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Audit entries for a saved draft: each value the parser, rules or AI filled in, then the user's correction where they changed it
+function draftHistory(suggested: Partial<Transaction> | undefined, saved: Transaction): TransactionChange[] {
+  const timestamp = new Date().toISOString();
+  return EDITABLE_FIELDS.filter(field => suggested?.[field] !== undefined).flatMap((field): TransactionChange[] => {
+    const filled: TransactionChange = { field, oldValue: undefined, newValue: suggested[field], timestamp, actor: 'ai' };
+    if (sameValue(suggested[field], saved[field])) return [filled];
+    return [filled, { field, oldValue: suggested[field], newValue: saved[field], timestamp, actor: 'human' }];
+  });
+}
+
+// The converted ledger detection compares against; load it once when checking many drafts
+async function alertContext() {
+  const userId = AuthService.currentUserId;
+  const [{ currency, txs }, rates] = await Promise.all([withConvertedAmounts(await db.getTransactions(userId)), db.getRates(userId)]);
+  return { currency, txs, rates };
+}
+
+// Duplicate and anomaly checks for a draft, keeping any alert the user already dismissed on it
+async function alertsFor(draft: Partial<Transaction>, context?: Awaited<ReturnType<typeof alertContext>>): Promise<TransactionAlert[]> {
+  const { currency, txs, rates } = context || await alertContext();
+  const convertedAmount = convertAmount(draft.amount || 0, draft.currency || currency, currency, draft.date || today(), rates);
+  return carryDismissals(detectAlerts({ ...draft, convertedAmount }, txs, currency), draft.alerts);
+}
+
+// The value checks `create`, `update` and import share; only the fields given are checked
+function checkTransactionFields(fields: Partial<Pick<Transaction, 'amount' | 'date' | 'currency'>>): string | undefined {
+  if (fields.amount !== undefined && (typeof fields.amount !== 'number' || !isFinite(fields.amount) || fields.amount <= 0)) {
+    return 'Amount must be a positive number';
+  }
+  if (fields.date !== undefined && (typeof fields.date !== 'string' || isNaN(new Date(fields.date).getTime()))) return 'Date is not valid';
+  if (fields.currency !== undefined && !/^[A-Z]{3}$/.test(fields.currency)) return 'Currency must be a 3-letter ISO code';
+  return undefined;
+}
+
+/**
+ * Everything `create` checks and fills in, without writing anything. A category
+ * name seen for the first time is added to `categories` for the caller to save
+ * along with the entry.
+ */
+async function buildTransaction(
+  payload: Partial<Transaction>,
+  user: User,
+  categories: Category[],
+  context?: Awaited<ReturnType<typeof alertContext>>
+): Promise<ApiResponse<Transaction>> {
+  // A blank date or currency falls back to today and the user's currency below
+  const fieldError = checkTransactionFields({ amount: payload.amount ?? 0, date: payload.date || undefined, currency: payload.currency || undefined });
+  if (fieldError) return { error: fieldError, status: 400 };
+  const receiptProblems = checkReceipt(payload);
+  if (receiptProblems.length > 0) return { error: 'Receipt does not add up', details: receiptProblems, status: 400 };
+  const type = payload.type || 'expense';
+  if (payload.split && type !== 'expense') return { error: 'Only expenses can be shared', status: 400 };
+  const split = payload.split ? resolveSplit(payload.amount || 0, toSplitRequest(payload.split)) : undefined;
+  if (split?.errors.length) return { error: 'Split is not valid', details: split.errors, status: 400 };
+
+  const toAccountId = type === 'transfer' ? payload.toAccountId : undefined;
+  const accountError = await checkAccounts({ type, accountId: payload.accountId, toAccountId }, user.id);
+  if (accountError) return { error: accountError, status: 400 };
+
+  const name = payload.category?.trim() || DEFAULT_CATEGORY[type];
+  const category = findCategory(categories, name)?.name || name;
+  if (!findCategory(categories, name)) categories.push(newCategory(user.id, name, categories.length));
+  // Scheduled postings are expected, so only entries people add are checked
+  const alerts = payload.seriesId ? [] : await alertsFor({ ...payload, type, category }, context);
+  const tx: Transaction = {
+    id: Math.random().toString(36).substring(2, 11),
+    userId: user.id,
+    type,
+    accountId: payload.accountId || undefined,
+    toAccountId,
+    amount: payload.amount || 0,
+    currency: payload.currency || user.preferences.currency,
+    date: payload.date || new Date().toISOString(),
+    category,
+    merchant: payload.merchant || 'Unknown',
+    description: payload.description || '',
+    tags: payload.tags || [],
+    isRecurring: payload.isRecurring || false,
+    seriesId: payload.seriesId,
+    items: payload.items,
+    subtotal: payload.subtotal,
+    tax: payload.tax,
+    tip: payload.tip,
+    split: split?.split,
+    appliedRules: payload.appliedRules,
+    flags: payload.flags,
+    alerts: alerts.length > 0 ? alerts : undefined,
+    aiMetadata: payload.aiMetadata
+  };
+  const history = draftHistory(payload.suggested, tx);
+  if (history.length > 0) tx.history = history;
+  return { data: tx, status: 201 };
+}
+
+// Correcting a suggested category before saving teaches a rule, just like editing it afterwards
+async function learnFromDraft(payload: Partial<Transaction>, saved: Transaction) {
+  const suggested = payload.suggested?.category;
+  if (suggested && categoryKey(suggested) !== categoryKey(saved.category)) await learnRule(saved.userId, saved.merchant, saved.category);
+}
+
 export const TransactionService = {
-  async getAll(): Promise<ApiResponse<Transaction[]>> {
+  // Every match in one list; use `query` for paging
+  async getAll(query: TransactionQuery = {}): Promise<ApiResponse<Transaction[]>> {
+    try {
+      const { page, errors, warnings } = await queryLedger(query);
+      if (!page) return invalidQuery(errors);
+      return { data: page.items, details: warnings, status: 200 };
+    } catch (e) {
+      return { error: 'Failed to fetch transactions', status: 500 };
+    }
+  },
+
+  // One page of matches; pass the returned nextCursor back as `cursor` for the next one
+  async query(query: TransactionQuery = {}): Promise<ApiResponse<TransactionPage>> {
     try {
-      const data = await db.getTransactions(AuthService.currentUserId);
-      return { data, status: 200 };
+      const { page, errors, warnings } = await queryLedger({ limit: DEFAULT_PAGE_SIZE, ...query });
+      if (!page) return invalidQuery(errors);
+      return { data: page, details: warnings, status: 200 };
     } catch (e) {
       return { error: 'Failed to fetch transactions', status: 500 };
     }
@@ -35,104 +346,1547 @@ export const TransactionService = {
   async create(payload: Partial<Transaction>): Promise<ApiResponse<Transaction>> {
     try {
       const user = await AuthService.getSession();
-      
-      const newTx: Transaction = {
-        id: Math.random().toString(36).substring(2, 11),
-        userId: user.id,
-        amount: payload.amount || 0,
-        currency: payload.currency || user.preferences.currency,
-        date: payload.date || new Date().toISOString(),
-        category: payload.category || 'Uncategorized',
-        merchant: payload.merchant || 'Unknown',
-        description: payload.description || '',
-        tags: payload.tags || [],
-        isRecurring: payload.isRecurring || false,
-        aiMetadata: payload.aiMetadata
-      };
-
-      const saved = await db.createTransaction(newTx);
+      const categories = await categoriesOf(user.id);
+      const known = categories.length;
+      const built = await buildTransaction(payload, user, categories);
+      if (!built.data) return built;
+      for (const category of categories.slice(known)) await db.upsertCategory(category);
+      const saved = await db.createTransaction(built.data);
+      await learnFromDraft(payload, saved);
       return { data: saved, status: 201 };
     } catch (e) {
       return { error: 'Creation failed', status: 500 };
     }
   },
 
+  /**
+   * Applies a partial patch to editable fields and appends one audit entry per changed field.
+   * `actor` records whether a person or the AI made the change.
+   */
+  async update(id: string, patch: Partial<Transaction>, actor: TransactionChange['actor'] = 'human'): Promise<ApiResponse<Transaction>> {
+    const current = (await db.getTransactions(AuthService.currentUserId)).find(t => t.id === id);
+    if (!current) return { error: 'Transaction not found', status: 404 };
+
+    const fieldError = checkTransactionFields(patch);
+    if (fieldError) return { error: fieldError, status: 400 };
+    if (patch.category !== undefined) {
+      if (!patch.category.trim()) return { error: 'Category is required', status: 400 };
+      patch = { ...patch, category: await ensureCategory(current.userId, patch.category) };
+    }
+    if (patch.type !== undefined || patch.accountId !== undefined || patch.toAccountId !== undefined) {
+      const next = { type: patch.type ?? current.type, accountId: patch.accountId ?? current.accountId, toAccountId: patch.toAccountId ?? current.toAccountId };
+      // Switching away from a transfer drops the receiving account
+      if (next.type !== 'transfer' && next.toAccountId) patch = { ...patch, toAccountId: '' };
+      if (next.type !== 'expense' && current.split) return { error: 'Stop sharing this expense before changing its type', status: 400 };
+      const accountError = await checkAccounts({ ...next, toAccountId: next.type === 'transfer' ? next.toAccountId : undefined }, current.userId);
+      if (accountError) return { error: accountError, status: 400 };
+    }
+
+    const timestamp = new Date().toISOString();
+    const changes: TransactionChange[] = EDITABLE_FIELDS
+      .filter(field => patch[field] !== undefined && !sameValue(patch[field], current[field]))
+      .map(field => ({ field, oldValue: current[field], newValue: patch[field], timestamp, actor }));
+    if (changes.length === 0) return { data: current, status: 200 };
+
+    const applied = Object.fromEntries(changes.map(c => [c.field, c.newValue])) as Partial<Transaction>;
+    // Shares follow the amount; exact shares can't, so the split has to be redone first
+    if (current.split && applied.amount !== undefined) {
+      const resplit = resolveSplit(applied.amount, toSplitRequest(current.split));
+      if (!resplit.split) return { error: 'The new amount does not match the split shares', details: resplit.errors, status: 400 };
+      applied.split = resplit.split;
+    }
+    const saved = await db.updateTransaction(id, current.userId, {
+      ...applied,
+      history: [...(current.history || []), ...changes]
+    });
+    // A correction teaches a rule, so the merchant is categorised this way from now on. Undo writes the
+    // old values straight back rather than coming through here, and forgets the rule this edit taught
+    const unlearn = actor === 'human' && applied.category !== undefined ? await learnRule(current.userId, saved.merchant, applied.category) : undefined;
+
+    pendingUndo.set(current.userId, {
+      label: `Edited ${current.merchant}`,
+      expiresAt: Date.now() + UNDO_WINDOW_MS,
+      // Written back as they were, so fields that had no value lose the one the edit gave them
+      revert: async () => {
+        await db.updateTransaction(id, current.userId, {
+          ...Object.fromEntries(changes.map(c => [c.field, current[c.field]])),
+          split: current.split,
+          history: current.history
+        });
+        await unlearn?.();
+      }
+    });
+    return { data: saved, status: 200 };
+  },
+
   async delete(id: string): Promise<ApiResponse<void>> {
+    const current = (await db.getTransactions(AuthService.currentUserId)).find(t => t.id === id);
     await db.deleteTransaction(id, AuthService.currentUserId);
+    if (current) {
+      pendingUndo.set(current.userId, {
+        label: `Deleted ${current.merchant}`,
+        expiresAt: Date.now() + UNDO_WINDOW_MS,
+        revert: async () => { await db.createTransaction(current); }
+      });
+    }
     return { status: 200 };
   },
 
+  // Marks every alert of one kind as seen; the entry itself is not edited, so there is no history entry
+  async dismissAlert(id: string, kind: AlertKind): Promise<ApiResponse<Transaction>> {
+    const current = (await db.getTransactions(AuthService.currentUserId)).find(t => t.id === id);
+    if (!current) return { error: 'Transaction not found', status: 404 };
+    if (!current.alerts?.some(a => a.kind === kind)) return { error: 'No such alert on this entry', status: 404 };
+    const alerts = current.alerts.map(a => (a.kind === kind ? { ...a, dismissed: true } : a));
+    return { data: await db.updateTransaction(id, current.userId, { alerts }), status: 200 };
+  },
+
+  /**
+   * Folds a duplicate into `id`: the kept entry picks up whatever it was
+   * missing (account, note, tags, receipt lines, split) and the duplicate is
+   * deleted. Undoable like an edit or delete.
+   */
+  async mergeDuplicate(id: string, duplicateId: string): Promise<ApiResponse<Transaction>> {
+    if (id === duplicateId) return { error: 'An entry cannot be merged with itself', status: 400 };
+    const txs = await db.getTransactions(AuthService.currentUserId);
+    const keep = txs.find(t => t.id === id);
+    const drop = txs.find(t => t.id === duplicateId);
+    if (!keep || !drop) return { error: 'The other entry no longer exists', status: 404 };
+
+    const patch: Partial<Transaction> = {};
+    if (!keep.accountId && drop.accountId) patch.accountId = drop.accountId;
+    if (!keep.description && drop.description) patch.description = drop.description;
+    const tags = [...new Set([...keep.tags, ...drop.tags])];
+    if (tags.length > keep.tags.length) patch.tags = tags;
+    // Receipt lines and shares only come across if they still add up to the kept amount
+    if (!keep.items?.length && drop.items?.length) {
+      const receipt = { items: drop.items, subtotal: drop.subtotal, tax: drop.tax, tip: drop.tip };
+      if (checkReceipt({ ...receipt, amount: keep.amount }).length === 0) Object.assign(patch, receipt);
+    }
+    if (!keep.split && drop.split && keep.type === 'expense') {
+      const resplit = resolveSplit(keep.amount, toSplitRequest(drop.split));
+      if (resplit.split) patch.split = resplit.split;
+    }
+
+    const timestamp = new Date().toISOString();
+    const changes: TransactionChange[] = (Object.keys(patch) as (keyof Transaction)[])
+      .map(field => ({ field, oldValue: keep[field], newValue: patch[field], timestamp, actor: 'human' }));
+    const alerts = (keep.alerts || []).filter(a => a.relatedId !== drop.id);
+    const saved = await db.updateTransaction(keep.id, keep.userId, {
+      ...patch,
+      alerts: alerts.length > 0 ? alerts : undefined,
+      history: [...(keep.history || []), ...changes]
+    });
+    await db.deleteTransaction(drop.id, drop.userId);
+
+    pendingUndo.set(keep.userId, {
+      label: `Merged ${drop.merchant}`,
+      expiresAt: Date.now() + UNDO_WINDOW_MS,
+      revert: async () => {
+        const previous = Object.fromEntries(Object.keys(patch).map(field => [field, keep[field as keyof Transaction]]));
+        await db.updateTransaction(keep.id, keep.userId, { ...previous, alerts: keep.alerts, history: keep.history });
+        await db.createTransaction(drop);
+      }
+    });
+    return { data: saved, status: 200 };
+  },
+
+  // Reverts the most recent edit or delete if it is still inside the undo window
+  async undo(): Promise<ApiResponse<{ label: string }>> {
+    const userId = AuthService.currentUserId;
+    const action = pendingUndo.get(userId);
+    pendingUndo.delete(userId);
+    if (!action || action.expiresAt < Date.now()) return { error: 'Nothing to undo', status: 410 };
+    await action.revert();
+    // Reverting an edit is itself an edit; don't let it queue another undo
+    pendingUndo.delete(userId);
+    return { data: { label: action.label }, status: 200 };
+  },
+
   // AI-Powered Endpoints
-  async parseNaturalLanguage(input: string): Promise<ApiResponse<Partial<Transaction>>> {
-    const result = await parseTransactionWithAI(input);
-    return { data: result.transaction, status: 200 };
+  async parseNaturalLanguage(input: string, options: AiRequestOptions = {}): Promise<ApiResponse<Partial<Transaction>>> {
+    const user = await AuthService.getSession();
+    const categories = (await categoriesOf(user.id)).map(c => c.name);
+    const rules = await db.getRules(user.id);
+    const local = applyRules(parseTransactionLocally(input, { currency: user.preferences.currency, categories }).transaction, rules);
+    const withAlerts = async (draft: Partial<Transaction>) => ({ data: { ...withSuggestion(draft), alerts: await alertsFor(draft) }, status: 200 });
+    // A rule already knows this merchant's category, so the model has nothing left to guess
+    if (local.transaction.amount && local.applied.some(r => r.category)) return withAlerts(local.transaction);
+
+    const result = await parseTransactionWithAI(input, categories, user.preferences.ai, options);
+    if (result.ok === true) return withAlerts(applyRules(result.value.transaction, rules).transaction);
+    if (result.failure.kind === 'cancelled') return aiError(result.failure);
+
+    // No model available: the local parser always answers, with its confidence on aiMetadata
+    console.warn('AI parse failed, falling back to local rules', result.failure);
+    return withAlerts(local.transaction);
+  },
+
+  async uploadReceipt(fileBase64: string, mimeType: string, options: AiRequestOptions = {}): Promise<ApiResponse<Partial<Transaction>>> {
+    const categories = (await categoriesOf(AuthService.currentUserId)).map(c => c.name);
+    const result = await scanReceiptWithAI(fileBase64, mimeType, categories, await aiSettings(), options);
+    if (result.ok === false) return aiError(result.failure);
+    // Rules decide the receipt's overall category; item categories stay as read
+    const transaction = withSuggestion(applyRules(result.value, await db.getRules(AuthService.currentUserId)).transaction);
+    // A misread line is common; report it so the user can fix the items before saving
+    const problems = checkReceipt(transaction);
+    return { data: { ...transaction, alerts: await alertsFor(transaction) }, details: problems.length > 0 ? problems : undefined, status: 200 };
+  },
+
+  // Saves a scanned receipt, optionally as one transaction per item category
+  async createFromReceipt(payload: Partial<Transaction>, split = false): Promise<ApiResponse<Transaction[]>> {
+    const problems = checkReceipt(payload);
+    if (problems.length > 0) return { error: 'Receipt does not add up', details: problems, status: 400 };
+
+    if (!split) {
+      const res = await this.create(payload);
+      return res.data ? { data: [res.data], status: res.status } : { error: res.error, details: res.details, status: res.status };
+    }
+    // Each part's amount and category come from the scanned lines rather than the receipt total.
+    // Like an import, every part is checked first and then all of them are saved in one write
+    const parts = splitReceipt(payload).map(part => withSuggestion(part, ['amount', 'category']));
+    try {
+      const user = await AuthService.getSession();
+      const categories = await categoriesOf(user.id);
+      const known = categories.length;
+      const context = await alertContext();
+      const txs: Transaction[] = [];
+      for (const part of parts) {
+        const built = await buildTransaction(part, user, categories, context);
+        if (!built.data) return { error: `${part.category}: ${built.error}`, details: built.details, status: built.status };
+        txs.push(built.data);
+      }
+      await db.restore({ ...emptySnapshot(), transactions: txs, categories: categories.slice(known) }, 'merge');
+      for (const [i, part] of parts.entries()) await learnFromDraft(part, txs[i]);
+      return { data: txs, status: 201 };
+    } catch (e) {
+      return { error: 'Creation failed; nothing was saved', status: 500 };
+    }
+  }
+};
+
+// --- RECURRING CONTROLLER ---
+function validateRule(rule: RecurrenceRule): string | undefined {
+  if (!['daily', 'weekly', 'monthly', 'yearly'].includes(rule.frequency)) return 'Unknown frequency';
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) return 'Interval must be a whole number of at least 1';
+  if (rule.dayOfMonth !== undefined && (!Number.isInteger(rule.dayOfMonth) || rule.dayOfMonth < 1 || rule.dayOfMonth > 31)) {
+    return 'Day of month must be between 1 and 31';
+  }
+  if (rule.endDate && rule.endDate < rule.startDate) return 'End date is before the first occurrence';
+  return undefined;
+}
+
+const schedulerRuns = new Map<string, Promise<ApiResponse<{ posted: number }>>>();
+
+// Posts every occurrence due by today; a date the series already has an entry for is never posted twice
+async function postDueOccurrences(userId: string): Promise<ApiResponse<{ posted: number }>> {
+  const now = today();
+  const existing = new Set((await db.getTransactions(userId)).filter(t => t.seriesId).map(t => `${t.seriesId}|${t.date.split('T')[0]}`));
+  let posted = 0;
+
+  for (const series of await db.getRecurrences(userId)) {
+    const due = dueOccurrences(series, now);
+    for (const date of due.filter(d => !existing.has(`${series.id}|${d}`))) {
+      const res = await TransactionService.create({ ...series.template, date, isRecurring: true, seriesId: series.id });
+      if (res.error) return { error: res.error, data: { posted }, status: res.status };
+      posted++;
+    }
+    if (due.length > 0) await db.upsertRecurrence({ ...series, lastGeneratedDate: due[due.length - 1] });
+  }
+  return { data: { posted }, status: 200 };
+}
+
+export const RecurringService = {
+  async getAll(): Promise<ApiResponse<RecurringSeries[]>> {
+    const series = await db.getRecurrences(AuthService.currentUserId);
+    return { data: series, status: 200 };
+  },
+
+  // Turns an existing transaction into the first occurrence of a new series
+  async createFromTransaction(txId: string, rule: Partial<RecurrenceRule> = {}): Promise<ApiResponse<RecurringSeries>> {
+    const tx = (await db.getTransactions(AuthService.currentUserId)).find(t => t.id === txId);
+    if (!tx) return { error: 'Transaction not found', status: 404 };
+    if (tx.seriesId) return { error: 'Transaction already belongs to a series', status: 409 };
+
+    const startDate = tx.date.split('T')[0];
+    const fullRule: RecurrenceRule = { frequency: 'monthly', interval: 1, ...rule, startDate };
+    const error = validateRule(fullRule);
+    if (error) return { error, status: 400 };
+
+    const series: RecurringSeries = {
+      id: Math.random().toString(36).substring(2, 11),
+      userId: AuthService.currentUserId,
+      rule: fullRule,
+      template: {
+        type: tx.type,
+        accountId: tx.accountId,
+        toAccountId: tx.toAccountId,
+        amount: tx.amount,
+        currency: tx.currency,
+        category: tx.category,
+        merchant: tx.merchant,
+        description: tx.description,
+        tags: tx.tags
+      },
+      paused: false,
+      skippedDates: [],
+      lastGeneratedDate: startDate,
+      createdAt: new Date().toISOString()
+    };
+    await db.upsertRecurrence(series);
+    await db.updateTransaction(tx.id, tx.userId, { seriesId: series.id, isRecurring: true });
+    return { data: series, status: 201 };
+  },
+
+  /**
+   * Edits apply to future occurrences only: posted entries are separate
+   * transactions and are never rewritten. Resuming a paused series does not
+   * backfill the occurrences missed while it was paused.
+   */
+  async update(id: string, patch: { rule?: Partial<RecurrenceRule>, template?: Partial<RecurringSeries['template']>, paused?: boolean }): Promise<ApiResponse<RecurringSeries>> {
+    const current = (await db.getRecurrences(AuthService.currentUserId)).find(r => r.id === id);
+    if (!current) return { error: 'Series not found', status: 404 };
+
+    const next: RecurringSeries = {
+      ...current,
+      rule: { ...current.rule, ...patch.rule },
+      template: { ...current.template, ...patch.template },
+      paused: patch.paused ?? current.paused
+    };
+    const error = validateRule(next.rule);
+    if (error) return { error, status: 400 };
+    if (current.paused && !next.paused) next.lastGeneratedDate = today();
+
+    const saved = await db.upsertRecurrence(next);
+    return { data: saved, status: 200 };
+  },
+
+  async skip(id: string, date: string): Promise<ApiResponse<RecurringSeries>> {
+    const current = (await db.getRecurrences(AuthService.currentUserId)).find(r => r.id === id);
+    if (!current) return { error: 'Series not found', status: 404 };
+    const saved = await db.upsertRecurrence({ ...current, skippedDates: [...new Set([...current.skippedDates, date])] });
+    return { data: saved, status: 200 };
   },
 
-  async uploadReceipt(fileBase64: string, mimeType: string): Promise<ApiResponse<Partial<Transaction>>> {
-    const result = await scanReceiptWithAI(fileBase64, mimeType);
+  // Stops the series; transactions it already posted stay in the ledger
+  async delete(id: string): Promise<ApiResponse<void>> {
+    await db.deleteRecurrence(id, AuthService.currentUserId);
+    return { status: 200 };
+  },
+
+  // Posts every occurrence that came due since the series last ran. Called on app open.
+  // Overlapping calls (app start and sign-in both run it) share the run already in flight
+  async runScheduler(): Promise<ApiResponse<{ posted: number }>> {
+    const userId = AuthService.currentUserId;
+    const running = schedulerRuns.get(userId);
+    if (running) return running;
+    const run = postDueOccurrences(userId).finally(() => schedulerRuns.delete(userId));
+    schedulerRuns.set(userId, run);
+    return run;
+  },
+
+  async getUpcoming(days = 30): Promise<ApiResponse<UpcomingBill[]>> {
+    const series = await db.getRecurrences(AuthService.currentUserId);
+    const bills = series.flatMap(s => upcomingOccurrences(s, today(), days).map(date => ({
+      seriesId: s.id,
+      date,
+      amount: s.template.amount,
+      currency: s.template.currency,
+      merchant: s.template.merchant,
+      category: s.template.category
+    })));
+    return { data: bills.sort((a, b) => a.date.localeCompare(b.date)), status: 200 };
+  }
+};
+
+// --- IMPORT CONTROLLER ---
+export const ImportService = {
+  detectFormat,
+
+  // Parses a statement into a preview; nothing is written until `commit`
+  async preview(text: string, format: ImportFormat, mapping?: CsvColumnMapping): Promise<ApiResponse<{ candidates: ImportCandidate[], errors: string[] }>> {
+    const existing = await db.getTransactions(AuthService.currentUserId);
+    const result = buildImportCandidates(text, format, existing, mapping);
+    if (result.candidates.length === 0) {
+      return { data: result, error: 'No transactions found in file', status: 422 };
+    }
+
+    // Rules run first; whatever they leave uncategorised goes to the AI categoriser in one batch.
+    // Income defaults to "Income".
+    const rules = await db.getRules(AuthService.currentUserId);
+    result.candidates.forEach(c => {
+      const ruled = applyRules(c.transaction, rules);
+      c.transaction = ruled.applied.length > 0 ? withSuggestion(ruled.transaction, ['category', 'tags']) : ruled.transaction;
+    });
+    const pending = result.candidates.filter(c => !c.transaction.category && !c.isCredit);
+    if (pending.length > 0) {
+      const categories = await categorizeTransactionsWithAI(pending.map(c => ({
+        merchant: c.transaction.merchant || '',
+        description: c.transaction.description || ''
+      })), (await categoriesOf(AuthService.currentUserId)).map(c => c.name), await aiSettings());
+      if (categories.ok === true) {
+        pending.forEach((c, i) => { c.transaction = withSuggestion({ ...c.transaction, category: categories.value[i] }, ['category']); });
+      } else {
+        console.error('Import categorisation failed, leaving rows uncategorised', categories.failure);
+      }
+    }
+
+    // Exact repeats are already deselected; the rest get the same checks as a typed entry
+    const context = await alertContext();
+    for (const c of result.candidates.filter(c => !c.duplicateOf)) c.transaction.alerts = await alertsFor(c.transaction, context);
+
     return { data: result, status: 200 };
+  },
+
+  /**
+   * `accountId` files every imported row under the account the statement came
+   * from. All or nothing: every row is checked before the first is written, and
+   * then they are saved in one write.
+   */
+  async commit(candidates: ImportCandidate[], accountId?: string): Promise<ApiResponse<{ imported: number }>> {
+    const selected = candidates.filter(c => c.selected);
+    try {
+      const user = await AuthService.getSession();
+      const categories = await categoriesOf(user.id);
+      const known = categories.length;
+      const context = await alertContext();
+      const txs: Transaction[] = [];
+      for (const c of selected) {
+        const built = await buildTransaction({ ...c.transaction, accountId: accountId || c.transaction.accountId }, user, categories, context);
+        if (!built.data) return { error: `Row ${c.line}: ${built.error}`, details: built.details, status: built.status };
+        txs.push(built.data);
+      }
+      await db.restore({ ...emptySnapshot(), transactions: txs, categories: categories.slice(known) }, 'merge');
+      for (const [i, c] of selected.entries()) await learnFromDraft(c.transaction, txs[i]);
+      return { data: { imported: txs.length }, status: 201 };
+    } catch (e) {
+      return { error: 'Import failed; nothing was saved', status: 500 };
+    }
+  }
+};
+
+// --- EXPORT & BACKUP CONTROLLER ---
+type ExportFile = { fileName: string, mimeType: string, content: string };
+
+// Splits a snapshot into one user's records and everyone else's
+function partitionByUser(data: StoreSnapshot, userId: string): { mine: StoreSnapshot, others: StoreSnapshot } {
+  const split = <T>(list: T[], owner: (r: T) => string) => ({
+    mine: list.filter(r => owner(r) === userId),
+    others: list.filter(r => owner(r) !== userId)
+  });
+  const users = split(data.users, u => u.id);
+  const transactions = split(data.transactions, t => t.userId);
+  const budgets = split(data.budgets, b => b.userId);
+  const rates = split(data.rates, r => r.userId);
+  const recurrences = split(data.recurrences, r => r.userId);
+  const settlements = split(data.settlements, s => s.userId);
+  const accounts = split(data.accounts, a => a.userId);
+  const categories = split(data.categories, c => c.userId);
+  const rules = split(data.rules, r => r.userId);
+  const conversations = split(data.conversations, c => c.userId);
+  return {
+    mine: { users: users.mine, transactions: transactions.mine, budgets: budgets.mine, rates: rates.mine, recurrences: recurrences.mine, settlements: settlements.mine, accounts: accounts.mine, categories: categories.mine, rules: rules.mine, conversations: conversations.mine },
+    others: { users: users.others, transactions: transactions.others, budgets: budgets.others, rates: rates.others, recurrences: recurrences.others, settlements: settlements.others, accounts: accounts.others, categories: categories.others, rules: rules.others, conversations: conversations.others }
+  };
+}
+
+/**
+ * Gives fresh ids to incoming records whose id another profile already uses,
+ * so a crafted backup cannot overwrite someone else's records, and points this
+ * profile's references (accounts, series, parent categories, rules) at the new ids.
+ */
+function reissueTakenIds(mine: StoreSnapshot, others: StoreSnapshot): { snapshot: StoreSnapshot, reissued: number } {
+  let reissued = 0;
+  const reissue = <T extends { id: string }>(list: T[], taken: { id: string }[]) => {
+    const ids = new Set(taken.map(r => r.id));
+    const moved = new Map<string, string>();
+    const records = list.map(r => {
+      if (!ids.has(r.id)) return r;
+      const id = Math.random().toString(36).substring(2, 11);
+      moved.set(r.id, id);
+      reissued++;
+      return { ...r, id };
+    });
+    const to = (id: string | undefined) => (id !== undefined && moved.get(id)) || id;
+    return { records, to };
+  };
+  const accounts = reissue(mine.accounts, others.accounts);
+  const recurrences = reissue(mine.recurrences, others.recurrences);
+  const categories = reissue(mine.categories, others.categories);
+  const rules = reissue(mine.rules, others.rules);
+  const transactions = reissue(mine.transactions, others.transactions);
+  const budgets = reissue(mine.budgets, others.budgets);
+  const rates = reissue(mine.rates, others.rates);
+  const settlements = reissue(mine.settlements, others.settlements);
+  const conversations = reissue(mine.conversations, others.conversations);
+  if (reissued === 0) return { snapshot: mine, reissued };
+  const snapshot: StoreSnapshot = {
+    users: mine.users,
+    transactions: transactions.records.map(t => ({
+      ...t,
+      accountId: accounts.to(t.accountId),
+      toAccountId: accounts.to(t.toAccountId),
+      seriesId: recurrences.to(t.seriesId),
+      appliedRules: t.appliedRules?.map(id => rules.to(id)!),
+      alerts: t.alerts?.map(a => ({ ...a, relatedId: transactions.to(a.relatedId) }))
+    })),
+    budgets: budgets.records,
+    rates: rates.records,
+    recurrences: recurrences.records.map(r => ({
+      ...r,
+      template: { ...r.template, accountId: accounts.to(r.template.accountId), toAccountId: accounts.to(r.template.toAccountId) }
+    })),
+    settlements: settlements.records,
+    accounts: accounts.records,
+    categories: categories.records.map(c => ({ ...c, parentId: categories.to(c.parentId) })),
+    rules: rules.records,
+    conversations: conversations.records
+  };
+  return { snapshot, reissued };
+}
+
+export const BackupService = {
+  // Health of the local store at load time; empty when everything read cleanly
+  async getIntegrityReport(): Promise<ApiResponse<{ backend: string, issues: string[] }>> {
+    try {
+      await db.ready;
+    } catch (e) {
+      // The failure itself is recorded in loadErrors
+    }
+    return { data: { backend: db.name, issues: [...db.loadErrors] }, status: 200 };
+  },
+
+  async exportTransactions(
+    format: 'csv' | 'json',
+    query: TransactionQuery = {}
+  ): Promise<ApiResponse<ExportFile>> {
+    // `limit` and `cursor` are ignored: an export always holds every match
+    const { page, errors } = await queryLedger({ ...query, limit: undefined, cursor: undefined });
+    if (!page) return invalidQuery(errors);
+    const txs = page.items.map(({ convertedAmount, ...t }) => t);
+    const stamp = new Date().toISOString().split('T')[0];
+    const data = format === 'csv'
+      ? { fileName: `zen-ledger-${stamp}.csv`, mimeType: 'text/csv', content: transactionsToCsv(txs) }
+      : { fileName: `zen-ledger-${stamp}.json`, mimeType: 'application/json', content: JSON.stringify(txs, null, 2) };
+    return { data, status: 200 };
+  },
+
+  // Only the signed-in profile's records; other household members' ledgers stay out of the file
+  async createBackup(): Promise<ApiResponse<ExportFile>> {
+    const backup = buildBackup(partitionByUser(await db.snapshot(), AuthService.currentUserId).mine);
+    return {
+      data: {
+        fileName: `zen-backup-${backup.exportedAt.split('T')[0]}.json`,
+        mimeType: 'application/json',
+        content: JSON.stringify(backup, null, 2)
+      },
+      status: 200
+    };
+  },
+
+  async restore(text: string, mode: RestoreMode): Promise<ApiResponse<{ users: number, transactions: number, budgets: number, rates: number }>> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      return { error: 'File is not valid JSON', status: 400 };
+    }
+
+    const { backup, errors } = validateBackup(parsed);
+    if (!backup) {
+      return { error: `Backup rejected: ${errors.length} problem(s) found`, details: errors, status: 422 };
+    }
+    // Records for other profiles are ignored; each person restores their own ledger
+    const incoming = partitionByUser(backup, AuthService.currentUserId).mine;
+    if (incoming.users.length === 0) {
+      return { error: 'This backup belongs to a different profile; sign in as that profile to restore it', status: 409 };
+    }
+    const session = await db.getUser(AuthService.currentUserId);
+    // Keep the current password even if the backup predates a change
+    incoming.users = incoming.users.map(u => ({ ...u, email: session.email, credentials: session.credentials }));
+    const { others } = partitionByUser(await db.snapshot(), AuthService.currentUserId);
+    const { snapshot: mine, reissued } = reissueTakenIds(incoming, others);
+
+    if (mode === 'replace') {
+      await db.restore({
+        users: [...others.users, ...mine.users],
+        transactions: [...others.transactions, ...mine.transactions],
+        budgets: [...others.budgets, ...mine.budgets],
+        rates: [...others.rates, ...mine.rates],
+        recurrences: [...others.recurrences, ...mine.recurrences],
+        settlements: [...others.settlements, ...mine.settlements],
+        accounts: [...others.accounts, ...mine.accounts],
+        categories: [...others.categories, ...mine.categories],
+        rules: [...others.rules, ...mine.rules],
+        conversations: [...others.conversations, ...mine.conversations]
+      }, 'replace');
+    } else {
+      await db.restore(mine, 'merge');
+    }
+    return {
+      data: {
+        users: mine.users.length,
+        transactions: mine.transactions.length,
+        budgets: mine.budgets.length,
+        rates: mine.rates.length
+      },
+      details: reissued > 0 ? [`${reissued} record(s) got new ids because another profile already uses them`] : undefined,
+      status: 200
+    };
   }
 };
 
 // --- ANALYTICS CONTROLLER ---
 export const AnalyticsService = {
-  async getDashboardSummary(): Promise<ApiResponse<AnalyticsSummary>> {
-    const txs = await db.getTransactions(AuthService.currentUserId);
-    
-    const totalSpent = txs.reduce((sum, t) => sum + t.amount, 0);
-    
+  /**
+   * Spending for a period compared with the one before it (see resolvePeriod
+   * in lib/analytics.ts). The period is `query.startDate`..`query.endDate`,
+   * or the default for `granularity`, which also sets the trend's step.
+   * `rollUp` reports sub-category spending under its top-level category; the
+   * rest of `query` narrows the figures (e.g. to a tag). Account balances and
+   * budget velocity always cover the whole ledger.
+   */
+  async getDashboardSummary(rollUp = false, query: TransactionQuery = {}, granularity: AnalyticsGranularity = 'day'): Promise<ApiResponse<AnalyticsSummary>> {
+    if (!ANALYTICS_GRANULARITIES.some(g => g.id === granularity)) return invalidQuery(['granularity must be day, week or month']);
+    const { query: parsed, errors: queryErrors } = parseTransactionQuery(query as Record<string, unknown>);
+    if (queryErrors.length > 0) return invalidQuery(queryErrors);
+    const { elapsedDays, ...period } = resolvePeriod(granularity, parsed.startDate, parsed.endDate);
+
+    const userId = AuthService.currentUserId;
+    const { currency, page, errors, warnings } = await queryLedger({ ...parsed, startDate: period.previousStart, endDate: period.end, limit: undefined, cursor: undefined });
+    if (!page) return invalidQuery(errors);
+    const categories = await categoriesOf(userId);
+    const inRange = (from: string, to: string) => page.items.filter(t => t.date.split('T')[0] >= from && t.date.split('T')[0] <= to);
+    const all = inRange(period.start, period.end);
+    // Spending figures cover expenses only; transfers just move money between accounts
+    const txs = all.filter(t => t.type === 'expense');
+    const previous = inRange(period.previousStart, period.previousEnd).filter(t => t.type === 'expense');
+
+    const totalSpent = txs.reduce((sum, t) => sum + t.convertedAmount, 0);
+    const previousSpent = previous.reduce((sum, t) => sum + t.convertedAmount, 0);
+    const totalIncome = all.filter(t => t.type === 'income').reduce((sum, t) => sum + t.convertedAmount, 0);
+    const accounts = await balancesOf(userId, await db.getTransactions(userId));
+
     // Category Breakdown
-    const catMap: Record<string, number> = {};
-    txs.forEach(t => {
-      catMap[t.category] = (catMap[t.category] || 0) + t.amount;
-    });
-    
+    const byCategory = (list: typeof txs) => {
+      const totals: Record<string, number> = {};
+      list.forEach(t => {
+        const name = (rollUp ? rootCategory(categories, t.category) : findCategory(categories, t.category))?.name || t.category;
+        totals[name] = (totals[name] || 0) + t.convertedAmount;
+      });
+      return totals;
+    };
+    const catMap = byCategory(txs);
+
     const topCategories = Object.entries(catMap)
       .map(([category, amount]) => ({
         category,
+        color: findCategory(categories, category)?.color,
         amount,
         percentage: totalSpent > 0 ? (amount / totalSpent) * 100 : 0
       }))
       .sort((a, b) => b.amount - a.amount);
+    const deltas = categoryDeltas(catMap, byCategory(previous))
+      .map(d => ({ ...d, color: findCategory(categories, d.category)?.color }));
 
-    // Daily Trend
+    // Trend, one point per step so quiet days still show up
     const trendMap: Record<string, number> = {};
     txs.forEach(t => {
-      const d = t.date.split('T')[0];
-      trendMap[d] = (trendMap[d] || 0) + t.amount;
+      const bucket = bucketStart(t.date, granularity);
+      trendMap[bucket] = (trendMap[bucket] || 0) + t.convertedAmount;
     });
-    
-    const trend = Object.entries(trendMap)
-      .map(([date, amount]) => ({ date, amount }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const trend = buckets(period.start, addDays(period.start, elapsedDays - 1), granularity)
+      .map(date => ({ date, amount: trendMap[date] || 0 }));
 
     return {
       data: {
+        currency,
+        period,
         totalSpent,
-        burnRate: 0, // Need previous month data for full impl
+        previousSpent,
+        totalIncome,
+        netCashFlow: totalIncome - totalSpent,
+        netBalance: accounts.reduce((sum, a) => sum + a.convertedBalance, 0),
+        accounts,
+        burnRate: previousSpent > 0 ? ((totalSpent - previousSpent) / previousSpent) * 100 : null,
+        averageDailySpend: elapsedDays > 0 ? totalSpent / elapsedDays : 0,
+        categoryDeltas: deltas,
+        budgetVelocity: budgetVelocity(await db.getBudgets(userId)),
         topCategories,
         trend
       },
+      details: warnings,
       status: 200
     };
+  },
+
+  /**
+   * Projects this period's spending (the default period for `granularity`)
+   * and the current period of every budget; see lib/forecast.ts.
+   */
+  async getForecast(granularity: AnalyticsGranularity = 'day'): Promise<ApiResponse<SpendingForecast>> {
+    if (!ANALYTICS_GRANULARITIES.some(g => g.id === granularity)) return invalidQuery(['granularity must be day, week or month']);
+    const day = today();
+    const period = resolvePeriod(granularity, undefined, undefined, day);
+    const userId = AuthService.currentUserId;
+    const [budgets, series, categories, rates, user] = await Promise.all([
+      db.getBudgets(userId), db.getRecurrences(userId), categoriesOf(userId), db.getRates(userId), AuthService.getSession()
+    ]);
+
+    // Far enough back for the rate and every budget period, far enough ahead for every period end
+    const from = [addDays(day, -FORECAST_HISTORY_DAYS), period.start, ...budgets.map(b => b.periodStart).filter(Boolean)].sort()[0];
+    const until = [period.end, ...budgets.map(b => b.periodEnd).filter(Boolean)].sort().pop();
+    const { currency, txs, missingRates } = await withConvertedAmounts(await db.getTransactions(userId, { startDate: from, endDate: day }));
+    const name = (category: string) => findCategory(categories, category)?.name || category;
+
+    const entries = txs
+      .filter(t => t.type === 'expense')
+      .map(t => ({ date: t.date, category: name(t.category), amount: t.convertedAmount, scheduled: !!t.seriesId }));
+    const upcoming = series
+      .filter(s => (s.template.type || 'expense') === 'expense')
+      .flatMap(s => upcomingOccurrences(s, day, daysBetween(day, until)).map(date => ({
+        date,
+        category: name(s.template.category),
+        amount: convertAmount(s.template.amount, s.template.currency, user.preferences.currency, date, rates, missingRates)
+      })));
+
+    const forecast = buildForecast({ entries, upcoming, period, budgets, categories, today: day });
+    return {
+      data: {
+        ...forecast,
+        currency,
+        categories: forecast.categories.map(c => ({ ...c, color: findCategory(categories, c.category)?.color }))
+      },
+      details: missingRateDetails(missingRates),
+      status: 200
+    };
+  },
+
+  async getSpendingByCategory(rollUp = false, query: TransactionQuery = {}, granularity: AnalyticsGranularity = 'day'): Promise<ApiResponse<CategorySpending[]>> {
+    const summary = await this.getDashboardSummary(rollUp, query, granularity);
+    if (!summary.data) return { error: summary.error, details: summary.details, status: summary.status };
+    return { data: summary.data.topCategories, status: 200 };
+  },
+
+  async getMonthlyTrend(query: TransactionQuery = {}): Promise<ApiResponse<MonthlyTrend[]>> {
+    const summary = await this.getDashboardSummary(false, query, 'month');
+    if (!summary.data) return { error: summary.error, details: summary.details, status: summary.status };
+    return { data: summary.data.trend, status: 200 };
+  }
+};
+
+// --- COACH CONTROLLER ---
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+// Rows a query_transactions call hands the model; totals still cover every match
+const COACH_ROW_LIMIT = 25;
+
+// The period and granularity a lookup was asked for; the model's arguments are checked like any request's
+function toolPeriod(args: Record<string, unknown>) {
+  const { query, errors } = parseTransactionQuery({ startDate: args.startDate, endDate: args.endDate });
+  const granularity = ANALYTICS_GRANULARITIES.find(g => g.id === (args.granularity ?? 'day'))?.id;
+  return { query, granularity, errors: granularity ? errors : [...errors, 'granularity must be day, week or month'] };
+}
+
+/**
+ * The coach's tools (declared in lib/ai.ts), each a read-only wrapper over
+ * the services above. Results are trimmed to what the model needs, with
+ * amounts in the user's currency.
+ */
+const COACH_TOOL_HANDLERS: Record<string, (args: Record<string, unknown>) => Promise<ApiResponse<unknown>>> = {
+  async query_transactions(args) {
+    const { limit, cursor, ...raw } = args;
+    const { query, errors } = parseTransactionQuery(raw);
+    if (errors.length > 0) return invalidQuery(errors);
+    const res = await TransactionService.getAll(query);
+    if (!res.data) return res;
+    const totals: Partial<Record<TransactionType, number>> = {};
+    res.data.forEach(t => { totals[t.type] = cents((totals[t.type] || 0) + t.convertedAmount); });
+    const rows = Math.min(Number(limit) > 0 ? Number(limit) : COACH_ROW_LIMIT, COACH_ROW_LIMIT);
+    return {
+      data: {
+        matches: res.data.length,
+        totals,
+        transactions: res.data.slice(0, rows).map(t => ({
+          date: t.date.split('T')[0],
+          type: t.type,
+          merchant: t.merchant,
+          category: t.category,
+          amount: cents(t.convertedAmount),
+          ...(t.tags?.length && { tags: t.tags }),
+          ...(t.description && { description: t.description })
+        }))
+      },
+      status: 200
+    };
+  },
+
+  async category_totals(args) {
+    const { query, errors } = toolPeriod(args);
+    if (errors.length > 0) return invalidQuery(errors);
+    const res = await AnalyticsService.getDashboardSummary(args.rollUp === true, query);
+    if (!res.data) return res;
+    const { period, totalSpent, topCategories } = res.data;
+    return {
+      data: {
+        from: period.start,
+        to: period.end,
+        totalSpent: cents(totalSpent),
+        categories: topCategories.map(c => ({ category: c.category, amount: cents(c.amount), percentage: Math.round(c.percentage) }))
+      },
+      status: 200
+    };
+  },
+
+  async budget_status() {
+    const [budgets, forecast] = await Promise.all([BudgetService.getAll(), AnalyticsService.getForecast()]);
+    if (!forecast.data) return forecast;
+    return {
+      data: forecast.data.budgets.map(f => {
+        const budget = budgets.data.find(b => b.id === f.budgetId);
+        return {
+          category: f.category,
+          period: budget?.period,
+          from: budget?.periodStart,
+          to: budget?.periodEnd && addDays(budget.periodEnd, -1),
+          limit: cents(f.limit),
+          spent: f.spent,
+          projected: f.projected,
+          breachDate: f.breachDate,
+          outlook: f.outlook
+        };
+      }),
+      status: 200
+    };
+  },
+
+  async spending_trend(args) {
+    const { query, granularity, errors } = toolPeriod(args);
+    if (errors.length > 0) return invalidQuery(errors);
+    const res = await AnalyticsService.getDashboardSummary(false, query, granularity);
+    if (!res.data) return res;
+    return {
+      data: {
+        granularity,
+        from: res.data.period.start,
+        to: res.data.period.end,
+        points: res.data.trend.map(p => ({ date: p.date, amount: cents(p.amount) }))
+      },
+      status: 200
+    };
+  },
+
+  async compare_periods(args) {
+    const { query, granularity, errors } = toolPeriod(args);
+    if (errors.length > 0) return invalidQuery(errors);
+    const res = await AnalyticsService.getDashboardSummary(false, query, granularity);
+    if (!res.data) return res;
+    const { period, totalSpent, previousSpent, totalIncome, burnRate, categoryDeltas } = res.data;
+    return {
+      data: {
+        period: { from: period.start, to: period.end },
+        previousPeriod: { from: period.previousStart, to: period.previousEnd },
+        totalSpent: cents(totalSpent),
+        previousSpent: cents(previousSpent),
+        totalIncome: cents(totalIncome),
+        percentChange: burnRate === null ? null : Math.round(burnRate),
+        categoryChanges: categoryDeltas.slice(0, 10).map(d => ({
+          category: d.category,
+          current: cents(d.current),
+          previous: cents(d.previous),
+          percentChange: d.percentChange === null ? null : Math.round(d.percentChange)
+        }))
+      },
+      status: 200
+    };
+  }
+};
+
+// Once more than COACH_SUMMARY_AFTER messages sit outside the summary, all but the last
+// COACH_RECENT_MESSAGES are folded into it
+const COACH_SUMMARY_AFTER = 16;
+const COACH_RECENT_MESSAGES = 10;
+const COACH_TITLE_LENGTH = 60;
+
+const toChatTurn = (m: CoachMessage): ChatTurn => ({ role: m.role === 'ai' ? 'model' : 'user', text: m.text });
+
+async function ownConversation(id: string): Promise<CoachConversation | undefined> {
+  return (await db.getConversations(AuthService.currentUserId)).find(c => c.id === id);
+}
+
+// A failed summary is not fatal; the model just sees fewer turns this time
+async function withSummary(conversation: CoachConversation, settings?: AiSettings, signal?: AbortSignal): Promise<CoachConversation> {
+  const from = conversation.summarizedCount || 0;
+  if (conversation.messages.length - from <= COACH_SUMMARY_AFTER) return conversation;
+  const upTo = conversation.messages.length - COACH_RECENT_MESSAGES;
+  const res = await summarizeConversation(conversation.messages.slice(from, upTo).map(toChatTurn), conversation.summary, settings, { signal });
+  if (res.ok === false) {
+    console.warn('Coach summary failed, sending recent turns only', res.failure);
+    return conversation;
+  }
+  return { ...conversation, summary: res.value, summarizedCount: upTo };
+}
+
+export const CoachService = {
+  // Runs next to the ledger so the model key never has to reach the browser.
+  // Without a conversationId a new conversation starts, titled after the question.
+  // `options.onText` streams the answer; a cancelled question is not stored.
+  async ask(query: string, conversationId?: string, options: AiRequestOptions = {}): Promise<ApiResponse<CoachAnswer>> {
+    if (!query?.trim()) return { error: 'Ask a question first', status: 400 };
+    const user = await AuthService.getSession();
+    const now = new Date().toISOString();
+    const existing = conversationId ? await ownConversation(conversationId) : undefined;
+    if (conversationId && !existing) return { error: 'Conversation not found', status: 404 };
+    const question = query.trim();
+    const conversation = await withSummary(existing || {
+      id: Math.random().toString(36).substring(2, 11),
+      userId: user.id,
+      title: question.length > COACH_TITLE_LENGTH ? `${question.slice(0, COACH_TITLE_LENGTH - 1)}…` : question,
+      messages: [],
+      createdAt: now,
+      updatedAt: now
+    }, user.preferences.ai, options.signal);
+    const categories = (await categoriesOf(user.id)).map(c => c.name);
+    const toolCalls: CoachToolCall[] = [];
+
+    const runTool = async ({ name, args }: ToolCall) => {
+      const handler = COACH_TOOL_HANDLERS[name];
+      let res: ApiResponse<unknown>;
+      try {
+        res = handler ? await handler(args || {}) : { error: `Unknown tool ${name}`, status: 404 };
+      } catch (e) {
+        res = { error: 'Lookup failed', status: 500 };
+      }
+      const error = res.error && [res.error, ...(res.details || [])].join(': ');
+      toolCalls.push(error ? { name, args, error } : { name, args, result: res.data });
+      // The number lets widgets in a structured answer point back at this result
+      return error ? { call: toolCalls.length, error } : { call: toolCalls.length, result: res.data };
+    };
+
+    const history = conversation.messages.slice(conversation.summarizedCount || 0).slice(-COACH_SUMMARY_AFTER).map(toChatTurn);
+    const answer = await askFinancialCoach(
+      question,
+      { currency: user.preferences.currency, categories, today: today(), history, summary: conversation.summary },
+      runTool,
+      user.preferences.ai,
+      options
+    );
+    // Nothing is stored on failure; the question can simply be asked again
+    if (answer.ok === false) return aiError(answer.failure);
+
+    const answeredAt = new Date().toISOString();
+    const message: CoachMessage = {
+      id: Math.random().toString(36).substring(2, 11),
+      role: 'ai',
+      text: answer.value.text,
+      ...(answer.value.blocks && { blocks: buildCoachBlocks(answer.value.blocks, toolCalls, user.preferences.currency) }),
+      toolCalls,
+      createdAt: answeredAt
+    };
+    // Re-read it: a rename, a pin or another question may have landed while the model was answering
+    const latest = existing ? await ownConversation(conversation.id) : conversation;
+    if (!latest) return { error: 'Conversation not found', status: 404 };
+    const summarized = (conversation.summarizedCount || 0) > (latest.summarizedCount || 0);
+    const saved = await db.upsertConversation({
+      ...latest,
+      ...(summarized && { summary: conversation.summary, summarizedCount: conversation.summarizedCount }),
+      messages: [...latest.messages, { id: Math.random().toString(36).substring(2, 11), role: 'user', text: question, createdAt: now }, message],
+      updatedAt: answeredAt
+    });
+    return { data: { conversation: saved, message }, status: 200 };
+  },
+
+  async getConversations(): Promise<ApiResponse<CoachConversation[]>> {
+    return { data: await db.getConversations(AuthService.currentUserId), status: 200 };
+  },
+
+  async renameConversation(id: string, title: string): Promise<ApiResponse<CoachConversation>> {
+    const conversation = await ownConversation(id);
+    if (!conversation) return { error: 'Conversation not found', status: 404 };
+    if (!title?.trim()) return { error: 'Title is required', status: 400 };
+    const saved = await db.upsertConversation({ ...conversation, title: title.trim().slice(0, COACH_TITLE_LENGTH) });
+    return { data: saved, status: 200 };
+  },
+
+  // Pinned insights go with it; undo brings both back
+  async deleteConversation(id: string): Promise<ApiResponse<void>> {
+    const conversation = await ownConversation(id);
+    if (!conversation) return { error: 'Conversation not found', status: 404 };
+    await db.deleteConversation(id, conversation.userId);
+    pendingUndo.set(conversation.userId, {
+      label: `Deleted "${conversation.title}"`,
+      expiresAt: Date.now() + UNDO_WINDOW_MS,
+      revert: async () => { await db.upsertConversation(conversation); }
+    });
+    return { status: 200 };
+  },
+
+  // Pins a reply to the dashboard, or takes it off again
+  async pinMessage(conversationId: string, messageId: string, pinned: boolean): Promise<ApiResponse<CoachConversation>> {
+    const conversation = await ownConversation(conversationId);
+    const message = conversation?.messages.find(m => m.id === messageId);
+    if (!message) return { error: 'Message not found', status: 404 };
+    if (message.role !== 'ai') return { error: 'Only coach replies can be pinned', status: 400 };
+    const saved = await db.upsertConversation({
+      ...conversation,
+      messages: conversation.messages.map(m => {
+        if (m.id !== messageId) return m;
+        const { pinnedAt, ...rest } = m;
+        return pinned ? { ...rest, pinnedAt: pinnedAt || new Date().toISOString() } : rest;
+      })
+    });
+    return { data: saved, status: 200 };
+  },
+
+  // Every pinned reply, most recently pinned first
+  async getInsights(): Promise<ApiResponse<CoachInsight[]>> {
+    const insights = (await db.getConversations(AuthService.currentUserId)).flatMap(c => c.messages
+      .map((m, i) => ({ m, question: c.messages.slice(0, i).reverse().find(q => q.role === 'user')?.text }))
+      .filter(({ m }) => m.pinnedAt)
+      .map(({ m, question }) => ({ conversationId: c.id, messageId: m.id, question, text: m.text, pinnedAt: m.pinnedAt })));
+    return { data: insights.sort((a, b) => b.pinnedAt.localeCompare(a.pinnedAt)), status: 200 };
   }
 };
 
 // --- BUDGET CONTROLLER ---
+// Shared validation for create/update. Returns an error message or undefined.
+async function validateBudget(candidate: Partial<Budget>, excludeId?: string): Promise<string | undefined> {
+  if (!candidate.category?.trim()) return 'Category is required';
+  if (!candidate.limitAmount || candidate.limitAmount <= 0) return 'Limit must be a positive number';
+  if (!/^[A-Z]{3}$/.test(candidate.currency || '')) return 'Currency must be a 3-letter ISO code';
+  if (candidate.period !== 'monthly' && candidate.period !== 'weekly') return 'Period must be monthly or weekly';
+  if (candidate.startDay !== undefined) {
+    const [min, max] = candidate.period === 'monthly' ? [1, 28] : [0, 6];
+    if (!Number.isInteger(candidate.startDay) || candidate.startDay < min || candidate.startDay > max) {
+      return `Start day must be between ${min} and ${max}`;
+    }
+  }
+
+  const existing = await db.getBudgets(AuthService.currentUserId);
+  const clash = existing.find(b =>
+    b.id !== excludeId &&
+    b.period === candidate.period &&
+    b.category.toLowerCase() === candidate.category.trim().toLowerCase()
+  );
+  if (clash) return `A ${candidate.period} budget for ${clash.category} already exists`;
+  return undefined;
+}
+
+// Strips calculated fields so only user-owned data is persisted
+const toStoredBudget = (b: Budget): Budget => ({
+  id: b.id,
+  userId: b.userId,
+  category: b.category.trim(),
+  limitAmount: b.limitAmount,
+  currency: b.currency,
+  period: b.period,
+  startDay: b.startDay,
+  rollover: b.rollover || false,
+  createdAt: b.createdAt,
+  spent: 0
+});
+
 export const BudgetService = {
+  // Limits and spend come back in the user's preferred currency too; `details` names any rate that is missing for them
   async getAll(): Promise<ApiResponse<Budget[]>> {
-    const budgets = await db.getBudgets(AuthService.currentUserId);
-    // If no budgets exist, return defaults for demo
-    if (budgets.length === 0) {
-      return { 
-        data: [
-          { id: 'b1', userId: AuthService.currentUserId, category: 'Food', limitAmount: 500, period: 'monthly', spent: 0 },
-          { id: 'b2', userId: AuthService.currentUserId, category: 'Transport', limitAmount: 200, period: 'monthly', spent: 0 },
-          { id: 'b3', userId: AuthService.currentUserId, category: 'Entertainment', limitAmount: 300, period: 'monthly', spent: 0 },
-        ], 
-        status: 200 
-      };
-    }
-    return { data: budgets, status: 200 };
+    const user = await AuthService.getSession();
+    const [budgets, rates] = await Promise.all([db.getBudgets(user.id), db.getRates(user.id)]);
+    const missing = new Set<string>();
+    budgets.forEach(b => convertAmount(b.limitAmount, b.currency, user.preferences.currency, today(), rates, missing));
+    return { data: budgets, details: missingRateDetails(missing), status: 200 };
+  },
+
+  // The limit is in `currency`, the user's preferred one unless given
+  async create(payload: Partial<Budget>): Promise<ApiResponse<Budget>> {
+    const currency = (payload.currency || (await AuthService.getSession()).preferences.currency).toUpperCase();
+    const error = await validateBudget({ ...payload, currency });
+    if (error) return { error, status: 400 };
+
+    const budget = toStoredBudget({
+      id: Math.random().toString(36).substring(2, 11),
+      userId: AuthService.currentUserId,
+      category: await ensureCategory(AuthService.currentUserId, payload.category),
+      limitAmount: payload.limitAmount,
+      currency,
+      period: payload.period,
+      startDay: payload.startDay,
+      rollover: payload.rollover,
+      createdAt: new Date().toISOString(),
+      spent: 0
+    });
+    const saved = await db.upsertBudget(budget);
+    return { data: saved, status: 201 };
+  },
+
+  async update(id: string, patch: Partial<Budget>): Promise<ApiResponse<Budget>> {
+    const current = (await db.getBudgets(AuthService.currentUserId)).find(b => b.id === id);
+    if (!current) return { error: 'Budget not found', status: 404 };
+
+    const next = { ...current, ...patch, id, userId: current.userId };
+    if (next.currency) next.currency = next.currency.toUpperCase();
+    const error = await validateBudget(next, id);
+    if (error) return { error, status: 400 };
+
+    next.category = await ensureCategory(current.userId, next.category);
+    const saved = await db.upsertBudget(toStoredBudget(next));
+    return { data: saved, status: 200 };
+  },
+
+  async delete(id: string): Promise<ApiResponse<void>> {
+    await db.deleteBudget(id, AuthService.currentUserId);
+    return { status: 200 };
+  },
+
+  // First-run wizard: proposes monthly limits from recent spending
+  async suggest(): Promise<ApiResponse<{ category: string, limitAmount: number }[]>> {
+    const { txs } = await withConvertedAmounts(await db.getTransactions(AuthService.currentUserId));
+    const suggestions = suggestBudgetLimits(txs.filter(t => t.type === 'expense').map(t => ({ category: t.category, date: t.date, amount: t.convertedAmount })));
+    return { data: suggestions, status: 200 };
+  },
+
+  // Spent vs. limit for each period, oldest first, capped to the most recent `periods`
+  async getHistory(id: string, periods = 6): Promise<ApiResponse<BudgetPeriod[]>> {
+    const history = await db.getBudgetHistory(id, AuthService.currentUserId);
+    if (!history) return { error: 'Budget not found', status: 404 };
+    return { data: history.slice(-periods), status: 200 };
+  }
+};
+
+// --- ACCOUNT CONTROLLER ---
+// Balances in each account's currency and in the user's preferred one
+async function balancesOf(userId: string, txs: Transaction[]): Promise<AccountBalance[]> {
+  const user = await db.getUser(userId);
+  const target = user?.preferences.currency || 'USD';
+  const rates = await db.getRates(userId);
+  const accounts = await db.getAccounts(userId);
+  const balances = accountBalances(accounts, txs, (amount, from, to, date) => convertAmount(amount, from, to, date, rates));
+  return accounts.map(a => ({
+    ...a,
+    balance: balances.get(a.id),
+    convertedBalance: convertAmount(balances.get(a.id), a.currency, target, today(), rates)
+  }));
+}
+
+export const AccountService = {
+  async getAll(): Promise<ApiResponse<AccountBalance[]>> {
+    const userId = AuthService.currentUserId;
+    return { data: await balancesOf(userId, await db.getTransactions(userId)), status: 200 };
+  },
+
+  async create(payload: Partial<Account>): Promise<ApiResponse<Account>> {
+    const user = await AuthService.getSession();
+    const account: Account = {
+      id: Math.random().toString(36).substring(2, 11),
+      userId: user.id,
+      name: (payload.name || '').trim(),
+      type: payload.type || 'checking',
+      currency: (payload.currency || user.preferences.currency).toUpperCase(),
+      openingBalance: payload.openingBalance ?? 0,
+      createdAt: new Date().toISOString()
+    };
+    const error = validateAccountFields(account);
+    if (error) return { error, status: 400 };
+    return { data: await db.upsertAccount(account), status: 201 };
+  },
+
+  async update(id: string, patch: Partial<Account>): Promise<ApiResponse<Account>> {
+    const current = (await db.getAccounts(AuthService.currentUserId)).find(a => a.id === id);
+    if (!current) return { error: 'Account not found', status: 404 };
+    const next: Account = {
+      ...current,
+      name: patch.name !== undefined ? patch.name.trim() : current.name,
+      type: patch.type ?? current.type,
+      currency: (patch.currency ?? current.currency).toUpperCase(),
+      openingBalance: patch.openingBalance ?? current.openingBalance
+    };
+    const error = validateAccountFields(next);
+    if (error) return { error, status: 400 };
+    return { data: await db.upsertAccount(next), status: 200 };
+  },
+
+  // Refused while transactions still point at the account, so balances never lose history
+  async delete(id: string): Promise<ApiResponse<void>> {
+    const userId = AuthService.currentUserId;
+    const used = (await db.getTransactions(userId)).filter(t => t.accountId === id || t.toAccountId === id).length;
+    if (used > 0) return { error: `Account has ${used} transaction(s); move or delete them first`, status: 409 };
+    await db.deleteAccount(id, userId);
+    return { status: 200 };
+  }
+};
+
+function validateAccountFields(account: Account): string | undefined {
+  if (!account.name) return 'Account name is required';
+  if (!ACCOUNT_TYPES.some(t => t.id === account.type)) return 'Unknown account type';
+  if (!/^[A-Z]{3}$/.test(account.currency)) return 'Currency must be a 3-letter ISO code';
+  if (typeof account.openingBalance !== 'number' || !isFinite(account.openingBalance)) return 'Opening balance must be a number';
+  return undefined;
+}
+
+// --- CATEGORY CONTROLLER ---
+// Transactions, budgets and series store the category name; these records add hierarchy, icon and colour
+
+function newCategory(userId: string, name: string, index: number): Category {
+  const preset = DEFAULT_CATEGORIES.find(d => categoryKey(d.name) === categoryKey(name));
+  return {
+    id: Math.random().toString(36).substring(2, 11),
+    userId,
+    name: name.trim(),
+    icon: preset?.icon || 'tag',
+    color: preset?.color || CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+    createdAt: new Date().toISOString()
+  };
+}
+
+// First use seeds the defaults plus every name the user's records already carry
+async function categoriesOf(userId: string): Promise<Category[]> {
+  const stored = await db.getCategories(userId);
+  if (stored.length > 0) return stored;
+  const [txs, budgets, series] = await Promise.all([db.getTransactions(userId), db.getBudgets(userId), db.getRecurrences(userId)]);
+  const names = [
+    ...DEFAULT_CATEGORIES.map(c => c.name),
+    ...txs.map(t => t.category),
+    ...budgets.map(b => b.category),
+    ...series.map(s => s.template.category)
+  ];
+  const seeded: Category[] = [];
+  names.forEach(name => {
+    if (name?.trim() && !findCategory(seeded, name)) seeded.push(newCategory(userId, name, seeded.length));
+  });
+  for (const category of seeded) await db.upsertCategory(category);
+  return db.getCategories(userId);
+}
+
+// Returns the stored spelling of `name`, creating a top-level category the first time it is used
+async function ensureCategory(userId: string, name: string): Promise<string> {
+  const categories = await categoriesOf(userId);
+  const existing = findCategory(categories, name);
+  if (existing) return existing.name;
+  const category = newCategory(userId, name, categories.length);
+  await db.upsertCategory(category);
+  return category.name;
+}
+
+// Files every transaction, budget, series and rule under `from` as `to`; returns how many transactions moved
+async function retagCategory(userId: string, from: string, to: string): Promise<number> {
+  const key = categoryKey(from);
+  const timestamp = new Date().toISOString();
+  const txs = (await db.getTransactions(userId)).filter(t => categoryKey(t.category) === key);
+  for (const t of txs) {
+    await db.updateTransaction(t.id, userId, {
+      category: to,
+      history: [...(t.history || []), { field: 'category', oldValue: t.category, newValue: to, timestamp, actor: 'human' }]
+    });
+  }
+  for (const b of (await db.getBudgets(userId)).filter(b => categoryKey(b.category) === key)) {
+    await db.upsertBudget(toStoredBudget({ ...b, category: to }));
+  }
+  for (const s of (await db.getRecurrences(userId)).filter(s => categoryKey(s.template.category) === key)) {
+    await db.upsertRecurrence({ ...s, template: { ...s.template, category: to } });
+  }
+  for (const r of (await db.getRules(userId)).filter(r => r.category && categoryKey(r.category) === key)) {
+    await db.upsertRule({ ...r, category: to });
+  }
+  return txs.length;
+}
+
+function validateCategoryFields(category: Category, categories: Category[]): string | undefined {
+  if (!category.name) return 'Category name is required';
+  const clash = categories.find(c => c.id !== category.id && categoryKey(c.name) === categoryKey(category.name));
+  if (clash) return `A category named ${clash.name} already exists`;
+  if (!CATEGORY_ICONS.includes(category.icon)) return 'Unknown icon';
+  if (!/^#[0-9a-f]{6}$/i.test(category.color)) return 'Colour must be a hex value like #0aff68';
+  if (category.parentId) {
+    if (!categories.some(c => c.id === category.parentId)) return 'Parent category not found';
+    if (category.parentId === category.id || isDescendant(categories, category.parentId, category.id)) {
+      return 'A category cannot be placed inside itself';
+    }
+  }
+  return undefined;
+}
+
+export const CategoryService = {
+  async getAll(): Promise<ApiResponse<Category[]>> {
+    return { data: await categoriesOf(AuthService.currentUserId), status: 200 };
+  },
+
+  async create(payload: Partial<Category>): Promise<ApiResponse<Category>> {
+    const userId = AuthService.currentUserId;
+    const categories = await categoriesOf(userId);
+    const category: Category = {
+      ...newCategory(userId, payload.name || '', categories.length),
+      parentId: payload.parentId || undefined,
+      ...(payload.icon ? { icon: payload.icon } : {}),
+      ...(payload.color ? { color: payload.color } : {})
+    };
+    const error = validateCategoryFields(category, categories);
+    if (error) return { error, status: 400 };
+    return { data: await db.upsertCategory(category), status: 201 };
+  },
+
+  // A new name is applied to every transaction, budget and series filed under the old one
+  async update(id: string, patch: Partial<Category>): Promise<ApiResponse<Category>> {
+    const categories = await categoriesOf(AuthService.currentUserId);
+    const current = categories.find(c => c.id === id);
+    if (!current) return { error: 'Category not found', status: 404 };
+    const next: Category = {
+      ...current,
+      name: patch.name !== undefined ? patch.name.trim() : current.name,
+      // An empty parentId moves the category to the top level
+      parentId: patch.parentId !== undefined ? patch.parentId || undefined : current.parentId,
+      icon: patch.icon ?? current.icon,
+      color: patch.color ?? current.color
+    };
+    const error = validateCategoryFields(next, categories);
+    if (error) return { error, status: 400 };
+    if (next.name !== current.name) await retagCategory(current.userId, current.name, next.name);
+    return { data: await db.upsertCategory(next), status: 200 };
+  },
+
+  /**
+   * Folds one category into another: its transactions, budgets and series
+   * move to the target, its sub-categories move under the target, and the
+   * source is removed.
+   */
+  async merge(sourceId: string, targetId: string): Promise<ApiResponse<{ category: Category, retagged: number }>> {
+    const userId = AuthService.currentUserId;
+    const categories = await categoriesOf(userId);
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target) return { error: 'Category not found', status: 404 };
+    if (source.id === target.id) return { error: 'Choose a different category to merge into', status: 400 };
+    if (isDescendant(categories, target.id, source.id)) return { error: `${target.name} is inside ${source.name}; move it out first`, status: 400 };
+
+    const budgets = await db.getBudgets(userId);
+    const clash = budgets.find(b => categoryKey(b.category) === categoryKey(source.name) &&
+      budgets.some(o => o.period === b.period && categoryKey(o.category) === categoryKey(target.name)));
+    if (clash) return { error: `Both categories have a ${clash.period} budget; delete one first`, status: 409 };
+
+    const retagged = await retagCategory(userId, source.name, target.name);
+    for (const child of categories.filter(c => c.parentId === source.id)) await db.upsertCategory({ ...child, parentId: target.id });
+    await db.deleteCategory(source.id, userId);
+    return { data: { category: target, retagged }, status: 200 };
+  },
+
+  // Refused while anything still uses the category; merging is the way to retire one that is in use
+  async delete(id: string): Promise<ApiResponse<void>> {
+    const userId = AuthService.currentUserId;
+    const categories = await categoriesOf(userId);
+    const category = categories.find(c => c.id === id);
+    if (!category) return { error: 'Category not found', status: 404 };
+    if (categories.some(c => c.parentId === id)) return { error: `${category.name} has sub-categories; move or merge them first`, status: 409 };
+    const key = categoryKey(category.name);
+    const [txs, budgets, series, rules] = await Promise.all([db.getTransactions(userId), db.getBudgets(userId), db.getRecurrences(userId), db.getRules(userId)]);
+    const used = txs.filter(t => categoryKey(t.category) === key).length +
+      budgets.filter(b => categoryKey(b.category) === key).length +
+      series.filter(s => categoryKey(s.template.category) === key).length +
+      rules.filter(r => r.category && categoryKey(r.category) === key).length;
+    if (used > 0) return { error: `${category.name} is used by ${used} record(s); merge it into another category instead`, status: 409 };
+    await db.deleteCategory(id, userId);
+    return { status: 200 };
+  }
+};
+
+// --- RULES CONTROLLER ---
+// Returns a function that puts the rules back as they were, for undoing the correction
+async function learnRule(userId: string, merchant: string, category: string): Promise<() => Promise<void>> {
+  const unchanged = async () => {};
+  const key = merchantKey(merchant);
+  if (!key || key === 'unknown') return unchanged;
+  const rules = await db.getRules(userId);
+  // A hand-written rule for the merchant stays in charge
+  if (rules.some(r => r.source === 'manual' && r.category && merchantKey(r.merchant) === key)) return unchanged;
+  const existing = rules.find(r => r.source === 'learned' && merchantKey(r.merchant) === key);
+  const learned = await db.upsertRule(existing ? { ...existing, category, enabled: true } : {
+    id: Math.random().toString(36).substring(2, 11),
+    userId,
+    merchant: merchant.trim(),
+    category,
+    priority: LEARNED_RULE_PRIORITY,
+    source: 'learned',
+    enabled: true,
+    createdAt: new Date().toISOString()
+  });
+  return async () => { await (existing ? db.upsertRule(existing) : db.deleteRule(learned.id, userId)); };
+}
+
+function validateRuleFields(rule: CategoryRule): string | undefined {
+  if (!rule.merchant && rule.minAmount === undefined) return 'A rule needs a merchant or an amount to match';
+  if (rule.minAmount !== undefined && (!isFinite(rule.minAmount) || rule.minAmount < 0)) return 'Amount must be zero or more';
+  if (!rule.category && !rule.tags?.length && !rule.flag) return 'A rule needs a category, tags or a flag';
+  if (!isFinite(rule.priority)) return 'Priority must be a number';
+  return undefined;
+}
+
+// Blank strings and empty lists from a form mean "not set"
+async function normalizeRule(userId: string, rule: CategoryRule): Promise<CategoryRule> {
+  const tags = (rule.tags || []).map(t => t.trim()).filter(Boolean);
+  return {
+    ...rule,
+    merchant: rule.merchant?.trim() || undefined,
+    minAmount: typeof rule.minAmount === 'number' ? rule.minAmount : undefined,
+    category: rule.category?.trim() ? await ensureCategory(userId, rule.category) : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    flag: rule.flag?.trim() || undefined
+  };
+}
+
+export const RuleService = {
+  async getAll(): Promise<ApiResponse<CategoryRule[]>> {
+    return { data: await db.getRules(AuthService.currentUserId), status: 200 };
+  },
+
+  async create(payload: Partial<CategoryRule>): Promise<ApiResponse<CategoryRule>> {
+    const userId = AuthService.currentUserId;
+    const rule: CategoryRule = {
+      id: Math.random().toString(36).substring(2, 11),
+      userId,
+      merchant: payload.merchant,
+      minAmount: payload.minAmount,
+      category: payload.category,
+      tags: payload.tags,
+      flag: payload.flag,
+      priority: payload.priority ?? MANUAL_RULE_PRIORITY,
+      source: 'manual',
+      enabled: payload.enabled ?? true,
+      createdAt: new Date().toISOString()
+    };
+    const error = validateRuleFields(rule);
+    if (error) return { error, status: 400 };
+    return { data: await db.upsertRule(await normalizeRule(userId, rule)), status: 201 };
+  },
+
+  // Editing a learned rule makes it the user's own
+  async update(id: string, patch: Partial<CategoryRule>): Promise<ApiResponse<CategoryRule>> {
+    const current = (await db.getRules(AuthService.currentUserId)).find(r => r.id === id);
+    if (!current) return { error: 'Rule not found', status: 404 };
+    const { id: _id, userId, source, createdAt, ...editable } = patch;
+    const next: CategoryRule = { ...current, ...editable };
+    // null clears a condition over HTTP, where undefined would not survive JSON
+    if (patch.minAmount === null) next.minAmount = undefined;
+    const changesMatch = ['merchant', 'minAmount', 'category', 'tags', 'flag'].some(k => k in editable);
+    if (changesMatch) next.source = 'manual';
+    const error = validateRuleFields({ ...next, merchant: next.merchant?.trim(), flag: next.flag?.trim() });
+    if (error) return { error, status: 400 };
+    return { data: await db.upsertRule(await normalizeRule(current.userId, next)), status: 200 };
+  },
+
+  async delete(id: string): Promise<ApiResponse<void>> {
+    await db.deleteRule(id, AuthService.currentUserId);
+    return { status: 200 };
+  }
+};
+
+// --- SHARED EXPENSES CONTROLLER ---
+export const SplitService = {
+  async share(transactionId: string, request: SplitRequest): Promise<ApiResponse<Transaction>> {
+    const current = (await db.getTransactions(AuthService.currentUserId)).find(t => t.id === transactionId);
+    if (!current) return { error: 'Transaction not found', status: 404 };
+    if (current.type !== 'expense') return { error: 'Only expenses can be shared', status: 400 };
+    const { split, errors } = resolveSplit(current.amount, request);
+    if (!split) return { error: 'Split is not valid', details: errors, status: 400 };
+    return { data: await setSplit(current, split), status: 200 };
+  },
+
+  async unshare(transactionId: string): Promise<ApiResponse<Transaction>> {
+    const current = (await db.getTransactions(AuthService.currentUserId)).find(t => t.id === transactionId);
+    if (!current) return { error: 'Transaction not found', status: 404 };
+    return { data: current.split ? await setSplit(current, undefined) : current, status: 200 };
+  },
+
+  // Who owes whom, netted per pair, plus every name used so far for pickers
+  async getBalances(): Promise<ApiResponse<{ currency: string, balances: PairBalance[], participants: string[] }>> {
+    const user = await AuthService.getSession();
+    const currency = user.preferences.currency;
+    const rates = await db.getRates(user.id);
+    const shared = (await db.getTransactions(user.id)).filter(t => t.split);
+    const settlements = await db.getSettlements(user.id);
+
+    const balances = pairBalances(shared, settlements, (amount, from, date) => convertAmount(amount, from, currency, date, rates));
+    const participants = new Map<string, string>();
+    [...shared.flatMap(t => t.split.shares.map(s => s.participant)), ...settlements.flatMap(s => [s.from, s.to])]
+      .forEach(name => { if (!participants.has(participantKey(name))) participants.set(participantKey(name), name); });
+    return { data: { currency, balances, participants: [...participants.values()] }, status: 200 };
+  },
+
+  async getSettlements(): Promise<ApiResponse<Settlement[]>> {
+    return { data: await db.getSettlements(AuthService.currentUserId), status: 200 };
+  },
+
+  // Records a payment from one participant to another; it offsets their balance
+  async settle(payload: Partial<Settlement>): Promise<ApiResponse<Settlement>> {
+    const user = await AuthService.getSession();
+    const from = (payload.from || '').trim();
+    const to = (payload.to || '').trim();
+    if (!from || !to || participantKey(from) === participantKey(to)) {
+      return { error: 'A settlement needs two different people', status: 400 };
+    }
+    if (!payload.amount || !isFinite(payload.amount) || payload.amount <= 0) {
+      return { error: 'Amount must be a positive number', status: 400 };
+    }
+    const currency = payload.currency || user.preferences.currency;
+    if (!/^[A-Z]{3}$/.test(currency)) return { error: 'Currency must be a 3-letter ISO code', status: 400 };
+
+    const settlement: Settlement = {
+      id: Math.random().toString(36).substring(2, 11),
+      userId: user.id,
+      from,
+      to,
+      amount: Math.round(payload.amount * 100) / 100,
+      currency,
+      date: (payload.date || today()).split('T')[0],
+      note: payload.note?.trim() || undefined,
+      createdAt: new Date().toISOString()
+    };
+    return { data: await db.createSettlement(settlement), status: 201 };
+  },
+
+  async deleteSettlement(id: string): Promise<ApiResponse<void>> {
+    await db.deleteSettlement(id, AuthService.currentUserId);
+    return { status: 200 };
+  }
+};
+
+// Splits go into the audit trail like any other edit
+function setSplit(current: Transaction, split: Transaction['split']): Promise<Transaction> {
+  const change: TransactionChange = { field: 'split', oldValue: current.split, newValue: split, timestamp: new Date().toISOString(), actor: 'human' };
+  return db.updateTransaction(current.id, current.userId, { split, history: [...(current.history || []), change] });
+}
+
+// --- CURRENCY CONTROLLER ---
+export const CurrencyService = {
+  async getRates(): Promise<ApiResponse<ExchangeRate[]>> {
+    const rates = await db.getRates(AuthService.currentUserId);
+    return { data: rates, status: 200 };
+  },
+
+  async upsertRate(payload: Partial<ExchangeRate>): Promise<ApiResponse<ExchangeRate>> {
+    const base = (payload.base || '').trim().toUpperCase();
+    const quote = (payload.quote || '').trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote) || base === quote) {
+      return { error: 'Rate needs two distinct ISO currency codes', status: 400 };
+    }
+    if (typeof payload.rate !== 'number' || !isFinite(payload.rate) || payload.rate <= 0) {
+      return { error: 'Rate must be a positive number', status: 400 };
+    }
+    // Ids are global across users, so only the caller's own rates can be edited by id
+    if (payload.id && !(await db.getRates(AuthService.currentUserId)).some(r => r.id === payload.id)) {
+      return { error: 'Rate not found', status: 404 };
+    }
+
+    const rate: ExchangeRate = {
+      id: payload.id || Math.random().toString(36).substring(2, 11),
+      userId: AuthService.currentUserId,
+      base,
+      quote,
+      rate: payload.rate,
+      date: (payload.date || new Date().toISOString()).split('T')[0]
+    };
+    const saved = await db.upsertRate(rate);
+    return { data: saved, status: payload.id ? 200 : 201 };
+  },
+
+  async deleteRate(id: string): Promise<ApiResponse<void>> {
+    await db.deleteRate(id, AuthService.currentUserId);
+    return { status: 200 };
   }
 };
@@ -0,0 +1,32 @@
+import { PasswordCredentials } from './types';
+
+// PBKDF2 work factor for new passwords; stored per user so it can be raised later
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(h => parseInt(h, 16)));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(bits);
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export async function hashPassword(password: string): Promise<PasswordCredentials> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { salt: toHex(salt), hash: await derive(password, salt, ITERATIONS), iterations: ITERATIONS };
+}
+
+// Compares every character so the time taken doesn't leak how much of the hash matched
+export async function verifyPassword(password: string, credentials: PasswordCredentials): Promise<boolean> {
+  const candidate = await derive(password, fromHex(credentials.salt), credentials.iterations);
+  if (candidate.length !== credentials.hash.length) return false;
+  let diff = 0;
+  for (let i = 0; i < candidate.length; i++) diff |= candidate.charCodeAt(i) ^ credentials.hash.charCodeAt(i);
+  return diff === 0;
+}
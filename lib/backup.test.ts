@@ -0,0 +1,107 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BACKUP_VERSION, buildBackup, transactionsToCsv, validateBackup, validateBudget, validateSeries, validateTransaction, validateUser } from './backup';
+import { emptySnapshot } from './migrations';
+import { Transaction, User } from './types';
+
+const user = (): User => ({
+  id: 'u1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  preferences: { currency: 'EUR', theme: 'dark' },
+  createdAt: '2024-01-01T00:00:00Z'
+} as User);
+
+const tx = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 't1',
+  userId: 'u1',
+  type: 'expense',
+  amount: 4.5,
+  currency: 'EUR',
+  date: '2024-01-05',
+  category: 'Food',
+  merchant: 'Cafe',
+  description: '',
+  tags: [],
+  isRecurring: false,
+  ...overrides
+});
+
+const file = (data: Record<string, unknown> = {}) => ({ ...buildBackup({ ...emptySnapshot(), users: [user()], transactions: [tx()] }), ...data });
+
+describe('record validators', () => {
+  test('accept well-formed records', () => {
+    assert.deepEqual(validateUser(user(), 'users[0]'), []);
+    assert.deepEqual(validateTransaction(tx(), 'transactions[0]'), []);
+  });
+
+  test('name each bad field with its path', () => {
+    assert.deepEqual(validateTransaction(tx({ amount: Infinity, date: 'soon' }), 'transactions[3]'), [
+      'transactions[3].amount: invalid or missing',
+      'transactions[3].date: invalid or missing'
+    ]);
+    assert.deepEqual(validateTransaction('nope', 'transactions[0]'), ['transactions[0]: expected an object']);
+  });
+
+  test('check optional fields only when present', () => {
+    assert.deepEqual(validateTransaction(tx({ accountId: 7 as unknown as string }), 't'), ['t.accountId: invalid']);
+    assert.deepEqual(validateTransaction(tx({ accountId: undefined }), 't'), []);
+  });
+
+  test('look inside nested shapes', () => {
+    assert.deepEqual(validateUser({ ...user(), preferences: { currency: 'euro', theme: 'dark' } }, 'u'), ['u.preferences.currency: invalid or missing']);
+    const items = [{ description: 'Tea', quantity: 0, unitPrice: 2, category: 'Food' }];
+    assert.deepEqual(validateTransaction(tx({ items } as Partial<Transaction>), 't'), ['t.items[0].quantity: invalid or missing']);
+    const series = { id: 's1', userId: 'u1', rule: { frequency: 'hourly', interval: 1, startDate: '2024-01-01' }, template: { amount: 9, currency: 'EUR', category: 'Bills', merchant: 'Gym' }, paused: false, skippedDates: [], createdAt: '2024-01-01' };
+    assert.deepEqual(validateSeries(series, 's'), ['s.rule.frequency: invalid or missing']);
+  });
+
+  test('reject limits that are not positive', () => {
+    assert.deepEqual(validateBudget({ id: 'b1', userId: 'u1', category: 'Food', limitAmount: 0, period: 'monthly' }, 'b'), ['b.limitAmount: invalid or missing']);
+  });
+});
+
+describe('validateBackup', () => {
+  test('accepts a current backup and fills in missing collections', () => {
+    const { rates, ...older } = file();
+    const { backup, errors } = validateBackup(older);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(backup?.rates, []);
+  });
+
+  test('rejects other files and newer versions', () => {
+    assert.deepEqual(validateBackup([]).errors, ['File is not a JSON object']);
+    assert.deepEqual(validateBackup({ app: 'other' }).errors, ['Not a Financial Zen backup file']);
+    assert.match(validateBackup(file({ version: BACKUP_VERSION + 1 })).errors[0], /^Unsupported backup version/);
+  });
+
+  test('reports every problem at once', () => {
+    const { backup, errors } = validateBackup(file({ transactions: [tx({ amount: NaN }), tx({ id: 't2', merchant: undefined })] }));
+    assert.equal(backup, undefined);
+    assert.deepEqual(errors, ['transactions[0].amount: invalid or missing', 'transactions[1].merchant: invalid or missing']);
+  });
+
+  test('rejects records owned by a user the file does not hold', () => {
+    assert.deepEqual(validateBackup(file({ transactions: [tx({ userId: 'u2' })] })).errors, ['transactions[0].userId: unknown user u2']);
+  });
+
+  test('rejects an id repeated within a collection', () => {
+    assert.deepEqual(validateBackup(file({ transactions: [tx(), tx({ amount: 9 })] })).errors, ['transactions[1].id: duplicate id t1']);
+  });
+
+  test('upgrades older versions', () => {
+    const { type, ...untyped } = tx();
+    const budget = { id: 'b1', userId: 'u1', category: 'Food', limitAmount: 100, period: 'monthly' };
+    const { backup, errors } = validateBackup(file({ version: 3, transactions: [untyped], budgets: [budget] }));
+    assert.deepEqual(errors, []);
+    assert.equal(backup?.transactions[0].type, 'expense');
+    assert.equal(backup?.budgets[0].currency, 'EUR');
+  });
+});
+
+describe('transactionsToCsv', () => {
+  test('quotes fields that need it', () => {
+    const csv = transactionsToCsv([tx({ merchant: 'Smith, "Jr"', tags: ['a', 'b'], date: '2024-01-05T10:00:00Z' })]);
+    assert.equal(csv.split('\r\n')[1], 't1,2024-01-05,expense,"Smith, ""Jr""",Food,4.5,EUR,,a;b,false');
+  });
+});
@@ -0,0 +1,297 @@
+import { BackupFile, StoreSnapshot, Transaction, User } from './types';
+import { budgetCurrencyOf } from './migrations';
+
+// v2 added recurring series, v3 settle-up payments, v4 accounts and transaction types, v5 categories, v6 categorisation rules,
+// v7 coach conversations, v8 budget currencies
+export const BACKUP_VERSION = 8;
+
+// --- Shape validation ---
+// Hand-written checks mirroring lib/types.ts. Each returns a list of problems
+// prefixed with the record path, so the restore report points at the bad row.
+
+type Check = (value: unknown, path: string) => string[];
+type Test = (v: unknown) => boolean;
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isInteger = (v: unknown): v is number => Number.isInteger(v);
+const isDate = (v: unknown) => isString(v) && !isNaN(new Date(v).getTime());
+const isBoolean = (v: unknown) => typeof v === 'boolean';
+const oneOf = (...values: unknown[]): Test => v => values.includes(v);
+const listOf = (test: Test): Test => v => Array.isArray(v) && v.every(test);
+const listed = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+function checkShape(obj: unknown, path: string, fields: Record<string, Test>, optional: Record<string, Test> = {}): string[] {
+  if (!isObject(obj)) return [`${path}: expected an object`];
+  const errors: string[] = [];
+  Object.entries(fields).forEach(([key, ok]) => {
+    if (!ok(obj[key])) errors.push(`${path}.${key}: invalid or missing`);
+  });
+  Object.entries(optional).forEach(([key, ok]) => {
+    if (obj[key] !== undefined && !ok(obj[key])) errors.push(`${path}.${key}: invalid`);
+  });
+  return errors;
+}
+
+export const validateUser: Check = (u, path) => [
+  ...checkShape(u, path, { id: isString, email: isString, name: isString, createdAt: isDate, preferences: isObject }, {
+    credentials: isObject
+  }),
+  ...(isObject(u) && u.preferences ? checkShape(u.preferences, `${path}.preferences`, {
+    currency: v => isString(v) && /^[A-Z]{3}$/.test(v),
+    theme: oneOf('dark', 'light')
+  }, {
+    ai: v => isObject(v) && isString(v.provider)
+  }) : []),
+  ...(isObject(u) && u.credentials ? checkShape(u.credentials, `${path}.credentials`, {
+    salt: v => isString(v) && /^[0-9a-f]+$/.test(v),
+    hash: v => isString(v) && /^[0-9a-f]+$/.test(v),
+    iterations: v => isInteger(v) && v > 0
+  }) : [])
+];
+
+export const validateTransaction: Check = (t, path) => checkShape(t, path, {
+  id: isString,
+  userId: isString,
+  amount: isNumber,
+  currency: isString,
+  date: isDate,
+  category: isString,
+  merchant: isString,
+  description: isString,
+  tags: listOf(isString),
+  isRecurring: isBoolean,
+  type: oneOf('expense', 'income', 'transfer')
+}, {
+  accountId: isString,
+  toAccountId: isString,
+  seriesId: isString,
+  history: listOf(c => isObject(c) && isString(c.field) && isDate(c.timestamp) && oneOf('human', 'ai')(c.actor)),
+  aiMetadata: isObject,
+  items: Array.isArray,
+  subtotal: isNumber,
+  tax: isNumber,
+  tip: isNumber,
+  split: v => isObject(v) && isString(v.paidBy) && listOf(s => isObject(s) && isString(s.participant) && isNumber(s.amount))(v.shares),
+  appliedRules: listOf(isString),
+  flags: listOf(isString),
+  alerts: listOf(a => isObject(a) && oneOf('duplicate', 'unusual_amount', 'new_merchant')(a.kind) && isString(a.message))
+}).concat(isObject(t) ? listed(t.items).flatMap((item, i) => checkShape(item, `${path}.items[${i}]`, {
+  description: isString,
+  quantity: v => isNumber(v) && v > 0,
+  unitPrice: isNumber,
+  category: isString
+})) : []);
+
+export const validateBudget: Check = (b, path) => checkShape(b, path, {
+  id: isString,
+  userId: isString,
+  category: isString,
+  limitAmount: v => isNumber(v) && v > 0,
+  period: oneOf('monthly', 'weekly')
+}, {
+  currency: isString,
+  startDay: isInteger,
+  rollover: isBoolean,
+  createdAt: isDate
+});
+
+export const validateRate: Check = (r, path) => checkShape(r, path, {
+  id: isString,
+  userId: isString,
+  base: isString,
+  quote: isString,
+  rate: v => isNumber(v) && v > 0,
+  date: isDate
+});
+
+export const validateSeries: Check = (r, path) => [
+  ...checkShape(r, path, {
+    id: isString,
+    userId: isString,
+    rule: isObject,
+    template: isObject,
+    paused: isBoolean,
+    skippedDates: listOf(isString),
+    createdAt: isDate
+  }, {
+    lastGeneratedDate: isDate
+  }),
+  ...(isObject(r) && r.rule ? checkShape(r.rule, `${path}.rule`, {
+    frequency: oneOf('daily', 'weekly', 'monthly', 'yearly'),
+    interval: v => isInteger(v) && v > 0,
+    startDate: isDate
+  }, {
+    dayOfMonth: v => isInteger(v) && v >= 1 && v <= 31,
+    endDate: isDate
+  }) : []),
+  ...(isObject(r) && r.template ? checkShape(r.template, `${path}.template`, {
+    amount: isNumber,
+    currency: isString,
+    category: isString,
+    merchant: isString
+  }) : [])
+];
+
+export const validateSettlement: Check = (s, path) => checkShape(s, path, {
+  id: isString,
+  userId: isString,
+  from: isString,
+  to: isString,
+  amount: v => isNumber(v) && v > 0,
+  currency: isString,
+  date: isDate,
+  createdAt: isDate
+}, {
+  note: isString
+});
+
+export const validateAccount: Check = (a, path) => checkShape(a, path, {
+  id: isString,
+  userId: isString,
+  name: isString,
+  type: oneOf('checking', 'savings', 'credit_card', 'cash'),
+  currency: v => isString(v) && /^[A-Z]{3}$/.test(v),
+  openingBalance: isNumber,
+  createdAt: isDate
+});
+
+export const validateCategory: Check = (c, path) => checkShape(c, path, {
+  id: isString,
+  userId: isString,
+  name: v => isString(v) && v.trim().length > 0,
+  icon: isString,
+  color: v => isString(v) && /^#[0-9a-f]{6}$/i.test(v),
+  createdAt: isDate
+}, {
+  parentId: isString
+});
+
+export const validateCategoryRule: Check = (r, path) => checkShape(r, path, {
+  id: isString,
+  userId: isString,
+  priority: isNumber,
+  source: oneOf('manual', 'learned'),
+  enabled: isBoolean,
+  createdAt: isDate
+}, {
+  merchant: isString,
+  minAmount: isNumber,
+  category: isString,
+  tags: listOf(isString),
+  flag: isString
+});
+
+export const validateConversation: Check = (c, path) => [
+  ...checkShape(c, path, {
+    id: isString,
+    userId: isString,
+    title: isString,
+    messages: Array.isArray,
+    createdAt: isDate,
+    updatedAt: isDate
+  }, {
+    summary: isString,
+    summarizedCount: v => isInteger(v) && v >= 0
+  }),
+  ...(isObject(c) ? listed(c.messages).flatMap((m, i) => checkShape(m, `${path}.messages[${i}]`, {
+    id: isString,
+    role: oneOf('user', 'ai'),
+    text: isString,
+    createdAt: isDate
+  }, {
+    toolCalls: listOf(call => isObject(call) && isString(call.name) && typeof call.args === 'object'),
+    blocks: listOf(b => isObject(b) && (b.type === 'markdown' ? isString(b.text) : b.type === 'widget' && typeof b.widget === 'object')),
+    pinnedAt: isDate
+  })) : [])
+];
+
+function validateList(list: unknown, path: string, check: Check): string[] {
+  if (!Array.isArray(list)) return [`${path}: expected an array`];
+  return list.flatMap((item, i) => check(item, `${path}[${i}]`));
+}
+
+/**
+ * Validates a parsed backup file. Every record is checked so the report
+ * lists all problems at once rather than stopping at the first one.
+ */
+export function validateBackup(file: unknown): { backup?: BackupFile, errors: string[] } {
+  if (!isObject(file)) return { errors: ['File is not a JSON object'] };
+  if (file.app !== 'financial-zen') return { errors: ['Not a Financial Zen backup file'] };
+  const version = file.version;
+  if (!isInteger(version) || version > BACKUP_VERSION) {
+    return { errors: [`Unsupported backup version ${version} (this app reads up to ${BACKUP_VERSION})`] };
+  }
+  let data = file;
+  // Before v4 every transaction was an expense
+  if (version < 4 && Array.isArray(data.transactions)) {
+    data = { ...data, transactions: data.transactions.map((t: unknown) => (isObject(t) ? { type: 'expense', ...t } : t)) };
+  }
+
+  // Before v8 budget limits were in the owner's preferred currency
+  if (version < 8 && Array.isArray(data.budgets) && Array.isArray(data.users)) {
+    const users = data.users as User[]; // Checked below, with the budgets
+    data = { ...data, budgets: data.budgets.map((b: unknown) => (isObject(b) ? { currency: budgetCurrencyOf(users, String(b.userId)), ...b } : b)) };
+  }
+
+  const errors = [
+    ...validateList(data.users, 'users', validateUser),
+    ...validateList(data.transactions, 'transactions', validateTransaction),
+    ...validateList(data.budgets, 'budgets', validateBudget),
+    ...validateList(data.rates ?? [], 'rates', validateRate),
+    ...validateList(data.recurrences ?? [], 'recurrences', validateSeries),
+    ...validateList(data.settlements ?? [], 'settlements', validateSettlement),
+    ...validateList(data.accounts ?? [], 'accounts', validateAccount),
+    ...validateList(data.categories ?? [], 'categories', validateCategory),
+    ...validateList(data.rules ?? [], 'rules', validateCategoryRule),
+    ...validateList(data.conversations ?? [], 'conversations', validateConversation)
+  ];
+
+  const userIds = new Set(listed(data.users).filter(isObject).map(u => u.id));
+  ['transactions', 'budgets', 'recurrences', 'settlements', 'accounts', 'categories', 'rules', 'conversations'].forEach(key => {
+    listed(data[key]).forEach((r, i) => {
+      if (isObject(r) && !userIds.has(r.userId)) errors.push(`${key}[${i}].userId: unknown user ${r.userId}`);
+    });
+  });
+
+  // A repeated id would silently replace the earlier record on restore
+  ['users', 'transactions', 'budgets', 'rates', 'recurrences', 'settlements', 'accounts', 'categories', 'rules', 'conversations'].forEach(key => {
+    const seen = new Set<unknown>();
+    listed(data[key]).forEach((r, i) => {
+      if (!isObject(r)) return;
+      if (seen.has(r.id)) errors.push(`${key}[${i}].id: duplicate id ${r.id}`);
+      seen.add(r.id);
+    });
+  });
+
+  if (errors.length > 0) return { errors };
+  // Every record passed its check above. Older versions simply lack the newer collections
+  const backup = { ...data, rates: data.rates ?? [], recurrences: data.recurrences ?? [], settlements: data.settlements ?? [], accounts: data.accounts ?? [], categories: data.categories ?? [], rules: data.rules ?? [], conversations: data.conversations ?? [] };
+  return { backup: backup as unknown as BackupFile, errors };
+}
+
+// --- Export formats ---
+
+const csvField = (v: string | number | boolean) => {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function transactionsToCsv(txs: Transaction[]): string {
+  const header = ['id', 'date', 'type', 'merchant', 'category', 'amount', 'currency', 'description', 'tags', 'isRecurring'];
+  const rows = txs.map(t => [
+    t.id, t.date.split('T')[0], t.type, t.merchant, t.category, t.amount, t.currency, t.description, t.tags.join(';'), t.isRecurring
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\r\n');
+}
+
+export function buildBackup(data: StoreSnapshot): BackupFile {
+  return {
+    app: 'financial-zen',
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateBudget, getPeriodWindow, suggestBudgetLimits } from './budgets';
+
+describe('getPeriodWindow', () => {
+  test('monthly windows start on the chosen day', () => {
+    assert.deepEqual(getPeriodWindow('2024-03-10', 'monthly'), { start: '2024-03-01', end: '2024-04-01' });
+    assert.deepEqual(getPeriodWindow('2024-03-10', 'monthly', 15), { start: '2024-02-15', end: '2024-03-15' });
+    assert.deepEqual(getPeriodWindow('2024-03-15', 'monthly', 15), { start: '2024-03-15', end: '2024-04-15' });
+  });
+
+  test('monthly start days are clamped to 1-28', () => {
+    assert.deepEqual(getPeriodWindow('2024-02-29', 'monthly', 31), { start: '2024-02-28', end: '2024-03-28' });
+    assert.deepEqual(getPeriodWindow('2024-01-01', 'monthly', 0), { start: '2024-01-01', end: '2024-02-01' });
+  });
+
+  test('a monthly window can span the new year', () => {
+    assert.deepEqual(getPeriodWindow('2024-01-05', 'monthly', 20), { start: '2023-12-20', end: '2024-01-20' });
+  });
+
+  test('weekly windows start on the chosen weekday, Monday by default', () => {
+    // 2024-03-13 is a Wednesday
+    assert.deepEqual(getPeriodWindow('2024-03-13', 'weekly'), { start: '2024-03-11', end: '2024-03-18' });
+    assert.deepEqual(getPeriodWindow('2024-03-13', 'weekly', 0), { start: '2024-03-10', end: '2024-03-17' });
+    assert.deepEqual(getPeriodWindow('2024-03-13', 'weekly', 3), { start: '2024-03-13', end: '2024-03-20' });
+  });
+});
+
+describe('evaluateBudget', () => {
+  const entries = [
+    { date: '2024-01-10', amount: 80 },
+    { date: '2024-02-03T18:00:00Z', amount: 150 },
+    { date: '2024-03-01', amount: 20 }
+  ];
+
+  test('walks every period from the first entry to today', () => {
+    const periods = evaluateBudget({ limitAmount: 100, period: 'monthly' }, entries, '2024-03-10');
+    assert.deepEqual(periods.map(p => [p.start, p.spent, p.limit]), [
+      ['2024-01-01', 80, 100],
+      ['2024-02-01', 150, 100],
+      ['2024-03-01', 20, 100]
+    ]);
+  });
+
+  test('rollover carries unspent and overspent amounts forward', () => {
+    const periods = evaluateBudget({ limitAmount: 100, period: 'monthly', rollover: true }, entries, '2024-03-10');
+    assert.deepEqual(periods.map(p => [p.carriedIn, p.limit]), [[0, 100], [20, 120], [-30, 70]]);
+  });
+
+  test('starts from the creation date when it is earlier than any entry', () => {
+    const periods = evaluateBudget({ limitAmount: 50, period: 'weekly', createdAt: '2024-02-26T09:00:00Z' }, [], '2024-03-10');
+    assert.deepEqual(periods.map(p => p.start), ['2024-02-26', '2024-03-04']);
+  });
+
+  test('counts an entry on the start day in the new period only', () => {
+    const periods = evaluateBudget({ limitAmount: 100, period: 'monthly', startDay: 15 }, [{ date: '2024-03-15', amount: 40 }, { date: '2024-03-14', amount: 5 }], '2024-03-20');
+    assert.deepEqual(periods.map(p => [p.start, p.spent]), [['2024-02-15', 5], ['2024-03-15', 40]]);
+  });
+});
+
+describe('suggestBudgetLimits', () => {
+  test('leaves out a bill paid early in the current month', () => {
+    const rent = ['2024-01-01', '2024-02-01', '2024-03-01'].map(date => ({ category: 'Rent', date, amount: 1000 }));
+    assert.deepEqual(suggestBudgetLimits(rent, 3, '2024-03-01'), [{ category: 'Rent', limitAmount: 1000 }]);
+  });
+
+  test('averages the complete months before the current one', () => {
+    const entries = [
+      { category: 'Food', date: '2023-11-20', amount: 999 }, // Outside the window
+      { category: 'Food', date: '2023-12-05', amount: 300 },
+      { category: 'Food', date: '2024-01-05', amount: 200 },
+      { category: 'Food', date: '2024-02-10', amount: 100 },
+      { category: 'Food', date: '2024-03-02', amount: 500 } // Current month
+    ];
+    assert.deepEqual(suggestBudgetLimits(entries, 3, '2024-03-10'), [{ category: 'Food', limitAmount: 200 }]);
+  });
+
+  test('counts months with spend per category', () => {
+    const entries = [
+      { category: 'Food', date: '2024-01-05', amount: 100 },
+      { category: 'Food', date: '2024-02-05', amount: 100 },
+      { category: 'Gifts', date: '2024-02-14', amount: 60 }
+    ];
+    assert.deepEqual(suggestBudgetLimits(entries, 3, '2024-03-10'), [
+      { category: 'Food', limitAmount: 100 },
+      { category: 'Gifts', limitAmount: 60 }
+    ]);
+  });
+
+  test('falls back to this month for a brand-new ledger, rounding up to the next 10', () => {
+    assert.deepEqual(suggestBudgetLimits([{ category: 'Food', date: '2024-03-02', amount: 42 }], 3, '2024-03-10'), [{ category: 'Food', limitAmount: 50 }]);
+  });
+
+  test('ignores entries after today', () => {
+    assert.deepEqual(suggestBudgetLimits([{ category: 'Food', date: '2024-03-20', amount: 42 }], 3, '2024-03-10'), []);
+  });
+});
@@ -0,0 +1,97 @@
+import { Budget, BudgetPeriod } from './types';
+import { addDays, addMonths, parseDay, toDay } from './dates';
+
+/**
+ * Returns the [start, end) window of the budget period that contains `date`.
+ * Monthly start days are clamped to 1-28 so every month has one.
+ * Weekly start days are weekdays, defaulting to Monday.
+ */
+export function getPeriodWindow(date: string, period: Budget['period'], startDay?: number): { start: string, end: string } {
+  const day = parseDay(date);
+
+  if (period === 'weekly') {
+    const sd = (((startDay ?? 1) % 7) + 7) % 7;
+    const diff = (day.getUTCDay() - sd + 7) % 7;
+    const start = addDays(toDay(day), -diff);
+    return { start, end: addDays(start, 7) };
+  }
+
+  const sd = Math.min(Math.max(startDay ?? 1, 1), 28);
+  const anchor = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), sd));
+  const start = day.getUTCDate() >= sd ? toDay(anchor) : addMonths(toDay(anchor), -1);
+  return { start, end: addMonths(start, 1) };
+}
+
+/**
+ * Walks every period from the budget's first one up to the one containing `today`,
+ * summing spend per window and threading rollover between them.
+ * `entries` must already be filtered to the budget's category and converted
+ * into a single currency.
+ */
+export function evaluateBudget(
+  budget: Pick<Budget, 'limitAmount' | 'period' | 'startDay' | 'rollover' | 'createdAt'>,
+  entries: { date: string, amount: number }[],
+  today: string = toDay(new Date())
+): BudgetPeriod[] {
+  const days = entries.map(e => e.date.split('T')[0]).sort();
+  const origin = [budget.createdAt?.split('T')[0], days[0], today]
+    .filter(Boolean)
+    .sort()[0] as string;
+
+  const periods: BudgetPeriod[] = [];
+  let window = getPeriodWindow(origin, budget.period, budget.startDay);
+  let carriedIn = 0;
+
+  while (window.start <= today) {
+    const { start, end } = window;
+    const spent = entries
+      .filter(e => {
+        const d = e.date.split('T')[0];
+        return d >= start && d < end;
+      })
+      .reduce((sum, e) => sum + e.amount, 0);
+    const limit = budget.limitAmount + carriedIn;
+    periods.push({ start, end, limit, spent, carriedIn });
+
+    carriedIn = budget.rollover ? limit - spent : 0;
+    window = getPeriodWindow(end, budget.period, budget.startDay);
+  }
+
+  return periods;
+}
+
+/**
+ * Suggests a monthly limit per category from the `months` complete months
+ * before the current one. Each category is averaged over the months in which
+ * it has spend. The current month is left out, because a bill paid on the 1st
+ * would otherwise count for the whole month. A category seen only this month
+ * falls back to its spend so far, so a brand-new ledger still gets
+ * suggestions. Rounded up to the next 10.
+ */
+export function suggestBudgetLimits(
+  entries: { category: string, date: string, amount: number }[],
+  months = 3,
+  today: string = toDay(new Date())
+): { category: string, limitAmount: number }[] {
+  const month = getPeriodWindow(today, 'monthly');
+  const start = addMonths(month.start, -months);
+  const spend = new Map<string, { total: number, months: Set<string>, current: number }>();
+
+  entries.forEach(e => {
+    const d = e.date.split('T')[0];
+    if (d < start || d > today) return;
+    const c = spend.get(e.category) || { total: 0, months: new Set<string>(), current: 0 };
+    if (d >= month.start) {
+      c.current += e.amount;
+    } else {
+      c.total += e.amount;
+      c.months.add(d.slice(0, 7));
+    }
+    spend.set(e.category, c);
+  });
+
+  return [...spend]
+    .map(([category, c]) => ({ category, limitAmount: Math.ceil((c.months.size > 0 ? c.total / c.months.size : c.current) / 10) * 10 }))
+    .filter(s => s.limitAmount > 0)
+    .sort((a, b) => b.limitAmount - a.limitAmount);
+}
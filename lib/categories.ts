@@ -0,0 +1,76 @@
+import { Category } from './types';
+
+// Icon ids a category can use; index.tsx maps each to a lucide icon
+export const CATEGORY_ICONS = [
+  'tag', 'utensils', 'coffee', 'car', 'plane', 'home', 'zap', 'smartphone', 'film', 'heart-pulse',
+  'dumbbell', 'shopping-bag', 'shirt', 'gift', 'graduation-cap', 'paw-print', 'banknote', 'arrow-right-left'
+];
+
+// New categories take the next colour of the dashboard palette
+export const CATEGORY_COLORS = ['#00f3ff', '#0aff68', '#ff2a6d', '#bf00ff', '#ffb000'];
+
+// Every user starts with these; they match the categories the parsers know
+export const DEFAULT_CATEGORIES: Pick<Category, 'name' | 'icon' | 'color'>[] = [
+  { name: 'Food', icon: 'utensils', color: '#0aff68' },
+  { name: 'Transport', icon: 'car', color: '#00f3ff' },
+  { name: 'Utilities', icon: 'zap', color: '#ffb000' },
+  { name: 'Entertainment', icon: 'film', color: '#bf00ff' },
+  { name: 'Health', icon: 'heart-pulse', color: '#ff2a6d' },
+  { name: 'Shopping', icon: 'shopping-bag', color: '#00f3ff' },
+  { name: 'Income', icon: 'banknote', color: '#0aff68' },
+  { name: 'Transfer', icon: 'arrow-right-left', color: '#6b7280' },
+  { name: 'Other', icon: 'tag', color: '#ffb000' }
+];
+
+// Transactions and budgets refer to categories by name, compared case-insensitively
+export const categoryKey = (name: string) => (name || '').trim().toLowerCase();
+
+export const findCategory = (categories: Category[], name: string) =>
+  categories.find(c => categoryKey(c.name) === categoryKey(name));
+
+// Whether `id` sits anywhere below `ancestorId`
+export function isDescendant(categories: Category[], id: string, ancestorId: string): boolean {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const seen = new Set<string>();
+  for (let c = byId.get(id); c?.parentId && !seen.has(c.id); c = byId.get(c.parentId)) {
+    if (c.parentId === ancestorId) return true;
+    seen.add(c.id);
+  }
+  return false;
+}
+
+// Keys of a category and all of its sub-categories, so "Food" covers "Food > Groceries"
+export function categoryWithDescendants(categories: Category[], name: string): Set<string> {
+  const root = findCategory(categories, name);
+  const keys = new Set([categoryKey(name)]);
+  if (root) categories.filter(c => isDescendant(categories, c.id, root.id)).forEach(c => keys.add(categoryKey(c.name)));
+  return keys;
+}
+
+// The top-level category a name rolls up into; unknown names stand alone
+export function rootCategory(categories: Category[], name: string): Category | undefined {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  let category = findCategory(categories, name);
+  const seen = new Set<string>();
+  while (category?.parentId && byId.has(category.parentId) && !seen.has(category.id)) {
+    seen.add(category.id);
+    category = byId.get(category.parentId);
+  }
+  return category;
+}
+
+// Parents first, each followed by its children, alphabetically at every level
+export function categoryTree(categories: Category[]): { category: Category, depth: number }[] {
+  const ids = new Set(categories.map(c => c.id));
+  const children = (parentId?: string) => categories
+    .filter(c => (parentId ? c.parentId === parentId : !c.parentId || !ids.has(c.parentId)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const out: { category: Category, depth: number }[] = [];
+  const walk = (parentId: string | undefined, depth: number) => children(parentId).forEach(category => {
+    if (out.some(o => o.category.id === category.id)) return; // Guards against a corrupt loop
+    out.push({ category, depth });
+    walk(category.id, depth + 1);
+  });
+  walk(undefined, 0);
+  return out;
+}
@@ -0,0 +1,42 @@
+import * as local from './api';
+import { configureBackend } from './api';
+import { createHttpService, TokenStore } from './http';
+import { ServiceName } from './routes';
+import { createRepository, browserSession, STORAGE_KEYS } from './store';
+import { detectFormat } from './import';
+
+/**
+ * Picks the backend the UI talks to. ZEN_API_URL is fixed at build time
+ * (vite.config.ts); a `zen_api_url` localStorage entry overrides it on one
+ * device. Without either, services run in the browser on IndexedDB.
+ */
+const API_URL = (localStorage.getItem(STORAGE_KEYS.API_URL) ?? process.env.ZEN_API_URL ?? '').replace(/\/+$/, '');
+
+export const backendMode: 'local' | 'http' = API_URL ? 'http' : 'local';
+
+const tokens: TokenStore = {
+  get: () => localStorage.getItem(STORAGE_KEYS.API_SESSION),
+  set: token => (token ? localStorage.setItem(STORAGE_KEYS.API_SESSION, token) : localStorage.removeItem(STORAGE_KEYS.API_SESSION))
+};
+
+if (backendMode === 'local') configureBackend(createRepository(), browserSession);
+
+const pick = <S>(name: ServiceName, inBrowser: S): S =>
+  backendMode === 'http' ? createHttpService<S>(name, API_URL, tokens) : inBrowser;
+
+export const AuthService = pick('AuthService', local.AuthService);
+export const TransactionService = pick('TransactionService', local.TransactionService);
+export const RecurringService = pick('RecurringService', local.RecurringService);
+// Format sniffing is pure, so it stays local either way
+export const ImportService = { ...pick('ImportService', local.ImportService), detectFormat };
+export const BackupService = pick('BackupService', local.BackupService);
+export const AnalyticsService = pick('AnalyticsService', local.AnalyticsService);
+export const BudgetService = pick('BudgetService', local.BudgetService);
+export const CurrencyService = pick('CurrencyService', local.CurrencyService);
+export const CoachService = pick('CoachService', local.CoachService);
+export const SplitService = pick('SplitService', local.SplitService);
+export const AccountService = pick('AccountService', local.AccountService);
+export const CategoryService = pick('CategoryService', local.CategoryService);
+export const RuleService = pick('RuleService', local.RuleService);
+
+export { UNDO_WINDOW_MS } from './api';
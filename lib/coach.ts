@@ -0,0 +1,95 @@
+import { BudgetOutlook, CoachBlock, CoachBlockSpec, CoachToolCall, CoachWidget, CoachWidgetKind, TransactionType } from './types';
+import { categoryKey } from './categories';
+
+export const COACH_WIDGET_LABELS: Record<CoachWidgetKind, string> = {
+  category_bars: 'Spend by category',
+  trend_line: 'Spending trend',
+  budget_gauge: 'Budget',
+  transaction_list: 'Transactions'
+};
+
+// The lookups each widget can be drawn from, as named in COACH_TOOLS
+export const COACH_WIDGET_SOURCES: Record<CoachWidgetKind, string[]> = {
+  category_bars: ['category_totals', 'compare_periods'],
+  trend_line: ['spending_trend'],
+  budget_gauge: ['budget_status'],
+  transaction_list: ['query_transactions']
+};
+
+// More bars than this stop being readable in a chat bubble
+const MAX_BARS = 12;
+
+const OUTLOOKS: BudgetOutlook[] = ['on_track', 'may_exceed', 'will_exceed', 'over'];
+const TRANSACTION_TYPES: TransactionType[] = ['expense', 'income', 'transfer'];
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const field = (v: unknown, key: string): unknown => (isObject(v) ? v[key] : undefined);
+const rows = (v: unknown): Record<string, unknown>[] => (Array.isArray(v) ? v.filter(isObject) : []);
+const oneOf = <T>(values: T[], v: unknown): T | undefined => values.find(value => value === v);
+
+/**
+ * Fills in a widget from the lookup its spec points at. Returns undefined when
+ * the call does not exist, failed, or cannot feed that kind of widget, so a
+ * confused model loses the chart rather than showing invented figures.
+ */
+function buildWidget(spec: CoachBlockSpec, toolCalls: CoachToolCall[], currency: string): CoachWidget | undefined {
+  const call = Number.isInteger(spec.call) ? toolCalls[spec.call - 1] : undefined;
+  if (!call || call.error || !COACH_WIDGET_SOURCES[spec.widget]?.includes(call.name)) return undefined;
+  const result = call.result;
+  const title = spec.title?.trim() || COACH_WIDGET_LABELS[spec.widget];
+
+  switch (spec.widget) {
+    case 'category_bars': {
+      const data = call.name === 'compare_periods'
+        ? rows(field(result, 'categoryChanges')).map(c => ({ category: String(c.category), amount: Number(c.current) || 0, previous: Number(c.previous) || 0 }))
+        : rows(field(result, 'categories')).map(c => ({ category: String(c.category), amount: Number(c.amount) || 0 }));
+      return data.length > 0 ? { kind: 'category_bars', title, currency, data: data.slice(0, MAX_BARS) } : undefined;
+    }
+    case 'trend_line': {
+      const data = rows(field(result, 'points')).map(p => ({ date: String(p.date), amount: Number(p.amount) || 0 }));
+      return data.length > 1 ? { kind: 'trend_line', title, currency, data } : undefined;
+    }
+    case 'budget_gauge': {
+      const budgets = rows(result);
+      // Without a category the gauge only makes sense for a single budget
+      const budget = spec.category
+        ? budgets.find(b => categoryKey(String(b.category)) === categoryKey(spec.category))
+        : budgets.length === 1 ? budgets[0] : undefined;
+      if (!budget) return undefined;
+      return {
+        kind: 'budget_gauge',
+        title: spec.title?.trim() || `${budget.category} budget`,
+        currency,
+        category: String(budget.category),
+        spent: Number(budget.spent) || 0,
+        limit: Number(budget.limit) || 0,
+        projected: typeof budget.projected === 'number' ? budget.projected : undefined,
+        outlook: oneOf(OUTLOOKS, budget.outlook)
+      };
+    }
+    case 'transaction_list': {
+      const transactions = rows(field(result, 'transactions')).map(t => ({
+        date: String(t.date),
+        merchant: String(t.merchant ?? ''),
+        category: String(t.category ?? ''),
+        amount: Number(t.amount) || 0,
+        type: oneOf(TRANSACTION_TYPES, t.type) ?? 'expense'
+      }));
+      return transactions.length > 0 ? { kind: 'transaction_list', title, currency, transactions } : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turns the blocks of a structured reply into what the chat renders: markdown
+ * stays as written, widgets get their data from `toolCalls`. Amounts are in
+ * `currency`, like the lookups themselves.
+ */
+export function buildCoachBlocks(specs: CoachBlockSpec[], toolCalls: CoachToolCall[], currency: string): CoachBlock[] {
+  return specs.flatMap((spec): CoachBlock[] => {
+    if (typeof spec.markdown === 'string' && spec.markdown.trim()) return [{ type: 'markdown', text: spec.markdown.trim() }];
+    const widget = spec.widget && buildWidget(spec, toolCalls, currency);
+    return widget ? [{ type: 'widget', widget }] : [];
+  });
+}
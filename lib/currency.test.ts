@@ -0,0 +1,56 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertAmount, getRate, missingRateDetails } from './currency';
+import { ExchangeRate } from './types';
+
+const rate = (base: string, quote: string, value: number, date: string): ExchangeRate => ({ id: `${base}${quote}${date}`, userId: 'u1', base, quote, rate: value, date });
+
+const rates = [
+  rate('EUR', 'USD', 1.1, '2024-01-01'),
+  rate('EUR', 'USD', 1.2, '2024-03-01'),
+  rate('GBP', 'USD', 1.25, '2024-01-01'),
+  rate('USD', 'JPY', 150, '2024-01-01')
+];
+
+describe('getRate', () => {
+  test('uses the latest rate on or before the date', () => {
+    assert.equal(getRate(rates, 'EUR', 'USD', '2024-02-29'), 1.1);
+    assert.equal(getRate(rates, 'EUR', 'USD', '2024-03-01'), 1.2);
+    assert.equal(getRate(rates, 'EUR', 'USD', '2024-03-01T23:00:00Z'), 1.2);
+  });
+
+  test('falls back to the earliest rate before the table starts', () => {
+    assert.equal(getRate(rates, 'EUR', 'USD', '2023-06-01'), 1.1);
+  });
+
+  test('inverts a pair and hops through a shared currency', () => {
+    assert.equal(getRate(rates, 'USD', 'GBP', '2024-02-01'), 1 / 1.25);
+    assert.ok(Math.abs(getRate(rates, 'EUR', 'JPY', '2024-03-05') - 1.2 * 150) < 1e-9);
+    assert.ok(Math.abs(getRate(rates, 'EUR', 'GBP', '2024-02-01') - 1.1 / 1.25) < 1e-9);
+  });
+
+  test('is 1 for the same currency and undefined without a path', () => {
+    assert.equal(getRate([], 'CHF', 'CHF', '2024-01-01'), 1);
+    assert.equal(getRate(rates, 'CHF', 'USD', '2024-01-01'), undefined);
+  });
+});
+
+describe('convertAmount', () => {
+  test('converts with the rate for the entry date', () => {
+    assert.ok(Math.abs(convertAmount(100, 'eur', 'usd', '2024-02-01', rates) - 110) < 1e-9);
+    assert.ok(Math.abs(convertAmount(100, 'EUR', 'USD', '2024-03-02', rates) - 120) < 1e-9);
+  });
+
+  test('treats a missing source currency as the target', () => {
+    assert.equal(convertAmount(42, '', 'USD', '2024-01-01', []), 42);
+  });
+
+  test('leaves unknown pairs unconverted and reports them', () => {
+    const missing = new Set<string>();
+    assert.equal(convertAmount(10, 'CHF', 'USD', '2024-01-01', rates, missing), 10);
+    convertAmount(5, 'CHF', 'USD', '2024-02-01', rates, missing);
+    assert.deepEqual([...missing], ['CHF → USD']);
+    assert.deepEqual(missingRateDetails(missing), ['No exchange rate for CHF → USD; those amounts are counted unconverted']);
+    assert.equal(missingRateDetails(new Set()), undefined);
+  });
+});
@@ -0,0 +1,90 @@
+import { ExchangeRate } from './types';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD'];
+
+// Baseline table seeded on first run. Users can edit these or add dated entries.
+export const DEFAULT_RATES: Omit<ExchangeRate, 'id' | 'userId'>[] = [
+  { base: 'EUR', quote: 'USD', rate: 1.08, date: '2000-01-01' },
+  { base: 'GBP', quote: 'USD', rate: 1.27, date: '2000-01-01' },
+  { base: 'JPY', quote: 'USD', rate: 0.0067, date: '2000-01-01' },
+  { base: 'CHF', quote: 'USD', rate: 1.12, date: '2000-01-01' },
+  { base: 'CAD', quote: 'USD', rate: 0.74, date: '2000-01-01' },
+  { base: 'AUD', quote: 'USD', rate: 0.66, date: '2000-01-01' },
+];
+
+/**
+ * Picks the rate effective on `date` for each currency pair:
+ * the latest entry on or before that day, or the earliest one if the
+ * transaction predates the whole table.
+ */
+function effectiveRates(rates: ExchangeRate[], date: string): ExchangeRate[] {
+  const day = date.split('T')[0];
+  const byPair: Record<string, ExchangeRate> = {};
+
+  [...rates]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(r => {
+      const key = `${r.base}/${r.quote}`;
+      if (!byPair[key] || r.date <= day) byPair[key] = r;
+    });
+
+  return Object.values(byPair);
+}
+
+/**
+ * Resolves the multiplier from one currency to another on a given date.
+ * Tries the direct pair, its inverse, then a single hop through any shared currency.
+ * Returns undefined when the table has no path between the two.
+ */
+export function getRate(rates: ExchangeRate[], from: string, to: string, date: string): number | undefined {
+  if (from === to) return 1;
+
+  const table = effectiveRates(rates, date);
+  const direct = (a: string, b: string): number | undefined => {
+    const hit = table.find(r => r.base === a && r.quote === b);
+    if (hit) return hit.rate;
+    const inverse = table.find(r => r.base === b && r.quote === a);
+    if (inverse && inverse.rate > 0) return 1 / inverse.rate;
+    return undefined;
+  };
+
+  const rate = direct(from, to);
+  if (rate !== undefined) return rate;
+
+  const pivots = new Set(table.flatMap(r => [r.base, r.quote]));
+  for (const pivot of pivots) {
+    const leg1 = direct(from, pivot);
+    const leg2 = direct(pivot, to);
+    if (leg1 !== undefined && leg2 !== undefined) return leg1 * leg2;
+  }
+  return undefined;
+}
+
+/**
+ * Converts an amount using the historical rate for `date`.
+ * Unknown pairs fall through unconverted so totals never silently drop a row;
+ * they are added to `missing` (as "EUR → JPY") so the caller can say so.
+ */
+export function convertAmount(amount: number, from: string, to: string, date: string, rates: ExchangeRate[], missing?: Set<string>): number {
+  const source = (from || to).toUpperCase();
+  const target = to.toUpperCase();
+  const rate = getRate(rates, source, target, date);
+  if (rate === undefined) {
+    missing?.add(`${source} → ${target}`);
+    return amount;
+  }
+  return amount * rate;
+}
+
+// The warning for a response's `details` when some amounts could not be converted
+export const missingRateDetails = (missing: Set<string>): string[] | undefined =>
+  missing.size > 0 ? [`No exchange rate for ${[...missing].join(', ')}; those amounts are counted unconverted`] : undefined;
+
+export const formatCurrency = (val: number, currency: string = 'USD') => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(val);
+  } catch (e) {
+    // Intl rejects malformed codes, e.g. from a bad AI parse
+    return `${val.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,29 @@
+// Calendar helpers shared by budgets and recurrence.
+// All math works on YYYY-MM-DD strings in UTC so that a transaction dated
+// "2024-03-01" never slips into February because of the local timezone.
+
+export const toDay = (d: Date) => d.toISOString().split('T')[0];
+export const parseDay = (day: string) => new Date(`${day.split('T')[0]}T00:00:00Z`);
+export const today = () => toDay(new Date());
+
+export function addDays(day: string, n: number): string {
+  const d = parseDay(day);
+  d.setUTCDate(d.getUTCDate() + n);
+  return toDay(d);
+}
+
+export function addMonths(day: string, n: number): string {
+  const d = parseDay(day);
+  d.setUTCMonth(d.getUTCMonth() + n);
+  return toDay(d);
+}
+
+// Builds a date, clamping the day to the month's length (31 -> 30 in April, 29 -> 28 in Feb)
+export function clampedDay(year: number, monthIndex: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return toDay(new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay))));
+}
+
+// Whole days from `from` to `to`; negative when `to` is earlier
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86400000);
@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildForecast, ForecastEntry } from './forecast';
+import { addDays } from './dates';
+import { Budget } from './types';
+
+const TODAY = '2024-03-10';
+
+// `amountOn(i)` for each of the `days` days before and including today
+const daily = (category: string, days: number, amountOn: (i: number) => number): ForecastEntry[] =>
+  Array.from({ length: days }, (_, i) => ({ date: addDays(TODAY, i - days + 1), category, amount: amountOn(i) })).filter(e => e.amount > 0);
+
+const budget = (overrides: Partial<Budget>): Budget => ({
+  id: 'b1', userId: 'u1', category: 'Food', limitAmount: 200, currency: 'USD', period: 'monthly', spent: 0,
+  periodStart: '2024-03-01', periodEnd: '2024-04-01', ...overrides
+});
+
+function forecastFor(b: Partial<Budget>, entries: ForecastEntry[], upcoming: ForecastEntry[] = []) {
+  const result = buildForecast({
+    entries,
+    upcoming,
+    period: { granularity: 'week', start: '2024-03-01', end: '2024-03-31' },
+    budgets: [budget(b)],
+    categories: [],
+    today: TODAY
+  });
+  return result.budgets[0];
+}
+
+// A steady 10 a day for 40 days: no variance, so the projection is exact
+const steady = daily('Food', 40, () => 10);
+
+describe('buildForecast budget breaches', () => {
+  test('predicts the first day the running total passes the limit', () => {
+    // 100 spent by today, then 10 a day: 200 on the 20th is not over, 210 on the 21st is
+    const b = forecastFor({ limitAmount: 200 }, steady);
+    assert.equal(b.spent, 100);
+    assert.equal(b.projected, 310);
+    assert.equal(b.breachDate, '2024-03-21');
+    assert.equal(b.outlook, 'will_exceed');
+  });
+
+  test('upcoming recurring expenses bring the breach forward', () => {
+    const b = forecastFor({ limitAmount: 200 }, steady, [{ date: '2024-03-15', category: 'Food', amount: 50, scheduled: true }]);
+    assert.equal(b.breachDate, '2024-03-16');
+  });
+
+  test('a limit already passed is over, dated on the day it went over', () => {
+    const b = forecastFor({ limitAmount: 90 }, steady);
+    assert.equal(b.breachDate, TODAY);
+    assert.equal(b.outlook, 'over');
+  });
+
+  test('rollover and the converted limit move the line', () => {
+    assert.equal(forecastFor({ limitAmount: 200, carriedIn: 100 }, steady).breachDate, '2024-03-31');
+    assert.equal(forecastFor({ limitAmount: 9999, convertedLimit: 150 }, steady).breachDate, '2024-03-16');
+  });
+
+  test('a limit above the projection is on track', () => {
+    const b = forecastFor({ limitAmount: 400 }, steady);
+    assert.equal(b.breachDate, null);
+    assert.equal(b.outlook, 'on_track');
+  });
+
+  test('irregular spending can still exceed a limit above the projection', () => {
+    // 20 every other day: the same mean of 10, but a wide band
+    const b = forecastFor({ limitAmount: 320 }, daily('Food', 40, i => (i % 2 ? 20 : 0)));
+    assert.equal(b.breachDate, null);
+    assert.ok(b.projected < 320 && b.high > 320, `${b.projected} .. ${b.high}`);
+    assert.equal(b.outlook, 'may_exceed');
+  });
+
+  test('other categories do not count against the budget', () => {
+    const b = forecastFor({ limitAmount: 400 }, [...steady, ...daily('Travel', 40, () => 100)]);
+    assert.equal(b.projected, 310);
+  });
+});
@@ -0,0 +1,183 @@
+import { AnalyticsPeriod, Budget, BudgetForecast, Category, CategoryForecast, ForecastPoint } from './types';
+import { addDays, daysBetween } from './dates';
+import { bucketStart } from './analytics';
+import { categoryKey, categoryWithDescendants } from './categories';
+
+// How far back the daily spending rate looks
+export const FORECAST_HISTORY_DAYS = 90;
+
+// Two-sided 80% interval of a normal distribution
+const Z_80 = 1.2816;
+
+// An expense converted into the user's currency; `scheduled` marks entries posted by a recurring series
+export interface ForecastEntry {
+  date: string;
+  category: string;
+  amount: number;
+  scheduled?: boolean;
+}
+
+interface DailyRate {
+  mean: number;
+  variance: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Mean and variance of unscheduled daily spend over the completed days before
+ * `today`, looking back at most FORECAST_HISTORY_DAYS and no further than the
+ * first entry. Scheduled entries are left out because upcoming occurrences
+ * are projected on their own dates.
+ */
+function dailyRate(entries: ForecastEntry[], today: string, match: (e: ForecastEntry) => boolean = () => true): DailyRate {
+  const unscheduled = entries.filter(e => !e.scheduled);
+  const first = unscheduled.map(e => e.date.split('T')[0]).sort()[0];
+  const from = [addDays(today, -FORECAST_HISTORY_DAYS), first].filter(Boolean).sort().pop();
+  const days = from ? daysBetween(from, today) : 0;
+  if (days <= 0) return { mean: 0, variance: 0 };
+
+  const totals = new Map<string, number>();
+  unscheduled.filter(match).forEach(e => {
+    const day = e.date.split('T')[0];
+    if (day >= from && day < today) totals.set(day, (totals.get(day) || 0) + e.amount);
+  });
+  const mean = [...totals.values()].reduce((sum, v) => sum + v, 0) / days;
+  // Days without spending count as zeros
+  const squares = [...totals.values()].reduce((sum, v) => sum + (v - mean) ** 2, 0) + (days - totals.size) * mean ** 2;
+  return { mean, variance: days > 1 ? squares / (days - 1) : 0 };
+}
+
+const sumOn = (entries: ForecastEntry[], day: string) =>
+  entries.filter(e => e.date.split('T')[0] === day).reduce((sum, e) => sum + e.amount, 0);
+
+/**
+ * Projects spend from `start` to `end` (inclusive): what is already spent up
+ * to `today`, plus `upcoming` recurring occurrences, plus the daily rate for
+ * every day left. The band grows with the square root of the days left.
+ */
+function project(
+  spent: ForecastEntry[],
+  upcoming: ForecastEntry[],
+  rate: DailyRate,
+  start: string,
+  end: string,
+  today: string
+): { actual: number, scheduled: number, expected: number, low: number, high: number } {
+  const within = (e: ForecastEntry, from: string) => e.date.split('T')[0] >= from && e.date.split('T')[0] <= end;
+  const actual = spent.filter(e => within(e, start) && e.date.split('T')[0] <= today).reduce((sum, e) => sum + e.amount, 0);
+  const firstFuture = start > today ? start : addDays(today, 1);
+  const scheduled = upcoming.filter(e => within(e, firstFuture)).reduce((sum, e) => sum + e.amount, 0);
+  const daysLeft = Math.max(daysBetween(firstFuture, end) + 1, 0);
+
+  const expected = actual + scheduled + rate.mean * daysLeft;
+  const spread = Z_80 * Math.sqrt(rate.variance * daysLeft);
+  return { actual, scheduled, expected, low: Math.max(actual + scheduled, expected - spread), high: expected + spread };
+}
+
+/**
+ * Everything the forecast needs, worked out in lib/api.ts:
+ *   entries   expenses from the history window and the budget periods, up to today
+ *   upcoming  recurring expenses still due, through the end of the period and of every budget period
+ *   budgets   with their current period filled in by the repository
+ */
+export function buildForecast(input: {
+  entries: ForecastEntry[];
+  upcoming: ForecastEntry[];
+  period: Pick<AnalyticsPeriod, 'granularity' | 'start' | 'end'>;
+  budgets: Budget[];
+  categories: Category[];
+  today: string;
+}) {
+  const { entries, upcoming, period, budgets, categories, today } = input;
+  const overall = dailyRate(entries, today);
+  const total = project(entries, upcoming, overall, period.start, period.end, today);
+
+  const names = [...new Set([...entries, ...upcoming].map(e => e.category))];
+  const byCategory: CategoryForecast[] = names
+    .map(category => {
+      const match = (e: ForecastEntry) => e.category === category;
+      const { actual, scheduled, expected, low, high } = project(
+        entries.filter(match), upcoming.filter(match), dailyRate(entries, today, match), period.start, period.end, today
+      );
+      return { category, actual: round(actual), scheduled: round(scheduled), expected: round(expected), low: round(low), high: round(high) };
+    })
+    .filter(c => c.expected > 0)
+    .sort((a, b) => b.expected - a.expected);
+
+  // Per step, from the one containing today (or the period start, if later) to the end
+  const steps: { date: string, expected: number, variance: number }[] = [];
+  for (let day = today < period.start ? period.start : today; day <= period.end; day = addDays(day, 1)) {
+    const date = bucketStart(day, period.granularity);
+    if (steps[steps.length - 1]?.date !== date) {
+      // Whatever the current step already holds starts it off
+      const from = date < period.start ? period.start : date;
+      const spentInStep = entries
+        .filter(e => e.date.split('T')[0] >= from && e.date.split('T')[0] <= today)
+        .reduce((sum, e) => sum + e.amount, 0);
+      steps.push({ date, expected: spentInStep, variance: 0 });
+    }
+    if (day > today) {
+      const step = steps[steps.length - 1];
+      step.expected += overall.mean + sumOn(upcoming, day);
+      step.variance += overall.variance;
+    }
+  }
+  const trend: ForecastPoint[] = steps.map(({ date, expected, variance }) => ({
+    date,
+    expected: round(expected),
+    low: round(Math.max(expected - Z_80 * Math.sqrt(variance), 0)),
+    high: round(expected + Z_80 * Math.sqrt(variance))
+  }));
+
+  // Walks each budget's period day by day: actual spend up to today, then the projection
+  const budgetForecasts: BudgetForecast[] = budgets
+    .filter(b => b.periodStart && b.periodEnd)
+    .map(b => {
+      const keys = categoryWithDescendants(categories, b.category);
+      const match = (e: ForecastEntry) => keys.has(categoryKey(e.category));
+      const spent = entries.filter(match);
+      const due = upcoming.filter(match);
+      const rate = dailyRate(entries, today, match);
+      const limit = (b.convertedLimit ?? b.limitAmount) + (b.carriedIn || 0);
+
+      let running = 0;
+      let variance = 0;
+      let breachDate: string | null = null;
+      for (let day = b.periodStart; day < b.periodEnd; day = addDays(day, 1)) {
+        if (day <= today) {
+          running += sumOn(spent, day);
+        } else {
+          running += rate.mean + sumOn(due, day);
+          variance += rate.variance;
+        }
+        if (!breachDate && running > limit) breachDate = day;
+      }
+      const high = running + Z_80 * Math.sqrt(variance);
+      const outlook = breachDate && breachDate <= today ? 'over' : breachDate ? 'will_exceed' : high > limit ? 'may_exceed' : 'on_track';
+      return {
+        budgetId: b.id,
+        category: b.category,
+        limit,
+        spent: round(spent.filter(e => e.date.split('T')[0] >= b.periodStart && e.date.split('T')[0] <= today).reduce((sum, e) => sum + e.amount, 0)),
+        projected: round(running),
+        high: round(high),
+        breachDate,
+        outlook
+      };
+    });
+
+  return {
+    period: { granularity: period.granularity, start: period.start, end: period.end },
+    asOf: today,
+    actual: round(total.actual),
+    scheduled: round(total.scheduled),
+    expected: round(total.expected),
+    low: round(total.low),
+    high: round(total.high),
+    dailyRate: round(overall.mean),
+    categories: byCategory,
+    budgets: budgetForecasts,
+    trend
+  };
+}
@@ -0,0 +1,111 @@
+import type { ApiResponse } from './api';
+import type { AiRequestOptions } from './types';
+import { ROUTES, RouteSpec, ServiceName, SESSION_HEADER } from './routes';
+
+// Holds the REST server's session token between page loads
+export interface TokenStore {
+  get(): string | null;
+  set(token: string | null): void;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// Places each argument where the route expects it (see ArgSpec in lib/routes.ts)
+function buildRequest(route: RouteSpec, args: unknown[]): { path: string, body?: Record<string, unknown> } {
+  let path = route.path;
+  const query = new URLSearchParams();
+  let body: Record<string, unknown> | undefined;
+
+  (route.args || []).forEach((spec, i) => {
+    const [source, name] = spec.split(':');
+    const value = args[i];
+    if (value === undefined || source === 'options') return;
+
+    if (source === 'param') {
+      path = path.replace(`:${name}`, encodeURIComponent(String(value)));
+    } else if (source === 'body') {
+      body = name ? { ...body, [name]: value } : { ...body, ...(isRecord(value) ? value : {}) };
+    } else if (name) {
+      query.set(name, String(value));
+    } else if (isRecord(value)) {
+      Object.entries(value).forEach(([k, v]) => {
+        if (v !== undefined && v !== '') query.set(k, String(v));
+      });
+    }
+  });
+
+  const qs = query.toString();
+  return { path: qs ? `${path}?${qs}` : path, body };
+}
+
+// Passes each `{"text"}` line to onText; the last line is the response itself
+async function readStream(res: Response, onText?: (text: string) => void): Promise<ApiResponse<unknown>> {
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (let chunk = await reader.read(); ; chunk = await reader.read()) {
+    buffer += chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = chunk.done ? '' : lines.pop();
+    for (const line of lines.filter(l => l.trim())) {
+      const message: unknown = JSON.parse(line);
+      if (isRecord(message) && typeof message.text === 'string') onText?.(message.text);
+      else return message as ApiResponse<unknown>;
+    }
+    if (chunk.done) return { error: 'Response ended early', status: 502 };
+  }
+}
+
+async function request(baseUrl: string, tokens: TokenStore, route: RouteSpec, args: unknown[]): Promise<unknown> {
+  const { path, body } = buildRequest(route, args);
+  const given = args[(route.args || []).indexOf('options')];
+  const options: AiRequestOptions = isRecord(given) ? given as AiRequestOptions : {};
+  const headers: Record<string, string> = {};
+  const token = tokens.get();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (body) headers['Content-Type'] = 'application/json';
+
+  let payload: ApiResponse<unknown>;
+  try {
+    const res = await fetch(`${baseUrl}${path}`, { method: route.method, headers, body: body && JSON.stringify(body), signal: options.signal });
+    const issued = res.headers.get(SESSION_HEADER);
+    if (issued !== null) tokens.set(issued || null);
+    // Errors raised before the method runs still come back as plain JSON
+    payload = route.stream && res.headers.get('Content-Type')?.includes('ndjson')
+      ? await readStream(res, options.onText)
+      : await res.json().catch(() => ({ error: `Unexpected response from server (${res.status})`, status: res.status }));
+  } catch (e) {
+    payload = options.signal?.aborted ? { error: 'Request was cancelled', status: 499 } : { error: 'Server unreachable', status: 503 };
+  }
+
+  // Raw routes mirror methods that return a value or throw
+  if (route.raw) {
+    if (payload.error) throw new Error(payload.error);
+    return payload.data;
+  }
+  return payload;
+}
+
+// A write without a token makes the server open a guest profile; calls made meanwhile wait for its token rather than each opening their own
+const handshakes = new WeakMap<TokenStore, Promise<unknown>>();
+
+async function call(baseUrl: string, tokens: TokenStore, route: RouteSpec, args: unknown[]): Promise<unknown> {
+  while (handshakes.has(tokens)) await handshakes.get(tokens);
+  if (tokens.get() || route.method === 'GET') return request(baseUrl, tokens, route, args);
+  const pending = request(baseUrl, tokens, route, args);
+  const settled = pending.catch(() => undefined).finally(() => handshakes.delete(tokens));
+  handshakes.set(tokens, settled);
+  return pending;
+}
+
+/**
+ * Builds a client for one service from the shared route table. Method
+ * names and signatures match lib/api.ts, so the UI can't tell which
+ * backend it is talking to.
+ */
+export function createHttpService<T>(service: ServiceName, baseUrl: string, tokens: TokenStore): T {
+  const methods = ROUTES
+    .filter(r => r.service === service)
+    .map(route => [route.action, (...args: unknown[]) => call(baseUrl, tokens, route, args)]);
+  return Object.fromEntries(methods) as T;
+}
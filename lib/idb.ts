@@ -0,0 +1,393 @@
+import { Transaction, Budget, BudgetPeriod, User, ExchangeRate, RecurringSeries, Settlement, Account, Category, CategoryRule, CoachConversation, RestoreMode, StoreSnapshot } from './types';
+import {
+  Repository, RejectedRecords, TransactionFilters, validateSnapshot, GUEST_USER, seedRates, matchesFilters,
+  byDateDesc, sortRates, sortSettlements, sortAccounts, sortCategories, sortRules, sortConversations, evaluateBudgets, withCurrentPeriod
+} from './repository';
+import { migrate, SCHEMA_VERSION } from './migrations';
+
+const DB_NAME = 'financial-zen';
+// Object store layout only; record shapes are versioned by SCHEMA_VERSION in lib/migrations.ts
+// v2 added the settlements store, v3 accounts, v4 categories, v5 rules, v6 conversations
+const DB_VERSION = 6;
+
+type StoreName = keyof StoreSnapshot;
+const STORES: StoreName[] = ['users', 'transactions', 'budgets', 'rates', 'recurrences', 'settlements', 'accounts', 'categories', 'rules', 'conversations'];
+const META = 'meta';
+
+// Where pre-IndexedDB data lives; lib/store.ts provides the localStorage reader
+export interface LegacySource {
+  read(errors: string[]): { data: Partial<StoreSnapshot>, version: number } | null;
+  markImported(): void;
+}
+
+const request = <T>(r: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  r.onsuccess = () => resolve(r.result);
+  r.onerror = () => reject(r.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = tx.onabort = () => reject(tx.error);
+});
+
+function open(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const idb = req.result;
+    if (!idb.objectStoreNames.contains('users')) {
+      idb.createObjectStore('users', { keyPath: 'id' }).createIndex('email', 'email');
+    }
+    if (!idb.objectStoreNames.contains('transactions')) {
+      const txs = idb.createObjectStore('transactions', { keyPath: 'id' });
+      txs.createIndex('userId', 'userId');
+      txs.createIndex('date', 'date');
+      txs.createIndex('category', 'category');
+      txs.createIndex('userId_date', ['userId', 'date']);
+      txs.createIndex('userId_category', ['userId', 'category']);
+    }
+    if (!idb.objectStoreNames.contains('budgets')) {
+      const budgets = idb.createObjectStore('budgets', { keyPath: 'id' });
+      budgets.createIndex('userId', 'userId');
+      budgets.createIndex('category', 'category');
+    }
+    ['rates', 'recurrences', 'settlements', 'accounts', 'categories', 'rules', 'conversations'].forEach(name => {
+      if (!idb.objectStoreNames.contains(name)) {
+        idb.createObjectStore(name, { keyPath: 'id' }).createIndex('userId', 'userId');
+      }
+    });
+    if (!idb.objectStoreNames.contains(META)) {
+      idb.createObjectStore(META, { keyPath: 'key' });
+    }
+  };
+  return request(req);
+}
+
+/**
+ * IndexedDB backend. Records are written one at a time and read through
+ * the userId/date/category indexes, so nothing scales with ledger size the
+ * way the localStorage snapshot does.
+ */
+export class IndexedDbRepository implements Repository {
+  readonly name = 'indexedDB';
+  readonly ready: Promise<void>;
+  readonly loadErrors: string[] = [];
+  private idb: IDBDatabase;
+
+  // `quarantine` keeps records that fail validation at load somewhere outside the stores
+  constructor(private legacy: LegacySource, private quarantine: (rejected: RejectedRecords, errors: string[]) => void) {
+    this.ready = this.init().catch(e => {
+      console.error('IndexedDB unavailable', e);
+      this.loadErrors.push(`IndexedDB unavailable (${e?.message || e}); set zen_storage_backend=localStorage to fall back`);
+      throw e;
+    });
+  }
+
+  private async init() {
+    this.idb = await open();
+    const meta = await this.readMeta('schemaVersion');
+
+    if (meta === undefined) {
+      const legacy = this.legacy.read(this.loadErrors);
+      if (legacy) {
+        const { data } = migrate(legacy.data, legacy.version);
+        await this.writeAll(this.validated(data), true);
+        this.legacy.markImported();
+      }
+    } else if (meta < SCHEMA_VERSION) {
+      const { data } = migrate(await this.readAll(), meta);
+      await this.writeAll(this.validated(data), true);
+    }
+    await this.writeMeta('schemaVersion', SCHEMA_VERSION);
+
+    // Initialize default guest user if DB is empty
+    if ((await request(this.store('users').count())) === 0) {
+      await this.put('users', GUEST_USER);
+    }
+    // Seed the baseline rate table so conversion works out of the box
+    if ((await request(this.store('rates').count())) === 0) {
+      await this.writeAll({ users: [], transactions: [], budgets: [], recurrences: [], settlements: [], accounts: [], categories: [], rules: [], conversations: [], rates: seedRates(GUEST_USER.id) }, false);
+    }
+  }
+
+  // Sets rejected records aside before the caller rewrites the stores without them
+  private validated(data: StoreSnapshot): StoreSnapshot {
+    const rejected: RejectedRecords = {};
+    const valid = validateSnapshot(data, this.loadErrors, rejected);
+    this.quarantine(rejected, this.loadErrors);
+    return valid;
+  }
+
+  // --- Low-level helpers (callers must have awaited `ready`) ---
+  private store(name: StoreName | typeof META, mode: IDBTransactionMode = 'readonly'): IDBObjectStore {
+    return this.idb.transaction(name, mode).objectStore(name);
+  }
+
+  private async readMeta(key: string): Promise<number | undefined> {
+    const row = await request(this.store(META).get(key));
+    return row?.value;
+  }
+
+  private async writeMeta(key: string, value: number): Promise<void> {
+    await request(this.store(META, 'readwrite').put({ key, value }));
+  }
+
+  private async readAll(): Promise<StoreSnapshot> {
+    const tx = this.idb.transaction(STORES, 'readonly');
+    const lists = await Promise.all(STORES.map(s => request(tx.objectStore(s).getAll())));
+    return Object.fromEntries(STORES.map((s, i) => [s, lists[i]])) as StoreSnapshot;
+  }
+
+  // One transaction across every store; `clear` empties them first
+  private async writeAll(data: StoreSnapshot, clear: boolean): Promise<void> {
+    const tx = this.idb.transaction(STORES, 'readwrite');
+    STORES.forEach(s => {
+      const store = tx.objectStore(s);
+      if (clear) store.clear();
+      (data[s] as object[]).forEach(record => store.put(record));
+    });
+    await completion(tx);
+  }
+
+  private async put<T>(name: StoreName, value: T): Promise<T> {
+    await request(this.store(name, 'readwrite').put(value));
+    return value;
+  }
+
+  private async byUser<T>(name: StoreName, userId: string): Promise<T[]> {
+    return request(this.store(name).index('userId').getAll(userId));
+  }
+
+  // Deletes only when the record belongs to `userId`
+  private async removeOwned(name: StoreName, id: string, userId: string): Promise<void> {
+    const tx = this.idb.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    const existing = await request(store.get(id));
+    if (existing?.userId === userId) store.delete(id);
+    await completion(tx);
+  }
+
+  // --- User Queries ---
+  async getUsers(): Promise<User[]> {
+    await this.ready;
+    return request(this.store('users').getAll());
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    await this.ready;
+    return request(this.store('users').get(id));
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    await this.ready;
+    return request(this.store('users').index('email').get(email));
+  }
+
+  async createUser(user: User): Promise<User> {
+    await this.ready;
+    return this.put('users', user);
+  }
+
+  async updateUser(id: string, patch: Partial<User>): Promise<User | undefined> {
+    const current = await this.getUser(id);
+    if (!current) return undefined;
+    return this.put('users', { ...current, ...patch, id });
+  }
+
+  // --- Transaction Queries ---
+  async getTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]> {
+    await this.ready;
+    const store = this.store('transactions');
+    let rows: Transaction[];
+
+    if (filters?.category) {
+      rows = await request(store.index('userId_category').getAll([userId, filters.category]));
+    } else if (filters?.startDate || filters?.endDate) {
+      // Coarse range on the compound index; matchesFilters below does the exact comparison
+      const lower = filters.startDate ? filters.startDate.split('T')[0] : '';
+      const upper = filters.endDate ? `${filters.endDate.split('T')[0]}\uffff` : '\uffff';
+      rows = await request(store.index('userId_date').getAll(IDBKeyRange.bound([userId, lower], [userId, upper])));
+    } else {
+      rows = await request(store.index('userId').getAll(userId));
+    }
+
+    return rows.filter(t => matchesFilters(t, filters)).sort(byDateDesc);
+  }
+
+  async createTransaction(tx: Transaction): Promise<Transaction> {
+    await this.ready;
+    return this.put('transactions', tx);
+  }
+
+  async updateTransaction(id: string, userId: string, patch: Partial<Transaction>): Promise<Transaction | undefined> {
+    await this.ready;
+    const current: Transaction | undefined = await request(this.store('transactions').get(id));
+    if (!current || current.userId !== userId) return undefined;
+    return this.put('transactions', { ...current, ...patch, id, userId });
+  }
+
+  async deleteTransaction(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('transactions', id, userId);
+  }
+
+  // --- Budget Queries ---
+  async getBudgets(userId: string): Promise<Budget[]> {
+    await this.ready;
+    const stored = await this.byUser<Budget>('budgets', userId);
+    return (await evaluateBudgets(this, stored, userId)).map(withCurrentPeriod);
+  }
+
+  async getBudgetHistory(id: string, userId: string): Promise<BudgetPeriod[] | undefined> {
+    await this.ready;
+    const budget: Budget | undefined = await request(this.store('budgets').get(id));
+    if (!budget || budget.userId !== userId) return undefined;
+    return (await evaluateBudgets(this, [budget], userId))[0].periods;
+  }
+
+  async upsertBudget(budget: Budget): Promise<Budget> {
+    await this.ready;
+    return this.put('budgets', budget);
+  }
+
+  async deleteBudget(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('budgets', id, userId);
+  }
+
+  // --- Exchange Rate Queries ---
+  async getRates(userId: string): Promise<ExchangeRate[]> {
+    await this.ready;
+    return sortRates(await this.byUser<ExchangeRate>('rates', userId));
+  }
+
+  async upsertRate(rate: ExchangeRate): Promise<ExchangeRate> {
+    await this.ready;
+    return this.put('rates', rate);
+  }
+
+  async deleteRate(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('rates', id, userId);
+  }
+
+  // --- Recurring Series Queries ---
+  async getRecurrences(userId: string): Promise<RecurringSeries[]> {
+    await this.ready;
+    return this.byUser<RecurringSeries>('recurrences', userId);
+  }
+
+  async upsertRecurrence(series: RecurringSeries): Promise<RecurringSeries> {
+    await this.ready;
+    return this.put('recurrences', series);
+  }
+
+  async deleteRecurrence(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('recurrences', id, userId);
+  }
+
+  // --- Settlement Queries ---
+  async getSettlements(userId: string): Promise<Settlement[]> {
+    await this.ready;
+    return sortSettlements(await this.byUser<Settlement>('settlements', userId));
+  }
+
+  async createSettlement(settlement: Settlement): Promise<Settlement> {
+    await this.ready;
+    return this.put('settlements', settlement);
+  }
+
+  async deleteSettlement(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('settlements', id, userId);
+  }
+
+  // --- Account Queries ---
+  async getAccounts(userId: string): Promise<Account[]> {
+    await this.ready;
+    return sortAccounts(await this.byUser<Account>('accounts', userId));
+  }
+
+  async upsertAccount(account: Account): Promise<Account> {
+    await this.ready;
+    return this.put('accounts', account);
+  }
+
+  async deleteAccount(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('accounts', id, userId);
+  }
+
+  // --- Category Queries ---
+  async getCategories(userId: string): Promise<Category[]> {
+    await this.ready;
+    return sortCategories(await this.byUser<Category>('categories', userId));
+  }
+
+  async upsertCategory(category: Category): Promise<Category> {
+    await this.ready;
+    return this.put('categories', category);
+  }
+
+  async deleteCategory(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('categories', id, userId);
+  }
+
+  // --- Rule Queries ---
+  async getRules(userId: string): Promise<CategoryRule[]> {
+    await this.ready;
+    return sortRules(await this.byUser<CategoryRule>('rules', userId));
+  }
+
+  async upsertRule(rule: CategoryRule): Promise<CategoryRule> {
+    await this.ready;
+    return this.put('rules', rule);
+  }
+
+  async deleteRule(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('rules', id, userId);
+  }
+
+  // --- Conversation Queries ---
+  async getConversations(userId: string): Promise<CoachConversation[]> {
+    await this.ready;
+    return sortConversations(await this.byUser<CoachConversation>('conversations', userId));
+  }
+
+  async upsertConversation(conversation: CoachConversation): Promise<CoachConversation> {
+    await this.ready;
+    return this.put('conversations', conversation);
+  }
+
+  async deleteConversation(id: string, userId: string): Promise<void> {
+    await this.ready;
+    await this.removeOwned('conversations', id, userId);
+  }
+
+  // --- Ownership ---
+  async reassignUser(fromUserId: string, toUserId: string): Promise<void> {
+    await this.ready;
+    const owned: StoreName[] = ['transactions', 'budgets', 'rates', 'recurrences', 'settlements', 'accounts', 'categories', 'rules', 'conversations'];
+    const tx = this.idb.transaction(owned, 'readwrite');
+    const done = completion(tx);
+    await Promise.all(owned.map(async name => {
+      const store = tx.objectStore(name);
+      const rows: { userId: string }[] = await request(store.index('userId').getAll(fromUserId));
+      rows.forEach(r => store.put({ ...r, userId: toUserId }));
+    }));
+    await done;
+  }
+
+  // --- Backup ---
+  async snapshot(): Promise<StoreSnapshot> {
+    await this.ready;
+    return this.readAll();
+  }
+
+  async restore(data: StoreSnapshot, mode: RestoreMode): Promise<void> {
+    await this.ready;
+    await this.writeAll(data, mode === 'replace');
+  }
+}
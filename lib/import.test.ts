@@ -0,0 +1,108 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildImportCandidates, guessCsvMapping, parseAmount, parseCsv, parseDate } from './import';
+import { Transaction } from './types';
+
+const csv = (text: string) => {
+  const table = parseCsv(text);
+  return guessCsvMapping(table[0], table.slice(1));
+};
+
+describe('guessCsvMapping', () => {
+  test('a "Value Date" column is not the amount', () => {
+    const mapping = csv('Date,Value Date,Description,Amount\n2024-01-05,2024-01-06,Coffee,-4.50');
+    assert.equal(mapping.date, 0);
+    assert.equal(mapping.amount, 3);
+    const { candidates, errors } = buildImportCandidates('Date,Value Date,Description,Amount\n2024-01-05,2024-01-06,Coffee,-4.50', 'csv', []);
+    assert.deepEqual(errors, []);
+    assert.deepEqual([candidates[0].transaction.type, candidates[0].transaction.amount, candidates[0].transaction.date], ['expense', 4.5, '2024-01-05']);
+  });
+
+  test('prefers an exact "Amount" header over other amount-like ones', () => {
+    assert.equal(csv('Date,Total Sum,Amount,Payee\n2024-01-05,10,4.50,Cafe').amount, 2);
+    assert.equal(csv('Datum,Valutadatum,Betrag,Name\n05.01.2024,06.01.2024,"-4,50",Cafe').amount, 2);
+  });
+
+  test('falls back to debit and credit columns', () => {
+    const mapping = csv('Posted,Payee,Debit,Credit\n01/15/2024,Shop,12.00,');
+    assert.deepEqual([mapping.amount, mapping.debit, mapping.credit, mapping.merchant], [undefined, 2, 3, 1]);
+  });
+
+  test('reads the date order off the rows', () => {
+    assert.equal(csv('Date,Payee,Amount\n01/15/2024,Shop,1').dateOrder, 'MDY');
+    assert.equal(csv('Date,Payee,Amount\n15/01/2024,Shop,1').dateOrder, 'DMY');
+    assert.equal(csv('Date,Payee,Amount\n05.01.2024,Shop,1').dateOrder, 'DMY');
+    assert.equal(csv('Date,Payee,Amount\n2024-01-05,Shop,1').dateOrder, 'YMD');
+  });
+
+  test('reads a decimal comma off European exports', () => {
+    const text = 'Datum;Name;Betrag\n05.01.2024;Bäckerei;-4,50\n06.01.2024;Miete;-1.234,56';
+    const mapping = csv(text);
+    assert.equal(mapping.decimalSeparator, ',');
+    const { candidates } = buildImportCandidates(text, 'csv', []);
+    assert.deepEqual(candidates.map(c => c.transaction.amount), [4.5, 1234.56]);
+  });
+
+  test('keeps a decimal point when the file uses one', () => {
+    assert.equal(csv('Date;Payee;Amount\n2024-01-05;Shop;1,234.50').decimalSeparator, '.');
+    assert.equal(csv('Date,Payee,Amount\n2024-01-05,Shop,"1,200"').decimalSeparator, '.');
+  });
+});
+
+describe('parseAmount', () => {
+  test('reads signs, brackets and grouping', () => {
+    assert.equal(parseAmount('-4.50'), -4.5);
+    assert.equal(parseAmount('(4.50)'), -4.5);
+    assert.equal(parseAmount('4.50-'), -4.5);
+    assert.equal(parseAmount('$1,234.56'), 1234.56);
+    assert.equal(parseAmount('€ 1.234,56', ','), 1234.56);
+    assert.equal(parseAmount('+20'), 20);
+  });
+
+  test('rejects values shaped like dates', () => {
+    for (const raw of ['2024-01-06', '06.01.2024', '1/6/24', '2024/01/06']) assert.ok(isNaN(parseAmount(raw)), raw);
+  });
+
+  test('rejects a minus sign inside the number', () => {
+    assert.ok(isNaN(parseAmount('12-50')));
+    assert.ok(isNaN(parseAmount('')));
+  });
+});
+
+describe('parseDate', () => {
+  test('honours the order, with a four-digit year first always winning', () => {
+    assert.equal(parseDate('01/02/2024', 'MDY'), '2024-01-02');
+    assert.equal(parseDate('01/02/2024', 'DMY'), '2024-02-01');
+    assert.equal(parseDate('2024-02-01', 'DMY'), '2024-02-01');
+    assert.equal(parseDate('1/2/24', 'MDY'), '2024-01-02');
+    assert.equal(parseDate('13/13/2024', 'MDY'), undefined);
+  });
+});
+
+describe('buildImportCandidates', () => {
+  const existing = [{ id: 't1', date: '2024-01-05', amount: 4.5, merchant: 'STARBUCKS #123' }] as Transaction[];
+
+  test('flags rows already in the ledger or earlier in the file', () => {
+    const text = 'Date,Payee,Amount\n2024-01-05,Starbucks,-4.50\n2024-01-06,Bakery,-3.00\n2024-01-06,Bakery,-3.00\n2024-01-07,Employer,2500';
+    const { candidates } = buildImportCandidates(text, 'csv', existing);
+    assert.deepEqual(candidates.map(c => [c.duplicateOf, c.selected, c.transaction.type]), [
+      ['t1', false, 'expense'],
+      [undefined, true, 'expense'],
+      ['batch', false, 'expense'],
+      [undefined, true, 'income']
+    ]);
+  });
+
+  test('reports rows it cannot read', () => {
+    const { candidates, errors } = buildImportCandidates('Date,Payee,Amount\nsoon,Shop,1\n2024-01-05,Shop,lots', 'csv', []);
+    assert.equal(candidates.length, 0);
+    assert.deepEqual(errors, ['Row 2: could not read date', 'Row 3: could not read amount']);
+  });
+
+  test('reads OFX and QIF statements', () => {
+    const ofx = '<OFX><CURDEF>EUR<STMTTRN><DTPOSTED>20240105120000<TRNAMT>-4.50<NAME>Cafe</STMTTRN></OFX>';
+    assert.deepEqual(buildImportCandidates(ofx, 'ofx', []).candidates.map(c => [c.transaction.date, c.transaction.amount, c.transaction.currency]), [['2024-01-05', 4.5, 'EUR']]);
+    const qif = "!Type:Bank\nD1/15'24\nT-12.00\nPGrocer\nLFood:Groceries\n^\n";
+    assert.deepEqual(buildImportCandidates(qif, 'qif', []).candidates.map(c => [c.transaction.date, c.transaction.amount, c.transaction.category]), [['2024-01-15', 12, 'Food']]);
+  });
+});
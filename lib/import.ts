@@ -0,0 +1,324 @@
+import { CsvColumnMapping, ImportCandidate, ImportFormat, Transaction } from './types';
+
+// Parser output before de-duplication. `amount` is signed: negative = money out.
+interface RawRow {
+  line: number;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  merchant: string;
+  description: string;
+  category?: string;
+  currency?: string;
+}
+
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'ofx' || ext === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (ext === 'qif' || /^!Type:/im.test(text)) return 'qif';
+  return 'csv';
+}
+
+// --- CSV ---
+
+/**
+ * RFC 4180-ish tokenizer: quoted fields, escaped quotes, CRLF.
+ * The delimiter is sniffed from the first line (comma, semicolon or tab).
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+
+  return rows.map(r => r.map(f => f.trim()));
+}
+
+/**
+ * Reads the date order off sample values: a first part over 12 can only be a
+ * day, a second part over 12 only a day in month-first order. When every date
+ * is ambiguous, dotted dates (15.01.2024) are taken as day-first and the rest
+ * as month-first.
+ */
+function guessDateOrder(values: string[]): CsvColumnMapping['dateOrder'] {
+  const dates = values.map(v => v.trim().split(/[^\d]+/).filter(Boolean).map(Number)).filter(p => p.length >= 3);
+  if (dates.length === 0 || dates.every(p => p[0] > 999)) return 'YMD';
+  if (dates.some(p => p[0] <= 999 && p[0] > 12)) return 'DMY';
+  if (dates.some(p => p[0] <= 999 && p[1] > 12)) return 'MDY';
+  return values.some(v => /^\d{1,2}\.\d{1,2}\./.test(v.trim())) ? 'DMY' : 'MDY';
+}
+
+/**
+ * European exports write "1.234,56" and "-4,50": a comma followed by one or
+ * two trailing digits, with no value using a decimal point that way.
+ */
+function guessDecimalSeparator(values: string[]): CsvColumnMapping['decimalSeparator'] {
+  const amounts = values.map(v => v.trim().replace(/[\s)+-]+$/, '')).filter(Boolean);
+  const comma = amounts.some(v => /,\d{1,2}$/.test(v));
+  const point = amounts.some(v => /\.\d{1,2}$/.test(v));
+  return comma && !point ? ',' : '.';
+}
+
+/**
+ * Guesses a column mapping from a header row, and the date order and decimal
+ * separator from the rows under it, so most bank exports need no manual setup.
+ */
+export function guessCsvMapping(header: string[], rows: string[][] = []): CsvColumnMapping {
+  const find = (...patterns: RegExp[]) => {
+    const idx = header.findIndex(h => patterns.some(p => p.test(h)));
+    return idx >= 0 ? idx : undefined;
+  };
+
+  const debit = find(/debit|withdraw|out/i);
+  const credit = find(/credit|deposit|\bin\b/i);
+  const date = find(/date|posted/i) ?? 0;
+  // An exact "Amount" wins; otherwise any amount-like header that is not a date, like "Value Date"
+  const amount = find(/^\s*amount\s*$/i) ?? find(/^(?!.*(?:date|datum|posted)).*(?:amount|sum|value|betrag)/i) ?? (debit === undefined ? 1 : undefined);
+  const money = [amount, debit, credit].filter(i => i !== undefined);
+  return {
+    date,
+    amount,
+    debit,
+    credit,
+    merchant: find(/merchant|payee|name|counterparty/i) ?? find(/desc|memo|detail/i) ?? 2,
+    description: find(/desc|memo|detail|reference/i),
+    category: find(/categor/i),
+    currency: find(/currency|ccy/i),
+    dateOrder: guessDateOrder(rows.map(r => r[date] || '')),
+    decimalSeparator: guessDecimalSeparator(rows.flatMap(r => money.map(i => r[i] || ''))),
+    hasHeader: true
+  };
+}
+
+// 2024-01-06, 06.01.2024, 1/6/24: a date landed in an amount column
+const DATE_SHAPED = /^\d{1,4}([-/.])\d{1,2}\1\d{1,4}$/;
+
+/**
+ * Reads "-4.50", "(4.50)", "4.50-" and "€ 1.234,56" style amounts. Anything
+ * shaped like a date, or with a minus sign inside the number, is NaN.
+ */
+export function parseAmount(raw: string, decimalSeparator: '.' | ',' = '.'): number {
+  if (!raw || DATE_SHAPED.test(raw.trim())) return NaN;
+  let s = raw.replace(/[^\d.,()\-+]/g, '');
+  const negative = /^\(.*\)$/.test(s) || /^-|-$/.test(s);
+  if (/\d-\d/.test(s)) return NaN;
+  s = s.replace(/[()\-+]/g, '');
+  s = decimalSeparator === ','
+    ? s.replace(/\./g, '').replace(',', '.')
+    : s.replace(/,/g, '');
+  const n = parseFloat(s);
+  return negative ? -n : n;
+}
+
+export function parseDate(raw: string, order: CsvColumnMapping['dateOrder']): string | undefined {
+  const parts = raw.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return undefined;
+
+  let [y, m, d] = order === 'YMD' ? parts : order === 'MDY' ? [parts[2], parts[0], parts[1]] : [parts[2], parts[1], parts[0]];
+  // A four-digit leading token always wins, whatever order was configured
+  if (parts[0] > 999) [y, m, d] = parts;
+  if (y < 100) y += 2000;
+  if (!m || m > 12 || !d || d > 31) return undefined;
+
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+function csvToRows(rows: string[][], mapping: CsvColumnMapping): { rows: RawRow[], errors: string[] } {
+  const out: RawRow[] = [];
+  const errors: string[] = [];
+  const body = mapping.hasHeader ? rows.slice(1) : rows;
+  const offset = mapping.hasHeader ? 2 : 1;
+
+  body.forEach((r, i) => {
+    const line = i + offset;
+    const date = parseDate(r[mapping.date] || '', mapping.dateOrder);
+
+    let amount: number;
+    if (mapping.amount !== undefined) {
+      amount = parseAmount(r[mapping.amount], mapping.decimalSeparator);
+    } else {
+      const debit = Math.abs(parseAmount(r[mapping.debit ?? -1], mapping.decimalSeparator) || 0);
+      const credit = Math.abs(parseAmount(r[mapping.credit ?? -1], mapping.decimalSeparator) || 0);
+      amount = credit - debit;
+    }
+
+    if (!date || isNaN(amount)) {
+      errors.push(`Row ${line}: could not read ${!date ? 'date' : 'amount'}`);
+      return;
+    }
+
+    const pick = (idx?: number) => (idx !== undefined ? r[idx] : undefined) || undefined;
+    out.push({
+      line,
+      date,
+      amount,
+      merchant: pick(mapping.merchant) || 'Unknown',
+      description: pick(mapping.description) || '',
+      category: pick(mapping.category),
+      currency: pick(mapping.currency)?.toUpperCase()
+    });
+  });
+
+  return { rows: out, errors };
+}
+
+// --- OFX / QFX ---
+
+// OFX 1.x is SGML with unclosed leaf tags, 2.x is XML; reading leaf values line-agnostically handles both.
+function ofxTag(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : undefined;
+}
+
+function parseOfx(text: string): { rows: RawRow[], errors: string[] } {
+  const currency = ofxTag(text, 'CURDEF');
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  const rows: RawRow[] = [];
+  const errors: string[] = [];
+
+  blocks.forEach((raw, i) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const posted = ofxTag(block, 'DTPOSTED') || '';
+    const amount = parseFloat(ofxTag(block, 'TRNAMT') || '');
+    const date = /^\d{8}/.test(posted) ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}` : undefined;
+
+    if (!date || isNaN(amount)) {
+      errors.push(`Record ${i + 1}: missing DTPOSTED or TRNAMT`);
+      return;
+    }
+    rows.push({
+      line: i + 1,
+      date,
+      amount,
+      merchant: ofxTag(block, 'NAME') || ofxTag(block, 'PAYEE') || 'Unknown',
+      description: ofxTag(block, 'MEMO') || '',
+      currency
+    });
+  });
+
+  return { rows, errors };
+}
+
+// --- QIF ---
+
+function parseQif(text: string, dateOrder: CsvColumnMapping['dateOrder']): { rows: RawRow[], errors: string[] } {
+  const rows: RawRow[] = [];
+  const errors: string[] = [];
+  const records = text.split(/^\^\s*$/m);
+
+  records.forEach((record, i) => {
+    const fields: Record<string, string> = {};
+    record.split(/\r?\n/).forEach(l => {
+      if (l && !l.startsWith('!') && !(l[0] in fields)) fields[l[0]] = l.slice(1).trim();
+    });
+    if (!fields.D && !fields.T) return; // header-only or trailing chunk
+
+    // Quicken writes 1/15'24 as well as 01/15/2024
+    const date = parseDate((fields.D || '').replace("'", '/'), dateOrder);
+    const amount = parseAmount(fields.T || fields.U || '');
+    if (!date || isNaN(amount)) {
+      errors.push(`Record ${i + 1}: missing D or T field`);
+      return;
+    }
+    rows.push({
+      line: i + 1,
+      date,
+      amount,
+      merchant: fields.P || 'Unknown',
+      description: fields.M || '',
+      category: fields.L && !fields.L.startsWith('[') ? fields.L.split(':')[0] : undefined
+    });
+  });
+
+  return { rows, errors };
+}
+
+// --- Candidates ---
+
+// Letters and digits in any script, so "Café Zürich" or "ドトール" still have something to compare
+const normalizeMerchant = (m: string) => (m || '').normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Bank descriptors pad names ("STARBUCKS #1234"), so one containing the other counts
+export function sameMerchant(a: string, b: string): boolean {
+  const ma = normalizeMerchant(a);
+  const mb = normalizeMerchant(b);
+  return !!ma && !!mb && (ma.includes(mb) || mb.includes(ma));
+}
+
+function isSameEntry(a: { date: string, amount: number, merchant: string }, b: { date: string, amount: number, merchant: string }): boolean {
+  if (a.date.split('T')[0] !== b.date.split('T')[0]) return false;
+  if (Math.abs(a.amount - b.amount) >= 0.005) return false;
+  return sameMerchant(a.merchant, b.merchant);
+}
+
+/**
+ * Parses a statement into preview candidates. Debits become expenses and
+ * credits income, both with positive amounts. Rows matching an existing transaction (or an earlier row in the
+ * same file) by date, amount and merchant are flagged and unselected.
+ */
+export function buildImportCandidates(
+  text: string,
+  format: ImportFormat,
+  existing: Transaction[],
+  mapping?: CsvColumnMapping
+): { candidates: ImportCandidate[], errors: string[] } {
+  let parsed: { rows: RawRow[], errors: string[] };
+  if (format === 'ofx') {
+    parsed = parseOfx(text);
+  } else if (format === 'qif') {
+    parsed = parseQif(text, mapping?.dateOrder || 'MDY');
+  } else {
+    const table = parseCsv(text);
+    parsed = csvToRows(table, mapping || guessCsvMapping(table[0] || [], table.slice(1)));
+  }
+
+  const accepted: { date: string, amount: number, merchant: string }[] = [];
+  const candidates = parsed.rows.map(row => {
+    const isCredit = row.amount > 0;
+    const tx: Partial<Transaction> = {
+      type: isCredit ? 'income' : 'expense',
+      amount: Math.abs(row.amount),
+      currency: row.currency,
+      date: row.date,
+      merchant: row.merchant,
+      description: row.description,
+      category: row.category,
+      tags: ['imported'],
+      isRecurring: false
+    };
+
+    const key = { date: row.date, amount: tx.amount, merchant: row.merchant };
+    const duplicateOf = existing.find(t => isSameEntry(t, key))?.id
+      ?? (accepted.some(a => isSameEntry(a, key)) ? 'batch' : undefined);
+    accepted.push(key);
+
+    return { line: row.line, transaction: tx, isCredit, duplicateOf, selected: !duplicateOf };
+  });
+
+  return { candidates, errors: parsed.errors };
+}
@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseInline, parseMarkdown } from './markdown';
+
+describe('parseInline links', () => {
+  test('keeps http, https and mailto targets', () => {
+    for (const href of ['http://example.com', 'https://example.com/a?b=c', 'HTTPS://EXAMPLE.COM', 'mailto:help@example.com']) {
+      assert.deepEqual(parseInline(`[help](${href})`), [{ type: 'link', href, children: [{ type: 'text', text: 'help' }] }]);
+    }
+  });
+
+  test('drops any other target and keeps the label as text', () => {
+    for (const href of ['javascript:alert%281%29', 'JavaScript:void0', 'data:text/html,<b>x</b>', 'vbscript:msgbox', '//evil.example', '/settings', 'https:evil.example']) {
+      assert.deepEqual(parseInline(`see [this](${href}) now`), [
+        { type: 'text', text: 'see ' },
+        { type: 'text', text: 'this' },
+        { type: 'text', text: ' now' }
+      ], href);
+    }
+  });
+
+  test('sanitises links nested in emphasis and keeps formatting in labels', () => {
+    assert.deepEqual(parseInline('**[go](javascript:void(0))**'), [{ type: 'strong', children: [{ type: 'text', text: 'go' }, { type: 'text', text: ')' }] }]);
+    assert.deepEqual(parseInline('[*docs*](https://example.com)'), [
+      { type: 'link', href: 'https://example.com', children: [{ type: 'em', children: [{ type: 'text', text: 'docs' }] }] }
+    ]);
+  });
+
+  test('leaves raw HTML as literal text', () => {
+    assert.deepEqual(parseInline('<img src=x onerror=alert(1)>'), [{ type: 'text', text: '<img src=x onerror=alert(1)>' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  test('sanitises links inside lists and tables', () => {
+    const blocks = parseMarkdown('- [ok](https://a.example)\n- [bad](javascript:x)\n\n| a |\n|---|\n| [bad](javascript:x) |');
+    assert.deepEqual(blocks, [
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          [{ type: 'link', href: 'https://a.example', children: [{ type: 'text', text: 'ok' }] }],
+          [{ type: 'text', text: 'bad' }]
+        ]
+      },
+      { type: 'table', header: [[{ type: 'text', text: 'a' }]], rows: [[[{ type: 'text', text: 'bad' }]]] }
+    ]);
+  });
+
+  test('does not parse links inside code', () => {
+    assert.deepEqual(parseMarkdown('```\n[x](javascript:y)\n```'), [{ type: 'code', text: '[x](javascript:y)' }]);
+    assert.deepEqual(parseInline('`[x](javascript:y)`'), [{ type: 'code', text: '[x](javascript:y)' }]);
+  });
+});
@@ -0,0 +1,133 @@
+// A small Markdown subset for coach replies, parsed into a tree the UI renders
+// as React elements. Nothing is ever injected as HTML: raw tags stay literal
+// text, and links keep their target only for http(s) and mailto.
+
+export type MarkdownInline =
+  | { type: 'text', text: string }
+  | { type: 'strong', children: MarkdownInline[] }
+  | { type: 'em', children: MarkdownInline[] }
+  | { type: 'code', text: string }
+  | { type: 'link', href: string, children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading', level: 1 | 2 | 3, children: MarkdownInline[] }
+  | { type: 'paragraph', children: MarkdownInline[] }
+  | { type: 'list', ordered: boolean, items: MarkdownInline[][] }
+  | { type: 'quote', children: MarkdownInline[] }
+  | { type: 'code', text: string }
+  | { type: 'table', header: MarkdownInline[][], rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+// In order: code span, **strong**, __strong__, *em*, _em_ (not inside words), [text](url)
+const INLINE = /(`+)(.+?)\1|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const out: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      out.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) out.push({ type: 'text', text: rest.slice(0, match.index) });
+    const [, , code, strong, strongAlt, em, emAlt, label, href] = match;
+    if (code !== undefined) out.push({ type: 'code', text: code.trim() });
+    else if (strong !== undefined || strongAlt !== undefined) out.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    else if (em !== undefined || emAlt !== undefined) out.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    else if (SAFE_LINK.test(href)) out.push({ type: 'link', href, children: parseInline(label) });
+    else out.push(...parseInline(label));
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return out;
+}
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const cells = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => parseInline(cell.trim()));
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: Math.min(heading[1].length, 3) as 1 | 2 | 3, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER.test(lines[i + 1] || '')) {
+      flush();
+      const header = cells(line);
+      const rows: MarkdownInline[][][] = [];
+      for (i += 2; i < lines.length && lines[i].includes('|'); i++) rows.push(cells(lines[i]));
+      i--;
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const ordered = NUMBERED.test(line);
+    if (ordered || BULLET.test(line)) {
+      flush();
+      const marker = ordered ? NUMBERED : BULLET;
+      const items: string[] = [];
+      for (; i < lines.length && lines[i].trim(); i++) {
+        const item = marker.exec(lines[i]);
+        if (item) items.push(item[1]);
+        else if (/^\s/.test(lines[i]) && items.length > 0) items[items.length - 1] += ` ${lines[i].trim()}`; // Continuation line
+        else break;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(QUOTE.exec(lines[i])[1]);
+      i--;
+      blocks.push({ type: 'quote', children: parseInline(quoted.join(' ')) });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+  flush();
+  return blocks;
+}
@@ -0,0 +1,85 @@
+import { StoreSnapshot, User } from './types';
+
+/**
+ * Record-level schema migrations, shared by every storage backend.
+ *
+ * Whenever a shape in lib/types.ts changes in a way stored data cannot
+ * satisfy, bump SCHEMA_VERSION and append a migration. Migrations receive
+ * raw, unvalidated records (collections may be missing entirely) and must
+ * be pure: the backend persists the result and records the new version.
+ */
+export const SCHEMA_VERSION = 4;
+
+interface Migration {
+  version: number; // Version the data is at after this migration runs
+  description: string;
+  up: (data: StoreSnapshot) => StoreSnapshot;
+}
+
+// Until budgets stored a currency, limits were read in the owner's preferred currency
+export const budgetCurrencyOf = (users: unknown[], userId: string): string => {
+  const owner = users.find((u): u is User => !!u && typeof u === 'object' && (u as User).id === userId);
+  return typeof owner?.preferences?.currency === 'string' ? owner.preferences.currency : 'USD';
+};
+
+// Applies `fn` to object records only; anything else is left for validation to reject
+const mapRecords = <T>(list: T[], fn: (record: T) => T): T[] =>
+  list.map(r => (r && typeof r === 'object' ? fn(r) : r));
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Default missing transaction fields and strip persisted calculated fields',
+    up: data => ({
+      ...data,
+      transactions: mapRecords(data.transactions, ({ convertedAmount, ...t }) => ({
+        ...t,
+        description: t.description ?? '',
+        tags: Array.isArray(t.tags) ? t.tags : [],
+        isRecurring: t.isRecurring ?? false
+      })),
+      budgets: mapRecords(data.budgets, ({ carriedIn, periodStart, periodEnd, ...b }) => ({
+        ...b,
+        spent: 0,
+        rollover: b.rollover ?? false
+      }))
+    })
+  },
+  {
+    version: 3,
+    description: 'Mark existing transactions as expenses',
+    up: data => ({
+      ...data,
+      transactions: mapRecords(data.transactions, t => ({ ...t, type: t.type ?? 'expense' }))
+    })
+  },
+  {
+    version: 4,
+    description: 'Give budgets the currency their limit was entered in',
+    up: data => ({
+      ...data,
+      budgets: mapRecords(data.budgets, b => ({ ...b, currency: b.currency ?? budgetCurrencyOf(data.users, b.userId) }))
+    })
+  }
+];
+
+export const emptySnapshot = (): StoreSnapshot => ({ users: [], transactions: [], budgets: [], rates: [], recurrences: [], settlements: [], accounts: [], categories: [], rules: [], conversations: [] });
+
+/**
+ * Runs every migration newer than `fromVersion`, in order.
+ * Returns the upgraded data and the descriptions of what ran.
+ */
+export function migrate(data: Partial<StoreSnapshot>, fromVersion: number): { data: StoreSnapshot, applied: string[] } {
+  let current: StoreSnapshot = { ...emptySnapshot(), ...data };
+  const applied: string[] = [];
+
+  MIGRATIONS
+    .filter(m => m.version > fromVersion && m.version <= SCHEMA_VERSION)
+    .sort((a, b) => a.version - b.version)
+    .forEach(m => {
+      current = m.up(current);
+      applied.push(`v${m.version}: ${m.description}`);
+    });
+
+  return { data: current, applied };
+}
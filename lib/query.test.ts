@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTransactionQuery, runTransactionQuery } from './query';
+import { Transaction, TransactionQuery } from './types';
+
+const tx = (id: string, date: string, amount: number, merchant = 'Shop'): Transaction => ({
+  id, userId: 'u1', type: 'expense', amount, currency: 'USD', date, category: 'Food', merchant, description: '', tags: [], isRecurring: false
+});
+
+// Several entries share a date and an amount, so the id tie-break decides their order
+const ledger = [
+  tx('a', '2024-03-01', 10), tx('b', '2024-03-01', 10), tx('c', '2024-03-02', 25, 'cafe'),
+  tx('d', '2024-03-02', 10, 'Bakery'), tx('e', '2024-03-03', 40), tx('f', '2024-03-01', 25), tx('g', '2024-03-03', 5, 'apple')
+];
+
+function allPages(txs: Transaction[], query: TransactionQuery): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = runTransactionQuery(txs, { ...query, cursor });
+    pages.push(page.items.map(t => t.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('runTransactionQuery paging', () => {
+  for (const sort of ['date_desc', 'date_asc', 'amount_desc', 'amount_asc', 'merchant'] as const) {
+    test(`${sort}: pages cover every match once, in the unpaged order`, () => {
+      const whole = runTransactionQuery(ledger, { sort }).items.map(t => t.id);
+      const pages = allPages(ledger, { sort, limit: 2 });
+      assert.deepEqual(pages.flat(), whole);
+      assert.equal(pages.length, Math.ceil(ledger.length / 2));
+    });
+  }
+
+  test('an entry added between pages does not shift the next page', () => {
+    const first = runTransactionQuery(ledger, { limit: 3 });
+    const grown = [...ledger, tx('z', '2024-04-01', 99)];
+    const second = runTransactionQuery(grown, { limit: 3, cursor: first.nextCursor });
+    const before = runTransactionQuery(ledger, { limit: 3, cursor: first.nextCursor });
+    assert.deepEqual(second.items.map(t => t.id), before.items.map(t => t.id));
+    assert.equal(second.total, ledger.length + 1);
+  });
+
+  test('an entry deleted from the previous page does not skip anything', () => {
+    const first = runTransactionQuery(ledger, { sort: 'amount_desc', limit: 3 });
+    const shrunk = ledger.filter(t => t.id !== first.items[0].id);
+    const rest = runTransactionQuery(shrunk, { sort: 'amount_desc', cursor: first.nextCursor }).items.map(t => t.id);
+    const expected = runTransactionQuery(ledger, { sort: 'amount_desc' }).items.slice(3).map(t => t.id);
+    assert.deepEqual(rest, expected);
+  });
+
+  test('the last page has no cursor', () => {
+    assert.equal(runTransactionQuery(ledger, { limit: ledger.length }).nextCursor, undefined);
+  });
+});
+
+describe('parseTransactionQuery', () => {
+  test('reads query-string values', () => {
+    const { query, errors } = parseTransactionQuery({ minAmount: '12.5', types: 'expense,income', limit: '20', recurringOnly: 'true' });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(query, { minAmount: 12.5, types: ['expense', 'income'], limit: 20, recurringOnly: true });
+  });
+
+  test('rejects a tampered cursor and an inverted range', () => {
+    const { errors } = parseTransactionQuery({ cursor: 'not-json', startDate: '2024-03-05', endDate: '2024-03-01' });
+    assert.deepEqual(errors, ['startDate must not be after endDate', 'cursor is not valid']);
+  });
+});
@@ -0,0 +1,171 @@
+import { Category, Transaction, TransactionPage, TransactionQuery, TransactionSort, TransactionType } from './types';
+import { categoryKey, categoryWithDescendants } from './categories';
+
+export const TRANSACTION_SORTS: { id: TransactionSort, label: string }[] = [
+  { id: 'date_desc', label: 'Newest' },
+  { id: 'date_asc', label: 'Oldest' },
+  { id: 'amount_desc', label: 'Largest' },
+  { id: 'amount_asc', label: 'Smallest' },
+  { id: 'merchant', label: 'Merchant' }
+];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const TYPES: TransactionType[] = ['expense', 'income', 'transfer'];
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query strings deliver "a,b" for arrays and "12.5" for numbers; objects from the UI pass through
+const toList = (value: unknown): string[] | undefined => {
+  const list = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .map(v => String(v).trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+};
+
+const toNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+/**
+ * Turns a loosely typed query (from the UI or a URL) into a TransactionQuery,
+ * dropping empty fields. `errors` lists the fields that could not be read;
+ * callers reject the query when it is non-empty.
+ */
+export function parseTransactionQuery(raw: Record<string, unknown> = {}): { query: TransactionQuery, errors: string[] } {
+  const errors: string[] = [];
+  const query: TransactionQuery = {};
+
+  const search = typeof raw.search === 'string' ? raw.search.trim() : '';
+  if (search) query.search = search;
+
+  (['startDate', 'endDate'] as const).forEach(field => {
+    const value = raw[field];
+    if (value === undefined || value === '') return;
+    const day = String(value).split('T')[0];
+    if (DAY.test(day)) query[field] = day;
+    else errors.push(`${field} must be a YYYY-MM-DD date`);
+  });
+  if (query.startDate && query.endDate && query.startDate > query.endDate) errors.push('startDate must not be after endDate');
+
+  (['minAmount', 'maxAmount'] as const).forEach(field => {
+    const value = toNumber(raw[field]);
+    if (value === undefined) return;
+    if (Number.isFinite(value) && value >= 0) query[field] = value;
+    else errors.push(`${field} must be a non-negative number`);
+  });
+  if (query.minAmount !== undefined && query.maxAmount !== undefined && query.minAmount > query.maxAmount) {
+    errors.push('minAmount must not be more than maxAmount');
+  }
+
+  // `category` is the single-category filter older callers send
+  const categories = toList(raw.categories) || toList(raw.category);
+  if (categories) query.categories = categories;
+  const tags = toList(raw.tags);
+  if (tags) query.tags = tags;
+  if (raw.tagMatch !== undefined && raw.tagMatch !== '') {
+    if (raw.tagMatch === 'any' || raw.tagMatch === 'all') query.tagMatch = raw.tagMatch;
+    else errors.push('tagMatch must be any or all');
+  }
+
+  const types = toList(raw.types);
+  if (types) {
+    if (types.every(t => TYPES.includes(t as TransactionType))) query.types = types as TransactionType[];
+    else errors.push('types must be expense, income or transfer');
+  }
+  if (typeof raw.accountId === 'string' && raw.accountId) query.accountId = raw.accountId;
+  if (raw.recurringOnly === true || raw.recurringOnly === 'true') query.recurringOnly = true;
+
+  if (raw.sort !== undefined && raw.sort !== '') {
+    if (TRANSACTION_SORTS.some(s => s.id === raw.sort)) query.sort = raw.sort as TransactionSort;
+    else errors.push(`sort must be one of ${TRANSACTION_SORTS.map(s => s.id).join(', ')}`);
+  }
+  if (typeof raw.cursor === 'string' && raw.cursor) {
+    if (decodeCursor(raw.cursor)) query.cursor = raw.cursor;
+    else errors.push('cursor is not valid');
+  }
+  const limit = toNumber(raw.limit);
+  if (limit !== undefined) {
+    if (Number.isInteger(limit) && limit > 0) query.limit = Math.min(limit, MAX_PAGE_SIZE);
+    else errors.push('limit must be a positive whole number');
+  }
+
+  return { query, errors };
+}
+
+/**
+ * Builds the filter for a query. `categories` is the user's category list, so
+ * that filtering on "Food" also finds "Food > Groceries". Amounts use
+ * `convertedAmount` when the caller has filled it in.
+ */
+export function transactionMatcher(query: TransactionQuery, categories: Category[] = []): (t: Transaction) => boolean {
+  const search = query.search?.toLowerCase();
+  const categoryKeys = query.categories
+    ? new Set(query.categories.flatMap(name => [...categoryWithDescendants(categories, name)]))
+    : undefined;
+  const tags = query.tags?.map(tag => tag.toLowerCase());
+
+  return t => {
+    const day = t.date.split('T')[0];
+    const amount = t.convertedAmount ?? t.amount;
+    if (query.startDate && day < query.startDate) return false;
+    if (query.endDate && day > query.endDate) return false;
+    if (query.minAmount !== undefined && amount < query.minAmount) return false;
+    if (query.maxAmount !== undefined && amount > query.maxAmount) return false;
+    if (categoryKeys && !categoryKeys.has(categoryKey(t.category))) return false;
+    if (query.types && !query.types.includes(t.type)) return false;
+    if (query.accountId && t.accountId !== query.accountId && t.toAccountId !== query.accountId) return false;
+    if (query.recurringOnly && !t.isRecurring) return false;
+    if (tags) {
+      const own = new Set((t.tags || []).map(tag => tag.toLowerCase()));
+      const hit = query.tagMatch === 'all' ? tags.every(tag => own.has(tag)) : tags.some(tag => own.has(tag));
+      if (!hit) return false;
+    }
+    if (search && !`${t.merchant || ''}\n${t.description || ''}`.toLowerCase().includes(search)) return false;
+    return true;
+  };
+}
+
+// The value a sort orders by; ties fall back to the id so every position is unique
+function sortValue(t: Transaction, sort: TransactionSort): number | string {
+  if (sort === 'amount_desc' || sort === 'amount_asc') return t.convertedAmount ?? t.amount;
+  if (sort === 'merchant') return (t.merchant || '').toLowerCase();
+  return new Date(t.date).getTime();
+}
+
+function compareKeys(sort: TransactionSort, a: [number | string, string], b: [number | string, string]): number {
+  const descending = sort === 'date_desc' || sort === 'amount_desc';
+  const byValue = a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+  return (descending ? -byValue : byValue) || a[1].localeCompare(b[1]);
+}
+
+// Cursors point just past the last item of a page, so new entries do not shift later pages
+const encodeCursor = (t: Transaction, sort: TransactionSort) => JSON.stringify([sortValue(t, sort), t.id]);
+
+function decodeCursor(cursor: string): [number | string, string] | null {
+  try {
+    const parsed = JSON.parse(cursor);
+    const valid = Array.isArray(parsed) && parsed.length === 2
+      && ['number', 'string'].includes(typeof parsed[0]) && typeof parsed[1] === 'string';
+    return valid ? [parsed[0], parsed[1]] : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function sortTransactions<T extends Transaction>(txs: T[], sort: TransactionSort = 'date_desc'): T[] {
+  return [...txs].sort((a, b) => compareKeys(sort, [sortValue(a, sort), a.id], [sortValue(b, sort), b.id]));
+}
+
+/**
+ * Filters, sorts and pages a user's transactions. Without a `limit` the whole
+ * result comes back as one page, which is what analytics and export use.
+ */
+export function runTransactionQuery<T extends Transaction>(txs: T[], query: TransactionQuery, categories: Category[] = []): TransactionPage & { items: T[] } {
+  const sort = query.sort || 'date_desc';
+  const matches = sortTransactions(txs.filter(transactionMatcher(query, categories)), sort);
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const remaining = after ? matches.filter(t => compareKeys(sort, [sortValue(t, sort), t.id], after) > 0) : matches;
+  const items = query.limit ? remaining.slice(0, query.limit) : remaining;
+  const nextCursor = items.length < remaining.length ? encodeCursor(items[items.length - 1], sort) : undefined;
+  return { items, nextCursor, total: matches.length };
+}
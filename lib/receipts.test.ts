@@ -0,0 +1,66 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkReceipt, itemsTotal, splitReceipt } from './receipts';
+import { ReceiptItem, Transaction } from './types';
+
+const item = (description: string, unitPrice: number, category: string, quantity = 1): ReceiptItem => ({ description, quantity, unitPrice, category });
+const totalCents = (parts: Partial<Transaction>[], field: 'amount' | 'tax' | 'tip') => Math.round(parts.reduce((sum, p) => sum + (p[field] || 0), 0) * 100);
+
+describe('checkReceipt', () => {
+  const receipt: Partial<Transaction> = {
+    amount: 26.5,
+    subtotal: 21.5,
+    tax: 2,
+    tip: 3,
+    items: [item('Milk', 1.5, 'Groceries', 3), item('Soap', 18, 'Household'), item('Coupon', -1, 'Groceries')]
+  };
+
+  test('accepts a receipt that adds up', () => {
+    assert.deepEqual(checkReceipt(receipt), []);
+  });
+
+  test('tolerates printed rounding of up to two cents', () => {
+    assert.deepEqual(checkReceipt({ ...receipt, amount: 26.52 }), []);
+    assert.deepEqual(checkReceipt({ ...receipt, amount: 26.53 }), ['Subtotal, tax and tip add up to 26.50 but the total is 26.53']);
+  });
+
+  test('flags items that disagree with the subtotal', () => {
+    assert.deepEqual(checkReceipt({ ...receipt, subtotal: 25, amount: 30 }), ['Items add up to 21.50 but the subtotal is 25.00']);
+  });
+
+  test('counts discount lines against the total', () => {
+    assert.equal(itemsTotal([item('Bread', 3.2, 'Groceries'), item('Member discount', -0.7, 'Groceries')]), 2.5);
+  });
+});
+
+describe('splitReceipt', () => {
+  test('keeps a single-category receipt whole', () => {
+    const tx = { amount: 5, items: [item('Tea', 5, 'Food')] };
+    assert.deepEqual(splitReceipt(tx), [tx]);
+  });
+
+  test('parts sum to the receipt total when tax and tip do not divide evenly', () => {
+    const tx: Partial<Transaction> = {
+      merchant: 'Corner Shop',
+      amount: 11.11,
+      tax: 0.1,
+      tip: 1.01,
+      items: [item('Apples', 3.33, 'Groceries'), item('Batteries', 3.33, 'Household'), item('Card', 3.34, 'Gifts')]
+    };
+    const parts = splitReceipt(tx);
+    assert.deepEqual(parts.map(p => p.category), ['Groceries', 'Household', 'Gifts']);
+    assert.equal(totalCents(parts, 'amount'), 1111);
+    assert.equal(parts[0].description, 'Corner Shop · Groceries');
+  });
+
+  test('the largest part absorbs the drift', () => {
+    const parts = splitReceipt({
+      amount: 10.02,
+      tip: 0.02,
+      items: [item('Steak', 4, 'Food'), item('Wine', 3, 'Drinks'), item('Flowers', 3, 'Gifts')]
+    });
+    // Every tip share rounds up to a cent, overshooting the total by one
+    assert.deepEqual(parts.map(p => p.amount), [4, 3.01, 3.01]);
+    assert.equal(totalCents(parts, 'amount'), 1002);
+  });
+});
@@ -0,0 +1,80 @@
+import { ReceiptItem, Transaction } from './types';
+
+// Printed receipts round each line, so sums may drift by a cent or two
+export const RECEIPT_TOLERANCE = 0.02;
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+export function itemsTotal(items: ReceiptItem[]): number {
+  return cents(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+}
+
+/**
+ * Problems with an itemised transaction; empty when it adds up or has no
+ * receipt fields at all. Messages are shown to the user as-is.
+ */
+export function checkReceipt(tx: Partial<Transaction>): string[] {
+  const errors: string[] = [];
+  const items = tx.items || [];
+  items.forEach((item, i) => {
+    if (!item.description?.trim()) errors.push(`Item ${i + 1}: description is missing`);
+    if (!(item.quantity > 0)) errors.push(`Item ${i + 1}: quantity must be positive`);
+    if (typeof item.unitPrice !== 'number' || !isFinite(item.unitPrice)) errors.push(`Item ${i + 1}: unit price is not a number`);
+    if (!item.category?.trim()) errors.push(`Item ${i + 1}: category is missing`);
+  });
+  if (errors.length > 0) return errors;
+
+  if ((tx.tax ?? 0) < 0) errors.push('Tax cannot be negative');
+  if ((tx.tip ?? 0) < 0) errors.push('Tip cannot be negative');
+
+  const computed = items.length > 0 ? itemsTotal(items) : undefined;
+  if (computed !== undefined && tx.subtotal !== undefined && Math.abs(computed - tx.subtotal) > RECEIPT_TOLERANCE) {
+    errors.push(`Items add up to ${computed.toFixed(2)} but the subtotal is ${tx.subtotal.toFixed(2)}`);
+  }
+
+  const subtotal = tx.subtotal ?? computed;
+  if (subtotal !== undefined && tx.amount !== undefined) {
+    const expected = cents(subtotal + (tx.tax || 0) + (tx.tip || 0));
+    if (Math.abs(expected - tx.amount) > RECEIPT_TOLERANCE) {
+      errors.push(`Subtotal, tax and tip add up to ${expected.toFixed(2)} but the total is ${tx.amount.toFixed(2)}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * One transaction per item category. Tax and tip are shared out in
+ * proportion to each category's subtotal; rounding leftovers go to the
+ * largest part so the parts still sum to the receipt total.
+ */
+export function splitReceipt(tx: Partial<Transaction>): Partial<Transaction>[] {
+  const groups = new Map<string, ReceiptItem[]>();
+  (tx.items || []).forEach(item => groups.set(item.category, [...(groups.get(item.category) || []), item]));
+  if (groups.size < 2) return [tx];
+
+  const subtotal = itemsTotal(tx.items);
+  const parts = [...groups].map(([category, items]) => {
+    const partSubtotal = itemsTotal(items);
+    const share = subtotal === 0 ? 1 / groups.size : partSubtotal / subtotal;
+    const tax = cents((tx.tax || 0) * share);
+    const tip = cents((tx.tip || 0) * share);
+    return {
+      ...tx,
+      category,
+      items,
+      subtotal: partSubtotal,
+      tax,
+      tip,
+      amount: cents(partSubtotal + tax + tip),
+      description: `${tx.description || tx.merchant || 'Receipt'} · ${category}`
+    };
+  });
+
+  const total = tx.amount ?? cents(subtotal + (tx.tax || 0) + (tx.tip || 0));
+  const drift = cents(total - parts.reduce((sum, p) => sum + p.amount, 0));
+  if (drift !== 0) {
+    const largest = parts.reduce((a, b) => (b.amount > a.amount ? b : a));
+    largest.amount = cents(largest.amount + drift);
+  }
+  return parts;
+}
@@ -0,0 +1,102 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dueOccurrences, occurrencesBetween, upcomingOccurrences } from './recurrence';
+import { configureBackend, RecurringService, TransactionService } from './api';
+import { addDays, today } from './dates';
+import { GUEST_USER } from './repository';
+import { LocalStorageRepository } from './store';
+import { RecurrenceRule, RecurringSeries } from './types';
+
+const rule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({ frequency: 'monthly', interval: 1, startDate: '2024-01-31', ...overrides });
+
+const series = (overrides: Partial<RecurringSeries> = {}): RecurringSeries => ({
+  id: 's1',
+  userId: 'u1',
+  rule: rule({ startDate: '2024-01-15' }),
+  template: { amount: 9, currency: 'EUR', category: 'Bills', merchant: 'Gym', description: '', tags: [] },
+  paused: false,
+  skippedDates: [],
+  createdAt: '2024-01-01',
+  ...overrides
+});
+
+describe('occurrencesBetween', () => {
+  test('clamps monthly dates to short months without drifting', () => {
+    assert.deepEqual(occurrencesBetween(rule(), '2024-05-31'), ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+  });
+
+  test('steps by the interval', () => {
+    assert.deepEqual(occurrencesBetween(rule({ frequency: 'weekly', interval: 2, startDate: '2024-03-01' }), '2024-04-01'), ['2024-03-01', '2024-03-15', '2024-03-29']);
+    assert.deepEqual(occurrencesBetween(rule({ frequency: 'yearly', startDate: '2024-02-29' }), '2026-12-31'), ['2024-02-29', '2025-02-28', '2026-02-28']);
+  });
+
+  test('stops at the end date', () => {
+    assert.deepEqual(occurrencesBetween(rule({ frequency: 'daily', startDate: '2024-01-01', endDate: '2024-01-03' }), '2024-12-31'), ['2024-01-01', '2024-01-02', '2024-01-03']);
+  });
+
+  test('never lists a date before the start', () => {
+    // The 10th of January falls before a start on the 20th
+    assert.deepEqual(occurrencesBetween(rule({ startDate: '2024-01-20', dayOfMonth: 10 }), '2024-03-31'), ['2024-02-10', '2024-03-10']);
+  });
+
+  test('starting after a date gives the same dates as filtering the full list', () => {
+    const rules = [
+      rule(),
+      rule({ frequency: 'daily', interval: 3, startDate: '2023-12-30' }),
+      rule({ frequency: 'weekly', startDate: '2024-01-03' }),
+      rule({ frequency: 'monthly', interval: 2, startDate: '2023-11-30', dayOfMonth: 31 }),
+      rule({ frequency: 'yearly', startDate: '2020-02-29' })
+    ];
+    for (const r of rules) {
+      for (const after of ['2023-01-01', '2024-02-29', '2024-03-31', '2024-06-15', '2025-01-01']) {
+        const expected = occurrencesBetween(r, '2028-12-31').filter(d => d > after);
+        assert.deepEqual(occurrencesBetween(r, '2028-12-31', after), expected, `${r.frequency}/${r.interval} after ${after}`);
+      }
+    }
+  });
+});
+
+describe('dueOccurrences', () => {
+  test('lists what is due since the last posting, leaving out skipped dates', () => {
+    const s = series({ lastGeneratedDate: '2024-02-15', skippedDates: ['2024-04-15'] });
+    assert.deepEqual(dueOccurrences(s, '2024-05-20'), ['2024-03-15', '2024-05-15']);
+  });
+
+  test('lists nothing twice across scheduler runs', () => {
+    const first = dueOccurrences(series(), '2024-03-20');
+    const again = dueOccurrences(series({ lastGeneratedDate: first[first.length - 1] }), '2024-03-20');
+    assert.deepEqual([first, again], [['2024-01-15', '2024-02-15', '2024-03-15'], []]);
+  });
+
+  test('lists nothing while paused', () => {
+    assert.deepEqual(dueOccurrences(series({ paused: true }), '2024-05-20'), []);
+    assert.deepEqual(upcomingOccurrences(series({ paused: true }), '2024-05-20', 30), []);
+  });
+});
+
+describe('upcomingOccurrences', () => {
+  test('lists the days after `from` within the window', () => {
+    assert.deepEqual(upcomingOccurrences(series(), '2024-03-15', 31), ['2024-04-15']);
+    assert.deepEqual(upcomingOccurrences(series({ skippedDates: ['2024-04-15'] }), '2024-03-14', 62), ['2024-03-15', '2024-05-15']);
+  });
+});
+
+describe('RecurringService.runScheduler', () => {
+  const memory = new Map<string, string>();
+  const repo = new LocalStorageRepository({ getItem: k => memory.get(k) ?? null, setItem: (k, v) => { memory.set(k, v); } }, 'memory');
+  configureBackend(repo, { get: () => GUEST_USER.id, set: () => {}, guestId: () => GUEST_USER.id, listsAllProfiles: true });
+
+  test('posts each due date once, even when the series lost track of what it posted', async () => {
+    const start = addDays(today(), -2);
+    const first = await TransactionService.create({ amount: 9, merchant: 'Gym', category: 'Bills', date: start });
+    const created = await RecurringService.createFromTransaction(first.data!.id, { frequency: 'daily' });
+    const seriesId = created.data!.id;
+    assert.equal((await RecurringService.runScheduler()).data?.posted, 2);
+
+    // As if a run stopped between posting and recording it
+    await repo.upsertRecurrence({ ...(await repo.getRecurrences(GUEST_USER.id))[0], lastGeneratedDate: undefined });
+    await Promise.all([RecurringService.runScheduler(), RecurringService.runScheduler()]);
+    const dates = (await repo.getTransactions(GUEST_USER.id)).filter(t => t.seriesId === seriesId).map(t => t.date.split('T')[0]).sort();
+    assert.deepEqual(dates, [start, addDays(start, 1), addDays(start, 2)]);
+  });
+});
@@ -0,0 +1,66 @@
+import { RecurrenceRule, RecurringSeries } from './types';
+import { addDays, clampedDay, daysBetween, parseDay } from './dates';
+
+// Guards against runaway loops, e.g. a daily rule with no end listed far into the future
+const MAX_OCCURRENCES = 5000;
+
+function nthOccurrence(rule: RecurrenceRule, n: number): string {
+  const start = parseDay(rule.startDate);
+  const step = Math.max(1, Math.floor(rule.interval || 1)) * n;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(rule.startDate, step);
+    case 'weekly':
+      return addDays(rule.startDate, step * 7);
+    case 'monthly':
+      return clampedDay(start.getUTCFullYear(), start.getUTCMonth() + step, rule.dayOfMonth ?? start.getUTCDate());
+    case 'yearly':
+      return clampedDay(start.getUTCFullYear() + step, start.getUTCMonth(), start.getUTCDate());
+  }
+}
+
+// Index of an occurrence on or before `after`, so a listing can start there rather than at startDate
+function indexBefore(rule: RecurrenceRule, after: string): number {
+  if (after <= rule.startDate) return 0;
+  const start = parseDay(rule.startDate);
+  const end = parseDay(after);
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  const elapsed = {
+    daily: daysBetween(rule.startDate, after),
+    weekly: daysBetween(rule.startDate, after) / 7,
+    monthly: months,
+    yearly: months / 12
+  }[rule.frequency];
+  return Math.max(0, Math.floor(elapsed / Math.max(1, Math.floor(rule.interval || 1))) - 1);
+}
+
+/**
+ * Lists the rule's occurrence dates within (after, until], both YYYY-MM-DD.
+ * Omit `after` to start from the first occurrence.
+ */
+export function occurrencesBetween(rule: RecurrenceRule, until: string, after?: string): string[] {
+  const dates: string[] = [];
+  const first = after ? indexBefore(rule, after) : 0;
+  for (let n = first; n < first + MAX_OCCURRENCES; n++) {
+    const date = nthOccurrence(rule, n);
+    if (date > until || (rule.endDate && date > rule.endDate)) break;
+    // A monthly dayOfMonth earlier than the start day yields one date before startDate; skip it
+    if (date < rule.startDate || (after && date <= after)) continue;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Occurrences that should have been posted by `today` but have not been yet
+export function dueOccurrences(series: RecurringSeries, today: string): string[] {
+  if (series.paused) return [];
+  return occurrencesBetween(series.rule, today, series.lastGeneratedDate)
+    .filter(d => !series.skippedDates.includes(d));
+}
+
+export function upcomingOccurrences(series: RecurringSeries, from: string, days: number): string[] {
+  if (series.paused) return [];
+  return occurrencesBetween(series.rule, addDays(from, days), from)
+    .filter(d => !series.skippedDates.includes(d));
+}
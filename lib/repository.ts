@@ -0,0 +1,198 @@
+import { Transaction, Budget, BudgetPeriod, User, ExchangeRate, RecurringSeries, Settlement, Account, Category, CategoryRule, CoachConversation, RestoreMode, StoreSnapshot } from './types';
+import { validateUser, validateTransaction, validateBudget, validateRate, validateSeries, validateSettlement, validateAccount, validateCategory, validateCategoryRule, validateConversation } from './backup';
+import { categoryKey, categoryWithDescendants } from './categories';
+import { byPriority } from './rules';
+import { evaluateBudget } from './budgets';
+import { convertAmount, DEFAULT_RATES } from './currency';
+import { today } from './dates';
+
+export interface TransactionFilters {
+  category?: string;
+  startDate?: string;
+  endDate?: string; // Inclusive of the whole day
+}
+
+/**
+ * The storage contract lib/api.ts talks to. Each backend (localStorage,
+ * IndexedDB) implements it; every method awaits `ready` internally, so
+ * callers never need to.
+ */
+export interface Repository {
+  readonly name: string;
+  readonly ready: Promise<void>;
+  // Problems found while loading or migrating; surfaced to the UI instead of being swallowed
+  readonly loadErrors: string[];
+
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>; // Expects a normalized (lower-case) email
+  createUser(user: User): Promise<User>;
+  updateUser(id: string, patch: Partial<User>): Promise<User | undefined>;
+
+  getTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]>;
+  createTransaction(tx: Transaction): Promise<Transaction>;
+  updateTransaction(id: string, userId: string, patch: Partial<Transaction>): Promise<Transaction | undefined>;
+  deleteTransaction(id: string, userId: string): Promise<void>;
+
+  getBudgets(userId: string): Promise<Budget[]>; // With current-period calculated fields
+  getBudgetHistory(id: string, userId: string): Promise<BudgetPeriod[] | undefined>;
+  upsertBudget(budget: Budget): Promise<Budget>;
+  deleteBudget(id: string, userId: string): Promise<void>;
+
+  getRates(userId: string): Promise<ExchangeRate[]>;
+  upsertRate(rate: ExchangeRate): Promise<ExchangeRate>;
+  deleteRate(id: string, userId: string): Promise<void>;
+
+  getRecurrences(userId: string): Promise<RecurringSeries[]>;
+  upsertRecurrence(series: RecurringSeries): Promise<RecurringSeries>;
+  deleteRecurrence(id: string, userId: string): Promise<void>;
+
+  getSettlements(userId: string): Promise<Settlement[]>; // Newest first
+  createSettlement(settlement: Settlement): Promise<Settlement>;
+  deleteSettlement(id: string, userId: string): Promise<void>;
+
+  getAccounts(userId: string): Promise<Account[]>; // Oldest first
+  upsertAccount(account: Account): Promise<Account>;
+  deleteAccount(id: string, userId: string): Promise<void>;
+
+  getCategories(userId: string): Promise<Category[]>; // By name
+  upsertCategory(category: Category): Promise<Category>;
+  deleteCategory(id: string, userId: string): Promise<void>;
+
+  getRules(userId: string): Promise<CategoryRule[]>; // In the order they run
+  upsertRule(rule: CategoryRule): Promise<CategoryRule>;
+  deleteRule(id: string, userId: string): Promise<void>;
+
+  getConversations(userId: string): Promise<CoachConversation[]>; // Most recently active first
+  upsertConversation(conversation: CoachConversation): Promise<CoachConversation>;
+  deleteConversation(id: string, userId: string): Promise<void>;
+
+  // Moves every record owned by one user to another
+  reassignUser(fromUserId: string, toUserId: string): Promise<void>;
+
+  snapshot(): Promise<StoreSnapshot>;
+  // Data must already be validated. Merge upserts by id; replace swaps every collection.
+  restore(data: StoreSnapshot, mode: RestoreMode): Promise<void>;
+}
+
+/**
+ * Where the signed-in user id lives. The browser keeps a single session in
+ * localStorage; the Node server scopes one to each request.
+ */
+export interface SessionSource {
+  get(): string;
+  set(userId: string): void;
+  // Where an anonymous caller works: the shared GUEST_USER on a device, a guest of its own per client on the server
+  guestId(): string;
+  // False when strangers share the backend, so profile listings only show the caller
+  readonly listsAllProfiles: boolean;
+}
+
+// --- Helpers shared by the backends ---
+
+const VALIDATORS: Record<keyof StoreSnapshot, (value: unknown, path: string) => string[]> = {
+  users: validateUser,
+  transactions: validateTransaction,
+  budgets: validateBudget,
+  rates: validateRate,
+  recurrences: validateSeries,
+  settlements: validateSettlement,
+  accounts: validateAccount,
+  categories: validateCategory,
+  rules: validateCategoryRule,
+  conversations: validateConversation
+};
+
+// Records that failed validation at load, by collection; backends keep them aside rather than dropping them
+export type RejectedRecords = Partial<Record<keyof StoreSnapshot, unknown[]>>;
+
+// Leaves out records that fail validation, pushing the reasons into `errors` and the records into `rejected`
+export function validateSnapshot(data: StoreSnapshot, errors: string[], rejected: RejectedRecords = {}): StoreSnapshot {
+  const out: Partial<Record<keyof StoreSnapshot, unknown[]>> = {};
+  (Object.keys(VALIDATORS) as (keyof StoreSnapshot)[]).forEach(key => {
+    out[key] = (data[key] as unknown[]).filter((record, i) => {
+      const problems = VALIDATORS[key](record, `${key}[${i}]`);
+      errors.push(...problems);
+      if (problems.length > 0) (rejected[key] ??= []).push(record);
+      return problems.length === 0;
+    });
+  });
+  return out as StoreSnapshot;
+}
+
+// First-run data every backend starts with
+export const GUEST_USER: User = {
+  id: 'guest_user',
+  email: 'guest@zen.finance',
+  name: 'Zen Traveler',
+  preferences: { currency: 'USD', theme: 'dark' },
+  createdAt: new Date().toISOString()
+};
+
+// Ids are per user: backends key every collection by id alone
+export const seedRates = (userId: string): ExchangeRate[] =>
+  DEFAULT_RATES.map((r, i) => ({ ...r, id: `${userId}_rate_${i}`, userId }));
+
+export function matchesFilters(t: Transaction, filters?: TransactionFilters): boolean {
+  if (filters?.category && t.category !== filters.category) return false;
+  if (filters?.startDate && new Date(t.date) < new Date(filters.startDate)) return false;
+  if (filters?.endDate && t.date.split('T')[0] > filters.endDate.split('T')[0]) return false;
+  return true;
+}
+
+export const byDateDesc = (a: Transaction, b: Transaction) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+export const sortSettlements = (list: Settlement[]) =>
+  list.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+
+export const sortAccounts = (list: Account[]) => list.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const sortCategories = (list: Category[]) => list.sort((a, b) => a.name.localeCompare(b.name));
+
+export const sortRules = (list: CategoryRule[]) => list.sort(byPriority);
+
+export const sortConversations = (list: CoachConversation[]) => list.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const sortRates = (rates: ExchangeRate[]) =>
+  rates.sort((a, b) => a.base.localeCompare(b.base) || a.quote.localeCompare(b.quote) || b.date.localeCompare(a.date));
+
+export function mergeById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const byId = new Map(current.map(r => [r.id, r]));
+  incoming.forEach(r => byId.set(r.id, r));
+  return [...byId.values()];
+}
+
+/**
+ * Evaluates each stored budget period by period, with spend and limit
+ * converted into the user's preferred currency (the limit at today's rate).
+ * Backends call this from getBudgets/getBudgetHistory.
+ */
+export async function evaluateBudgets(repo: Repository, stored: Budget[], userId: string): Promise<{ budget: Budget, periods: BudgetPeriod[] }[]> {
+  const txs = await repo.getTransactions(userId);
+  const user = await repo.getUser(userId);
+  const target = user?.preferences.currency || 'USD';
+  const rates = await repo.getRates(userId);
+  const categories = await repo.getCategories(userId);
+
+  return stored.map(b => {
+    // A budget on a parent category also covers its sub-categories
+    const covered = categoryWithDescendants(categories, b.category);
+    const entries = txs
+      .filter(t => t.type === 'expense' && covered.has(categoryKey(t.category)))
+      .map(t => ({ date: t.date, amount: convertAmount(t.amount, t.currency, target, t.date, rates) }));
+    const convertedLimit = convertAmount(b.limitAmount, b.currency || target, target, today(), rates);
+    return { budget: { ...b, convertedLimit }, periods: evaluateBudget({ ...b, limitAmount: convertedLimit }, entries) };
+  });
+}
+
+// Only the current period counts towards `spent`
+export const withCurrentPeriod = ({ budget, periods }: { budget: Budget, periods: BudgetPeriod[] }): Budget => {
+  const current = periods[periods.length - 1];
+  return {
+    ...budget,
+    spent: current.spent,
+    carriedIn: current.carriedIn,
+    periodStart: current.start,
+    periodEnd: current.end
+  };
+};
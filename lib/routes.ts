@@ -0,0 +1,156 @@
+/**
+ * The REST surface of the service layer, shared by server/index.ts (which
+ * dispatches requests to lib/api.ts) and lib/http.ts (which turns service
+ * calls back into requests). Adding an endpoint is one entry here.
+ */
+
+export type ServiceName =
+  | 'AuthService' | 'TransactionService' | 'RecurringService' | 'ImportService' | 'BackupService'
+  | 'AnalyticsService' | 'BudgetService' | 'CurrencyService' | 'CoachService' | 'SplitService' | 'AccountService'
+  | 'CategoryService' | 'RuleService';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Response header carrying a new session token after login/register; empty after logout
+export const SESSION_HEADER = 'X-Zen-Session';
+
+/**
+ * Where each positional argument of the service method travels:
+ *   `param:<name>`           the `:name` path segment
+ *   `body`                   the whole JSON body (object arguments)
+ *   `body:<name>`            one field of the JSON body
+ *   `query`                  the whole query string (filter objects)
+ *   `query:<name>[:number|:boolean]`  one query parameter, optionally parsed as a number or boolean
+ *   `options`                AiRequestOptions; never sent. The client aborts the request with its
+ *                            signal and the server hands the method a signal of its own, aborted
+ *                            when the client disconnects
+ */
+export type ArgSpec = string;
+
+export interface RouteSpec {
+  method: HttpMethod;
+  path: string;
+  service: ServiceName;
+  action: string;
+  args?: ArgSpec[];
+  raw?: boolean; // The method returns a bare value instead of an ApiResponse
+  // The response is NDJSON: `{"text"}` lines as `options.onText` fires, then the ApiResponse itself
+  stream?: boolean;
+}
+
+export const ROUTES: RouteSpec[] = [
+  // Auth
+  { method: 'POST', path: '/auth/register', service: 'AuthService', action: 'register', args: ['body', 'body:options'] },
+  { method: 'POST', path: '/auth/login', service: 'AuthService', action: 'login', args: ['body:email', 'body:password'] },
+  { method: 'POST', path: '/auth/logout', service: 'AuthService', action: 'logout' },
+  { method: 'GET', path: '/auth/session', service: 'AuthService', action: 'getSession', raw: true },
+  { method: 'GET', path: '/auth/profiles', service: 'AuthService', action: 'getProfiles' },
+  { method: 'PATCH', path: '/auth/preferences', service: 'AuthService', action: 'updatePreferences', args: ['body'] },
+
+  // Transactions
+  { method: 'GET', path: '/transactions', service: 'TransactionService', action: 'getAll', args: ['query'] },
+  { method: 'GET', path: '/transactions/search', service: 'TransactionService', action: 'query', args: ['query'] },
+  { method: 'POST', path: '/transactions', service: 'TransactionService', action: 'create', args: ['body'] },
+  { method: 'POST', path: '/transactions/ai-parse', service: 'TransactionService', action: 'parseNaturalLanguage', args: ['body:input', 'options'] },
+  { method: 'POST', path: '/transactions/upload-receipt', service: 'TransactionService', action: 'uploadReceipt', args: ['body:image', 'body:mimeType', 'options'] },
+  { method: 'POST', path: '/transactions/receipt', service: 'TransactionService', action: 'createFromReceipt', args: ['body:transaction', 'body:split'] },
+  { method: 'POST', path: '/transactions/undo', service: 'TransactionService', action: 'undo' },
+  { method: 'PATCH', path: '/transactions/:id', service: 'TransactionService', action: 'update', args: ['param:id', 'body'] },
+  { method: 'POST', path: '/transactions/:id/alerts/dismiss', service: 'TransactionService', action: 'dismissAlert', args: ['param:id', 'body:kind'] },
+  { method: 'POST', path: '/transactions/:id/merge', service: 'TransactionService', action: 'mergeDuplicate', args: ['param:id', 'body:duplicateId'] },
+  { method: 'DELETE', path: '/transactions/:id', service: 'TransactionService', action: 'delete', args: ['param:id'] },
+
+  // Recurring series
+  { method: 'GET', path: '/recurrences', service: 'RecurringService', action: 'getAll' },
+  { method: 'GET', path: '/recurrences/upcoming', service: 'RecurringService', action: 'getUpcoming', args: ['query:days:number'] },
+  { method: 'POST', path: '/recurrences', service: 'RecurringService', action: 'createFromTransaction', args: ['body:transactionId', 'body:rule'] },
+  { method: 'POST', path: '/recurrences/run', service: 'RecurringService', action: 'runScheduler' },
+  { method: 'POST', path: '/recurrences/:id/skip', service: 'RecurringService', action: 'skip', args: ['param:id', 'body:date'] },
+  { method: 'PATCH', path: '/recurrences/:id', service: 'RecurringService', action: 'update', args: ['param:id', 'body'] },
+  { method: 'DELETE', path: '/recurrences/:id', service: 'RecurringService', action: 'delete', args: ['param:id'] },
+
+  // Statement import
+  { method: 'POST', path: '/import/preview', service: 'ImportService', action: 'preview', args: ['body:text', 'body:format', 'body:mapping'] },
+  { method: 'POST', path: '/import/commit', service: 'ImportService', action: 'commit', args: ['body:candidates', 'body:accountId'] },
+
+  // Export & backup
+  { method: 'GET', path: '/backup/integrity', service: 'BackupService', action: 'getIntegrityReport' },
+  { method: 'GET', path: '/backup/export', service: 'BackupService', action: 'exportTransactions', args: ['query:format', 'query'] },
+  { method: 'GET', path: '/backup', service: 'BackupService', action: 'createBackup' },
+  { method: 'POST', path: '/backup/restore', service: 'BackupService', action: 'restore', args: ['body:text', 'body:mode'] },
+
+  // Analytics
+  { method: 'GET', path: '/analytics/summary', service: 'AnalyticsService', action: 'getDashboardSummary', args: ['query:rollUp:boolean', 'query', 'query:granularity'] },
+  { method: 'GET', path: '/analytics/spending-by-category', service: 'AnalyticsService', action: 'getSpendingByCategory', args: ['query:rollUp:boolean', 'query', 'query:granularity'] },
+  { method: 'GET', path: '/analytics/forecast', service: 'AnalyticsService', action: 'getForecast', args: ['query:granularity'] },
+  { method: 'GET', path: '/analytics/monthly-trend', service: 'AnalyticsService', action: 'getMonthlyTrend', args: ['query'] },
+
+  // Budgets
+  { method: 'GET', path: '/budgets', service: 'BudgetService', action: 'getAll' },
+  { method: 'GET', path: '/budgets/suggestions', service: 'BudgetService', action: 'suggest' },
+  { method: 'POST', path: '/budgets', service: 'BudgetService', action: 'create', args: ['body'] },
+  { method: 'PUT', path: '/budgets/:id', service: 'BudgetService', action: 'update', args: ['param:id', 'body'] },
+  { method: 'DELETE', path: '/budgets/:id', service: 'BudgetService', action: 'delete', args: ['param:id'] },
+  { method: 'GET', path: '/budgets/:id/history', service: 'BudgetService', action: 'getHistory', args: ['param:id', 'query:periods:number'] },
+
+  // Accounts
+  { method: 'GET', path: '/accounts', service: 'AccountService', action: 'getAll' },
+  { method: 'POST', path: '/accounts', service: 'AccountService', action: 'create', args: ['body'] },
+  { method: 'PATCH', path: '/accounts/:id', service: 'AccountService', action: 'update', args: ['param:id', 'body'] },
+  { method: 'DELETE', path: '/accounts/:id', service: 'AccountService', action: 'delete', args: ['param:id'] },
+
+  // Categories
+  { method: 'GET', path: '/categories', service: 'CategoryService', action: 'getAll' },
+  { method: 'POST', path: '/categories', service: 'CategoryService', action: 'create', args: ['body'] },
+  { method: 'PATCH', path: '/categories/:id', service: 'CategoryService', action: 'update', args: ['param:id', 'body'] },
+  { method: 'POST', path: '/categories/:id/merge', service: 'CategoryService', action: 'merge', args: ['param:id', 'body:targetId'] },
+  { method: 'DELETE', path: '/categories/:id', service: 'CategoryService', action: 'delete', args: ['param:id'] },
+
+  // Categorisation rules
+  { method: 'GET', path: '/rules', service: 'RuleService', action: 'getAll' },
+  { method: 'POST', path: '/rules', service: 'RuleService', action: 'create', args: ['body'] },
+  { method: 'PATCH', path: '/rules/:id', service: 'RuleService', action: 'update', args: ['param:id', 'body'] },
+  { method: 'DELETE', path: '/rules/:id', service: 'RuleService', action: 'delete', args: ['param:id'] },
+
+  // Shared expenses
+  { method: 'PUT', path: '/transactions/:id/split', service: 'SplitService', action: 'share', args: ['param:id', 'body'] },
+  { method: 'DELETE', path: '/transactions/:id/split', service: 'SplitService', action: 'unshare', args: ['param:id'] },
+  { method: 'GET', path: '/splits/balances', service: 'SplitService', action: 'getBalances' },
+  { method: 'GET', path: '/settlements', service: 'SplitService', action: 'getSettlements' },
+  { method: 'POST', path: '/settlements', service: 'SplitService', action: 'settle', args: ['body'] },
+  { method: 'DELETE', path: '/settlements/:id', service: 'SplitService', action: 'deleteSettlement', args: ['param:id'] },
+
+  // Exchange rates
+  { method: 'GET', path: '/rates', service: 'CurrencyService', action: 'getRates' },
+  { method: 'PUT', path: '/rates', service: 'CurrencyService', action: 'upsertRate', args: ['body'] },
+  { method: 'DELETE', path: '/rates/:id', service: 'CurrencyService', action: 'deleteRate', args: ['param:id'] },
+
+  // Coach
+  { method: 'POST', path: '/coach/ask', service: 'CoachService', action: 'ask', args: ['body:query', 'body:conversationId', 'options'], stream: true },
+  { method: 'GET', path: '/coach/conversations', service: 'CoachService', action: 'getConversations' },
+  { method: 'PATCH', path: '/coach/conversations/:id', service: 'CoachService', action: 'renameConversation', args: ['param:id', 'body:title'] },
+  { method: 'DELETE', path: '/coach/conversations/:id', service: 'CoachService', action: 'deleteConversation', args: ['param:id'] },
+  { method: 'PUT', path: '/coach/conversations/:id/messages/:messageId/pin', service: 'CoachService', action: 'pinMessage', args: ['param:id', 'param:messageId', 'body:pinned'] },
+  { method: 'GET', path: '/coach/insights', service: 'CoachService', action: 'getInsights' }
+];
+
+// First route whose method and path match, with its decoded path parameters
+export function matchRoute(method: string, pathname: string): { route: RouteSpec, params: Record<string, string> } | undefined {
+  const parts = pathname.split('/').filter(Boolean);
+  for (const route of ROUTES) {
+    if (route.method !== method) continue;
+    const pattern = route.path.split('/').filter(Boolean);
+    if (pattern.length !== parts.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = pattern.every((segment, i) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(parts[i]);
+        return true;
+      }
+      return segment === parts[i];
+    });
+    if (matches) return { route, params };
+  }
+  return undefined;
+}
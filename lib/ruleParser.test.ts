@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTransactionLocally } from './ruleParser';
+
+const TODAY = '2024-03-13'; // A Wednesday
+
+const parse = (input: string, options: { currency?: string, categories?: string[] } = {}) =>
+  parseTransactionLocally(input, { today: TODAY, ...options }).transaction;
+
+describe('parseTransactionLocally amounts', () => {
+  const cases: [string, number][] = [
+    ['2 coffees 7.50', 7.5],
+    ['3 shirts for 45', 45],
+    ['bought 3 shirts for 45', 45],
+    ['coffee 5 at starbucks', 5],
+    ['paid 20 for 2 tickets', 20],
+    ['lunch 12 with 3 friends', 12],
+    ['rent 1,200 monthly', 1200],
+    ['groceries 9,50', 9.5],
+    ['dinner 1.234,56', 1234.56],
+    ['taxi 3 days ago 18', 18],
+    ['lunch on March 5 for 14', 14],
+    ['2 coffees', 2]
+  ];
+  for (const [input, amount] of cases) {
+    test(`"${input}" costs ${amount}`, () => {
+      assert.equal(parse(input).amount, amount);
+    });
+  }
+
+  test('reads currency symbols, codes and words', () => {
+    assert.deepEqual([parse('€12 lunch'), parse('lunch 12 GBP'), parse('EUR 30 train'), parse('20 bucks for pizza')].map(t => [t.amount, t.currency]), [
+      [12, 'EUR'], [12, 'GBP'], [30, 'EUR'], [20, 'USD']
+    ]);
+    assert.equal(parse('lunch 12', { currency: 'CHF' }).currency, 'CHF');
+  });
+});
+
+describe('parseTransactionLocally fields', () => {
+  test('finds merchant, category and date', () => {
+    const tx = parse('latte at Blue Bottle yesterday 4.50');
+    assert.deepEqual([tx.merchant, tx.category, tx.date, tx.type, tx.amount], ['Blue Bottle', 'Food', '2024-03-12', 'expense', 4.5]);
+  });
+
+  test('resolves relative and named dates', () => {
+    assert.equal(parse('lunch 10 last friday').date, '2024-03-08');
+    assert.equal(parse('lunch 10 on wednesday').date, '2024-03-06');
+    assert.equal(parse('gift 40 on December 24').date, '2023-12-24');
+    assert.equal(parse('gift 40 5th of March').date, '2024-03-05');
+  });
+
+  test('tells income and transfers from spending', () => {
+    assert.equal(parse('got paid 2500').type, 'income');
+    assert.equal(parse('moved 200 to savings').type, 'transfer');
+    assert.equal(parse('refund from amazon 30').category, 'Income');
+  });
+
+  test('skips keyword categories the user does not have', () => {
+    assert.equal(parse('uber 14', { categories: ['Food'] }).category, 'Other');
+  });
+
+  test('splits evenly with named people', () => {
+    assert.deepEqual(parse('dinner 90 split with Ana and joe').split?.shares.map(s => [s.participant, s.amount]), [
+      ['You', 30], ['Ana', 30], ['Joe', 30]
+    ]);
+  });
+});
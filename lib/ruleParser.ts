@@ -0,0 +1,204 @@
+import { Transaction, TransactionType } from './types';
+import { SUPPORTED_CURRENCIES } from './currency';
+import { addDays, parseDay, today as currentDay, toDay } from './dates';
+import { equalSplitWith } from './splits';
+
+/**
+ * Deterministic, offline parser for the magic input. Far less capable than
+ * a model, but instant and always available: the service falls back to it
+ * when no AI provider answers, and the UI uses it to pre-fill the preview.
+ */
+
+export const LOCAL_PARSER_MODEL = 'local-rules';
+
+const SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: 'USD', dollars: 'USD', buck: 'USD', bucks: 'USD',
+  euro: 'EUR', euros: 'EUR',
+  pound: 'GBP', pounds: 'GBP', quid: 'GBP',
+  yen: 'JPY', franc: 'CHF', francs: 'CHF'
+};
+
+// Checked in order; the first category with a keyword in the input wins
+const CATEGORY_KEYWORDS: [string, string[]][] = [
+  ['Food', ['coffee', 'latte', 'cappuccino', 'espresso', 'tea', 'breakfast', 'brunch', 'lunch', 'dinner', 'restaurant', 'cafe', 'pizza', 'burger', 'sushi', 'groceries', 'grocery', 'supermarket', 'bakery', 'takeout', 'starbucks', 'mcdonalds']],
+  ['Transport', ['uber', 'lyft', 'taxi', 'cab', 'bus', 'train', 'metro', 'subway', 'tram', 'fuel', 'gas', 'petrol', 'parking', 'toll', 'flight', 'airline']],
+  ['Utilities', ['rent', 'electricity', 'electric', 'water', 'internet', 'wifi', 'broadband', 'phone', 'mobile', 'utility', 'utilities', 'heating', 'insurance']],
+  ['Entertainment', ['movie', 'movies', 'cinema', 'netflix', 'spotify', 'concert', 'tickets', 'game', 'games', 'steam', 'theatre', 'theater', 'bar', 'drinks', 'beer']],
+  ['Health', ['pharmacy', 'doctor', 'dentist', 'medicine', 'gym', 'clinic', 'hospital', 'vitamins', 'therapy']],
+  ['Shopping', ['amazon', 'clothes', 'shoes', 'shirt', 'jacket', 'mall', 'store', 'shop', 'ikea', 'electronics', 'gift']]
+];
+
+// Money coming in, or moving between the user's own accounts; anything else is spending
+const INCOME = /\b(got paid|paid me|salary|paycheck|payday|wages?|refund(?:ed)?|reimburse(?:d|ment)|received|earned|bonus|dividends?|interest)\b/i;
+const TRANSFER = /\b(transfer(?:red)?|moved?|top(?:ped)? up)\b.*\b(?:to|into)\s+(?:my\s+)?(savings|checking|account|card)\b/i;
+
+const RECURRENCE = /\b(monthly|weekly|yearly|annual|annually|every (?:day|week|month|year)|subscription|membership|rent)\b/i;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Words that follow "at"/"from" without naming a merchant
+const NOT_MERCHANTS = new Set(['the', 'a', 'an', 'home', 'work', 'noon', 'night', 'least', 'most', 'my', 'our']);
+
+/**
+ * "9,50" and "1.234,56" use a decimal comma; "1,200" and "1,234.56" use a
+ * thousands comma. A trailing group of one or two digits is the decimal part.
+ */
+function toNumber(raw: string): number {
+  const lastSep = Math.max(raw.lastIndexOf(','), raw.lastIndexOf('.'));
+  if (lastSep < 0) return parseFloat(raw);
+  const decimals = raw.length - lastSep - 1;
+  const whole = raw.slice(0, lastSep).replace(/[.,]/g, '');
+  return decimals <= 2 ? parseFloat(`${whole}.${raw.slice(lastSep + 1)}`) : parseFloat(raw.replace(/[.,]/g, ''));
+}
+
+// A number followed by a noun rather than a preposition counts items: "2 coffees", but not "12 at Joe's"
+const COUNTED = /^\s+(?!(?:at|from|for|on|in|to|with|and|each|total|yesterday|today|last|ago)\b)[a-z]/i;
+
+const NUMBER = String.raw`(\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)`;
+const CODES = SUPPORTED_CURRENCIES.join('|');
+
+function extractAmount(text: string): { amount: number, currency?: string, match: string } | undefined {
+  const symbol = new RegExp(String.raw`([$€£¥₹])\s?${NUMBER}`).exec(text);
+  if (symbol) return { amount: toNumber(symbol[2]), currency: SYMBOLS[symbol[1]], match: symbol[0] };
+
+  const codeAfter = new RegExp(String.raw`${NUMBER}\s?([$€£¥₹]|\b(?:${CODES})\b|\b(?:${Object.keys(CURRENCY_WORDS).join('|')})\b)`, 'i').exec(text);
+  if (codeAfter) {
+    const unit = codeAfter[2];
+    const currency = SYMBOLS[unit] || CURRENCY_WORDS[unit.toLowerCase()] || unit.toUpperCase();
+    return { amount: toNumber(codeAfter[1]), currency, match: codeAfter[0] };
+  }
+
+  const codeBefore = new RegExp(String.raw`\b(${CODES})\s?${NUMBER}`, 'i').exec(text);
+  if (codeBefore) return { amount: toNumber(codeBefore[2]), currency: codeBefore[1].toUpperCase(), match: codeBefore[0] };
+
+  // Otherwise the first standalone number (date phrases are stripped by the caller), passing over
+  // counts like the 2 in "2 coffees 7.50" while another number is left to be the price
+  const bare = [...text.matchAll(new RegExp(String.raw`(?<![\w-])${NUMBER}(?![\w-])`, 'g'))];
+  const price = bare.find(m => !COUNTED.test(text.slice(m.index + m[0].length))) || bare[0];
+  if (price) return { amount: toNumber(price[1]), match: price[0] };
+  return undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Most recent `weekday` strictly before `today` ("last Friday" on a Friday is a week ago)
+function previousWeekday(today: string, weekday: number): string {
+  const diff = (parseDay(today).getUTCDay() - weekday + 7) % 7 || 7;
+  return addDays(today, -diff);
+}
+
+function extractDate(text: string, today: string): { date: string, match: string } | undefined {
+  const lower = text.toLowerCase();
+
+  const iso = /\b(\d{4}-\d{2}-\d{2})\b/.exec(lower);
+  if (iso && !isNaN(parseDay(iso[1]).getTime())) return { date: iso[1], match: iso[0] };
+
+  const relative = /\b(day before yesterday|yesterday|today|tonight|this morning|last week)\b/.exec(lower);
+  if (relative) {
+    const offsets: Record<string, number> = { 'day before yesterday': -2, yesterday: -1, 'last week': -7 };
+    return { date: addDays(today, offsets[relative[1]] || 0), match: relative[0] };
+  }
+
+  const ago = /\b(\d+|a|an|one|two|three|four|five|six|seven)\s+(day|week)s?\s+ago\b/.exec(lower);
+  if (ago) {
+    const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+    const n = words[ago[1]] ?? parseInt(ago[1], 10);
+    return { date: addDays(today, -n * (ago[2] === 'week' ? 7 : 1)), match: ago[0] };
+  }
+
+  const weekday = new RegExp(String.raw`\b(?:last|on|this past)?\s*(${WEEKDAYS.join('|')})\b`).exec(lower);
+  if (weekday) return { date: previousWeekday(today, WEEKDAYS.indexOf(weekday[1])), match: weekday[0] };
+
+  // "March 5", "5 March", "5th of March"; a date later than today means last year
+  const monthNames = MONTHS.map(m => `${m.slice(0, 3)}(?:${m.slice(3)})?`).join('|');
+  const named = new RegExp(String.raw`\b(?:(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(${monthNames})|(${monthNames})\s+(\d{1,2})(?:st|nd|rd|th)?)\b`).exec(lower);
+  if (named) {
+    const day = parseInt(named[1] || named[4], 10);
+    const month = MONTHS.findIndex(m => (named[2] || named[3]).startsWith(m.slice(0, 3)));
+    const year = parseDay(today).getUTCFullYear();
+    const candidate = toDay(new Date(Date.UTC(year, month, day)));
+    const date = candidate > today ? toDay(new Date(Date.UTC(year - 1, month, day))) : candidate;
+    return { date, match: named[0] };
+  }
+  return undefined;
+}
+
+function extractMerchant(text: string): string | undefined {
+  const match = /\b(?:at|from|@)\s+([A-Za-z0-9][\w'&.-]*(?:\s+[A-Z0-9][\w'&.-]*)*)/.exec(text);
+  if (!match) return undefined;
+  const name = match[1].replace(/[.,]+$/, '');
+  if (NOT_MERCHANTS.has(name.toLowerCase()) || /^\d/.test(name)) return undefined;
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// "split with Ana and Joe", "shared with Sam, Kim & Lee"
+function extractSplitWith(text: string): string[] {
+  const match = /\b(?:split|shared?)\s+(?:it\s+)?(?:with|between)\s+(.+?)(?=\s+(?:at|on|for|from|yesterday|today|last)\b|[.;!?]|$)/i.exec(text);
+  if (!match) return [];
+  return match[1]
+    .split(/\s*(?:,|&|\band\b)\s*/i)
+    .map(name => name.trim())
+    .filter(name => name && !/^(me|myself)$/i.test(name))
+    .map(name => name.charAt(0).toUpperCase() + name.slice(1));
+}
+
+function extractCategory(text: string): { category: string, keywords: string[] } | undefined {
+  const words = new Set(text.toLowerCase().match(/[a-z]+/g) || []);
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    const hits = keywords.filter(k => words.has(k));
+    if (hits.length > 0) return { category, keywords: hits };
+  }
+  return undefined;
+}
+
+/**
+ * Parses free text into the same shape the AI parser returns. `confidence`
+ * (0-1) reflects how many fields were found explicitly rather than defaulted,
+ * and is also stored on `aiMetadata`.
+ */
+export function parseTransactionLocally(
+  input: string,
+  options: { currency?: string, today?: string, categories?: string[] } = {}
+): { transaction: Partial<Transaction>, confidence: number } {
+  const today = options.today || currentDay();
+  const date = extractDate(input, today);
+  // "March 5" and "3 days ago" hold numbers that are not the amount
+  const amount = extractAmount(date ? input.replace(new RegExp(escapeRegExp(date.match), 'i'), ' ') : input);
+  const merchant = extractMerchant(input);
+  // Keyword categories the user has renamed or removed are not offered
+  const found = extractCategory(input);
+  const category = found && (!options.categories || options.categories.some(c => c.toLowerCase() === found.category.toLowerCase())) ? found : undefined;
+  const splitWith = extractSplitWith(input);
+  const type: TransactionType = TRANSFER.test(input) ? 'transfer' : INCOME.test(input) ? 'income' : 'expense';
+  // Income and transfers are not spending, so spending keywords do not apply
+  const label = type === 'income' ? 'Income' : type === 'transfer' ? 'Transfer' : category?.category;
+
+  const confidence = Math.round((
+    (amount ? (amount.currency ? 0.4 : 0.25) : 0) +
+    (label ? 0.25 : 0) +
+    (merchant ? 0.2 : 0) +
+    (date ? 0.15 : 0.1) // "No date" usually does mean today
+  ) * 100) / 100;
+
+  return {
+    transaction: {
+      type,
+      amount: amount?.amount || 0,
+      currency: amount?.currency || options.currency || 'USD',
+      merchant: merchant || 'Unknown',
+      category: label || 'Other',
+      date: date?.date || today,
+      description: input.trim(),
+      isRecurring: RECURRENCE.test(input),
+      tags: category?.keywords.slice(0, 3) || [],
+      split: splitWith.length > 0 && amount && type === 'expense' ? equalSplitWith(amount.amount, splitWith) : undefined,
+      aiMetadata: { confidence, originalPrompt: input, modelUsed: LOCAL_PARSER_MODEL }
+    },
+    confidence
+  };
+}
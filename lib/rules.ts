@@ -0,0 +1,73 @@
+import { CategoryRule, Transaction } from './types';
+
+// Rules created from corrections start below anything the user writes by hand
+export const LEARNED_RULE_PRIORITY = 0;
+export const MANUAL_RULE_PRIORITY = 10;
+
+export const merchantKey = (merchant: string) => (merchant || '').trim().toLowerCase();
+
+// Highest priority first; on a tie, hand-written rules beat learned ones, then the older rule wins
+export const byPriority = (a: CategoryRule, b: CategoryRule) =>
+  b.priority - a.priority ||
+  Number(a.source === 'learned') - Number(b.source === 'learned') ||
+  a.createdAt.localeCompare(b.createdAt);
+
+export function ruleMatches(rule: CategoryRule, tx: Partial<Transaction>): boolean {
+  if (!rule.enabled) return false;
+  if (rule.merchant && !merchantKey(tx.merchant).includes(merchantKey(rule.merchant))) return false;
+  if (rule.minAmount !== undefined && !((tx.amount || 0) > rule.minAmount)) return false;
+  return true;
+}
+
+// "merchant contains starbucks, over 20 → Food, tags coffee, flag Large purchase"
+export function describeRule(rule: CategoryRule): string {
+  const conditions = [
+    rule.merchant && `merchant contains "${rule.merchant}"`,
+    rule.minAmount !== undefined && `over ${rule.minAmount}`
+  ].filter(Boolean).join(', ');
+  const outcomes = [
+    rule.category,
+    rule.tags?.length && `tags ${rule.tags.join(', ')}`,
+    rule.flag && `flag "${rule.flag}"`
+  ].filter(Boolean).join(', ');
+  return `${conditions} → ${outcomes}`;
+}
+
+// Draft fields a parser, a rule or the AI can fill in
+const SUGGESTED_FIELDS: (keyof Transaction)[] = ['type', 'amount', 'currency', 'date', 'category', 'merchant', 'tags'];
+
+/**
+ * Records the machine-filled values of a draft on `suggested`, so saving it
+ * can credit them to the AI in the audit trail and tell which ones the user
+ * corrected. `fields` narrows it to what was actually filled in, e.g. only the
+ * category of an imported row.
+ */
+export function withSuggestion(tx: Partial<Transaction>, fields = SUGGESTED_FIELDS): Partial<Transaction> {
+  const filled = fields.filter(f => tx[f] !== undefined && tx[f] !== '' && !(Array.isArray(tx[f]) && tx[f].length === 0));
+  if (filled.length === 0) return tx;
+  return { ...tx, suggested: { ...tx.suggested, ...Object.fromEntries(filled.map(f => [f, tx[f]])) } };
+}
+
+/**
+ * Runs the rules over a parsed or imported transaction. The first matching
+ * rule with a category sets it; tags and flags from every matching rule are
+ * added. `applied` lists the matching rules in the order they ran.
+ */
+export function applyRules(tx: Partial<Transaction>, rules: CategoryRule[]): { transaction: Partial<Transaction>, applied: CategoryRule[] } {
+  const applied = [...rules].sort(byPriority).filter(r => ruleMatches(r, tx));
+  if (applied.length === 0) return { transaction: tx, applied };
+
+  const category = applied.find(r => r.category)?.category;
+  const tags = [...new Set([...(tx.tags || []), ...applied.flatMap(r => r.tags || [])])];
+  const flags = [...new Set([...(tx.flags || []), ...applied.map(r => r.flag).filter(Boolean)])];
+  return {
+    transaction: {
+      ...tx,
+      category: category || tx.category,
+      tags,
+      flags: flags.length > 0 ? flags : undefined,
+      appliedRules: applied.map(r => r.id)
+    },
+    applied
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveSplit } from './splits';
+import { SplitRequest } from './types';
+
+const totalCents = (amounts: number[]) => Math.round(amounts.reduce((sum, a) => sum + a, 0) * 100);
+const amounts = (amount: number, request: SplitRequest) => resolveSplit(amount, request).split.shares.map(s => s.amount);
+
+describe('resolveSplit rounding', () => {
+  test('equal splits hand leftover cents to the first participants', () => {
+    const shares = amounts(100, { method: 'equal', paidBy: 'You', shares: [{ participant: 'You' }, { participant: 'Ana' }, { participant: 'Joe' }] });
+    assert.deepEqual(shares, [33.34, 33.33, 33.33]);
+  });
+
+  test('equal splits sum to the amount for awkward totals', () => {
+    for (const amount of [0.01, 0.05, 10, 19.99, 123.45, 1000.01]) {
+      for (let people = 2; people <= 7; people++) {
+        const shares = amounts(amount, { method: 'equal', paidBy: 'p0', shares: Array.from({ length: people }, (_, i) => ({ participant: `p${i}` })) });
+        assert.equal(totalCents(shares), Math.round(amount * 100), `${amount} between ${people}`);
+        assert.ok(Math.max(...shares) - Math.min(...shares) <= 0.0100001);
+      }
+    }
+  });
+
+  test('percentage drift goes to the payer', () => {
+    const shares = amounts(10, {
+      method: 'percentage',
+      paidBy: 'Joe',
+      shares: [{ participant: 'You', value: 33.33 }, { participant: 'Ana', value: 33.33 }, { participant: 'Joe', value: 33.34 }]
+    });
+    assert.deepEqual(shares, [3.33, 3.33, 3.34]);
+    const thirds = amounts(0.1, {
+      method: 'percentage',
+      paidBy: 'Ana',
+      shares: [{ participant: 'You', value: 50 }, { participant: 'Ana', value: 25 }, { participant: 'Joe', value: 25 }]
+    });
+    assert.equal(totalCents(thirds), 10);
+    assert.deepEqual(thirds, [0.05, 0.02, 0.03]);
+  });
+
+  test('exact shares within a cent are accepted and rounded', () => {
+    const shares = amounts(30, { method: 'exact', paidBy: 'You', shares: [{ participant: 'You', value: 10.004 }, { participant: 'Ana', value: 20 }] });
+    assert.equal(totalCents(shares), 3000);
+  });
+});
+
+describe('resolveSplit validation', () => {
+  test('rejects percentages that do not reach 100', () => {
+    const { split, errors } = resolveSplit(50, { method: 'percentage', paidBy: 'You', shares: [{ participant: 'You', value: 60 }, { participant: 'Ana', value: 30 }] });
+    assert.equal(split, undefined);
+    assert.deepEqual(errors, ['Percentages add up to 90%, not 100%']);
+  });
+
+  test('matches names case-insensitively', () => {
+    const { errors } = resolveSplit(50, { method: 'equal', paidBy: 'ana', shares: [{ participant: 'Ana' }, { participant: 'ANA ' }] });
+    assert.deepEqual(errors, ['Participants must have different names']);
+  });
+});
@@ -0,0 +1,117 @@
+import { ExpenseSplit, PairBalance, Settlement, SplitRequest, SplitShare, Transaction } from './types';
+
+// How the ledger owner appears among a split's participants
+export const SELF_PARTICIPANT = 'You';
+
+// Shares and settlements are compared in cents; anything smaller is rounding
+const TOLERANCE = 0.01;
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+// Names are matched case-insensitively, so "ana" and "Ana" are one person
+export const participantKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Turns a split request into per-participant amounts, or explains why it
+ * cannot be split. Equal splits hand leftover cents to the first participants
+ * so the shares always sum to `amount` exactly.
+ */
+export function resolveSplit(amount: number, request: SplitRequest): { split?: ExpenseSplit, errors: string[] } {
+  const errors: string[] = [];
+  const shares = (request.shares || []).map(s => ({ ...s, participant: s.participant?.trim() || '' }));
+  const keys = shares.map(s => participantKey(s.participant));
+
+  if (!['equal', 'percentage', 'exact'].includes(request.method)) errors.push('Unknown split method');
+  if (shares.length < 2) errors.push('A split needs at least two participants');
+  if (keys.some(k => !k)) errors.push('Every participant needs a name');
+  if (new Set(keys).size !== keys.length) errors.push('Participants must have different names');
+  if (!keys.includes(participantKey(request.paidBy || ''))) errors.push('The payer must be one of the participants');
+  if (errors.length > 0) return { errors };
+
+  let resolved: SplitShare[];
+  if (request.method === 'equal') {
+    const totalCents = Math.round(amount * 100);
+    const base = Math.floor(totalCents / shares.length);
+    resolved = shares.map((s, i) => ({ participant: s.participant, amount: (base + (i < totalCents - base * shares.length ? 1 : 0)) / 100 }));
+  } else {
+    if (shares.some(s => typeof s.value !== 'number' || !isFinite(s.value) || s.value < 0)) {
+      return { errors: [request.method === 'percentage' ? 'Every participant needs a percentage' : 'Every participant needs an amount'] };
+    }
+    const total = shares.reduce((sum, s) => sum + s.value, 0);
+    if (request.method === 'percentage' && Math.abs(total - 100) > TOLERANCE) {
+      return { errors: [`Percentages add up to ${cents(total)}%, not 100%`] };
+    }
+    if (request.method === 'exact' && Math.abs(total - amount) > TOLERANCE) {
+      return { errors: [`Shares add up to ${total.toFixed(2)}, not ${amount.toFixed(2)}`] };
+    }
+    resolved = shares.map(s => ({
+      participant: s.participant,
+      value: s.value,
+      amount: request.method === 'percentage' ? cents(amount * s.value / 100) : cents(s.value)
+    }));
+    // Percentages can leave a cent over; the payer absorbs it
+    const drift = cents(amount - resolved.reduce((sum, s) => sum + s.amount, 0));
+    const payer = resolved.find(s => participantKey(s.participant) === participantKey(request.paidBy));
+    payer.amount = cents(payer.amount + drift);
+  }
+
+  const paidBy = resolved.find(s => participantKey(s.participant) === participantKey(request.paidBy)).participant;
+  return { split: { method: request.method, paidBy, shares: resolved }, errors };
+}
+
+// "Dinner split with Ana and Joe": the owner paid, everyone pays the same
+export function equalSplitWith(amount: number, others: string[]): ExpenseSplit | undefined {
+  const { split } = resolveSplit(amount, {
+    method: 'equal',
+    paidBy: SELF_PARTICIPANT,
+    shares: [SELF_PARTICIPANT, ...others].map(participant => ({ participant }))
+  });
+  return split;
+}
+
+// Re-applies a stored split to a new amount, keeping the method and values
+export const toSplitRequest = (split: ExpenseSplit): SplitRequest => ({
+  method: split.method,
+  paidBy: split.paidBy,
+  shares: split.shares.map(({ participant, value }) => ({ participant, value }))
+});
+
+/**
+ * Net balance between each pair of people. Every non-payer owes the payer
+ * their share; a settlement pays that back. `convert` brings amounts into
+ * the user's currency. Pairs that net to zero are left out.
+ */
+export function pairBalances(
+  txs: Transaction[],
+  settlements: Settlement[],
+  convert: (amount: number, currency: string, date: string) => number
+): PairBalance[] {
+  const names = new Map<string, string>(); // key -> first spelling seen
+  const owed = new Map<string, number>(); // "debtor\u0000creditor" -> amount
+  const add = (debtor: string, creditor: string, amount: number) => {
+    const [d, c] = [participantKey(debtor), participantKey(creditor)];
+    if (d === c) return;
+    if (!names.has(d)) names.set(d, debtor.trim());
+    if (!names.has(c)) names.set(c, creditor.trim());
+    owed.set(`${d}\u0000${c}`, (owed.get(`${d}\u0000${c}`) || 0) + amount);
+  };
+
+  txs.forEach(t => t.split?.shares.forEach(s => add(s.participant, t.split.paidBy, convert(s.amount, t.currency, t.date))));
+  // Paying someone back reduces what you owe them
+  settlements.forEach(s => add(s.to, s.from, convert(s.amount, s.currency, s.date)));
+
+  const balances: PairBalance[] = [];
+  const seen = new Set<string>();
+  owed.forEach((_, pair) => {
+    const [a, b] = pair.split('\u0000');
+    const key = [a, b].sort().join('\u0000');
+    if (seen.has(key)) return;
+    seen.add(key);
+    const net = cents((owed.get(`${a}\u0000${b}`) || 0) - (owed.get(`${b}\u0000${a}`) || 0));
+    if (Math.abs(net) < TOLERANCE) return;
+    balances.push(net > 0
+      ? { debtor: names.get(a), creditor: names.get(b), amount: net }
+      : { debtor: names.get(b), creditor: names.get(a), amount: -net });
+  });
+  return balances.sort((x, y) => y.amount - x.amount);
+}
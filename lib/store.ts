@@ -1,108 +1,429 @@
 
-import { Transaction, Budget, User } from './types';
+import { Transaction, Budget, BudgetPeriod, User, ExchangeRate, RecurringSeries, Settlement, Account, Category, CategoryRule, CoachConversation, RestoreMode, StoreSnapshot } from './types';
+import {
+  Repository, RejectedRecords, SessionSource, TransactionFilters, validateSnapshot, GUEST_USER, seedRates, matchesFilters,
+  byDateDesc, sortRates, sortSettlements, sortAccounts, sortCategories, sortRules, sortConversations, mergeById, evaluateBudgets, withCurrentPeriod
+} from './repository';
+import { migrate, SCHEMA_VERSION } from './migrations';
+import { IndexedDbRepository, LegacySource } from './idb';
 
-const STORAGE_KEYS = {
+export const STORAGE_KEYS = {
   USERS: 'zen_users',
   TRANSACTIONS: 'zen_transactions',
   BUDGETS: 'zen_budgets',
-  SESSION: 'zen_session'
+  RATES: 'zen_rates',
+  RECURRENCES: 'zen_recurrences',
+  SETTLEMENTS: 'zen_settlements',
+  ACCOUNTS: 'zen_accounts',
+  CATEGORIES: 'zen_categories',
+  RULES: 'zen_rules',
+  CONVERSATIONS: 'zen_conversations',
+  SESSION: 'zen_session',
+  SCHEMA_VERSION: 'zen_schema_version',
+  BACKEND: 'zen_storage_backend', // 'localStorage' | 'indexedDB'; unset picks IndexedDB when available
+  MOVED_TO_IDB: 'zen_moved_to_indexeddb',
+  API_URL: 'zen_api_url', // Overrides ZEN_API_URL; empty string forces the in-browser backend
+  API_SESSION: 'zen_api_session' // Bearer token issued by the REST server
 };
 
-class MockDatabase {
-  private users: User[] = [];
-  private transactions: Transaction[] = [];
-  private budgets: Budget[] = [];
+// The subset of the Web Storage API the repository needs; the Node server passes a file-backed one
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const COLLECTION_KEYS: Record<keyof StoreSnapshot, string> = {
+  users: STORAGE_KEYS.USERS,
+  transactions: STORAGE_KEYS.TRANSACTIONS,
+  budgets: STORAGE_KEYS.BUDGETS,
+  rates: STORAGE_KEYS.RATES,
+  recurrences: STORAGE_KEYS.RECURRENCES,
+  settlements: STORAGE_KEYS.SETTLEMENTS,
+  accounts: STORAGE_KEYS.ACCOUNTS,
+  categories: STORAGE_KEYS.CATEGORIES,
+  rules: STORAGE_KEYS.RULES,
+  conversations: STORAGE_KEYS.CONVERSATIONS
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_KEYS) as (keyof StoreSnapshot)[];
+
+/**
+ * Reads the raw `zen_*` collections. Unreadable payloads are copied to
+ * `<key>_corrupt` before being reset; records that fail validation go to
+ * `<key>_rejected` (see quarantineRecords). Either way nothing is lost
+ * before the user can restore a backup.
+ */
+function readCollections(storage: KeyValueStore, errors: string[]): { data: Partial<StoreSnapshot>, hasData: boolean } {
+  const data: Partial<StoreSnapshot> = {};
+  let hasData = false;
+
+  COLLECTIONS.forEach(collection => {
+    const key = COLLECTION_KEYS[collection];
+    const raw = storage.getItem(key);
+    if (!raw) return;
+    hasData = true;
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) throw new Error('expected an array');
+      data[collection] = parsed;
+    } catch (e) {
+      console.error(`Database corruption detected in ${key}. Resetting void layer.`, e);
+      storage.setItem(`${key}_corrupt`, raw);
+      errors.push(`${key}: unreadable, raw data kept in ${key}_corrupt`);
+    }
+  });
+
+  return { data, hasData };
+}
 
-  constructor() {
+/**
+ * Appends records that failed validation to `<key>_rejected`, keeping any set
+ * aside by earlier loads. Must run before the collection is written back
+ * without them.
+ */
+export function quarantineRecords(storage: KeyValueStore, rejected: RejectedRecords, errors: string[]) {
+  (Object.keys(rejected) as (keyof StoreSnapshot)[]).forEach(collection => {
+    const records = rejected[collection];
+    if (!records?.length) return;
+    const key = `${COLLECTION_KEYS[collection]}_rejected`;
+    let kept: unknown[] = [];
+    try {
+      const parsed = JSON.parse(storage.getItem(key) || '[]');
+      if (Array.isArray(parsed)) kept = parsed;
+    } catch (e) {
+      // An unreadable quarantine is replaced; the records in hand matter more
+    }
+    // Until the collection is next written the same records fail again on every load
+    const known = new Set(kept.map(r => JSON.stringify(r)));
+    storage.setItem(key, JSON.stringify([...kept, ...records.filter(r => !known.has(JSON.stringify(r)))]));
+    errors.push(`${COLLECTION_KEYS[collection]}: ${records.length} invalid record(s) set aside in ${key}`);
+  });
+}
+
+// Data written before versioning existed is schema v1
+function storedSchemaVersion(storage: KeyValueStore, hasData: boolean): number {
+  const stored = parseInt(storage.getItem(STORAGE_KEYS.SCHEMA_VERSION) || '', 10);
+  if (Number.isInteger(stored)) return stored;
+  return hasData ? 1 : SCHEMA_VERSION;
+}
+
+// One-time move of the localStorage collections into IndexedDB
+const legacyLocalStorage: LegacySource = {
+  read(errors) {
+    if (localStorage.getItem(STORAGE_KEYS.MOVED_TO_IDB)) return null;
+    const { data, hasData } = readCollections(localStorage, errors);
+    return hasData ? { data, version: storedSchemaVersion(localStorage, hasData) } : null;
+  },
+  // The old keys stay in place as a fallback; nothing writes to them afterwards
+  markImported() {
+    localStorage.setItem(STORAGE_KEYS.MOVED_TO_IDB, new Date().toISOString());
+  }
+};
+
+/**
+ * Keeps every collection in memory and persists to the `zen_*` keys of
+ * `storage` (localStorage unless told otherwise). Writes only touch the
+ * collection that changed.
+ */
+export class LocalStorageRepository implements Repository {
+  readonly ready = Promise.resolve();
+  readonly loadErrors: string[] = [];
+  private data: StoreSnapshot;
+
+  constructor(private storage: KeyValueStore = localStorage, readonly name = 'localStorage') {
     this.hydrate();
     // Initialize default guest user if DB is empty
-    if (this.users.length === 0) {
-      this.createUser({
-        id: 'guest_user',
-        email: 'guest@zen.finance',
-        name: 'Zen Traveler',
-        preferences: { currency: 'USD', theme: 'dark' },
-        createdAt: new Date().toISOString()
-      });
+    if (this.data.users.length === 0) {
+      this.data.users.push(GUEST_USER);
+      this.commit('users');
+    }
+    // Seed the baseline rate table so conversion works out of the box
+    if (this.data.rates.length === 0) {
+      this.data.rates = seedRates(GUEST_USER.id);
+      this.commit('rates');
     }
   }
 
   private hydrate() {
-    try {
-      this.users = JSON.parse(localStorage.getItem(STORAGE_KEYS.USERS) || '[]');
-      this.transactions = JSON.parse(localStorage.getItem(STORAGE_KEYS.TRANSACTIONS) || '[]');
-      this.budgets = JSON.parse(localStorage.getItem(STORAGE_KEYS.BUDGETS) || '[]');
-    } catch (e) {
-      console.error('Database corruption detected. Resetting void layer.', e);
-    }
+    const { data, hasData } = readCollections(this.storage, this.loadErrors);
+    const { data: migrated, applied } = migrate(data, storedSchemaVersion(this.storage, hasData));
+    const rejected: RejectedRecords = {};
+    this.data = validateSnapshot(migrated, this.loadErrors, rejected);
+    quarantineRecords(this.storage, rejected, this.loadErrors);
+
+    if (applied.length > 0) this.commit();
+    this.storage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(SCHEMA_VERSION));
   }
 
-  private commit() {
-    localStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(this.users));
-    localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(this.transactions));
-    localStorage.setItem(STORAGE_KEYS.BUDGETS, JSON.stringify(this.budgets));
+  private commit(...collections: (keyof StoreSnapshot)[]) {
+    (collections.length > 0 ? collections : COLLECTIONS).forEach(c => {
+      this.storage.setItem(COLLECTION_KEYS[c], JSON.stringify(this.data[c]));
+    });
   }
 
   // --- User Queries ---
+  async getUsers(): Promise<User[]> {
+    return [...this.data.users];
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    return this.users.find(u => u.id === id);
+    return this.data.users.find(u => u.id === id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.data.users.find(u => u.email === email);
   }
 
   async createUser(user: User): Promise<User> {
-    this.users.push(user);
-    this.commit();
+    this.data.users.push(user);
+    this.commit('users');
     return user;
   }
 
+  async updateUser(id: string, patch: Partial<User>): Promise<User | undefined> {
+    const idx = this.data.users.findIndex(u => u.id === id);
+    if (idx < 0) return undefined;
+    this.data.users[idx] = { ...this.data.users[idx], ...patch, id };
+    this.commit('users');
+    return this.data.users[idx];
+  }
+
   // --- Transaction Queries ---
-  async getTransactions(userId: string, filters?: { category?: string, startDate?: string }): Promise<Transaction[]> {
-    let data = this.transactions.filter(t => t.userId === userId);
-    
-    if (filters?.category) {
-      data = data.filter(t => t.category === filters.category);
-    }
-    if (filters?.startDate) {
-      data = data.filter(t => new Date(t.date) >= new Date(filters.startDate));
-    }
-    
-    return data.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  async getTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]> {
+    return this.data.transactions
+      .filter(t => t.userId === userId && matchesFilters(t, filters))
+      .sort(byDateDesc);
   }
 
   async createTransaction(tx: Transaction): Promise<Transaction> {
-    this.transactions.push(tx);
-    this.commit();
+    this.data.transactions.push(tx);
+    this.commit('transactions');
     return tx;
   }
 
+  async updateTransaction(id: string, userId: string, patch: Partial<Transaction>): Promise<Transaction | undefined> {
+    const idx = this.data.transactions.findIndex(t => t.id === id && t.userId === userId);
+    if (idx < 0) return undefined;
+    this.data.transactions[idx] = { ...this.data.transactions[idx], ...patch, id, userId };
+    this.commit('transactions');
+    return this.data.transactions[idx];
+  }
+
   async deleteTransaction(id: string, userId: string): Promise<void> {
-    this.transactions = this.transactions.filter(t => !(t.id === id && t.userId === userId));
-    this.commit();
+    this.data.transactions = this.data.transactions.filter(t => !(t.id === id && t.userId === userId));
+    this.commit('transactions');
   }
 
   // --- Budget Queries ---
   async getBudgets(userId: string): Promise<Budget[]> {
-    const userBudgets = this.budgets.filter(b => b.userId === userId);
-    const txs = await this.getTransactions(userId);
-    
-    // Calculate spent amount dynamically
-    return userBudgets.map(b => {
-      const spent = txs
-        .filter(t => t.category === b.category) // Simple category match
-        .reduce((sum, t) => sum + t.amount, 0);
-      return { ...b, spent };
-    });
+    const stored = this.data.budgets.filter(b => b.userId === userId);
+    return (await evaluateBudgets(this, stored, userId)).map(withCurrentPeriod);
+  }
+
+  async getBudgetHistory(id: string, userId: string): Promise<BudgetPeriod[] | undefined> {
+    const stored = this.data.budgets.filter(b => b.id === id && b.userId === userId);
+    return (await evaluateBudgets(this, stored, userId))[0]?.periods;
   }
 
   async upsertBudget(budget: Budget): Promise<Budget> {
-    const idx = this.budgets.findIndex(b => b.id === budget.id);
-    if (idx >= 0) {
-      this.budgets[idx] = budget;
-    } else {
-      this.budgets.push(budget);
-    }
-    this.commit();
+    this.data.budgets = mergeById(this.data.budgets, [budget]);
+    this.commit('budgets');
     return budget;
   }
+
+  async deleteBudget(id: string, userId: string): Promise<void> {
+    this.data.budgets = this.data.budgets.filter(b => !(b.id === id && b.userId === userId));
+    this.commit('budgets');
+  }
+
+  // --- Exchange Rate Queries ---
+  async getRates(userId: string): Promise<ExchangeRate[]> {
+    return sortRates(this.data.rates.filter(r => r.userId === userId));
+  }
+
+  async upsertRate(rate: ExchangeRate): Promise<ExchangeRate> {
+    this.data.rates = mergeById(this.data.rates, [rate]);
+    this.commit('rates');
+    return rate;
+  }
+
+  async deleteRate(id: string, userId: string): Promise<void> {
+    this.data.rates = this.data.rates.filter(r => !(r.id === id && r.userId === userId));
+    this.commit('rates');
+  }
+
+  // --- Recurring Series Queries ---
+  async getRecurrences(userId: string): Promise<RecurringSeries[]> {
+    return this.data.recurrences.filter(r => r.userId === userId);
+  }
+
+  async upsertRecurrence(series: RecurringSeries): Promise<RecurringSeries> {
+    this.data.recurrences = mergeById(this.data.recurrences, [series]);
+    this.commit('recurrences');
+    return series;
+  }
+
+  async deleteRecurrence(id: string, userId: string): Promise<void> {
+    this.data.recurrences = this.data.recurrences.filter(r => !(r.id === id && r.userId === userId));
+    this.commit('recurrences');
+  }
+
+  // --- Settlement Queries ---
+  async getSettlements(userId: string): Promise<Settlement[]> {
+    return sortSettlements(this.data.settlements.filter(s => s.userId === userId));
+  }
+
+  async createSettlement(settlement: Settlement): Promise<Settlement> {
+    this.data.settlements.push(settlement);
+    this.commit('settlements');
+    return settlement;
+  }
+
+  async deleteSettlement(id: string, userId: string): Promise<void> {
+    this.data.settlements = this.data.settlements.filter(s => !(s.id === id && s.userId === userId));
+    this.commit('settlements');
+  }
+
+  // --- Account Queries ---
+  async getAccounts(userId: string): Promise<Account[]> {
+    return sortAccounts(this.data.accounts.filter(a => a.userId === userId));
+  }
+
+  async upsertAccount(account: Account): Promise<Account> {
+    this.data.accounts = mergeById(this.data.accounts, [account]);
+    this.commit('accounts');
+    return account;
+  }
+
+  async deleteAccount(id: string, userId: string): Promise<void> {
+    this.data.accounts = this.data.accounts.filter(a => !(a.id === id && a.userId === userId));
+    this.commit('accounts');
+  }
+
+  // --- Category Queries ---
+  async getCategories(userId: string): Promise<Category[]> {
+    return sortCategories(this.data.categories.filter(c => c.userId === userId));
+  }
+
+  async upsertCategory(category: Category): Promise<Category> {
+    this.data.categories = mergeById(this.data.categories, [category]);
+    this.commit('categories');
+    return category;
+  }
+
+  async deleteCategory(id: string, userId: string): Promise<void> {
+    this.data.categories = this.data.categories.filter(c => !(c.id === id && c.userId === userId));
+    this.commit('categories');
+  }
+
+  // --- Rule Queries ---
+  async getRules(userId: string): Promise<CategoryRule[]> {
+    return sortRules(this.data.rules.filter(r => r.userId === userId));
+  }
+
+  async upsertRule(rule: CategoryRule): Promise<CategoryRule> {
+    this.data.rules = mergeById(this.data.rules, [rule]);
+    this.commit('rules');
+    return rule;
+  }
+
+  async deleteRule(id: string, userId: string): Promise<void> {
+    this.data.rules = this.data.rules.filter(r => !(r.id === id && r.userId === userId));
+    this.commit('rules');
+  }
+
+  // --- Conversation Queries ---
+  async getConversations(userId: string): Promise<CoachConversation[]> {
+    return sortConversations(this.data.conversations.filter(c => c.userId === userId));
+  }
+
+  async upsertConversation(conversation: CoachConversation): Promise<CoachConversation> {
+    this.data.conversations = mergeById(this.data.conversations, [conversation]);
+    this.commit('conversations');
+    return conversation;
+  }
+
+  async deleteConversation(id: string, userId: string): Promise<void> {
+    this.data.conversations = this.data.conversations.filter(c => !(c.id === id && c.userId === userId));
+    this.commit('conversations');
+  }
+
+  // --- Ownership ---
+  async reassignUser(fromUserId: string, toUserId: string): Promise<void> {
+    const reown = <T extends { userId: string }>(list: T[]): T[] => list.map(r => (r.userId === fromUserId ? { ...r, userId: toUserId } : r));
+    const data = this.data;
+    data.transactions = reown(data.transactions);
+    data.budgets = reown(data.budgets);
+    data.rates = reown(data.rates);
+    data.recurrences = reown(data.recurrences);
+    data.settlements = reown(data.settlements);
+    data.accounts = reown(data.accounts);
+    data.categories = reown(data.categories);
+    data.rules = reown(data.rules);
+    data.conversations = reown(data.conversations);
+    this.commit('transactions', 'budgets', 'rates', 'recurrences', 'settlements', 'accounts', 'categories', 'rules', 'conversations');
+  }
+
+  // --- Backup ---
+  async snapshot(): Promise<StoreSnapshot> {
+    return {
+      users: [...this.data.users],
+      transactions: [...this.data.transactions],
+      budgets: [...this.data.budgets],
+      rates: [...this.data.rates],
+      recurrences: [...this.data.recurrences],
+      settlements: [...this.data.settlements],
+      accounts: [...this.data.accounts],
+      categories: [...this.data.categories],
+      rules: [...this.data.rules],
+      conversations: [...this.data.conversations]
+    };
+  }
+
+  async restore(data: StoreSnapshot, mode: RestoreMode): Promise<void> {
+    this.data = mode === 'replace'
+      ? { ...data }
+      : {
+        users: mergeById(this.data.users, data.users),
+        transactions: mergeById(this.data.transactions, data.transactions),
+        budgets: mergeById(this.data.budgets, data.budgets),
+        rates: mergeById(this.data.rates, data.rates),
+        recurrences: mergeById(this.data.recurrences, data.recurrences),
+        settlements: mergeById(this.data.settlements, data.settlements),
+        accounts: mergeById(this.data.accounts, data.accounts),
+        categories: mergeById(this.data.categories, data.categories),
+        rules: mergeById(this.data.rules, data.rules),
+        conversations: mergeById(this.data.conversations, data.conversations)
+      };
+    this.commit();
+  }
 }
 
-export const db = new MockDatabase();
+export function createRepository(): Repository {
+  const preferred = localStorage.getItem(STORAGE_KEYS.BACKEND);
+  if (preferred !== 'localStorage' && typeof indexedDB !== 'undefined') {
+    return new IndexedDbRepository(legacyLocalStorage, (rejected, errors) => quarantineRecords(localStorage, rejected, errors));
+  }
+  return new LocalStorageRepository();
+}
+
+// One session per browser, persisted so it survives reloads
+export const browserSession: SessionSource = {
+  listsAllProfiles: true, // Everyone on this device can see which profiles exist here
+  guestId: () => GUEST_USER.id,
+  get() {
+    try {
+      const session: { userId: string } | null = JSON.parse(localStorage.getItem(STORAGE_KEYS.SESSION) || 'null');
+      return session?.userId || GUEST_USER.id;
+    } catch (e) {
+      return GUEST_USER.id;
+    }
+  },
+  set(userId) {
+    if (userId === GUEST_USER.id) {
+      localStorage.removeItem(STORAGE_KEYS.SESSION);
+    } else {
+      localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify({ userId, signedInAt: new Date().toISOString() }));
+    }
+  }
+};
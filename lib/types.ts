@@ -6,13 +6,129 @@ export interface User {
   preferences: {
     currency: string;
     theme: 'dark' | 'light';
+    ai?: AiSettings; // Defaults to Gemini with its default models
   };
   createdAt: string;
+  credentials?: PasswordCredentials; // Absent for the guest profile
 }
 
+// PBKDF2-SHA256 digest of the password; see lib/auth.ts
+export interface PasswordCredentials {
+  salt: string; // Hex
+  hash: string; // Hex
+  iterations: number;
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which model backs parsing, receipts and the coach. API keys come from the
+// environment (GEMINI_API_KEY, AI_API_KEY), never from here.
+export interface AiSettings {
+  provider: AiProviderId;
+  fastModel?: string; // Parsing, receipts, categorisation; provider default when empty
+  proModel?: string; // Coach
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. a locally hosted model
+}
+
+export type AiFailureKind = 'not_configured' | 'network' | 'auth' | 'rate_limited' | 'invalid_response' | 'provider_error' | 'cancelled';
+
+export interface AiFailure {
+  kind: AiFailureKind;
+  provider: AiProviderId;
+  message: string;
+  status?: number; // Upstream HTTP status, when there was one
+}
+
+export type AiResult<T> = { ok: true, value: T } | { ok: false, failure: AiFailure };
+
+// Per-call controls for the AI-backed service methods; never serialised
+export interface AiRequestOptions {
+  signal?: AbortSignal; // Aborting cancels the model request and the call resolves with a 'cancelled' failure
+  onText?: (text: string) => void; // Streams the answer: called with everything written so far, each time it grows
+}
+
+// A lookup the coach made while answering, shown alongside the answer
+export interface CoachToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown; // What the model was given
+  error?: string; // Set instead of `result` when the lookup failed
+}
+
+export type CoachWidgetKind = 'category_bars' | 'trend_line' | 'budget_gauge' | 'transaction_list';
+
+// A block as the model writes it: markdown, or a widget drawn from one of its lookups
+export interface CoachBlockSpec {
+  markdown?: string;
+  widget?: CoachWidgetKind;
+  call?: number; // 1-based index into the reply's tool calls
+  category?: string; // budget_gauge: which budget
+  title?: string;
+}
+
+// Widget data is copied from the lookup results, never taken from the model's own text
+export type CoachWidget = { title: string, currency: string } & (
+  | { kind: 'category_bars', data: { category: string, amount: number, previous?: number }[] }
+  | { kind: 'trend_line', data: { date: string, amount: number }[] }
+  | { kind: 'budget_gauge', category: string, spent: number, limit: number, projected?: number, outlook?: BudgetOutlook }
+  | { kind: 'transaction_list', transactions: { date: string, merchant: string, category: string, amount: number, type: TransactionType }[] }
+);
+
+export type CoachBlock = { type: 'markdown', text: string } | { type: 'widget', widget: CoachWidget };
+
+export interface CoachMessage {
+  id: string;
+  role: 'user' | 'ai';
+  text: string; // Markdown; for structured replies, their markdown blocks joined
+  blocks?: CoachBlock[]; // Structured replies only
+  toolCalls?: CoachToolCall[]; // Replies only, in the order they were made
+  createdAt: string;
+  pinnedAt?: string; // Replies pinned as an insight card on the dashboard
+}
+
+// A coach thread; every turn is kept, but only the recent ones go back to the model verbatim
+export interface CoachConversation {
+  id: string;
+  userId: string;
+  title: string;
+  messages: CoachMessage[]; // Oldest first
+  summary?: string; // Model-written digest of the first `summarizedCount` messages
+  summarizedCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CoachAnswer {
+  conversation: CoachConversation; // With the question and the reply appended
+  message: CoachMessage; // The reply
+}
+
+// A pinned reply, with the question that led to it
+export interface CoachInsight {
+  conversationId: string;
+  messageId: string;
+  question?: string;
+  text: string;
+  pinnedAt: string;
+}
+
+// What the profile switcher may show without signing in
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  email: string;
+  isGuest: boolean;
+}
+
+// Amounts are always positive; the type says which way the money moved
+export type TransactionType = 'expense' | 'income' | 'transfer';
+
 export interface Transaction {
   id: string;
   userId: string; // Foreign key
+  type: TransactionType;
+  accountId?: string; // Account the money left (expense, transfer) or arrived in (income)
+  toAccountId?: string; // Transfers only: the receiving account
   amount: number;
   currency: string;
   date: string; // ISO 8601
@@ -21,6 +137,19 @@ export interface Transaction {
   description: string;
   tags: string[];
   isRecurring: boolean;
+  seriesId?: string; // Set when generated by, or attached to, a RecurringSeries
+  history?: TransactionChange[]; // Audit trail of edits, oldest first
+  convertedAmount?: number; // Calculated field, in the user's preferred currency
+  // Itemised receipts: items add up to subtotal, and subtotal + tax + tip to amount
+  items?: ReceiptItem[];
+  subtotal?: number;
+  tax?: number;
+  tip?: number;
+  split?: ExpenseSplit; // Shared with other people; absent for personal spending
+  appliedRules?: string[]; // Ids of the CategoryRules that fired when the entry was parsed or imported
+  flags?: string[]; // Warnings raised by those rules, e.g. "Large purchase"
+  alerts?: TransactionAlert[]; // Raised by lib/anomalies.ts when the entry was created
+  suggested?: Partial<Transaction>; // Drafts only: what the parser, rules or AI filled in; never stored
   aiMetadata?: {
     confidence: number;
     originalPrompt: string;
@@ -28,13 +157,207 @@ export interface Transaction {
   };
 }
 
+export type TransactionSort = 'date_desc' | 'date_asc' | 'amount_desc' | 'amount_asc' | 'merchant';
+
+/**
+ * One filter shape for the ledger, analytics and export. Every field is
+ * optional; an empty query matches everything. Amounts are compared in the
+ * user's preferred currency, and a category also matches its sub-categories.
+ */
+export interface TransactionQuery {
+  search?: string; // Case-insensitive, over merchant and description
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  minAmount?: number;
+  maxAmount?: number;
+  categories?: string[]; // Any of these
+  tags?: string[];
+  tagMatch?: 'any' | 'all'; // Defaults to 'any'
+  types?: TransactionType[];
+  accountId?: string; // Either side of a transfer counts
+  recurringOnly?: boolean;
+  sort?: TransactionSort; // Defaults to 'date_desc'
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  nextCursor?: string; // Absent on the last page
+  total: number; // Matches across all pages
+}
+
+export type AlertKind = 'duplicate' | 'unusual_amount' | 'new_merchant';
+
+export interface TransactionAlert {
+  kind: AlertKind;
+  message: string;
+  relatedId?: string; // duplicate: the existing entry this one looks like
+  dismissed?: boolean; // The user has seen it and says it is fine
+}
+
+export interface ReceiptItem {
+  description: string;
+  quantity: number;
+  unitPrice: number; // Negative for discount lines
+  category: string;
+}
+
+// --- Shared expenses ---
+// Participants are free-text names scoped to the ledger owner, who appears as SELF_PARTICIPANT (lib/splits.ts)
+
+export type SplitMethod = 'equal' | 'percentage' | 'exact';
+
+export interface SplitShare {
+  participant: string;
+  value?: number; // Percent for 'percentage', amount for 'exact'; unused for 'equal'
+  amount: number; // Resolved share of the transaction amount
+}
+
+export interface ExpenseSplit {
+  method: SplitMethod;
+  paidBy: string; // Participant who paid the whole bill
+  shares: SplitShare[]; // One per participant, including the payer
+}
+
+// What callers send; share amounts are resolved by the service
+export type SplitRequest = Omit<ExpenseSplit, 'shares'> & { shares: Omit<SplitShare, 'amount'>[] };
+
+// A settle-up payment between two participants
+export interface Settlement {
+  id: string;
+  userId: string;
+  from: string; // Participant paying back
+  to: string;
+  amount: number;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  note?: string;
+  createdAt: string;
+}
+
+// Net amount `debtor` owes `creditor`, in the user's preferred currency
+export interface PairBalance {
+  debtor: string;
+  creditor: string;
+  amount: number;
+}
+
+export interface TransactionChange {
+  field: keyof Transaction;
+  oldValue: unknown;
+  newValue: unknown;
+  timestamp: string;
+  actor: 'human' | 'ai';
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  userId: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number; // Negative for debt, e.g. a credit card carrying a balance
+  createdAt: string;
+}
+
+// Opening balance plus every transaction touching the account, in the account's currency
+export interface AccountBalance extends Account {
+  balance: number;
+  convertedBalance: number; // In the user's preferred currency
+}
+
+/**
+ * "Merchant contains X → category Y, tags Z" or "over N at merchant M → flag".
+ * Every condition given must hold; a rule needs at least one condition and one outcome.
+ */
+export interface CategoryRule {
+  id: string;
+  userId: string;
+  merchant?: string; // Case-insensitive substring of the merchant name
+  minAmount?: number; // Fires when the amount is above this, in the transaction's currency
+  category?: string;
+  tags?: string[];
+  flag?: string;
+  priority: number; // Higher runs first; the first matching rule with a category decides it
+  source: 'manual' | 'learned'; // Learned rules come from a user correcting a category
+  enabled: boolean;
+  createdAt: string;
+}
+
+// Transactions, budgets and series refer to a category by name
+export interface Category {
+  id: string;
+  userId: string;
+  name: string; // Unique per user, ignoring case
+  parentId?: string; // Sub-categories roll up into their parent
+  icon: string; // One of CATEGORY_ICONS in lib/categories.ts
+  color: string; // Hex, e.g. #0aff68
+  createdAt: string;
+}
+
+export interface ExchangeRate {
+  id: string;
+  userId: string;
+  base: string; // ISO 4217 code, e.g. EUR
+  quote: string; // ISO 4217 code, e.g. USD
+  rate: number; // 1 unit of base = rate units of quote
+  date: string; // YYYY-MM-DD the rate is effective from
+}
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number; // Every N days/weeks/months/years
+  dayOfMonth?: number; // Monthly only; clamped to short months. Defaults to the start date's day
+  startDate: string; // YYYY-MM-DD, first occurrence
+  endDate?: string; // YYYY-MM-DD inclusive
+}
+
+export interface RecurringSeries {
+  id: string;
+  userId: string;
+  rule: RecurrenceRule;
+  template: Pick<Transaction, 'amount' | 'currency' | 'category' | 'merchant' | 'description' | 'tags'> & Partial<Pick<Transaction, 'type' | 'accountId' | 'toAccountId'>>;
+  paused: boolean;
+  skippedDates: string[]; // Occurrences the user chose to skip
+  lastGeneratedDate?: string; // Occurrences on or before this day have been posted
+  createdAt: string;
+}
+
+export interface UpcomingBill {
+  seriesId: string;
+  date: string;
+  amount: number;
+  currency: string;
+  merchant: string;
+  category: string;
+}
+
 export interface Budget {
   id: string;
   userId: string;
   category: string;
   limitAmount: number;
+  currency: string; // Of limitAmount
   period: 'monthly' | 'weekly';
-  spent: number; // Calculated field
+  startDay?: number; // Day of month (1-28) or weekday (0 = Sunday) the period begins on
+  rollover?: boolean; // Carry unspent/overspent amounts into the next period
+  createdAt?: string;
+  spent: number; // Calculated field, current period only, in the user's preferred currency
+  convertedLimit?: number; // Calculated field, limitAmount in the user's preferred currency at today's rate
+  carriedIn?: number; // Calculated field, rollover added to this period's limit
+  periodStart?: string; // Calculated field, YYYY-MM-DD inclusive
+  periodEnd?: string; // Calculated field, YYYY-MM-DD exclusive
+}
+
+export interface BudgetPeriod {
+  start: string; // YYYY-MM-DD inclusive
+  end: string; // YYYY-MM-DD exclusive
+  limit: number; // limitAmount plus carriedIn
+  spent: number;
+  carriedIn: number;
 }
 
 export interface AiParseResponse {
@@ -43,9 +366,57 @@ export interface AiParseResponse {
   reasoning: string;
 }
 
+// Import Types
+export type ImportFormat = 'csv' | 'ofx' | 'qif';
+
+export interface CsvColumnMapping {
+  date: number; // Column indexes into the CSV row
+  amount?: number; // Single signed amount column...
+  debit?: number; // ...or separate debit/credit columns
+  credit?: number;
+  merchant: number;
+  description?: number;
+  category?: number;
+  currency?: number;
+  dateOrder: 'YMD' | 'MDY' | 'DMY';
+  decimalSeparator: '.' | ',';
+  hasHeader: boolean;
+}
+
+export interface ImportCandidate {
+  line: number; // Source row/record number, for the preview table
+  transaction: Partial<Transaction>;
+  isCredit: boolean; // Money in; imported as income
+  duplicateOf?: string; // Existing transaction id, or 'batch' for a repeat within the file
+  selected: boolean;
+}
+
+// Backup Types
+export interface BackupFile {
+  app: 'financial-zen';
+  version: number;
+  exportedAt: string;
+  users: User[];
+  transactions: Transaction[];
+  budgets: Budget[];
+  rates: ExchangeRate[];
+  recurrences: RecurringSeries[];
+  settlements: Settlement[];
+  accounts: Account[];
+  categories: Category[];
+  rules: CategoryRule[];
+  conversations: CoachConversation[];
+}
+
+// The persisted collections, as captured by a backup
+export type StoreSnapshot = Omit<BackupFile, 'app' | 'version' | 'exportedAt'>;
+
+export type RestoreMode = 'merge' | 'replace';
+
 // Analytics Types
 export interface CategorySpending {
   category: string;
+  color?: string; // Missing for names with no category record
   amount: number;
   percentage: number;
 }
@@ -55,9 +426,95 @@ export interface MonthlyTrend {
   amount: number;
 }
 
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+// The window a summary covers and the one it is compared with; all days YYYY-MM-DD, inclusive
+export interface AnalyticsPeriod {
+  granularity: AnalyticsGranularity;
+  start: string;
+  end: string;
+  previousStart: string;
+  previousEnd: string; // As far into the previous window as today is into this one
+}
+
+export interface CategoryDelta {
+  category: string;
+  color?: string;
+  current: number;
+  previous: number;
+  change: number; // current - previous
+  percentChange: number | null; // Null when nothing was spent in the previous period
+}
+
+// How fast the current budget periods are being used up compared with how far through them we are
+export interface BudgetVelocity {
+  score: number; // 0-100: 100 at or under pace, falling to 0 at twice the pace
+  spentPercent: number; // Spent, as a share of the combined limits
+  elapsedPercent: number; // Time gone, weighted by each budget's limit
+}
+
+// A projected amount with an 80% confidence band around it
+export interface ForecastBand {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface CategoryForecast extends ForecastBand {
+  category: string;
+  color?: string;
+  actual: number; // Spent so far this period
+  scheduled: number; // Recurring expenses still due this period
+}
+
+// One granularity step of the forecast; the current step includes what was already spent in it
+export interface ForecastPoint extends ForecastBand {
+  date: string;
+}
+
+export type BudgetOutlook = 'on_track' | 'may_exceed' | 'will_exceed' | 'over';
+
+export interface BudgetForecast {
+  budgetId: string;
+  category: string;
+  limit: number; // limitAmount plus carriedIn
+  spent: number;
+  projected: number; // Expected spend at the end of the budget's current period
+  high: number; // Top of the band; above `limit` means the budget may be exceeded
+  breachDate: string | null; // First day spend is expected to pass the limit (already passed for 'over')
+  outlook: BudgetOutlook;
+}
+
+/**
+ * End-of-period projection worked out from the ledger alone: the average
+ * daily spend of recent unscheduled expenses, plus every recurring expense
+ * still due. No AI is involved.
+ */
+export interface SpendingForecast extends ForecastBand {
+  currency: string;
+  period: Pick<AnalyticsPeriod, 'granularity' | 'start' | 'end'>;
+  asOf: string; // The day the projection starts from
+  actual: number;
+  scheduled: number;
+  dailyRate: number; // Expected unscheduled spend per day
+  categories: CategoryForecast[]; // Largest expected spend first
+  budgets: BudgetForecast[];
+  trend: ForecastPoint[]; // From the current step to the end of the period
+}
+
 export interface AnalyticsSummary {
-  totalSpent: number;
-  burnRate: number; // vs previous month
+  currency: string; // All amounts below are converted into this currency
+  period: AnalyticsPeriod;
+  totalSpent: number; // Expenses in the period; income and transfers are reported separately
+  previousSpent: number; // Expenses in the comparison window
+  totalIncome: number;
+  netCashFlow: number; // totalIncome - totalSpent
+  netBalance: number; // Sum of account balances, whatever the period
+  accounts: AccountBalance[];
+  burnRate: number | null; // % change in spend vs the previous period; null when it had none
+  averageDailySpend: number; // Over the days of the period up to today
+  categoryDeltas: CategoryDelta[]; // Largest movement first
+  budgetVelocity: BudgetVelocity | null; // Null without budgets
   topCategories: CategorySpending[];
-  trend: MonthlyTrend[];
+  trend: MonthlyTrend[]; // One point per granularity step up to today, dated by its first day
 }
@@ -0,0 +1,33 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { KeyValueStore } from '../lib/store';
+
+/**
+ * One JSON file per key under `dir`. Writes go to a temp file first and are
+ * renamed into place, so a crash mid-write never leaves half a collection.
+ */
+export class FileStore implements KeyValueStore {
+  constructor(private dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  private file(key: string): string {
+    if (!/^[\w.-]+$/.test(key)) throw new Error(`Invalid storage key: ${key}`);
+    return join(this.dir, `${key}.json`);
+  }
+
+  getItem(key: string): string | null {
+    try {
+      return readFileSync(this.file(key), 'utf8');
+    } catch (e) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    const target = this.file(key);
+    writeFileSync(`${target}.tmp`, value);
+    renameSync(`${target}.tmp`, target);
+  }
+}
@@ -0,0 +1,254 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomBytes } from 'node:crypto';
+import { join } from 'node:path';
+import * as services from '../lib/api';
+import { configureBackend } from '../lib/api';
+import { GUEST_USER, SessionSource, seedRates } from '../lib/repository';
+import { ArgSpec, matchRoute, SESSION_HEADER } from '../lib/routes';
+import { LocalStorageRepository } from '../lib/store';
+import { AiRequestOptions } from '../lib/types';
+import { restrictAiEndpoints } from '../lib/aiProviders';
+import { FileStore } from './fileStore';
+
+/**
+ * Standalone REST server for the service layer. Routes come from
+ * lib/routes.ts; storage is a directory of JSON files; the Gemini key is
+ * read from this process's environment and never sent to clients.
+ *
+ *   GEMINI_API_KEY=... ZEN_DATA_DIR=./data PORT=8787 npm run server
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = process.env.ZEN_DATA_DIR || join(process.cwd(), 'data');
+// Comma-separated origins that may call from another site; unset keeps the API same-origin
+const ALLOWED_ORIGINS = (process.env.ZEN_CORS_ORIGIN || '').split(',').map(o => o.trim()).filter(Boolean);
+const MAX_BODY_BYTES = 15 * 1024 * 1024; // Receipt photos arrive base64-encoded
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const SESSIONS_KEY = 'zen_server_sessions';
+
+// lib/ai.ts reads API_KEY, matching what vite.config.ts injects for in-browser builds
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+// AI_API_KEY only ever goes to these; profiles can pick among them but not add their own
+restrictAiEndpoints((process.env.AI_BASE_URLS || '').split(','));
+
+const store = new FileStore(DATA_DIR);
+const db = new LocalStorageRepository(store, 'file');
+
+// --- Sessions ---
+// Tokens are only kept as SHA-256 digests, so the sessions file can't be replayed.
+// `guestId` is the client's own guest profile, where it lands after signing out.
+type StoredSession = { userId: string, guestId?: string, expiresAt: number };
+const sessions: Record<string, StoredSession> = JSON.parse(store.getItem(SESSIONS_KEY) || '{}');
+const digest = (token: string) => createHash('sha256').update(token).digest('hex');
+const saveSessions = () => store.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+
+function resolveToken(token: string | undefined): StoredSession | undefined {
+  if (!token) return undefined;
+  const session = sessions[digest(token)];
+  if (!session) return undefined;
+  if (session.expiresAt < Date.now()) {
+    revokeToken(token);
+    return undefined;
+  }
+  // Sessions in use are kept alive, so a guest doesn't lose its ledger while it is still coming back
+  if (session.expiresAt - Date.now() < SESSION_TTL_MS / 2) {
+    session.expiresAt = Date.now() + SESSION_TTL_MS;
+    saveSessions();
+  }
+  return session;
+}
+
+function issueToken(userId: string, guestId: string): string {
+  const token = randomBytes(32).toString('hex');
+  const now = Date.now();
+  // Expired sessions are dropped here rather than left to pile up
+  Object.keys(sessions).forEach(key => {
+    if (sessions[key].expiresAt < now) delete sessions[key];
+  });
+  sessions[digest(token)] = { userId, guestId, expiresAt: now + SESSION_TTL_MS };
+  saveSessions();
+  return token;
+}
+
+function revokeToken(token: string) {
+  delete sessions[digest(token)];
+  saveSessions();
+}
+
+// Clients without a session never share GUEST_USER: each gets a guest id of its own, and a stored
+// profile only once it first writes, so anonymous reads cost nothing
+const newGuestId = () => `guest_${randomBytes(8).toString('hex')}`;
+
+async function createGuest(id: string) {
+  await db.createUser({ ...GUEST_USER, id, createdAt: new Date().toISOString() });
+  for (const rate of seedRates(id)) await db.upsertRate(rate);
+}
+
+// Routes that only move the session; they hand out a token but need no stored guest
+const SESSION_ACTIONS = new Set(['register', 'login', 'logout']);
+
+// Each request runs with its own user; AuthService reads and writes it through this source
+const requestScope = new AsyncLocalStorage<{ userId: string, guestId: string }>();
+const requestSession: SessionSource = {
+  listsAllProfiles: false,
+  get: () => requestScope.getStore()?.userId ?? GUEST_USER.id,
+  set: userId => {
+    const scope = requestScope.getStore();
+    if (scope) scope.userId = userId;
+  },
+  guestId: () => requestScope.getStore()?.guestId ?? GUEST_USER.id
+};
+
+configureBackend(db, requestSession);
+
+// --- HTTP plumbing ---
+function send(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject({ error: 'Request body too large', status: 413 });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) return resolve({});
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch (e) {
+        return reject({ error: 'Request body is not valid JSON', status: 400 });
+      }
+      if (isRecord(parsed)) resolve(parsed);
+      else reject({ error: 'Request body must be a JSON object', status: 400 });
+    });
+    req.on('error', reject);
+  });
+}
+
+// Inverse of buildRequest in lib/http.ts
+function resolveArgs(specs: ArgSpec[], params: Record<string, string>, query: URLSearchParams, body: Record<string, unknown>, options: AiRequestOptions): unknown[] {
+  return specs.map(spec => {
+    const [source, name, type] = spec.split(':');
+    if (source === 'options') return options;
+    if (source === 'param') return params[name];
+    if (source === 'body') return name ? body[name] : body;
+    if (!name) return Object.fromEntries(query);
+    const value = query.get(name);
+    if (value === null) return undefined;
+    if (type === 'boolean') return value === 'true';
+    return type === 'number' ? Number(value) : value;
+  });
+}
+
+// No headers for other origins, so browsers hold them to the same-origin policy
+function corsHeaders(req: IncomingMessage): Record<string, string> {
+  const origin = req.headers.origin;
+  const allowed = ALLOWED_ORIGINS.includes('*') ? '*' : origin && ALLOWED_ORIGINS.includes(origin) ? origin : undefined;
+  if (!allowed) return {};
+  return {
+    'Access-Control-Allow-Origin': allowed,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Expose-Headers': SESSION_HEADER,
+    'Vary': 'Origin'
+  };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const cors = corsHeaders(req);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const match = matchRoute(req.method || 'GET', url.pathname);
+  if (!match) return send(res, 404, { error: `No route for ${req.method} ${url.pathname}`, status: 404 }, cors);
+  const { route, params } = match;
+
+  let token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  const session = resolveToken(token);
+  const headers: Record<string, string> = { ...cors };
+
+  let body: Record<string, unknown> = {};
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    try {
+      body = await readBody(req);
+    } catch (e) {
+      return send(res, e.status || 400, e, headers);
+    }
+  }
+
+  // A new client, or one with an unknown or expired token, starts out as a fresh guest. Reads see
+  // an empty ledger; the first write stores the guest and hands the client a token for it.
+  const guestId = session?.guestId || newGuestId();
+  const userId = session?.userId || guestId;
+  const scope = { userId, guestId };
+  const writes = req.method !== 'GET' && !SESSION_ACTIONS.has(route.action);
+  if (writes && userId === guestId && !(await db.getUser(guestId))) await createGuest(guestId);
+  if (session ? !session.guestId : writes) {
+    if (token) revokeToken(token);
+    token = issueToken(userId, guestId);
+    headers[SESSION_HEADER] = token;
+  } else if (token && !session) {
+    // An unknown or expired token is dropped and the client carries on as an anonymous guest
+    headers[SESSION_HEADER] = '';
+  }
+
+  const service: unknown = (services as Record<string, unknown>)[route.service];
+  const action = isRecord(service) ? service[route.action] : undefined;
+  if (typeof action !== 'function') return send(res, 500, { error: 'Internal server error', status: 500 }, headers);
+  // A client that hangs up cancels whatever model call its request started
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  const options: AiRequestOptions = { signal: controller.signal };
+  if (route.stream) {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', ...headers });
+    options.onText = text => res.write(`${JSON.stringify({ text })}\n`);
+  }
+  const args = resolveArgs(route.args || [], params, url.searchParams, body, options);
+
+  try {
+    const result: unknown = await requestScope.run(scope, () => action.apply(service, args));
+    if (route.stream) return res.end(`${JSON.stringify(result)}\n`);
+
+    // login/register/logout moved the session; hand the client its new token
+    if (scope.userId !== userId) {
+      if (token) revokeToken(token);
+      headers[SESSION_HEADER] = issueToken(scope.userId, guestId);
+    }
+
+    if (route.raw) return send(res, 200, { data: result, status: 200 }, headers);
+    send(res, isRecord(result) && typeof result.status === 'number' ? result.status : 200, result, headers);
+  } catch (e) {
+    console.error(`${route.method} ${route.path} failed`, e);
+    if (route.stream) return res.end(`${JSON.stringify({ error: 'Internal server error', status: 500 })}\n`);
+    send(res, 500, { error: 'Internal server error', status: 500 }, headers);
+  }
+}
+
+createServer((req, res) => {
+  handle(req, res).catch(e => {
+    console.error('Unhandled request error', e);
+    if (!res.headersSent) send(res, 500, { error: 'Internal server error', status: 500 }, corsHeaders(req));
+  });
+}).listen(PORT, () => {
+  console.info(`Financial Zen API listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+});
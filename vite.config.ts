@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // When set, the UI talks to the REST server (npm run server) and the Gemini key stays there
+    const apiUrl = env.ZEN_API_URL || '';
     return {
       server: {
         port: 3000,
@@ -11,8 +13,10 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiUrl ? '' : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiUrl ? '' : env.GEMINI_API_KEY),
+        'process.env.AI_API_KEY': JSON.stringify(apiUrl ? '' : env.AI_API_KEY || ''),
+        'process.env.ZEN_API_URL': JSON.stringify(apiUrl)
       },
       resolve: {
         alias: {